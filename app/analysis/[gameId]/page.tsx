@@ -1,15 +1,40 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
-import { Chess } from 'chess.js'
 import ChessBoard from '@/components/chess/ChessBoard'
 import MoveList from '@/components/chess/MoveList'
 import AnalysisPanel from '@/components/chess/AnalysisPanel'
+import OpeningExplorer from '@/components/chess/OpeningExplorer'
 import EvaluationBar from '@/components/chess/EvaluationBar'
 import VerticalEvaluationBar from '@/components/chess/VerticalEvaluationBar'
+import { ArrowDown, ArrowUp, Cpu, Download, Save, Trash2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { toast } from '@/components/ui/use-toast'
+import { apiFetch } from '@/lib/api/fetch'
+import { evaluationInPawns } from '@/lib/chess/utils/chess-utils'
+import { parsePgn, STANDARD_START_FEN } from '@/lib/chess/pgn/parser'
+import { serializePgn } from '@/lib/chess/pgn/serializer'
+import { downloadPgn } from '@/lib/chess/pgn/download'
+import { MOVE_NAGS, NAG_NAMES, NAG_SYMBOLS, POSITION_NAGS, toggleNag, type BoardAnnotations } from '@/lib/chess/annotations'
+import {
+  addMove,
+  deleteFromPath,
+  demoteVariation,
+  fenAt,
+  getMove,
+  isMainLine,
+  promoteVariation,
+  updateMove,
+  type MovePath,
+  type TreeEdit,
+} from '@/lib/chess/move-tree'
+import { useEngineLines, type EngineLineView } from '@/hooks/useEngineLines'
+import type { MoveEvaluation, ParsedMove, PgnGame } from '@/lib/chess/types/chess'
+
+const sameMainLine = (a: ParsedMove[], b: ParsedMove[]) =>
+  a.length === b.length && a.every((move, i) => move.san === b[i].san)
 
 export default function AnalysisPage() {
   const params = useParams()
@@ -19,18 +44,105 @@ export default function AnalysisPage() {
   const [game, setGame] = useState<any>(null)
   const [analysis, setAnalysis] = useState<any>(null)
   const [mistakes, setMistakes] = useState<any[]>([])
-  const [chess] = useState(new Chess())
-  const [currentPosition, setCurrentPosition] = useState('start')
-  const [currentMove, setCurrentMove] = useState(0)
-  const [moves, setMoves] = useState<any[]>([])
+  const [evaluations, setEvaluations] = useState<MoveEvaluation[]>([])
+  // The game's PGN as a move tree; moves entered on the board become variations
+  const [pgnGame, setPgnGame] = useState<PgnGame | null>(null)
+  const [tree, setTree] = useState<ParsedMove[]>([])
+  const [currentPath, setCurrentPath] = useState<MovePath>([])
+  const [treeChanged, setTreeChanged] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [engineOn, setEngineOn] = useState(false)
   const [analyzing, setAnalyzing] = useState(false)
   const [loading, setLoading] = useState(true)
   const [currentEvaluation, setCurrentEvaluation] = useState(0)
+  const [currentMate, setCurrentMate] = useState<number | undefined>(undefined)
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [progress, setProgress] = useState<{ analyzed: number; total: number } | null>(null)
+  const [analysisError, setAnalysisError] = useState<string | null>(null)
+
+  const boardFen = fenAt(tree, pgnGame?.startFen ?? STANDARD_START_FEN, currentPath)
+  const currentMove = currentPath.length === 1 ? currentPath[0] : -1
+
+  const moves = useMemo(() => {
+    const pairs = []
+    for (let i = 0; i < tree.length; i += 2) {
+      pairs.push({
+        moveNumber: Math.floor(i / 2) + 1,
+        white: tree[i]?.san,
+        black: tree[i + 1]?.san
+      })
+    }
+    return pairs
+  }, [tree])
+
+  // Live mode: think on whatever is on the board until it changes
+  const { lines: engineLines, thinking: engineThinking } = useEngineLines(boardFen, {
+    depth: 'infinite',
+    enabled: engineOn
+  })
 
   useEffect(() => {
     fetchGameAndAnalysis()
   }, [gameId])
 
+  // Poll the background job until it finishes
+  useEffect(() => {
+    if (!jobId) return
+
+    const token = localStorage.getItem('nexuschess_token')
+    if (!token) return
+
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout>
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/analysis/jobs/${jobId}`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        })
+        const data = await response.json()
+        if (cancelled) return
+
+        if (!data.success) {
+          throw new Error(data.message || 'Failed to fetch analysis status')
+        }
+
+        const { job } = data
+        setProgress({ analyzed: job.progress, total: job.totalMoves })
+
+        if (job.status === 'completed') {
+          setAnalysis(data.analysis)
+          setMistakes(data.mistakes || [])
+          setEvaluations(data.moveEvaluations || [])
+          setJobId(null)
+          setAnalyzing(false)
+          return
+        }
+
+        if (job.status === 'failed') {
+          setAnalysisError(job.error || 'Analysis failed')
+          setJobId(null)
+          setAnalyzing(false)
+          return
+        }
+
+        timer = setTimeout(poll, 1000)
+      } catch (error) {
+        console.error('Analysis status error:', error)
+        if (!cancelled) {
+          timer = setTimeout(poll, 3000)
+        }
+      }
+    }
+
+    poll()
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [jobId])
+
   const fetchGameAndAnalysis = async () => {
     const token = localStorage.getItem('nexuschess_token')
     if (!token) {
@@ -52,26 +164,24 @@ export default function AnalysisPage() {
       const gameData = await gameResponse.json()
       setGame(gameData.game)
 
-      // Load PGN and extract moves
-      chess.loadPgn(gameData.game.pgn)
-      const history = chess.history({ verbose: true })
-      
-      const formattedMoves = []
-      for (let i = 0; i < history.length; i += 2) {
-        formattedMoves.push({
-          moveNumber: Math.floor(i / 2) + 1,
-          white: history[i]?.san,
-          black: history[i + 1]?.san
-        })
-      }
-      setMoves(formattedMoves)
+      // Load PGN, keeping any variations saved with it
+      const parsed = parsePgn(gameData.game.pgn)
+      setPgnGame(parsed)
+      setTree(parsed.moves)
 
       // Check if analysis exists
       if (gameData.game.analysis) {
         setAnalysis(gameData.game.analysis)
         setMistakes(gameData.game.mistakes || [])
-        // Set initial evaluation from analysis if available
-        setCurrentEvaluation(gameData.game.analysis.averageEvaluation || 0)
+        setEvaluations(gameData.game.moveEvaluations || [])
+      }
+
+      // Resume tracking an analysis that is still queued or running
+      const activeJob = gameData.game.analysisJobs?.[0]
+      if (activeJob) {
+        setAnalyzing(true)
+        setProgress({ analyzed: activeJob.progress, total: activeJob.totalMoves })
+        setJobId(activeJob.id)
       }
     } catch (error) {
       console.error('Error fetching game:', error)
@@ -85,6 +195,8 @@ export default function AnalysisPage() {
     if (!token) return
 
     setAnalyzing(true)
+    setAnalysisError(null)
+    setProgress(null)
 
     try {
       const response = await fetch('/api/analysis', {
@@ -98,36 +210,119 @@ export default function AnalysisPage() {
 
       const data = await response.json()
       
-      if (data.success) {
+      if (!data.success) {
+        throw new Error(data.message || 'Analysis failed')
+      }
+
+      if (data.cached) {
         setAnalysis(data.analysis)
-        setMistakes(data.mistakes || [])
+        setAnalyzing(false)
+      } else {
+        setJobId(data.job.id)
       }
     } catch (error) {
       console.error('Analysis error:', error)
-    } finally {
+      setAnalysisError(error instanceof Error ? error.message : 'Analysis failed')
       setAnalyzing(false)
     }
   }
 
+  const goToPath = (path: MovePath) => {
+    setCurrentPath(path)
+
+    // Stored evaluations only cover the moves actually played
+    const evaluation = path.length === 1 ? evaluations.find(e => e.ply === path[0] + 1) : undefined
+    setCurrentEvaluation(evaluation ? evaluationInPawns(evaluation) : 0)
+    setCurrentMate(evaluation?.mate ?? undefined)
+  }
+
+  // moveIndex is the zero-based ply, matching MoveList
   const handleMoveClick = (moveIndex: number) => {
-    chess.reset()
-    const history = chess.history({ verbose: true })
-    
-    for (let i = 0; i <= moveIndex * 2 + 1; i++) {
-      if (i < history.length) {
-        chess.move(history[i].san)
+    goToPath([moveIndex])
+  }
+
+  const applyEdit = (edit: TreeEdit | null) => {
+    if (!edit) return
+    if (!sameMainLine(edit.moves, tree)) {
+      toast({
+        title: 'The game itself can\'t be changed',
+        description: 'Moves that differ from the game are kept as variations.',
+        variant: 'destructive'
+      })
+      return
+    }
+    if (edit.moves !== tree) {
+      setTree(edit.moves)
+      setTreeChanged(true)
+    }
+    goToPath(edit.path)
+  }
+
+  const handleBoardMove = (move: { san: string }) => {
+    if (!pgnGame) return
+    applyEdit(addMove(tree, pgnGame.startFen, currentPath, move.san))
+  }
+
+  // Playing an engine line adds it to the tree as a variation
+  const handleLineClick = (line: EngineLineView) => {
+    if (!pgnGame) return
+    let edit: TreeEdit | null = { moves: tree, path: currentPath }
+    for (const san of line.san) {
+      edit = addMove(edit.moves, pgnGame.startFen, edit.path, san)
+      if (!edit) return
+    }
+    applyEdit(edit)
+  }
+
+  const selectedMove = getMove(tree, currentPath)
+
+  // Comments, NAGs, arrows and highlights belong to the move on the board
+  const updateSelectedMove = (update: (move: ParsedMove) => ParsedMove) => {
+    setTree(updateMove(tree, currentPath, update))
+    setTreeChanged(true)
+  }
+
+  const handleAnnotationsChange = ({ arrows, highlights }: BoardAnnotations) => {
+    updateSelectedMove(move => ({ ...move, commands: { ...move.commands, arrows, highlights } }))
+  }
+
+  const handleSaveVariations = async () => {
+    if (!pgnGame) return
+    setSaving(true)
+    try {
+      const pgn = serializePgn({ ...pgnGame, moves: tree })
+      const response = await apiFetch(`/api/games/${gameId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ pgn })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save variations')
       }
+
+      setTreeChanged(false)
+      toast({ title: 'Variations saved' })
+    } catch (error) {
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Failed to save variations',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
     }
-    
-    setCurrentPosition(chess.fen())
-    setCurrentMove(moveIndex)
-    
-    // Update evaluation based on current position (simplified logic)
-    // In a real implementation, this would use a chess engine
-    const evaluation = chess.turn() === 'w' ? 0.1 : -0.1 // Simple placeholder
-    setCurrentEvaluation(evaluation)
   }
 
+  const liveLine = engineOn ? engineLines[0] : undefined
+
+  const bestMoveArrows = liveLine?.moves[0]
+    ? [{
+        startSquare: liveLine.moves[0].slice(0, 2),
+        endSquare: liveLine.moves[0].slice(2, 4),
+        color: 'rgba(37, 99, 235, 0.7)'
+      }]
+    : []
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -173,15 +368,15 @@ export default function AnalysisPage() {
                       Playing as {game.playerColor}
                     </p>
                     <p className="text-sm text-gray-600">
-                      {game.timeControl} • {game.opening || 'Unknown Opening'}
+                      {game.timeControl} • {game.openingEco && `${game.openingEco} `}{game.opening || 'Unknown Opening'}
                     </p>
                   </div>
                   <div className="text-right">
                     <p className={`text-2xl font-bold ${
-                      game.result === 'win' ? 'text-green-600' : 
-                      game.result === 'loss' ? 'text-red-600' : 'text-gray-600'
+                      game.outcome === 'win' ? 'text-green-600' : 
+                      game.outcome === 'loss' ? 'text-red-600' : 'text-gray-600'
                     }`}>
-                      {game.result === 'win' ? '1-0' : game.result === 'loss' ? '0-1' : '½-½'}
+                      {(game.pgnResult || game.result) === '1/2-1/2' ? '½-½' : game.pgnResult || game.result}
                     </p>
                   </div>
                 </div>
@@ -196,7 +391,8 @@ export default function AnalysisPage() {
                   {/* Vertical Evaluation Bar */}
                   <div className="lg:col-span-1 flex justify-center">
                     <VerticalEvaluationBar
-                      evaluation={currentEvaluation}
+                      evaluation={liveLine ? liveLine.evaluation : currentEvaluation}
+                      mate={liveLine ? liveLine.mate : currentMate}
                       orientation="white"
                       height={400}
                     />
@@ -204,12 +400,122 @@ export default function AnalysisPage() {
                   
                   {/* Chess Board */}
                   <div className="lg:col-span-11 space-y-4">
+                    <div className="flex items-center gap-4">
+                      <Button
+                        onClick={() => setEngineOn(on => !on)}
+                        variant={engineOn ? 'default' : 'outline'}
+                        size="sm"
+                      >
+                        <Cpu className="h-4 w-4 mr-2" />
+                        {engineOn ? 'Engine on' : 'Engine off'}
+                      </Button>
+                      {liveLine && (
+                        <div className="flex-1">
+                          <EvaluationBar evaluation={liveLine.evaluation} mate={liveLine.mate} />
+                        </div>
+                      )}
+                    </div>
+
                     {/* Chess Board */}
                     <ChessBoard
-                      initialFen={currentPosition}
-                      readOnly={true}
+                      initialFen={boardFen}
+                      arrows={bestMoveArrows}
+                      onMove={handleBoardMove}
+                      annotations={selectedMove && {
+                        arrows: selectedMove.commands?.arrows || [],
+                        highlights: selectedMove.commands?.highlights || []
+                      }}
+                      onAnnotationsChange={selectedMove ? handleAnnotationsChange : undefined}
                     />
 
+                    {/* Variation Actions */}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Button
+                        onClick={() => applyEdit(promoteVariation(tree, currentPath))}
+                        disabled={currentPath.length < 3}
+                        variant="outline"
+                        size="sm"
+                      >
+                        <ArrowUp className="h-4 w-4 mr-2" />
+                        Promote
+                      </Button>
+                      <Button
+                        onClick={() => applyEdit(demoteVariation(tree, currentPath))}
+                        disabled={isMainLine(currentPath)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        <ArrowDown className="h-4 w-4 mr-2" />
+                        Demote
+                      </Button>
+                      <Button
+                        onClick={() => applyEdit(deleteFromPath(tree, currentPath))}
+                        disabled={isMainLine(currentPath)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete from here
+                      </Button>
+                      {!isMainLine(currentPath) && (
+                        <Button onClick={() => goToPath([currentPath[0]])} variant="ghost" size="sm">
+                          Back to game
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => pgnGame && downloadPgn(serializePgn({ ...pgnGame, moves: tree }))}
+                        variant="outline"
+                        size="sm"
+                        className="ml-auto"
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Download PGN
+                      </Button>
+                      <Button
+                        onClick={handleSaveVariations}
+                        disabled={!treeChanged || saving}
+                        size="sm"
+                      >
+                        <Save className="h-4 w-4 mr-2" />
+                        {saving ? 'Saving...' : 'Save to PGN'}
+                      </Button>
+                    </div>
+
+                    {/* Annotations */}
+                    {selectedMove && (
+                      <Card>
+                        <CardContent className="p-4 space-y-3">
+                          <div className="flex flex-wrap items-center gap-1">
+                            <span className="text-sm font-semibold mr-2">
+                              {selectedMove.number}{selectedMove.turn === 'w' ? '.' : '...'} {selectedMove.san}
+                            </span>
+                            {[...MOVE_NAGS, ...POSITION_NAGS].map(nag => (
+                              <Button
+                                key={nag}
+                                onClick={() => updateSelectedMove(move => ({ ...move, nags: toggleNag(move.nags, nag) }))}
+                                variant={selectedMove.nags?.includes(nag) ? 'default' : 'outline'}
+                                size="sm"
+                                className="h-7 min-w-7 px-2"
+                                title={NAG_NAMES[nag]}
+                              >
+                                {NAG_SYMBOLS[nag]}
+                              </Button>
+                            ))}
+                          </div>
+                          <textarea
+                            className="w-full min-h-[60px] rounded-md border border-input bg-background px-3 py-2 text-sm"
+                            placeholder="Comment on this move"
+                            value={selectedMove.comment || ''}
+                            onChange={(e) => updateSelectedMove(move => ({ ...move, comment: e.target.value || undefined }))}
+                          />
+                          <p className="text-xs text-gray-500">
+                            Right-click and drag on the board to draw arrows; right-click a square to circle it.
+                            Hold Shift, Alt or both to change the color.
+                          </p>
+                        </CardContent>
+                      </Card>
+                    )}
+
                     {/* Analysis Button */}
                     {!analysis && (
                       <Button
@@ -218,9 +524,17 @@ export default function AnalysisPage() {
                         className="w-full"
                         size="lg"
                       >
-                        {analyzing ? 'Analyzing with Stockfish...' : 'Analyze Game with Engine'}
+                        {analyzing
+                          ? progress && progress.total > 0
+                            ? `Analyzing with Stockfish... ${progress.analyzed}/${progress.total}`
+                            : 'Analyzing with Stockfish...'
+                          : 'Analyze Game with Engine'}
                       </Button>
                     )}
+
+                    {analysisError && (
+                      <p className="text-sm text-red-600">{analysisError}</p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -235,8 +549,12 @@ export default function AnalysisPage() {
                     <MoveList
                       moves={moves}
                       mistakes={mistakes}
+                      evaluations={evaluations}
                       currentMove={currentMove}
                       onMoveClick={handleMoveClick}
+                      tree={tree}
+                      currentPath={currentPath}
+                      onPathClick={goToPath}
                     />
                   </CardContent>
                 </Card>
@@ -246,7 +564,24 @@ export default function AnalysisPage() {
 
           {/* Right Column - Analysis */}
           <div className="xl:col-span-1">
-            <AnalysisPanel analysis={analysis} loading={analyzing} />
+            <AnalysisPanel
+              analysis={analysis}
+              loading={analyzing}
+              progress={progress}
+              engineLines={engineOn ? engineLines : undefined}
+              engineThinking={engineThinking}
+              engineFen={boardFen}
+              onLineClick={handleLineClick}
+            />
+
+            {/* How the user has done from this position in their other games */}
+            <div className="mt-6">
+              <OpeningExplorer
+                fen={boardFen}
+                color={game.playerColor === 'black' ? 'black' : 'white'}
+                onMoveClick={(san) => handleBoardMove({ san })}
+              />
+            </div>
 
             {/* Mistakes List */}
             {mistakes.length > 0 && (
@@ -260,7 +595,7 @@ export default function AnalysisPage() {
                       <div
                         key={index}
                         className="p-3 bg-gray-50 rounded-lg cursor-pointer hover:bg-gray-100"
-                        onClick={() => handleMoveClick(mistake.moveNumber - 1)}
+                        onClick={() => handleMoveClick((mistake.moveNumber - 1) * 2 + (game.playerColor === 'black' ? 1 : 0))}
                       >
                         <div className="flex justify-between items-start">
                           <div>
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { verifyToken } from '@/lib/auth'
+import { isStaleJob, startAnalysisWorker } from '@/lib/chess/analysis-queue'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const authHeader = request.headers.get('Authorization')
+    const tokenStr = authHeader?.startsWith('Bearer ')
+      ? authHeader.substring(7)
+      : request.cookies.get('nexuschess_token')?.value
+
+    if (!tokenStr) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(tokenStr)
+
+    if (!decoded) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const job = await prisma.analysisJob.findUnique({
+      where: { id }
+    })
+
+    if (!job || job.userId !== decoded.userId) {
+      return NextResponse.json(
+        { success: false, message: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    // Pick the queue back up if the server restarted with jobs outstanding,
+    // including one whose worker died mid-analysis
+    if (job.status === 'pending' || isStaleJob(job)) {
+      startAnalysisWorker()
+    }
+
+    if (job.status !== 'completed') {
+      return NextResponse.json({
+        success: true,
+        job
+      })
+    }
+
+    const [analysis, mistakes, moveEvaluations] = await Promise.all([
+      prisma.analysis.findUnique({ where: { gameId: job.gameId } }),
+      prisma.mistake.findMany({
+        where: { gameId: job.gameId },
+        orderBy: { moveNumber: 'asc' }
+      }),
+      prisma.moveEvaluation.findMany({
+        where: { gameId: job.gameId },
+        orderBy: { ply: 'asc' }
+      })
+    ])
+
+    return NextResponse.json({
+      success: true,
+      job,
+      analysis,
+      mistakes,
+      moveEvaluations
+    })
+  } catch (error) {
+    console.error('Get analysis job error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
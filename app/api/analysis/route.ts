@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import { verifyToken } from '@/lib/auth'
-import { GameAnalyzer } from '@/lib/chess/analyzer'
+import { enqueueAnalysis } from '@/lib/chess/analysis-queue'
 
 export async function POST(request: NextRequest) {
   try {
@@ -58,61 +58,20 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Analyze game
-    const analyzer = new GameAnalyzer()
-    const analysis = await analyzer.analyzeGame(game.pgn, game.playerColor as 'white' | 'black')
+    // Analysis runs in the background; clients poll the job for progress
+    const job = await enqueueAnalysis(gameId, decoded.userId)
 
-    // Save analysis
-    const savedAnalysis = await prisma.analysis.create({
-      data: {
-        gameId,
-        engineDepth: 15,
-        averageAccuracy: analysis.averageAccuracy,
-        blunders: analysis.blunders,
-        mistakes: analysis.mistakes,
-        inaccuracies: analysis.inaccuracies,
-        brilliantMoves: analysis.brilliantMoves,
-        openingPhase: analysis.openingPhase,
-        middlegamePhase: analysis.middlegamePhase,
-        endgamePhase: analysis.endgamePhase
-      }
-    })
-
-    // Save mistakes
-    await Promise.all(
-      analysis.mistakesList.map(mistake =>
-        prisma.mistake.create({
-          data: {
-            gameId,
-            moveNumber: mistake.moveNumber,
-            fen: mistake.fen,
-            playedMove: mistake.playedMove,
-            bestMove: mistake.bestMove,
-            evaluation: mistake.evaluation,
-            previousEval: mistake.previousEval,
-            severity: mistake.severity,
-            phase: mistake.phase,
-            explanation: mistake.explanation
-          }
-        })
-      )
+    return NextResponse.json(
+      {
+        success: true,
+        job
+      },
+      { status: 202 }
     )
-
-    // Update game accuracy
-    await prisma.game.update({
-      where: { id: gameId },
-      data: { accuracy: analysis.averageAccuracy }
-    })
-
-    return NextResponse.json({
-      success: true,
-      analysis: savedAnalysis,
-      mistakes: analysis.mistakesList
-    })
   } catch (error) {
     console.error('Analysis error:', error)
     return NextResponse.json(
-      { success: false, message: 'Analysis failed' },
+      { success: false, message: 'Failed to queue analysis' },
       { status: 500 }
     )
   }
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generateToken } from '@/lib/auth'
+import { prisma } from '@/lib/db/prisma'
+import { decryptSecret, encryptSecret } from '@/lib/crypto'
+import {
+  LICHESS_OAUTH_COOKIE,
+  exchangeLichessCode,
+  getLichessAccount,
+  getLichessEmail,
+  lichessRedirectUri,
+  type LichessOAuthState,
+} from '@/lib/api/lichess-oauth'
+
+/**
+ * Send the browser to the page that finishes sign-in, with the session
+ * token or an error in the URL fragment so it never reaches a server log
+ */
+function finish(request: NextRequest, params: Record<string, string>) {
+  const url = new URL('/login/lichess', process.env.APP_URL || request.nextUrl.origin)
+  url.hash = new URLSearchParams(params).toString()
+
+  const response = NextResponse.redirect(url)
+  response.cookies.delete({ name: LICHESS_OAUTH_COOKIE, path: '/api/auth/lichess' })
+  return response
+}
+
+function readState(request: NextRequest): LichessOAuthState | null {
+  const cookie = request.cookies.get(LICHESS_OAUTH_COOKIE)?.value
+  if (!cookie) return null
+  try {
+    return JSON.parse(decryptSecret(cookie))
+  } catch {
+    return null
+  }
+}
+
+async function availableUsername(name: string): Promise<string> {
+  for (let i = 0; ; i++) {
+    const candidate = i === 0 ? name : `${name}-lichess${i > 1 ? i : ''}`
+    const existing = await prisma.user.findUnique({ where: { username: candidate }, select: { id: true } })
+    if (!existing) return candidate
+  }
+}
+
+/**
+ * Attach the Lichess account to a user. Only this link is verified; others
+ * who linked the same name without signing in keep their unverified links.
+ */
+function linkAccount(userId: string, data: object) {
+  return prisma.user.update({ where: { id: userId }, data, select: { id: true, email: true } })
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const saved = readState(request)
+
+  if (searchParams.get('error')) {
+    return finish(request, { error: 'Lichess sign-in was cancelled' })
+  }
+
+  const code = searchParams.get('code')
+  if (!saved || !code || searchParams.get('state') !== saved.state) {
+    return finish(request, { error: 'Lichess sign-in expired. Please try again.' })
+  }
+
+  try {
+    const { accessToken, expiresAt } = await exchangeLichessCode(
+      code,
+      saved.verifier,
+      lichessRedirectUri(request.nextUrl.origin)
+    )
+    const account = await getLichessAccount(accessToken)
+
+    const lichessData = {
+      lichessUserId: account.id,
+      lichessUsername: account.username,
+      lichessVerified: true,
+      lichessAccessToken: encryptSecret(accessToken),
+      lichessTokenExpiresAt: expiresAt,
+    }
+
+    const owner = await prisma.user.findUnique({
+      where: { lichessUserId: account.id },
+      select: { id: true },
+    })
+
+    let user: { id: string; email: string }
+    if (saved.linkUserId) {
+      if (owner && owner.id !== saved.linkUserId) {
+        return finish(request, { error: 'This Lichess account is linked to another user' })
+      }
+      user = await linkAccount(saved.linkUserId, lichessData)
+    } else if (owner) {
+      user = await linkAccount(owner.id, lichessData)
+    } else {
+      const email = (await getLichessEmail(accessToken)) || `${account.id}@lichess.invalid`
+      const emailTaken = await prisma.user.findUnique({ where: { email }, select: { id: true } })
+      if (emailTaken) {
+        return finish(request, {
+          error: 'An account with this email already exists. Sign in with your password and connect Lichess from your profile.',
+        })
+      }
+
+      const created = await prisma.user.create({
+        data: {
+          email,
+          username: await availableUsername(account.username),
+          profile: { create: {} },
+        },
+        select: { id: true },
+      })
+      user = await linkAccount(created.id, lichessData)
+    }
+
+    return finish(request, {
+      token: generateToken(user.id, user.email),
+      next: saved.linkUserId ? '/dashboard/profile' : '/dashboard',
+    })
+  } catch (error) {
+    console.error('Lichess sign-in failed:', error)
+    return finish(request, { error: 'Lichess sign-in failed. Please try again.' })
+  }
+}
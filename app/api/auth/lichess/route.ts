@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomBytes } from 'crypto'
+import { verifyToken } from '@/lib/auth'
+import { encryptSecret } from '@/lib/crypto'
+import {
+  LICHESS_OAUTH_COOKIE,
+  createPkcePair,
+  lichessAuthorizationUrl,
+  lichessRedirectUri,
+  type LichessOAuthState,
+} from '@/lib/api/lichess-oauth'
+
+/**
+ * Start Lichess sign-in. Signed-in users link Lichess to their account
+ * instead. Returns the Lichess authorization URL to send the browser to.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const tokenStr = request.headers.get('authorization')?.replace('Bearer ', '')
+    const linkUserId = tokenStr ? verifyToken(tokenStr)?.userId : undefined
+
+    const { verifier, challenge } = createPkcePair()
+    const state = randomBytes(16).toString('base64url')
+    const oauthState: LichessOAuthState = { verifier, state, linkUserId }
+
+    const response = NextResponse.json({
+      success: true,
+      url: lichessAuthorizationUrl(lichessRedirectUri(request.nextUrl.origin), state, challenge),
+    })
+
+    // The verifier never leaves the server unencrypted
+    response.cookies.set(LICHESS_OAUTH_COOKIE, encryptSecret(JSON.stringify(oauthState)), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/api/auth/lichess',
+      maxAge: 10 * 60,
+    })
+
+    return response
+  } catch (error) {
+    console.error('Failed to start Lichess sign-in:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to start Lichess sign-in' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
-import { verifyPassword, generateToken } from '@/lib/auth'
+import { verifyPassword, generateToken, publicUserSelect } from '@/lib/auth'
 import { LoginData, AuthResponse } from '@/types/user'
 
 export async function POST(request: NextRequest) {
@@ -18,10 +18,12 @@ export async function POST(request: NextRequest) {
 
     // Find user
     const user = await prisma.user.findUnique({
-      where: { email }
+      where: { email },
+      select: { ...publicUserSelect, password: true }
     })
 
-    if (!user) {
+    // Accounts created through Lichess sign-in have no password
+    if (!user?.password) {
       return NextResponse.json(
         { success: false, message: 'Invalid credentials' } as AuthResponse,
         { status: 401 }
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, publicUserSelect } from '@/lib/auth'
+import { prisma } from '@/lib/db/prisma'
+import { AuthResponse } from '@/types/user'
+
+/**
+ * The signed-in user, e.g. after a sign-in that only hands the client a token
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const user = await prisma.user.findUnique({
+      where: { id: auth.token.userId },
+      select: publicUserSelect
+    })
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' } as AuthResponse,
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, user } as AuthResponse)
+  } catch (error) {
+    console.error('Failed to load user:', error)
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' } as AuthResponse,
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
-import { hashPassword, generateToken } from '@/lib/auth'
+import { hashPassword, generateToken, publicUserSelect } from '@/lib/auth'
 import { verifyChessComUser } from '@/lib/api/chess-com'
+import { getLichessUser } from '@/lib/api/lichess'
 import { RegisterData, AuthResponse } from '@/types/user'
 
 export async function POST(request: NextRequest) {
   try {
     const body: RegisterData = await request.json()
-    const { email, username, password, chesscomUsername } = body
+    const { email, username, password, chesscomUsername, lichessUsername } = body
 
     // Validation
     if (!email || !username || !password) {
@@ -43,6 +44,20 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Check the Lichess username exists, keeping the name as Lichess spells it.
+    // The link stays unverified until the user signs in with Lichess.
+    let lichessName: string | null = null
+    if (lichessUsername) {
+      const lichessUser = await getLichessUser(lichessUsername)
+      if (!lichessUser) {
+        return NextResponse.json(
+          { success: false, message: 'Lichess username not found' } as AuthResponse,
+          { status: 400 }
+        )
+      }
+      lichessName = lichessUser.username
+    }
+
     // Hash password
     const hashedPassword = await hashPassword(password)
 
@@ -54,17 +69,9 @@ export async function POST(request: NextRequest) {
         password: hashedPassword,
         chesscomUsername: chesscomUsername || null,
         chesscomVerified,
+        lichessUsername: lichessName,
       },
-      select: {
-        id: true,
-        email: true,
-        username: true,
-        chesscomUsername: true,
-        chesscomVerified: true,
-        rating: true,
-        createdAt: true,
-        updatedAt: true,
-      }
+      select: publicUserSelect
     })
 
     // Create profile
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { verifyToken } from '@/lib/auth'
 import { prisma } from '@/lib/db/prisma'
 import { getChessComStats } from '@/lib/api/chess-com'
+import { upstreamErrorResponse } from '@/lib/api/upstream-error'
 
 export async function GET(request: NextRequest) {
   try {
@@ -43,7 +44,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ stats })
   } catch (error) {
     console.error('Failed to fetch Chess.com stats:', error)
-    return NextResponse.json(
+    return upstreamErrorResponse(error) ?? NextResponse.json(
       { error: 'Failed to fetch stats' },
       { status: 500 }
     )
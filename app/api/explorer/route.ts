@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Chess } from 'chess.js'
+import { authenticateRequest } from '@/lib/auth'
+import { exploreUserPosition } from '@/lib/chess/opening-explorer'
+import { STANDARD_START_FEN } from '@/lib/chess/pgn/parser'
+import type { ExplorerFilters } from '@/lib/chess/opening-tree'
+
+const parseDate = (value: string | null) => {
+  if (!value) return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+// A date without a time covers that whole day, up to the next midnight
+const parseEndDate = (value: string | null) => {
+  const date = parseDate(value)
+  if (date && /^\d{4}-\d{2}-\d{2}$/.test(value!)) date.setUTCDate(date.getUTCDate() + 1)
+  return date
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const { searchParams } = new URL(request.url)
+    const fen = searchParams.get('fen') || STANDARD_START_FEN
+    try {
+      new Chess(fen)
+    } catch {
+      return NextResponse.json({ error: 'Invalid FEN' }, { status: 400 })
+    }
+
+    const filters: ExplorerFilters = {}
+
+    const color = searchParams.get('color')
+    if (color === 'white' || color === 'black') {
+      filters.color = color
+    } else if (color && color !== 'all') {
+      return NextResponse.json({ error: 'color must be white, black or all' }, { status: 400 })
+    }
+
+    const timeClass = searchParams.get('timeClass')
+    if (timeClass && timeClass !== 'all') {
+      filters.timeClass = timeClass
+    }
+
+    const from = parseDate(searchParams.get('from'))
+    const to = parseEndDate(searchParams.get('to'))
+    if (from === null || to === null) {
+      return NextResponse.json({ error: 'from and to must be dates' }, { status: 400 })
+    }
+    filters.from = from
+    filters.to = to
+
+    const position = await exploreUserPosition(auth.token.userId, fen, filters)
+    return NextResponse.json({ fen, ...position })
+  } catch (error) {
+    console.error('Failed to explore position:', error)
+    return NextResponse.json(
+      { error: 'Failed to explore position' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import { verifyToken } from '@/lib/auth'
+import { parsePgn } from '@/lib/chess/pgn/parser'
 
 export async function GET(
   request: NextRequest,
@@ -37,6 +38,14 @@ export async function GET(
         analysis: true,
         mistakes: {
           orderBy: { moveNumber: 'asc' }
+        },
+        moveEvaluations: {
+          orderBy: { ply: 'asc' }
+        },
+        analysisJobs: {
+          where: { status: { in: ['pending', 'running'] } },
+          orderBy: { createdAt: 'desc' },
+          take: 1
         }
       }
     })
@@ -59,4 +68,90 @@ export async function GET(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Save an annotated PGN for the game. Variations, comments and NAGs can
+ * change, but the moves actually played must stay the same.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const authHeader = request.headers.get('Authorization')
+    const tokenStr = authHeader?.startsWith('Bearer ')
+      ? authHeader.substring(7)
+      : request.cookies.get('nexuschess_token')?.value
+
+    if (!tokenStr) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = verifyToken(tokenStr)
+
+    if (!decoded) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid token' },
+        { status: 401 }
+      )
+    }
+
+    const { pgn } = await request.json() as { pgn?: string }
+    if (!pgn || !pgn.trim()) {
+      return NextResponse.json(
+        { success: false, message: 'PGN is required' },
+        { status: 400 }
+      )
+    }
+
+    const game = await prisma.game.findUnique({
+      where: { id },
+      select: { userId: true, pgn: true }
+    })
+
+    if (!game || game.userId !== decoded.userId) {
+      return NextResponse.json(
+        { success: false, message: 'Game not found' },
+        { status: 404 }
+      )
+    }
+
+    const parsed = parsePgn(pgn)
+    if (parsed.error) {
+      return NextResponse.json(
+        { success: false, message: `${parsed.error.message} (line ${parsed.error.line}, column ${parsed.error.column})` },
+        { status: 400 }
+      )
+    }
+
+    const played = parsePgn(game.pgn).moves.map(move => move.san).join(' ')
+    if (parsed.moves.map(move => move.san).join(' ') !== played) {
+      return NextResponse.json(
+        { success: false, message: 'The main line must match the moves played' },
+        { status: 400 }
+      )
+    }
+
+    const updated = await prisma.game.update({
+      where: { id },
+      data: { pgn }
+    })
+
+    return NextResponse.json({
+      success: true,
+      game: updated
+    })
+  } catch (error) {
+    console.error('Update game error:', error)
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
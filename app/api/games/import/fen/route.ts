@@ -1,29 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyToken } from '@/lib/auth'
-import { prisma } from '@/lib/db/prisma'
-
-// Import Chess separately
-let Chess: any
-try {
-  const chessModule = await import('chess.js')
-  Chess = chessModule.Chess
-} catch {
-  Chess = class {}
-}
+import { Chess } from 'chess.js'
+import { authenticateRequest } from '@/lib/auth'
+import { parsePgn } from '@/lib/chess/pgn/parser'
+import { mapPgnGame } from '@/lib/ingest/pgn'
+import { writeGameRecords } from '@/lib/ingest/store'
 
 export async function POST(request: NextRequest) {
   try {
-    const tokenStr = request.headers.get('authorization')?.replace('Bearer ', '') || 
-                     request.cookies.get('nexuschess_token')?.value
-    
-    if (!tokenStr) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const token = verifyToken(tokenStr)
-    if (!token) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
 
     const { fen, pgn, opponent, timeControl, timeClass } = await request.json() as {
       fen?: string
@@ -40,71 +25,49 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    try {
-      const chess = new Chess()
-      
-      if (pgn) {
-        chess.loadPgn(pgn)
-      } else if (fen) {
-        chess.load(fen)
-      }
-
-      // Extract opening info if PGN provided
-      let openingEco: string | null = null
-      let opening: string | null = null
-      
-      if (pgn) {
-        const headers = pgn.match(/\[(\w+)\s+"([^"]*)"\]/g) || []
-        for (const header of headers) {
-          if (header.startsWith('[ECO')) {
-            openingEco = header.match(/"([^"]*)"/)?.[1] || null
-          }
-          if (header.startsWith('[Opening')) {
-            opening = header.match(/"([^"]*)"/)?.[1] || null
-          }
-        }
-      }
-
-      // Determine result
-      let result = '*'
-      if (chess.isGameOver()) {
-        if (chess.isCheckmate()) {
-          result = chess.turn() === 'w' ? '0-1' : '1-0'
-        } else if (chess.isDraw() || chess.isStalemate()) {
-          result = '1/2-1/2'
-        }
+    // A bare position is stored as a PGN with no moves
+    let text = pgn
+    if (!text) {
+      try {
+        text = new Chess(fen).pgn()
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid FEN or PGN format' },
+          { status: 400 }
+        )
       }
+    }
 
-      // Determine player color (default to white)
-      const playerColor = chess.turn() === 'w' ? 'black' : 'white'
-
-      // Create game record
-      const game = await prisma.game.create({
-        data: {
-          userId: token.userId,
-          pgn: pgn || chess.pgn(),
-          result,
-          playerColor,
-          opponent: opponent || 'Manual Import',
-          timeControl: timeControl || 'Unrated',
-          timeClass: timeClass || null,
-          date: new Date(),
-          opening,
-          openingEco,
-        },
-      })
-
-      return NextResponse.json({
-        success: true,
-        gameId: game.id,
-        message: 'Game imported successfully',
-      })
-    } catch (error) {
+    const game = parsePgn(text)
+    if (game.error) {
       return NextResponse.json(
-        { error: 'Invalid FEN or PGN format' },
+        { error: `Invalid FEN or PGN format: ${game.error.message} (line ${game.error.line}, column ${game.error.column})` },
         { status: 400 }
       )
     }
+
+    // The user is taken to be the side that moved last
+    const lastFen = game.moves.length > 0 ? game.moves[game.moves.length - 1].fen : game.startFen
+    const record = mapPgnGame(game, {
+      source: 'manual',
+      playerColor: lastFen.split(' ')[1] === 'w' ? 'black' : 'white',
+      pgn: text,
+      opponent: opponent || 'Manual Import',
+      timeControl: timeControl || 'Unrated',
+      timeClass: timeClass || null,
+      date: new Date(),
+    })
+
+    const [written] = await writeGameRecords(auth.token.userId, [record])
+    if (!written.id) {
+      throw new Error(written.error)
+    }
+
+    return NextResponse.json({
+      success: true,
+      gameId: written.id,
+      message: 'Game imported successfully',
+    })
   } catch (error) {
     console.error('Failed to import FEN/PGN:', error)
     return NextResponse.json(
@@ -113,4 +76,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
@@ -1,34 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyToken } from '@/lib/auth'
+import { authenticateRequest } from '@/lib/auth'
 import { prisma } from '@/lib/db/prisma'
-import { getLichessGames } from '@/lib/api/lichess'
-
-// Import Chess separately
-let Chess: any
-try {
-  const chessModule = await import('chess.js')
-  Chess = chessModule.Chess
-} catch {
-  Chess = class {}
-}
+import { streamLichessGames } from '@/lib/api/lichess'
+import { storedLichessToken } from '@/lib/api/lichess-oauth'
+import { fetchFailureResponse } from '@/lib/api/upstream-error'
+import { importLichessGames } from '@/lib/ingest/lichess'
 
 export async function POST(request: NextRequest) {
   try {
-    const tokenStr = request.headers.get('authorization')?.replace('Bearer ', '') || 
-                     request.cookies.get('nexuschess_token')?.value
-    
-    if (!tokenStr) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
 
-    const token = verifyToken(tokenStr)
-    if (!token) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
+    const body = await request.json().catch(() => ({})) as {
+      username?: string
+      max?: number
     }
 
-    const { username, max = 50 } = await request.json() as {
-      username: string
-      max?: number
+    // Default to the linked account
+    let username = body.username
+    if (!username) {
+      const user = await prisma.user.findUnique({
+        where: { id: auth.token.userId },
+        select: { lichessUsername: true }
+      })
+      username = user?.lichessUsername || undefined
     }
 
     if (!username) {
@@ -38,10 +33,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Fetch games from Lichess
-    const lichessGames = await getLichessGames(username, max)
+    const { imported, skipped, failed, error } = await importLichessGames(
+      auth.token.userId,
+      username,
+      streamLichessGames(username, {
+        max: body.max ?? 50,
+        token: await storedLichessToken(auth.token.userId),
+      })
+    )
+
+    if (error && imported === 0 && skipped === 0) {
+      return fetchFailureResponse(error)
+    }
 
-    if (lichessGames.length === 0) {
+    if (imported === 0 && skipped === 0 && failed === 0) {
       return NextResponse.json({
         success: true,
         imported: 0,
@@ -49,95 +54,13 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    let imported = 0
-    let failed = 0
-
-    for (const game of lichessGames) {
-      try {
-        if (!game.pgn || !game.moves) continue
-
-        // Determine player's color
-        const isWhite = game.players.white.user?.name.toLowerCase() === username.toLowerCase()
-
-        // Parse PGN
-        const chess = new Chess()
-        chess.loadPgn(game.pgn || game.moves)
-
-        // Extract opening info
-        const headers = (game.pgn || game.moves).match(/\[(\w+)\s+"([^"]*)"\]/g) || []
-        let openingEco: string | null = null
-        let opening: string | null = null
-
-        for (const header of headers) {
-          if (header.startsWith('[ECO')) {
-            openingEco = header.match(/"([^"]*)"/)?.[1] || null
-          }
-          if (header.startsWith('[Opening')) {
-            opening = header.match(/"([^"]*)"/)?.[1] || null
-          }
-        }
-
-        // Determine result
-        let result = '*'
-        if (game.status === 'mate') {
-          result = game.winner === 'white' ? '1-0' : '0-1'
-        } else if (game.status === 'draw' || game.status === 'stalemate') {
-          result = '1/2-1/2'
-        }
-
-        // Map Lichess speed to time class
-        const timeClassMap: Record<string, string> = {
-          'bullet': 'bullet',
-          'blitz': 'blitz',
-          'rapid': 'rapid',
-          'classical': 'classical',
-        }
-        const timeClass = timeClassMap[game.perf] || game.speed
-
-        // Format time control
-        let timeControl = game.perf || game.speed
-        if (game.clock) {
-          timeControl = `${Math.floor(game.clock.initial / 60)}+${game.clock.increment}`
-        }
-
-        // Get opponent info
-        const opponent = isWhite 
-          ? game.players.black.user?.name || 'Anonymous'
-          : game.players.white.user?.name || 'Anonymous'
-        
-        const opponentRating = isWhite
-          ? game.players.black.rating
-          : game.players.white.rating
-
-        // Create game record
-        await prisma.game.create({
-          data: {
-            userId: token.userId,
-            pgn: game.pgn || game.moves,
-            result,
-            playerColor: isWhite ? 'white' : 'black',
-            opponent,
-            opponentRating: opponentRating || null,
-            timeControl,
-            timeClass,
-            date: new Date(game.createdAt),
-            opening,
-            openingEco,
-          },
-        })
-
-        imported++
-      } catch (error) {
-        console.error('Failed to import Lichess game:', error)
-        failed++
-      }
-    }
-
     return NextResponse.json({
       success: true,
       imported,
+      skipped,
       failed,
-      message: `Successfully imported ${imported} game${imported !== 1 ? 's' : ''}${failed > 0 ? `, ${failed} failed` : ''}`,
+      error,
+      message: `Successfully imported ${imported} game${imported !== 1 ? 's' : ''}${skipped > 0 ? `, ${skipped} already imported` : ''}${failed > 0 ? `, ${failed} failed` : ''}`,
     })
   } catch (error) {
     console.error('Failed to import Lichess games:', error)
@@ -147,4 +70,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { prisma } from '@/lib/db/prisma'
+import { parsePgnGames } from '@/lib/chess/pgn/parser'
+import { matchesPlayerName, pgnContentHash } from '@/lib/chess/pgn/import'
+import { mapPgnGame } from '@/lib/ingest/pgn'
+import type { GameRecord } from '@/lib/ingest/records'
+import { writeGameRecords } from '@/lib/ingest/store'
+
+// Keeps a single request from tying up the server
+const MAX_GAMES = 2000
+
+interface GameImportResult {
+  index: number
+  white: string
+  black: string
+  status: 'imported' | 'duplicate' | 'failed'
+  message?: string
+  gameId?: string
+}
+
+/**
+ * Import every game of an uploaded PGN file. The player's side in each game
+ * is found by matching the White/Black headers against their names.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+    const { token } = auth
+
+    const { pgn, aliases = [] } = await request.json() as {
+      pgn?: string
+      aliases?: string[]
+    }
+
+    if (!pgn || !pgn.trim()) {
+      return NextResponse.json(
+        { error: 'PGN is required' },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: token.userId },
+      select: { username: true, chesscomUsername: true },
+    })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const names = [user.username, user.chesscomUsername, ...aliases]
+      .filter((name): name is string => !!name && !!name.trim())
+
+    const games = parsePgnGames(pgn)
+    if (games.length === 0) {
+      return NextResponse.json(
+        { error: 'No games found in the PGN' },
+        { status: 400 }
+      )
+    }
+    if (games.length > MAX_GAMES) {
+      return NextResponse.json(
+        { error: `A file can contain at most ${MAX_GAMES} games` },
+        { status: 400 }
+      )
+    }
+
+    const results: GameImportResult[] = []
+    const seen = new Set<string>()
+    // Games to write, with the result entry each one fills in
+    const pending: { record: GameRecord; result: GameImportResult }[] = []
+
+    for (const [index, game] of games.entries()) {
+      const white = game.headers.White || '?'
+      const black = game.headers.Black || '?'
+      const report = (status: GameImportResult['status'], message?: string, gameId?: string) => {
+        results.push({ index, white, black, status, message, gameId })
+      }
+
+      if (game.error) {
+        report('failed', `${game.error.message} (line ${game.error.line}, column ${game.error.column})`)
+        continue
+      }
+      if (game.moves.length === 0) {
+        report('failed', 'Game has no moves')
+        continue
+      }
+
+      const isWhite = matchesPlayerName(game.headers.White, names)
+      const isBlack = matchesPlayerName(game.headers.Black, names)
+      if (isWhite === isBlack) {
+        report('failed', isWhite
+          ? 'Both players match your names'
+          : 'Neither player matches your names')
+        continue
+      }
+
+      const contentHash = pgnContentHash(game)
+      if (seen.has(contentHash)) {
+        report('duplicate', 'Appears earlier in this file')
+        continue
+      }
+      seen.add(contentHash)
+
+      const result: GameImportResult = { index, white, black, status: 'imported' }
+      results.push(result)
+      pending.push({
+        result,
+        record: mapPgnGame(game, {
+          source: 'pgn',
+          playerColor: isWhite ? 'white' : 'black',
+          contentHash,
+        }),
+      })
+    }
+
+    // Games already imported, found with one query for the whole file
+    const existing = await prisma.game.findMany({
+      where: { userId: token.userId, contentHash: { in: pending.map(p => p.record.contentHash!) } },
+      select: { id: true, contentHash: true },
+    })
+    const existingIds = new Map(existing.map(game => [game.contentHash, game.id]))
+    const newGames = pending.filter(({ record, result }) => {
+      const id = existingIds.get(record.contentHash!)
+      if (!id) return true
+      Object.assign(result, { status: 'duplicate', message: 'Already imported', gameId: id })
+      return false
+    })
+
+    const written = await writeGameRecords(token.userId, newGames.map(p => p.record))
+    written.forEach(({ id, duplicate }, i) => {
+      const { result } = newGames[i]
+      if (id) {
+        result.gameId = id
+      } else if (duplicate) {
+        // A parallel upload of the same file got there first
+        result.status = 'duplicate'
+        result.message = 'Already imported'
+      } else {
+        result.status = 'failed'
+        result.message = 'Failed to save game'
+      }
+    })
+
+    const imported = results.filter(r => r.status === 'imported').length
+    const duplicates = results.filter(r => r.status === 'duplicate').length
+    const failed = results.filter(r => r.status === 'failed').length
+
+    return NextResponse.json({
+      success: true,
+      imported,
+      duplicates,
+      failed,
+      results,
+      message: `Imported ${imported} of ${games.length} game${games.length !== 1 ? 's' : ''}` +
+        `${duplicates > 0 ? `, ${duplicates} already imported` : ''}` +
+        `${failed > 0 ? `, ${failed} failed` : ''}`,
+    })
+  } catch (error) {
+    console.error('Failed to import PGN file:', error)
+    return NextResponse.json(
+      { error: 'Failed to import PGN file' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,21 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyToken } from '@/lib/auth'
+import { authenticateRequest } from '@/lib/auth'
 import { prisma } from '@/lib/db/prisma'
+import { parsePgn } from '@/lib/chess/pgn/parser'
+import { mapPgnGame } from '@/lib/ingest/pgn'
+import { isPgnResult } from '@/lib/ingest/results'
+import { writeGameRecords } from '@/lib/ingest/store'
 
 export async function GET(request: NextRequest) {
   try {
-    // Get user from token
-    const tokenStr = request.headers.get('authorization')?.replace('Bearer ', '') || 
-                     request.cookies.get('nexuschess_token')?.value
-    
-    if (!tokenStr) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const token = verifyToken(tokenStr)
-    if (!token) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 })
-    }
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+    const { token } = auth
 
     const { searchParams } = new URL(request.url)
     const sort = searchParams.get('sort') || 'date-desc'
@@ -26,39 +21,15 @@ export async function GET(request: NextRequest) {
     // Build where clause based on filter
     let whereClause: any = { userId: token.userId }
 
-    // For filtering by result, we need to consider player's perspective
-    if (filter !== 'all') {
-      if (filter === 'wins') {
-        // Wins: Player won the game
-        whereClause.OR = [
-          { AND: [{ result: '1-0' }, { playerColor: 'white' }] },
-          { AND: [{ result: '0-1' }, { playerColor: 'black' }] },
-          { result: 'win' }, // Chess.com format - player won
-        ]
-      } else if (filter === 'losses') {
-        // Losses: Player lost the game
-        whereClause.OR = [
-          { AND: [{ result: '1-0' }, { playerColor: 'black' }] },
-          { AND: [{ result: '0-1' }, { playerColor: 'white' }] },
-          { result: 'loss' }, // Chess.com format - player lost
-          { result: 'checkmated' }, // Player was checkmated
-          { result: 'timeout' }, // Player timed out
-          { result: 'resigned' }, // Player resigned
-          { result: 'insufficient' }, // Player had insufficient material
-          { result: 'stalemate' }, // Player was stalemated
-        ]
-      } else if (filter === 'draws') {
-        // Draws: Result is '1/2-1/2' or draw formats
-        whereClause.OR = [
-          { result: '1/2-1/2' },
-          { result: 'draw' },
-          { result: 'agreed' },
-          { result: 'repetition' },
-          { result: 'threefold' },
-          { result: 'fifty' },
-          { result: 'stalemate' },
-        ]
-      }
+    // Results are filtered from the user's side
+    const outcomes: Record<string, string> = { wins: 'win', losses: 'loss', draws: 'draw' }
+    if (outcomes[filter]) {
+      whereClause.outcome = outcomes[filter]
+    }
+
+    const termination = searchParams.get('termination')
+    if (termination && termination !== 'all') {
+      whereClause.termination = termination
     }
 
     // Build order by based on sort
@@ -78,6 +49,9 @@ export async function GET(request: NextRequest) {
           id: true,
           pgn: true,
           result: true,
+          pgnResult: true,
+          outcome: true,
+          termination: true,
           playerColor: true,
           opponent: true,
           opponentRating: true,
@@ -87,6 +61,14 @@ export async function GET(request: NextRequest) {
           opening: true,
           openingEco: true,
           accuracy: true,
+          analysis: {
+            select: {
+              blunders: true,
+              mistakes: true,
+              inaccuracies: true,
+              brilliantMoves: true,
+            },
+          },
         },
       }),
       prisma.game.count({ where: whereClause }),
@@ -112,3 +94,55 @@ export async function GET(request: NextRequest) {
   }
 }
 
+
+/**
+ * Save a game played on the site
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const { pgn, result, playerColor, opponent, opponentRating, timeControl, timeClass } = await request.json()
+
+    if (!pgn || !isPgnResult(result) || !opponent || (playerColor !== 'white' && playerColor !== 'black')) {
+      return NextResponse.json(
+        { error: 'pgn, result, playerColor and opponent are required' },
+        { status: 400 }
+      )
+    }
+
+    const game = parsePgn(pgn)
+    if (game.error) {
+      return NextResponse.json(
+        { error: `Invalid PGN: ${game.error.message}` },
+        { status: 400 }
+      )
+    }
+
+    const record = mapPgnGame(game, {
+      source: 'play',
+      playerColor,
+      pgn,
+      result,
+      opponent,
+      opponentRating: opponentRating ?? null,
+      timeControl: timeControl || '-',
+      timeClass: timeClass || null,
+      date: new Date(),
+    })
+
+    const [written] = await writeGameRecords(auth.token.userId, [record])
+    if (!written.id) {
+      throw new Error(written.error)
+    }
+
+    return NextResponse.json({ success: true, game: { id: written.id } })
+  } catch (error) {
+    console.error('Failed to save game:', error)
+    return NextResponse.json(
+      { error: 'Failed to save game' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { prisma } from '@/lib/db/prisma'
+import { storedLichessToken } from '@/lib/api/lichess-oauth'
+import { fetchFailureResponse } from '@/lib/api/upstream-error'
+import { syncLichessGames } from '@/lib/ingest/lichess'
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    // Get user's Lichess username
+    const user = await prisma.user.findUnique({
+      where: { id: auth.token.userId },
+      select: { lichessUsername: true }
+    })
+
+    if (!user?.lichessUsername) {
+      return NextResponse.json(
+        { error: 'Lichess username not linked to account' },
+        { status: 400 }
+      )
+    }
+
+    const { imported, skipped, failed, error } = await syncLichessGames(
+      auth.token.userId,
+      user.lichessUsername,
+      await storedLichessToken(auth.token.userId)
+    )
+
+    if (error && imported === 0 && skipped === 0) {
+      return fetchFailureResponse(error)
+    }
+
+    if (imported === 0 && failed === 0 && !error) {
+      return NextResponse.json({
+        success: true,
+        imported: 0,
+        message: 'All games are already synced'
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      imported,
+      failed,
+      error,
+      message: `Successfully synced ${imported} new game${imported !== 1 ? 's' : ''}${failed > 0 ? `, ${failed} failed` : ''}${error ? ` before Lichess stopped responding; sync again to continue` : ''}`,
+    })
+  } catch (error) {
+    console.error('Failed to sync Lichess games:', error)
+    return NextResponse.json(
+      { error: 'Failed to sync games' },
+      { status: 500 }
+    )
+  }
+}
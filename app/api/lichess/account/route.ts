@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest, publicUserSelect } from '@/lib/auth'
+import { prisma } from '@/lib/db/prisma'
+import { getLichessUser } from '@/lib/api/lichess'
+import { revokeLichessToken, storedLichessToken } from '@/lib/api/lichess-oauth'
+import { upstreamErrorResponse } from '@/lib/api/upstream-error'
+
+/**
+ * Link a Lichess account by name after checking it exists. The link stays
+ * unverified, so several users may link the same name; only Lichess
+ * sign-in verifies it. Accounts connected that way keep that link instead.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const { username } = await request.json() as { username?: string }
+    if (!username?.trim()) {
+      return NextResponse.json(
+        { error: 'Username is required' },
+        { status: 400 }
+      )
+    }
+
+    const current = await prisma.user.findUnique({
+      where: { id: auth.token.userId },
+      select: { lichessUserId: true }
+    })
+    if (current?.lichessUserId) {
+      return NextResponse.json(
+        { error: 'Your account is connected through Lichess sign-in' },
+        { status: 400 }
+      )
+    }
+
+    const lichessUser = await getLichessUser(username.trim())
+    if (!lichessUser) {
+      return NextResponse.json(
+        { error: 'Lichess username not found' },
+        { status: 404 }
+      )
+    }
+
+    // Store the name as Lichess spells it
+    const user = await prisma.user.update({
+      where: { id: auth.token.userId },
+      data: { lichessUsername: lichessUser.username, lichessVerified: false },
+      select: publicUserSelect
+    })
+
+    return NextResponse.json({ success: true, user })
+  } catch (error) {
+    console.error('Failed to link Lichess account:', error)
+    return upstreamErrorResponse(error) ?? NextResponse.json(
+      { error: 'Failed to link Lichess account' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const current = await prisma.user.findUnique({
+      where: { id: auth.token.userId },
+      select: { password: true }
+    })
+    if (!current?.password) {
+      return NextResponse.json(
+        { error: 'Accounts created with Lichess sign-in can\'t be unlinked' },
+        { status: 400 }
+      )
+    }
+
+    const token = await storedLichessToken(auth.token.userId)
+    if (token) await revokeLichessToken(token)
+
+    const user = await prisma.user.update({
+      where: { id: auth.token.userId },
+      data: {
+        lichessUsername: null,
+        lichessVerified: false,
+        lichessUserId: null,
+        lichessAccessToken: null,
+        lichessTokenExpiresAt: null,
+      },
+      select: publicUserSelect
+    })
+
+    return NextResponse.json({ success: true, user })
+  } catch (error) {
+    console.error('Failed to unlink Lichess account:', error)
+    return NextResponse.json(
+      { error: 'Failed to unlink Lichess account' },
+      { status: 500 }
+    )
+  }
+}
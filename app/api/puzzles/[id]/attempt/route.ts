@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { recordAttempt } from '@/lib/chess/puzzles'
+
+/**
+ * Record a try at a puzzle: the solver's moves in SAN, up to the first wrong
+ * one, and how long it took in milliseconds
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const { id } = await params
+    const { moves, timeSpent } = await request.json() as { moves?: unknown; timeSpent?: unknown }
+    if (!Array.isArray(moves) || !moves.every(move => typeof move === 'string')) {
+      return NextResponse.json({ error: 'moves must be a list of SAN moves' }, { status: 400 })
+    }
+
+    const result = await recordAttempt(
+      auth.token.userId,
+      id,
+      moves,
+      typeof timeSpent === 'number' && timeSpent >= 0 ? Math.round(timeSpent) : 0
+    )
+    if (!result) {
+      return NextResponse.json({ error: 'Puzzle not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Failed to record puzzle attempt:', error)
+    return NextResponse.json({ error: 'Failed to record puzzle attempt' }, { status: 500 })
+  }
+}
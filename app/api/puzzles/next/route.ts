@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { nextPuzzle } from '@/lib/chess/puzzles'
+
+/**
+ * A puzzle the user hasn't tried yet, near their tactical rating, and that rating
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const { rating, puzzle } = await nextPuzzle(auth.token.userId)
+    if (!puzzle) {
+      return NextResponse.json({ error: "You've tried every puzzle", rating }, { status: 404 })
+    }
+
+    return NextResponse.json({ rating, puzzle })
+  } catch (error) {
+    console.error('Failed to load puzzle:', error)
+    return NextResponse.json({ error: 'Failed to load puzzle' }, { status: 500 })
+  }
+}
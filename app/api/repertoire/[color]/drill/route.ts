@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { loadDrill } from '@/lib/chess/repertoire-training'
+import { isRepertoireColor } from '@/lib/chess/repertoire'
+
+/**
+ * The repertoire for a color with its review schedule, for the trainer
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ color: string }> }) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const { color } = await params
+    if (!isRepertoireColor(color)) {
+      return NextResponse.json({ error: 'color must be white or black' }, { status: 400 })
+    }
+
+    const drill = await loadDrill(auth.token.userId, color)
+    if (!drill) {
+      return NextResponse.json({ error: `Your ${color} repertoire has no moves to train yet` }, { status: 404 })
+    }
+
+    return NextResponse.json(drill)
+  } catch (error) {
+    console.error('Failed to load repertoire drill:', error)
+    return NextResponse.json({ error: 'Failed to load repertoire drill' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { prisma } from '@/lib/db/prisma'
+import { parsePgn, parsePgnGames, STANDARD_START_FEN } from '@/lib/chess/pgn/parser'
+import { isRepertoireColor, mergeMoveTrees, serializeRepertoire } from '@/lib/chess/repertoire'
+import type { ParsedMove } from '@/lib/chess/types/chess'
+
+// Keeps a single request from tying up the server
+const MAX_GAMES = 500
+
+/**
+ * Merge every game of a repertoire file (e.g. a study export) into the
+ * repertoire, or replace it with them. Games with errors or set up from
+ * another position are skipped.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ color: string }> }) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+    const { userId } = auth.token
+
+    const { color } = await params
+    if (!isRepertoireColor(color)) {
+      return NextResponse.json({ error: 'color must be white or black' }, { status: 400 })
+    }
+
+    const { pgn, replace = false } = await request.json() as { pgn?: string; replace?: boolean }
+    if (!pgn || !pgn.trim()) {
+      return NextResponse.json({ error: 'PGN is required' }, { status: 400 })
+    }
+
+    const games = parsePgnGames(pgn)
+    if (games.length > MAX_GAMES) {
+      return NextResponse.json({ error: `A file can contain at most ${MAX_GAMES} games` }, { status: 400 })
+    }
+
+    const usable = games.filter(game => !game.error && game.startFen === STANDARD_START_FEN && game.moves.length > 0)
+    if (usable.length === 0) {
+      return NextResponse.json({ error: 'No games from the starting position found in the PGN' }, { status: 400 })
+    }
+
+    const existing = replace ? null : await prisma.repertoire.findUnique({
+      where: { userId_color: { userId, color } },
+      select: { pgn: true },
+    })
+
+    let moves: ParsedMove[] = existing ? parsePgn(existing.pgn).moves : []
+    for (const game of usable) {
+      moves = mergeMoveTrees(moves, game.moves, STANDARD_START_FEN)
+    }
+
+    const stored = serializeRepertoire(color, moves)
+    const repertoire = await prisma.repertoire.upsert({
+      where: { userId_color: { userId, color } },
+      create: { userId, color, pgn: stored },
+      update: { pgn: stored },
+      select: { pgn: true, updatedAt: true },
+    })
+
+    return NextResponse.json({
+      color,
+      ...repertoire,
+      imported: usable.length,
+      skipped: games.length - usable.length,
+    })
+  } catch (error) {
+    console.error('Failed to import repertoire:', error)
+    return NextResponse.json({ error: 'Failed to import repertoire' }, { status: 500 })
+  }
+}
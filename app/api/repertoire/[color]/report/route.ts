@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { userRepertoireReport } from '@/lib/chess/repertoire-report'
+import { isRepertoireColor } from '@/lib/chess/repertoire'
+
+/**
+ * Where the user's games left their repertoire for a color
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ color: string }> }) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const { color } = await params
+    if (!isRepertoireColor(color)) {
+      return NextResponse.json({ error: 'color must be white or black' }, { status: 400 })
+    }
+
+    const report = await userRepertoireReport(auth.token.userId, color)
+    if (!report) {
+      return NextResponse.json({ error: `You have no ${color} repertoire yet` }, { status: 404 })
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Failed to build repertoire report:', error)
+    return NextResponse.json({ error: 'Failed to build repertoire report' }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { reviewPosition } from '@/lib/chess/repertoire-training'
+import { isRepertoireColor } from '@/lib/chess/repertoire'
+
+/**
+ * Record the user's answer in a repertoire position and reschedule it
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ color: string }> }) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const { color } = await params
+    if (!isRepertoireColor(color)) {
+      return NextResponse.json({ error: 'color must be white or black' }, { status: 400 })
+    }
+
+    const { fen, move, timeSpent } = await request.json() as { fen?: string; move?: string; timeSpent?: number }
+    if (!fen || !move) {
+      return NextResponse.json({ error: 'fen and move are required' }, { status: 400 })
+    }
+
+    const result = await reviewPosition(
+      auth.token.userId,
+      color,
+      fen,
+      move,
+      typeof timeSpent === 'number' && timeSpent >= 0 ? Math.round(timeSpent) : undefined
+    )
+    if (!result) {
+      return NextResponse.json({ error: 'That position is not one of your repertoire moves' }, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Failed to record repertoire review:', error)
+    return NextResponse.json({ error: 'Failed to record repertoire review' }, { status: 500 })
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth'
+import { prisma } from '@/lib/db/prisma'
+import { parsePgn, STANDARD_START_FEN } from '@/lib/chess/pgn/parser'
+import { isRepertoireColor, serializeRepertoire } from '@/lib/chess/repertoire'
+
+type Params = { params: Promise<{ color: string }> }
+
+const invalidColor = () => NextResponse.json({ error: 'color must be white or black' }, { status: 400 })
+
+/**
+ * The user's repertoire for a color, as PGN. Empty when they haven't made one.
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const { color } = await params
+    if (!isRepertoireColor(color)) return invalidColor()
+
+    const repertoire = await prisma.repertoire.findUnique({
+      where: { userId_color: { userId: auth.token.userId, color } },
+      select: { pgn: true, updatedAt: true },
+    })
+
+    return NextResponse.json({
+      color,
+      pgn: repertoire?.pgn ?? '',
+      updatedAt: repertoire?.updatedAt ?? null,
+    })
+  } catch (error) {
+    console.error('Failed to load repertoire:', error)
+    return NextResponse.json({ error: 'Failed to load repertoire' }, { status: 500 })
+  }
+}
+
+/**
+ * Replace the repertoire with the moves of a PGN from the starting position
+ */
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const { color } = await params
+    if (!isRepertoireColor(color)) return invalidColor()
+
+    const { pgn = '' } = await request.json() as { pgn?: string }
+    const parsed = parsePgn(pgn)
+    if (parsed.error) {
+      return NextResponse.json(
+        { error: `${parsed.error.message} (line ${parsed.error.line}, column ${parsed.error.column})` },
+        { status: 400 }
+      )
+    }
+    if (parsed.startFen !== STANDARD_START_FEN) {
+      return NextResponse.json({ error: 'A repertoire must start from the initial position' }, { status: 400 })
+    }
+
+    const stored = serializeRepertoire(color, parsed.moves)
+    const repertoire = await prisma.repertoire.upsert({
+      where: { userId_color: { userId: auth.token.userId, color } },
+      create: { userId: auth.token.userId, color, pgn: stored },
+      update: { pgn: stored },
+      select: { pgn: true, updatedAt: true },
+    })
+
+    return NextResponse.json({ color, ...repertoire })
+  } catch (error) {
+    console.error('Failed to save repertoire:', error)
+    return NextResponse.json({ error: 'Failed to save repertoire' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const auth = authenticateRequest(request)
+    if (!auth.token) return auth.response
+
+    const { color } = await params
+    if (!isRepertoireColor(color)) return invalidColor()
+
+    await prisma.repertoire.deleteMany({ where: { userId: auth.token.userId, color } })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete repertoire:', error)
+    return NextResponse.json({ error: 'Failed to delete repertoire' }, { status: 500 })
+  }
+}
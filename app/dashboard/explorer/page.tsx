@@ -0,0 +1,112 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Chess } from 'chess.js'
+import { ChevronLeft, RotateCcw } from 'lucide-react'
+import { ChessBoard } from '@/components/chess/ChessBoard'
+import { OpeningExplorer } from '@/components/chess/OpeningExplorer'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+export default function ExplorerPage() {
+  // The line being explored, in SAN from the starting position
+  const [line, setLine] = useState<string[]>([])
+  const [orientation, setOrientation] = useState<'white' | 'black'>('white')
+
+  const fen = useMemo(() => {
+    const chess = new Chess()
+    for (const san of line) chess.move(san)
+    return chess.fen()
+  }, [line])
+
+  const playMove = (san: string) => {
+    const chess = new Chess(fen)
+    try {
+      chess.move(san)
+      setLine(current => [...current, san])
+    } catch {
+      // Not legal here; the board and line are out of step, so ignore it
+    }
+  }
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-blue-600 via-purple-600 to-pink-600 p-6 text-white shadow-xl">
+        <div className="absolute inset-0 bg-black/10"></div>
+        <div className="relative z-10">
+          <h1 className="text-3xl font-bold mb-2">Opening Explorer</h1>
+          <p className="text-blue-100">See how you score with each move, built from your own games</p>
+        </div>
+        <div className="absolute top-0 right-0 w-48 h-48 bg-white/10 rounded-full -mr-24 -mt-24 blur-3xl"></div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <Card className="border-0 shadow-xl">
+            <CardHeader className="border-b bg-gradient-to-r from-gray-50 to-slate-50">
+              <div className="flex items-center justify-between">
+                <CardTitle>Board</CardTitle>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLine(current => current.slice(0, -1))}
+                    disabled={line.length === 0}
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-2" />
+                    Back
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setLine([])} disabled={line.length === 0}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Reset
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOrientation(side => (side === 'white' ? 'black' : 'white'))}
+                  >
+                    Flip
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex justify-center">
+                <ChessBoard
+                  key={orientation}
+                  initialFen={fen}
+                  orientation={orientation}
+                  onMove={(move) => playMove(move.san)}
+                  showControls={false}
+                  showMoveHistory={false}
+                  allowPremoves={false}
+                />
+              </div>
+
+              {/* Clicking a move jumps back to the position after it */}
+              <div className="flex flex-wrap gap-1 font-mono text-sm">
+                {line.length === 0 ? (
+                  <span className="text-gray-500">Starting position</span>
+                ) : (
+                  line.map((san, i) => (
+                    <button
+                      key={i}
+                      type="button"
+                      onClick={() => setLine(current => current.slice(0, i + 1))}
+                      className="rounded px-1 hover:bg-gray-100"
+                    >
+                      {i % 2 === 0 ? `${i / 2 + 1}. ` : ''}{san}
+                    </button>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <OpeningExplorer fen={fen} onMoveClick={playMove} />
+      </div>
+    </div>
+  )
+}
@@ -194,7 +194,7 @@ export default function DashboardPage() {
                   </Button>
                   <Button 
                     className="w-full h-auto p-4 flex flex-col gap-2 border-0 shadow-lg hover:shadow-xl transition-all hover:-translate-y-1 bg-gradient-to-br from-orange-500 to-red-500 text-white"
-                    onClick={() => setActiveTab('play')}
+                    onClick={() => router.push('/dashboard/puzzles')}
                   >
                     <Plus className="h-6 w-6" />
                     <span className="font-semibold">Practice Puzzles</span>
@@ -1,10 +1,29 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useEffectEvent, useRef } from 'react'
+import { Chess } from 'chess.js'
 import { ChessBoard } from '@/components/chess/ChessBoard'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from '@/components/ui/use-toast'
+import { StockfishEngine, type EngineStrength } from '@/lib/chess/engine'
+import { apiFetch } from '@/lib/api/fetch'
+import {
+  ChessClock,
+  clkComment,
+  formatClock,
+  formatTimeControl,
+  resultOnTime,
+  type TimeControl,
+} from '@/lib/chess/clock'
 import { 
   Play, 
   RotateCcw, 
@@ -17,14 +36,75 @@ import {
   Trophy,
   Flame,
   TrendingUp,
-  Swords
+  Swords,
+  Flag,
+  Cpu,
+  Pause
 } from 'lucide-react'
 
+interface EngineLevel {
+  level: number
+  elo: number // approximate, used to label the opponent
+  depth: number
+  strength: EngineStrength
+}
+
+// UCI_Elo starts at 1320, so the weakest levels use Skill Level instead
+const ENGINE_LEVELS: EngineLevel[] = [
+  { level: 1, elo: 800, depth: 5, strength: { skillLevel: 0 } },
+  { level: 2, elo: 1000, depth: 5, strength: { skillLevel: 3 } },
+  { level: 3, elo: 1200, depth: 8, strength: { skillLevel: 6 } },
+  { level: 4, elo: 1400, depth: 10, strength: { elo: 1400 } },
+  { level: 5, elo: 1700, depth: 12, strength: { elo: 1700 } },
+  { level: 6, elo: 2000, depth: 14, strength: { elo: 2000 } },
+  { level: 7, elo: 2400, depth: 16, strength: { elo: 2400 } },
+  { level: 8, elo: 3200, depth: 18, strength: {} },
+]
+
+// Base time in seconds for each quick play mode
+const BASE_TIMES: Record<string, number> = {
+  bullet: 60,
+  blitz: 300,
+  rapid: 600,
+  classical: 1800,
+}
+
+const INCREMENTS = [0, 1, 2, 3, 5, 10]
+
+interface EngineMatch {
+  color: 'white' | 'black'
+  level: EngineLevel
+  timeClass: string | null
+  timeControl: TimeControl | null
+  clock: ChessClock | null
+}
+
+const engineName = (level: EngineLevel) => `Engine (Elo ${level.elo})`
+
 export default function PlayPage() {
   const [user, setUser] = useState<any>(null)
-  const [gameStarted, setGameStarted] = useState(false)
   const [selectedMode, setSelectedMode] = useState<string | null>(null)
 
+  const [game] = useState(() => new Chess())
+  const [fen, setFen] = useState(() => new Chess().fen())
+  const [history, setHistory] = useState<string[]>([])
+  // Remounts the board so it picks up a new game and orientation
+  const [boardKey, setBoardKey] = useState(0)
+  const [match, setMatch] = useState<EngineMatch | null>(null)
+  const [colorChoice, setColorChoice] = useState<'white' | 'black' | 'random'>('white')
+  const [levelIndex, setLevelIndex] = useState(3)
+  const [incrementSeconds, setIncrementSeconds] = useState(0)
+  const [delayMode, setDelayMode] = useState<TimeControl['delay']>('fischer')
+  const [engineThinking, setEngineThinking] = useState(false)
+  const [gameResult, setGameResult] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+  const [paused, setPaused] = useState(false)
+  // Bumped while a clock runs so the displayed times refresh
+  const [, setClockTick] = useState(0)
+
+  const engineRef = useRef<StockfishEngine | null>(null)
+  const searchRef = useRef<AbortController | null>(null)
+
   useEffect(() => {
     const userData = localStorage.getItem('nexuschess_user')
     if (userData) {
@@ -32,6 +112,229 @@ export default function PlayPage() {
     }
   }, [])
 
+  useEffect(() => {
+    return () => {
+      searchRef.current?.abort()
+      engineRef.current?.terminate()
+      engineRef.current = null
+    }
+  }, [])
+
+  const saveGame = async (current: EngineMatch, result: string) => {
+    try {
+      const response = await apiFetch('/api/games', {
+        method: 'POST',
+        body: JSON.stringify({
+          pgn: game.pgn(),
+          result,
+          playerColor: current.color,
+          opponent: engineName(current.level),
+          opponentRating: current.level.elo,
+          timeControl: current.timeControl ? formatTimeControl(current.timeControl) : '-',
+          timeClass: current.timeClass,
+        }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to save game')
+      }
+      setSaved(true)
+    } catch (error) {
+      console.error('Failed to save game:', error)
+      toast({
+        title: 'Game not saved',
+        description: error instanceof Error ? error.message : 'Failed to save game',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const finishGame = (current: EngineMatch, result: string, termination?: string) => {
+    searchRef.current?.abort()
+    current.clock?.stop()
+    game.setHeader('Result', result)
+    if (termination) {
+      game.setHeader('Termination', termination)
+    }
+    setGameResult(result)
+    setEngineThinking(false)
+    setPaused(false)
+    saveGame(current, result)
+  }
+
+  const boardResult = () => {
+    if (game.isCheckmate()) return game.turn() === 'w' ? '0-1' : '1-0'
+    return '1/2-1/2'
+  }
+
+  // Stamp the mover's clock on the move just played
+  const pressClock = (current: EngineMatch) => {
+    if (current.clock) {
+      game.setComment(clkComment(current.clock.press()))
+    }
+  }
+
+  const onClockTick = useEffectEvent(() => {
+    setClockTick(tick => tick + 1)
+
+    const flagged = match?.clock?.flagged()
+    if (match && flagged && !gameResult) {
+      finishGame(match, resultOnTime(game, flagged), 'Time forfeit')
+    }
+  })
+
+  useEffect(() => {
+    if (!match?.clock || gameResult) return
+    const interval = setInterval(onClockTick, 100)
+    return () => clearInterval(interval)
+  }, [match, gameResult])
+
+  const playEngineMove = async (current: EngineMatch, signal: AbortSignal) => {
+    const engine = engineRef.current
+    if (!engine) return
+
+    setEngineThinking(true)
+    try {
+      const { move } = await engine.analyze(game.fen(), current.level.depth, { signal })
+      game.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] })
+      pressClock(current)
+      setFen(game.fen())
+      setHistory(game.history())
+      setEngineThinking(false)
+
+      if (game.isGameOver()) {
+        finishGame(current, boardResult())
+      }
+    } catch (error) {
+      if (signal.aborted) return
+      console.error('Engine move failed:', error)
+      setEngineThinking(false)
+      toast({
+        title: 'Engine error',
+        description: error instanceof Error ? error.message : 'The engine failed to move',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const startEngineGame = async () => {
+    searchRef.current?.abort()
+    match?.clock?.stop()
+    const controller = new AbortController()
+    searchRef.current = controller
+
+    const color = colorChoice === 'random'
+      ? (Math.random() < 0.5 ? 'white' : 'black')
+      : colorChoice
+    const level = ENGINE_LEVELS[levelIndex]
+    const timeControl: TimeControl | null = selectedMode
+      ? { initialMs: BASE_TIMES[selectedMode] * 1000, incrementMs: incrementSeconds * 1000, delay: delayMode }
+      : null
+    const current: EngineMatch = {
+      color,
+      level,
+      timeClass: selectedMode,
+      timeControl,
+      clock: timeControl ? new ChessClock(timeControl) : null,
+    }
+
+    game.reset()
+    game.setHeader('Event', 'Casual game')
+    game.setHeader('Site', 'NexusChess')
+    game.setHeader('Date', new Date().toISOString().slice(0, 10).replace(/-/g, '.'))
+    game.setHeader('White', color === 'white' ? user.username : engineName(level))
+    game.setHeader('Black', color === 'black' ? user.username : engineName(level))
+    if (timeControl) {
+      game.setHeader('TimeControl', formatTimeControl(timeControl))
+    }
+
+    setMatch(current)
+    setFen(game.fen())
+    setHistory([])
+    setGameResult(null)
+    setSaved(false)
+    setPaused(false)
+    setBoardKey(key => key + 1)
+
+    if (!engineRef.current) {
+      engineRef.current = new StockfishEngine()
+    }
+
+    try {
+      await engineRef.current.setStrength(level.strength)
+      await engineRef.current.newGame()
+    } catch (error) {
+      console.error('Failed to start engine:', error)
+      toast({
+        title: 'Engine unavailable',
+        description: error instanceof Error ? error.message : 'Failed to start the engine',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    if (controller.signal.aborted) return
+
+    // White's clock starts once the engine is ready
+    current.clock?.start('w')
+    if (color === 'black') {
+      await playEngineMove(current, controller.signal)
+    }
+  }
+
+  const startLocalGame = () => {
+    searchRef.current?.abort()
+    match?.clock?.stop()
+    game.reset()
+    setMatch(null)
+    setFen(game.fen())
+    setHistory([])
+    setGameResult(null)
+    setSaved(false)
+    setPaused(false)
+    setEngineThinking(false)
+    setBoardKey(key => key + 1)
+  }
+
+  const handleMove = (move: { san: string }) => {
+    if (!match || gameResult) return
+
+    const flagged = match.clock?.flagged()
+    if (flagged) {
+      finishGame(match, resultOnTime(game, flagged), 'Time forfeit')
+      return
+    }
+
+    game.move(move.san)
+    pressClock(match)
+    setFen(game.fen())
+    setHistory(game.history())
+
+    if (game.isGameOver()) {
+      finishGame(match, boardResult())
+      return
+    }
+
+    const signal = searchRef.current?.signal
+    if (signal && !signal.aborted) {
+      playEngineMove(match, signal)
+    }
+  }
+
+  const resign = () => {
+    if (!match || gameResult) return
+    finishGame(match, match.color === 'white' ? '0-1' : '1-0')
+  }
+
+  const togglePause = () => {
+    if (!match?.clock || gameResult) return
+    if (paused) {
+      match.clock.resume()
+    } else {
+      match.clock.pause()
+    }
+    setPaused(!paused)
+  }
+
   if (!user) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -40,6 +343,35 @@ export default function PlayPage() {
     )
   }
 
+  const playerToMove = !!match && !gameResult && !engineThinking && !paused &&
+    fen.split(' ')[1] === (match.color === 'white' ? 'w' : 'b')
+
+  const resultText = () => {
+    if (!match || !gameResult) return null
+    if (gameResult === '1/2-1/2') return 'Draw'
+    const playerWon = (gameResult === '1-0') === (match.color === 'white')
+    return playerWon ? 'You won!' : `${engineName(match.level)} won`
+  }
+
+  const renderClock = (side: 'white' | 'black') => {
+    if (!match?.clock) return null
+    const color = side === 'white' ? 'w' : 'b'
+    const remaining = match.clock.getRemaining(color)
+    const active = match.clock.activeColor === color && !gameResult
+    const label = side === match.color ? user.username : engineName(match.level)
+
+    return (
+      <div className={`flex items-center justify-between rounded-lg px-4 py-2 ${
+        active ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700'
+      }`}>
+        <span className="text-sm font-medium">{label}</span>
+        <span className={`font-mono text-2xl font-bold ${remaining < 10_000 && active ? 'text-red-400' : ''}`}>
+          {formatClock(remaining)}
+        </span>
+      </div>
+    )
+  }
+
   const gameModes = [
     {
       id: 'blitz',
@@ -159,7 +491,24 @@ export default function PlayPage() {
               <div className="flex items-center justify-between">
                 <CardTitle>Board</CardTitle>
                 <div className="flex gap-2">
-                  <Button variant="outline" size="sm" className="hover:bg-red-50 hover:text-red-600 hover:border-red-200">
+                  {match?.clock && !gameResult && (
+                    <Button variant="outline" size="sm" onClick={togglePause}>
+                      {paused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+                      {paused ? 'Resume' : 'Pause'}
+                    </Button>
+                  )}
+                  {match && !gameResult && (
+                    <Button variant="outline" size="sm" onClick={resign}>
+                      <Flag className="h-4 w-4 mr-2" />
+                      Resign
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="hover:bg-red-50 hover:text-red-600 hover:border-red-200"
+                    onClick={startLocalGame}
+                  >
                     <RotateCcw className="h-4 w-4 mr-2" />
                     Reset
                   </Button>
@@ -171,28 +520,67 @@ export default function PlayPage() {
               </div>
             </CardHeader>
             <CardContent className="p-6">
+              {match?.clock && (
+                <div className="mb-4">
+                  {renderClock(match.color === 'white' ? 'black' : 'white')}
+                </div>
+              )}
               <div className="flex justify-center">
                 <ChessBoard 
-                  showControls={true}
-                  showMoveHistory={true}
-                  orientation="white"
+                  key={boardKey}
+                  initialFen={fen}
+                  onMove={handleMove}
+                  readOnly={!!match && !playerToMove}
+                  allowPremoves={!match}
+                  showControls={!match}
+                  showMoveHistory={!match}
+                  orientation={match?.color ?? 'white'}
                 />
               </div>
+              {match?.clock && (
+                <div className="mt-4">
+                  {renderClock(match.color)}
+                </div>
+              )}
+
+              {match && (
+                <div className="mt-4 text-center text-sm text-gray-600">
+                  {gameResult ? (
+                    <p className="font-semibold text-gray-900">
+                      {resultText()} ({gameResult}){saved ? ' · Saved to your games' : ''}
+                    </p>
+                  ) : paused ? (
+                    <p>Game paused</p>
+                  ) : engineThinking ? (
+                    <p>{engineName(match.level)} is thinking…</p>
+                  ) : (
+                    <p>Your move</p>
+                  )}
+                  {history.length > 0 && (
+                    <p className="mt-2 font-mono text-xs text-gray-500">
+                      {history.map((san, index) => (
+                        index % 2 === 0 ? `${index / 2 + 1}. ${san}` : san
+                      )).join(' ')}
+                    </p>
+                  )}
+                </div>
+              )}
 
               {/* Game Controls Below Board */}
               <div className="mt-6 flex justify-center gap-3">
                 <Button 
                   className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white shadow-lg"
                   size="lg"
-                  onClick={() => setGameStarted(!gameStarted)}
+                  onClick={startLocalGame}
                 >
                   <Play className="h-5 w-5 mr-2" />
-                  {gameStarted ? 'Game in Progress' : 'Start New Game'}
+                  Start New Game
                 </Button>
                 <Button 
                   variant="outline" 
                   size="lg"
                   className="border-2"
+                  onClick={startEngineGame}
                 >
                   <Swords className="h-5 w-5 mr-2" />
                   Play vs AI
@@ -204,6 +592,86 @@ export default function PlayPage() {
 
         {/* Side Panel */}
         <div className="space-y-6">
+          {/* Computer Opponent */}
+          <Card className="border-0 shadow-lg">
+            <CardHeader className="border-b bg-gradient-to-r from-gray-50 to-slate-50">
+              <CardTitle className="flex items-center gap-2">
+                <Cpu className="h-5 w-5 text-gray-700" />
+                Computer Opponent
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-6 space-y-4">
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">Strength</p>
+                <Select value={levelIndex.toString()} onValueChange={(value: string) => setLevelIndex(Number(value))}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select strength" />
+                  </SelectTrigger>
+                  <SelectContent className="z-50">
+                    {ENGINE_LEVELS.map((level, index) => (
+                      <SelectItem key={level.level} value={index.toString()}>
+                        Level {level.level} · Elo {level.elo}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {selectedMode ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-gray-700">Increment</p>
+                    <Select value={incrementSeconds.toString()} onValueChange={(value: string) => setIncrementSeconds(Number(value))}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Increment" />
+                      </SelectTrigger>
+                      <SelectContent className="z-50">
+                        {INCREMENTS.map((seconds) => (
+                          <SelectItem key={seconds} value={seconds.toString()}>
+                            +{seconds}s
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-gray-700">Delay</p>
+                    <Select value={delayMode} onValueChange={(value: string) => setDelayMode(value as TimeControl['delay'])}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Delay" />
+                      </SelectTrigger>
+                      <SelectContent className="z-50">
+                        <SelectItem value="fischer">Fischer</SelectItem>
+                        <SelectItem value="bronstein">Bronstein</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">Pick a Quick Play mode above to play with a clock.</p>
+              )}
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">Play as</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['white', 'random', 'black'] as const).map((choice) => (
+                    <Button
+                      key={choice}
+                      variant={colorChoice === choice ? 'default' : 'outline'}
+                      size="sm"
+                      className="capitalize"
+                      onClick={() => setColorChoice(choice)}
+                    >
+                      {choice}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <Button className="w-full" onClick={startEngineGame}>
+                <Swords className="h-4 w-4 mr-2" />
+                {match && !gameResult ? 'Restart vs AI' : 'Play vs AI'}
+              </Button>
+            </CardContent>
+          </Card>
+
           {/* Quick Stats */}
           <Card className="border-0 shadow-lg">
             <CardHeader className="border-b bg-gradient-to-r from-blue-50 to-purple-50">
@@ -26,6 +26,8 @@ import {
 import { getChessComStats } from '@/lib/api/chess-com'
 import { getLichessUser } from '@/lib/api/lichess'
 import { ChessComStats } from '@/lib/api/chess-com'
+import { LichessAccountCard } from '@/components/chess/LichessAccountCard'
+import type { User as AccountUser } from '@/types/user'
 
 interface LichessStats {
   username: string
@@ -87,6 +89,12 @@ export default function ProfilePage() {
     )
   }
 
+  const handleUserChange = (updated: AccountUser) => {
+    setUser(updated)
+    localStorage.setItem('nexuschess_user', JSON.stringify(updated))
+    if (!updated.lichessUsername) setLichessStats(null)
+  }
+
   const calculateWinRate = (record: any) => {
     if (!record) return 0
     const total = record.win + record.loss + record.draw
@@ -341,6 +349,9 @@ export default function ProfilePage() {
         )}
       </div>
 
+      {/* Linked Accounts */}
+      <LichessAccountCard user={user} onUserChange={handleUserChange} />
+
       {/* Performance Analysis */}
       {chessComStats && (
         <Card className="border-0 shadow-lg">
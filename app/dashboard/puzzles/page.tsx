@@ -0,0 +1,282 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { CheckCircle2, Eye, Loader2, RotateCcw, SkipForward, XCircle } from 'lucide-react'
+import { ChessBoard } from '@/components/chess/ChessBoard'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { toast } from '@/components/ui/use-toast'
+import { apiFetch } from '@/lib/api/fetch'
+import { checkPuzzleMove, solutionLine, type SolutionMove } from '@/lib/chess/puzzle'
+import type { AttemptResult, NextPuzzle } from '@/lib/chess/puzzles'
+
+type Status = 'solving' | 'solved' | 'failed'
+
+// Pause before the opponent's reply and between moves of a shown solution
+const REPLY_DELAY_MS = 500
+
+export default function PuzzlesPage() {
+  const [puzzle, setPuzzle] = useState<NextPuzzle | null>(null)
+  const [rating, setRating] = useState<number | null>(null)
+  const [fen, setFen] = useState<string | null>(null)
+  const [ply, setPly] = useState(0)
+  const [moves, setMoves] = useState<string[]>([])
+  const [status, setStatus] = useState<Status>('solving')
+  const [reply, setReply] = useState<SolutionMove | null>(null)
+  const [showing, setShowing] = useState<number | null>(null)
+  const [result, setResult] = useState<AttemptResult | null>(null)
+  const [boardKey, setBoardKey] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [empty, setEmpty] = useState<string | null>(null)
+  const startedAt = useRef(0)
+
+  const line = useMemo(() => (puzzle ? solutionLine(puzzle) : []), [puzzle])
+  const orientation = puzzle?.fen.split(' ')[1] === 'b' ? 'black' : 'white'
+
+  const startTry = useCallback((next: NextPuzzle) => {
+    setFen(next.fen)
+    setPly(0)
+    setMoves([])
+    setStatus('solving')
+    setReply(null)
+    setShowing(null)
+    setBoardKey(n => n + 1)
+    startedAt.current = Date.now()
+  }, [])
+
+  const fetchPuzzle = useCallback(async () => {
+    setLoading(true)
+    setResult(null)
+    try {
+      const response = await apiFetch('/api/puzzles/next')
+      const data = await response.json()
+      if (data.rating !== undefined) setRating(data.rating)
+      if (response.status === 404) {
+        setPuzzle(null)
+        setEmpty(data.error)
+        return
+      }
+      if (!response.ok) throw new Error(data.error || 'Failed to load puzzle')
+
+      setEmpty(null)
+      setPuzzle(data.puzzle)
+      startTry(data.puzzle)
+    } catch (error) {
+      toast({
+        title: 'Failed to load puzzle',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [startTry])
+
+  useEffect(() => {
+    fetchPuzzle()
+  }, [fetchPuzzle])
+
+  // The opponent's answer to a correct move
+  useEffect(() => {
+    if (!reply) return
+    const timer = setTimeout(() => {
+      setFen(reply.fen)
+      setReply(null)
+    }, REPLY_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [reply])
+
+  // Step through the rest of the solution
+  useEffect(() => {
+    if (showing === null || showing >= line.length) return
+    const timer = setTimeout(() => {
+      setFen(line[showing].fen)
+      setShowing(showing + 1)
+    }, REPLY_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [showing, line])
+
+  const submitAttempt = async (played: string[]) => {
+    if (!puzzle) return
+    try {
+      const response = await apiFetch(`/api/puzzles/${puzzle.id}/attempt`, {
+        method: 'POST',
+        body: JSON.stringify({ moves: played, timeSpent: Date.now() - startedAt.current })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save attempt')
+
+      setResult(data)
+      setRating(data.rating)
+    } catch (error) {
+      toast({
+        title: 'Attempt not saved',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleMove = (move: { fen: string; san: string }) => {
+    if (!puzzle || status !== 'solving' || reply) return
+
+    const played = [...moves, move.san]
+    const check = checkPuzzleMove(puzzle, ply, move.san)
+
+    if (!check.correct) {
+      setStatus('failed')
+      // Remount the board to take the wrong move back
+      setBoardKey(n => n + 1)
+      submitAttempt(played)
+      return
+    }
+
+    setMoves(played)
+    setFen(move.fen)
+    setPly(ply + 2)
+    if (check.reply) setReply(check.reply)
+    if (check.solved) {
+      setStatus('solved')
+      submitAttempt(played)
+    }
+  }
+
+  const showSolution = () => {
+    if (!puzzle) return
+    // Giving up counts as a failed try
+    if (status === 'solving') {
+      setStatus('failed')
+      submitAttempt(moves)
+    }
+    setReply(null)
+    setFen(puzzle.fen)
+    setBoardKey(n => n + 1)
+    setShowing(0)
+  }
+
+  const solving = status === 'solving' && showing === null
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-blue-600 via-purple-600 to-pink-600 p-6 text-white shadow-xl">
+        <div className="absolute inset-0 bg-black/10"></div>
+        <div className="relative z-10">
+          <h1 className="text-3xl font-bold mb-2">Puzzles</h1>
+          <p className="text-blue-100">Find the best moves and build your tactical rating</p>
+        </div>
+        <div className="absolute top-0 right-0 w-48 h-48 bg-white/10 rounded-full -mr-24 -mt-24 blur-3xl"></div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2 border-0 shadow-xl">
+          <CardHeader className="border-b bg-gradient-to-r from-gray-50 to-slate-50">
+            <div className="flex items-center justify-between">
+              <CardTitle>
+                {!puzzle ? 'Puzzle' : solving ? `Find the best move for ${orientation}` : status === 'solved' ? 'Solved' : 'Solution'}
+              </CardTitle>
+              {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+            </div>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            {empty ? (
+              <p className="text-sm text-gray-500">{empty}. Check back when more are added.</p>
+            ) : (
+              <div className="flex justify-center">
+                <ChessBoard
+                  key={boardKey}
+                  initialFen={fen ?? undefined}
+                  orientation={orientation}
+                  onMove={handleMove}
+                  readOnly={!puzzle || !solving || reply !== null}
+                  showControls={false}
+                  showMoveHistory={false}
+                  allowPremoves={false}
+                />
+              </div>
+            )}
+
+            {status === 'failed' && showing === null && (
+              <div className="flex items-center gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+                <XCircle className="h-4 w-4 shrink-0" />
+                <span>That&apos;s not it. Try again, see the solution, or move on.</span>
+              </div>
+            )}
+            {status === 'solved' && (
+              <div className="flex items-center gap-2 rounded-lg bg-green-50 p-3 text-sm text-green-700">
+                <CheckCircle2 className="h-4 w-4 shrink-0" />
+                <span>Puzzle solved!</span>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={() => puzzle && startTry(puzzle)}
+                disabled={!puzzle || solving}
+                variant="outline"
+                size="sm"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retry
+              </Button>
+              <Button onClick={showSolution} disabled={!puzzle || showing !== null} variant="outline" size="sm">
+                <Eye className="h-4 w-4 mr-2" />
+                Show solution
+              </Button>
+              <Button onClick={fetchPuzzle} disabled={loading || (solving && !!puzzle)} size="sm" className="ml-auto">
+                <SkipForward className="h-4 w-4 mr-2" />
+                Next puzzle
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">Tactical rating</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 pt-0 space-y-2">
+              <div className="text-3xl font-bold text-blue-600">{rating ?? '—'}</div>
+              {result?.rated && (
+                <p className={result.ratingChange >= 0 ? 'text-sm text-green-700' : 'text-sm text-red-700'}>
+                  {result.ratingChange >= 0 ? '+' : ''}{result.ratingChange} for this puzzle
+                </p>
+              )}
+              {result && !result.rated && (
+                <p className="text-sm text-gray-500">Retries don&apos;t change your rating</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {puzzle && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">About this puzzle</CardTitle>
+              </CardHeader>
+              <CardContent className="p-4 pt-0 space-y-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Rating</span>
+                  <span className="font-medium">{solving ? '?' : puzzle.rating}</span>
+                </div>
+                {!solving && puzzle.theme.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {puzzle.theme.map(theme => (
+                      <Badge key={theme} variant="secondary">{theme}</Badge>
+                    ))}
+                  </div>
+                )}
+                {!solving && (
+                  <p className="font-mono text-xs text-gray-600">
+                    {line.map(move => move.san).join(' ')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { ArrowDown, ArrowUp, ChevronLeft, Download, GraduationCap, Loader2, Save, Trash2 } from 'lucide-react'
+import { ChessBoard } from '@/components/chess/ChessBoard'
+import MoveList from '@/components/chess/MoveList'
+import { OpeningExplorer } from '@/components/chess/OpeningExplorer'
+import { RepertoireDeviations } from '@/components/chess/RepertoireDeviations'
+import { RepertoireImportDialog } from '@/components/chess/RepertoireImportDialog'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { toast } from '@/components/ui/use-toast'
+import { apiFetch } from '@/lib/api/fetch'
+import {
+  addMove,
+  deleteFromPath,
+  demoteVariation,
+  fenAt,
+  findPosition,
+  previousPath,
+  promoteVariation,
+  type MovePath,
+  type TreeEdit,
+} from '@/lib/chess/move-tree'
+import { parsePgn, STANDARD_START_FEN } from '@/lib/chess/pgn/parser'
+import { downloadPgn } from '@/lib/chess/pgn/download'
+import { serializeRepertoire, type RepertoireColor } from '@/lib/chess/repertoire'
+import type { ParsedMove } from '@/lib/chess/types/chess'
+
+export default function RepertoirePage() {
+  const [color, setColor] = useState<RepertoireColor>('white')
+  const [tree, setTree] = useState<ParsedMove[]>([])
+  const [currentPath, setCurrentPath] = useState<MovePath>([])
+  const [changed, setChanged] = useState(false)
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const boardFen = fenAt(tree, STANDARD_START_FEN, currentPath)
+
+  const moves = useMemo(() => {
+    const pairs = []
+    for (let i = 0; i < tree.length; i += 2) {
+      pairs.push({
+        moveNumber: Math.floor(i / 2) + 1,
+        white: tree[i]?.san,
+        black: tree[i + 1]?.san
+      })
+    }
+    return pairs
+  }, [tree])
+
+  const loadPgn = (pgn: string) => {
+    setTree(parsePgn(pgn).moves)
+    setCurrentPath([])
+    setChanged(false)
+  }
+
+  const fetchRepertoire = useCallback(async (side: RepertoireColor) => {
+    setLoading(true)
+    try {
+      const response = await apiFetch(`/api/repertoire/${side}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load repertoire')
+      loadPgn(data.pgn)
+      setUpdatedAt(data.updatedAt)
+    } catch (error) {
+      toast({
+        title: 'Failed to load repertoire',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRepertoire(color)
+  }, [color, fetchRepertoire])
+
+  const switchColor = (side: RepertoireColor) => {
+    if (side === color) return
+    if (changed && !window.confirm('Discard unsaved changes to this repertoire?')) return
+    setColor(side)
+  }
+
+  const applyEdit = (edit: TreeEdit | null) => {
+    if (!edit) return
+    if (edit.moves !== tree) {
+      setTree(edit.moves)
+      setChanged(true)
+    }
+    setCurrentPath(edit.path)
+  }
+
+  const playMove = (san: string) => {
+    applyEdit(addMove(tree, STANDARD_START_FEN, currentPath, san))
+  }
+
+  const goToPosition = (fen: string) => {
+    const path = findPosition(tree, STANDARD_START_FEN, fen)
+    if (path) setCurrentPath(path)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await apiFetch(`/api/repertoire/${color}`, {
+        method: 'PUT',
+        body: JSON.stringify({ pgn: serializeRepertoire(color, tree) })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save repertoire')
+
+      setChanged(false)
+      setUpdatedAt(data.updatedAt)
+      toast({ title: 'Repertoire saved' })
+    } catch (error) {
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Failed to save repertoire',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-blue-600 via-purple-600 to-pink-600 p-6 text-white shadow-xl">
+        <div className="absolute inset-0 bg-black/10"></div>
+        <div className="relative z-10">
+          <h1 className="text-3xl font-bold mb-2">Repertoire</h1>
+          <p className="text-blue-100">Record the lines you play and see where your games leave them</p>
+        </div>
+        <div className="absolute top-0 right-0 w-48 h-48 bg-white/10 rounded-full -mr-24 -mt-24 blur-3xl"></div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant={color === 'white' ? 'default' : 'outline'} onClick={() => switchColor('white')}>
+          As White
+        </Button>
+        <Button variant={color === 'black' ? 'default' : 'outline'} onClick={() => switchColor('black')}>
+          As Black
+        </Button>
+        <Button variant="outline" className="ml-auto" asChild>
+          <Link href="/dashboard/repertoire/train">
+            <GraduationCap className="h-4 w-4 mr-2" />
+            Train
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card className="border-0 shadow-xl">
+            <CardHeader className="border-b bg-gradient-to-r from-gray-50 to-slate-50">
+              <div className="flex items-center justify-between">
+                <CardTitle>
+                  {color === 'white' ? 'White' : 'Black'} repertoire
+                  {changed && <span className="ml-2 text-sm font-normal text-amber-600">Unsaved changes</span>}
+                </CardTitle>
+                {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+              </div>
+            </CardHeader>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex justify-center">
+                <ChessBoard
+                  key={color}
+                  initialFen={boardFen}
+                  orientation={color}
+                  onMove={(move) => playMove(move.san)}
+                  showControls={false}
+                  showMoveHistory={false}
+                  allowPremoves={false}
+                />
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  onClick={() => setCurrentPath(previousPath(currentPath))}
+                  disabled={currentPath.length === 0}
+                  variant="outline"
+                  size="sm"
+                >
+                  <ChevronLeft className="h-4 w-4 mr-2" />
+                  Back
+                </Button>
+                <Button
+                  onClick={() => applyEdit(promoteVariation(tree, currentPath))}
+                  disabled={currentPath.length < 3}
+                  variant="outline"
+                  size="sm"
+                >
+                  <ArrowUp className="h-4 w-4 mr-2" />
+                  Promote
+                </Button>
+                <Button
+                  onClick={() => applyEdit(demoteVariation(tree, currentPath))}
+                  disabled={currentPath.length === 0}
+                  variant="outline"
+                  size="sm"
+                >
+                  <ArrowDown className="h-4 w-4 mr-2" />
+                  Demote
+                </Button>
+                <Button
+                  onClick={() => applyEdit(deleteFromPath(tree, currentPath))}
+                  disabled={currentPath.length === 0}
+                  variant="outline"
+                  size="sm"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete from here
+                </Button>
+                <div className="ml-auto flex gap-2">
+                  <RepertoireImportDialog
+                    color={color}
+                    onImportComplete={(pgn) => {
+                      loadPgn(pgn)
+                      setUpdatedAt(new Date().toISOString())
+                    }}
+                  />
+                  <Button
+                    onClick={() => downloadPgn(serializeRepertoire(color, tree), `${color}-repertoire.pgn`)}
+                    disabled={tree.length === 0}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Export PGN
+                  </Button>
+                  <Button onClick={handleSave} disabled={!changed || saving} size="sm">
+                    {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    Save
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">Lines</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 pt-0">
+              <MoveList
+                moves={moves}
+                currentMove={currentPath.length === 1 ? currentPath[0] : -1}
+                onMoveClick={(index) => setCurrentPath([index])}
+                tree={tree}
+                currentPath={currentPath}
+                onPathClick={setCurrentPath}
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <RepertoireDeviations color={color} version={updatedAt} onPositionClick={goToPosition} />
+          <OpeningExplorer key={color} fen={boardFen} color={color} onMoveClick={playMove} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
+import { CheckCircle2, ChevronLeft, Loader2, RotateCcw, XCircle } from 'lucide-react'
+import { ChessBoard } from '@/components/chess/ChessBoard'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { toast } from '@/components/ui/use-toast'
+import { apiFetch } from '@/lib/api/fetch'
+import { positionKey } from '@/lib/chess/opening-tree'
+import { parsePgn, STANDARD_START_FEN } from '@/lib/chess/pgn/parser'
+import type { RepertoireColor } from '@/lib/chess/repertoire'
+import { drillGraph, leadsToDue, pickReply, type ReplyFrequencies } from '@/lib/chess/repertoire-drill'
+
+interface TrainingCard {
+  positionKey: string
+  dueAt: string
+  interval: number
+  repetitions: number
+}
+
+interface Drill {
+  pgn: string
+  cards: TrainingCard[]
+  replies: ReplyFrequencies
+}
+
+interface Mistake {
+  played: string
+  expected: string[]
+}
+
+// Pause before the opponent's reply and between lines
+const REPLY_DELAY_MS = 500
+const LINE_DELAY_MS = 1000
+
+export default function RepertoireTrainPage() {
+  const [color, setColor] = useState<RepertoireColor>('white')
+  const [drill, setDrill] = useState<Drill | null>(null)
+  const [due, setDue] = useState<Set<string>>(new Set())
+  const [practice, setPractice] = useState(false)
+  const [fen, setFen] = useState<string | null>(null)
+  const [mistake, setMistake] = useState<Mistake | null>(null)
+  const [attempt, setAttempt] = useState(0)
+  const [session, setSession] = useState({ reviewed: 0, correct: 0 })
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const askedAt = useRef(0)
+
+  const graph = useMemo(() => {
+    if (!drill) return null
+    const parsed = parsePgn(drill.pgn)
+    return drillGraph(parsed.moves, parsed.startFen, color)
+  }, [drill, color])
+
+  const fetchDrill = useCallback(async (side: RepertoireColor) => {
+    setLoading(true)
+    setError(null)
+    setPractice(false)
+    setMistake(null)
+    setSession({ reviewed: 0, correct: 0 })
+    try {
+      const response = await apiFetch(`/api/repertoire/${side}/drill`)
+      const data = await response.json()
+      if (response.status === 404) {
+        setDrill(null)
+        setFen(null)
+        setError(data.error)
+        return
+      }
+      if (!response.ok) throw new Error(data.error || 'Failed to load repertoire')
+
+      const now = Date.now()
+      const dueKeys = new Set<string>(
+        data.cards.filter((card: TrainingCard) => new Date(card.dueAt).getTime() <= now).map((card: TrainingCard) => card.positionKey)
+      )
+      setDrill(data)
+      setDue(dueKeys)
+      setFen(dueKeys.size > 0 ? STANDARD_START_FEN : null)
+    } catch (err) {
+      setDrill(null)
+      setFen(null)
+      toast({
+        title: 'Failed to load repertoire',
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchDrill(color)
+  }, [color, fetchDrill])
+
+  // Play the opponent's replies, and start the next line once this one runs out
+  useEffect(() => {
+    if (!graph || !drill || fen === null || mistake) return
+
+    const key = positionKey(fen)
+    const position = graph.get(key)
+    const finished = !position || position.moves.size === 0 || (!practice && !leadsToDue(graph, key, due))
+
+    if (finished) {
+      const timer = setTimeout(() => {
+        setFen(practice || due.size > 0 ? STANDARD_START_FEN : null)
+        setAttempt(n => n + 1)
+      }, LINE_DELAY_MS)
+      return () => clearTimeout(timer)
+    }
+
+    if (position.playerToMove) {
+      askedAt.current = Date.now()
+      return
+    }
+
+    const timer = setTimeout(() => {
+      const san = pickReply(graph, key, practice ? new Set() : due, drill.replies)
+      if (san) setFen(position.moves.get(san)!)
+    }, REPLY_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [graph, drill, fen, mistake, practice, due])
+
+  const recordReview = async (reviewFen: string, move: string, timeSpent: number) => {
+    try {
+      const response = await apiFetch(`/api/repertoire/${color}/review`, {
+        method: 'POST',
+        body: JSON.stringify({ fen: reviewFen, move, timeSpent })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save review')
+
+      setDrill(current => current && {
+        ...current,
+        cards: current.cards.map(card => card.positionKey === data.card.positionKey ? data.card : card)
+      })
+    } catch (err) {
+      toast({
+        title: 'Review not saved',
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleMove = (move: { fen: string; san: string }) => {
+    if (!graph || fen === null) return
+    const key = positionKey(fen)
+    const position = graph.get(key)
+    if (!position?.playerToMove) return
+
+    const correct = position.moves.has(move.san)
+
+    // Only the first answer in a due position counts; retries after a mistake don't
+    if (!mistake && due.has(key)) {
+      recordReview(fen, move.san, Date.now() - askedAt.current)
+      setSession(current => ({ reviewed: current.reviewed + 1, correct: current.correct + (correct ? 1 : 0) }))
+      setDue(current => {
+        const next = new Set(current)
+        next.delete(key)
+        return next
+      })
+    }
+
+    if (correct) {
+      setMistake(null)
+      setFen(move.fen)
+    } else {
+      setMistake({ played: move.san, expected: [...position.moves.keys()] })
+      // Remount the board to take the wrong move back
+      setAttempt(n => n + 1)
+    }
+  }
+
+  const restartLine = () => {
+    setMistake(null)
+    setFen(STANDARD_START_FEN)
+    setAttempt(n => n + 1)
+  }
+
+  const startPractice = () => {
+    setPractice(true)
+    restartLine()
+  }
+
+  const playerToMove = graph && fen !== null ? graph.get(positionKey(fen))?.playerToMove : false
+  const nextDue = drill?.cards.reduce<string | null>((soonest, card) =>
+    !soonest || card.dueAt < soonest ? card.dueAt : soonest, null)
+
+  return (
+    <div className="space-y-6 pb-8">
+      {/* Header */}
+      <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-blue-600 via-purple-600 to-pink-600 p-6 text-white shadow-xl">
+        <div className="absolute inset-0 bg-black/10"></div>
+        <div className="relative z-10">
+          <h1 className="text-3xl font-bold mb-2">Repertoire Trainer</h1>
+          <p className="text-blue-100">Play your lines from memory, with each position reviewed when it&apos;s due</p>
+        </div>
+        <div className="absolute top-0 right-0 w-48 h-48 bg-white/10 rounded-full -mr-24 -mt-24 blur-3xl"></div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button variant={color === 'white' ? 'default' : 'outline'} onClick={() => setColor('white')}>
+          As White
+        </Button>
+        <Button variant={color === 'black' ? 'default' : 'outline'} onClick={() => setColor('black')}>
+          As Black
+        </Button>
+        <Button variant="ghost" className="ml-auto" asChild>
+          <Link href="/dashboard/repertoire">
+            <ChevronLeft className="h-4 w-4 mr-2" />
+            Edit repertoire
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2 border-0 shadow-xl">
+          <CardHeader className="border-b bg-gradient-to-r from-gray-50 to-slate-50">
+            <div className="flex items-center justify-between">
+              <CardTitle>
+                {fen === null ? 'No line in progress' : playerToMove ? 'Your move' : 'Opponent to move'}
+                {practice && <span className="ml-2 text-sm font-normal text-gray-500">Practice</span>}
+              </CardTitle>
+              {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+            </div>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            <div className="flex justify-center">
+              <ChessBoard
+                key={`${color}-${attempt}`}
+                initialFen={fen ?? STANDARD_START_FEN}
+                orientation={color}
+                onMove={handleMove}
+                readOnly={!playerToMove}
+                showControls={false}
+                showMoveHistory={false}
+                allowPremoves={false}
+              />
+            </div>
+
+            {mistake && (
+              <div className="flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+                <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>
+                  {mistake.played} isn&apos;t in your repertoire. Play {mistake.expected.join(' or ')} to continue.
+                </span>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={restartLine} disabled={!graph || (!practice && due.size === 0)} variant="outline" size="sm">
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restart line
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Session</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 space-y-4">
+            {error ? (
+              <p className="text-sm text-gray-500">
+                {error}.{' '}
+                <Link href="/dashboard/repertoire" className="text-blue-600 hover:underline">Build it first</Link>
+              </p>
+            ) : drill && (
+              <>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div className="rounded-lg bg-blue-50 p-2">
+                    <div className="text-xl font-bold text-blue-700">{due.size}</div>
+                    <div className="text-xs text-gray-600">Due</div>
+                  </div>
+                  <div className="rounded-lg bg-gray-50 p-2">
+                    <div className="text-xl font-bold text-gray-700">{session.reviewed}</div>
+                    <div className="text-xs text-gray-600">Reviewed</div>
+                  </div>
+                  <div className="rounded-lg bg-green-50 p-2">
+                    <div className="text-xl font-bold text-green-700">{session.correct}</div>
+                    <div className="text-xs text-gray-600">Correct</div>
+                  </div>
+                </div>
+
+                <p className="text-sm text-gray-500">
+                  {drill.cards.length} position{drill.cards.length !== 1 ? 's' : ''} in this repertoire
+                </p>
+
+                {due.size === 0 && !practice && (
+                  <div className="space-y-3 rounded-lg bg-green-50 p-3">
+                    <p className="flex items-center gap-2 text-sm font-medium text-green-700">
+                      <CheckCircle2 className="h-4 w-4" />
+                      All caught up
+                    </p>
+                    {nextDue && (
+                      <p className="text-xs text-gray-600">Next review {new Date(nextDue).toLocaleString()}</p>
+                    )}
+                    <Button onClick={startPractice} size="sm" variant="outline">
+                      Practice anyway
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
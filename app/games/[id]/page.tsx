@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button'
 import { GameAnalysis } from '@/components/chess/GameAnalysis'
 import { Chess } from 'chess.js'
 import { apiFetch } from '@/lib/api/fetch'
+import type { MoveEvaluation } from '@/lib/chess/types/chess'
 
 interface GameData {
   id: string
@@ -22,6 +23,8 @@ interface GameData {
   openingEco?: string | null
   accuracy?: number | null
   analysis?: any
+  moveEvaluations?: MoveEvaluation[]
+  clocks?: number[]
 }
 
 export default function GamePage() {
@@ -136,6 +139,8 @@ export default function GamePage() {
         <GameAnalysis
           pgn={game.pgn}
           analysis={game.analysis}
+          moveEvaluations={game.moveEvaluations}
+          clocks={game.clocks}
           playerColor={playerColor}
         />
       </div>
@@ -0,0 +1,42 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { apiFetch } from '@/lib/api/fetch'
+
+interface LichessSignInButtonProps {
+  // Link Lichess to the signed-in account instead of signing in with it
+  link?: boolean
+  label?: string
+  onError?: (message: string) => void
+}
+
+/**
+ * Send the browser through Lichess OAuth
+ */
+export function LichessSignInButton({ link = false, label = 'Continue with Lichess', onError }: LichessSignInButtonProps) {
+  const [redirecting, setRedirecting] = useState(false)
+
+  const handleClick = async () => {
+    setRedirecting(true)
+    try {
+      const response = await apiFetch('/api/auth/lichess', { method: 'POST', requireAuth: link })
+      const data = await response.json()
+      if (!response.ok || !data.url) throw new Error(data.message || 'Failed to start Lichess sign-in')
+      window.location.href = data.url
+    } catch (error) {
+      setRedirecting(false)
+      onError?.(error instanceof Error ? error.message : 'Failed to start Lichess sign-in')
+    }
+  }
+
+  return (
+    <Button type="button" variant="outline" className="w-full" onClick={handleClick} disabled={redirecting}>
+      {redirecting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+      {label}
+    </Button>
+  )
+}
+
+export default LichessSignInButton
@@ -0,0 +1,68 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Loader2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+/**
+ * Finish Lichess sign-in: the callback hands over the session token in the
+ * URL fragment, which is stored like a password login's
+ */
+export default function LichessSignInComplete() {
+  const router = useRouter()
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const complete = async () => {
+      const params = new URLSearchParams(window.location.hash.slice(1))
+      // Drop the token from the address bar and history
+      window.history.replaceState(null, '', window.location.pathname)
+
+      const token = params.get('token')
+      if (!token) {
+        throw new Error(params.get('error') || 'Lichess sign-in failed')
+      }
+
+      const response = await fetch('/api/auth/me', {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      const data = await response.json()
+      if (!data.success) throw new Error(data.message || 'Lichess sign-in failed')
+
+      localStorage.setItem('nexuschess_token', token)
+      localStorage.setItem('nexuschess_user', JSON.stringify(data.user))
+
+      // Only follow paths on this site
+      const next = params.get('next') || '/dashboard'
+      router.replace(next.startsWith('/') && !next.startsWith('//') ? next : '/dashboard')
+    }
+
+    complete().catch(err => setError(err instanceof Error ? err.message : 'Lichess sign-in failed'))
+  }, [router])
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold">Lichess Sign-in</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="space-y-4">
+            <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md border border-red-200">
+              {error}
+            </div>
+            <a href="/login" className="text-sm text-blue-600 hover:underline">
+              Back to login
+            </a>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Signing you in...
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
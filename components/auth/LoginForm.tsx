@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { LichessSignInButton } from './LichessSignInButton'
 
 export default function LoginForm() {
   const router = useRouter()
@@ -110,6 +111,8 @@ export default function LoginForm() {
             {loading ? 'Logging in...' : 'Login'}
           </Button>
 
+          <LichessSignInButton label="Login with Lichess" onError={setError} />
+
           <p className="text-sm text-center text-gray-600">
             Don't have an account?{' '}
             <a href="/register" className="text-blue-600 hover:underline">
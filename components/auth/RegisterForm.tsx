@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { LichessSignInButton } from './LichessSignInButton'
 
 export default function RegisterForm() {
   const router = useRouter()
@@ -14,7 +15,8 @@ export default function RegisterForm() {
     username: '',
     password: '',
     confirmPassword: '',
-    chesscomUsername: ''
+    chesscomUsername: '',
+    lichessUsername: ''
   })
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
@@ -60,7 +62,8 @@ export default function RegisterForm() {
           email: formData.email,
           username: formData.username,
           password: formData.password,
-          chesscomUsername: formData.chesscomUsername || undefined
+          chesscomUsername: formData.chesscomUsername || undefined,
+          lichessUsername: formData.lichessUsername || undefined
         }),
       })
 
@@ -201,10 +204,29 @@ export default function RegisterForm() {
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="lichessUsername">
+              Lichess Username (Optional)
+            </Label>
+            <Input
+              id="lichessUsername"
+              name="lichessUsername"
+              type="text"
+              placeholder="Your Lichess username"
+              value={formData.lichessUsername}
+              onChange={handleChange}
+            />
+            <p className="text-xs text-gray-500">
+              Connect your Lichess account to sync your games as well
+            </p>
+          </div>
+
           <Button type="submit" className="w-full" disabled={loading}>
             {loading ? 'Creating Account...' : 'Create Account'}
           </Button>
 
+          <LichessSignInButton label="Sign up with Lichess" onError={setError} />
+
           <p className="text-sm text-center text-gray-600">
             Already have an account?{' '}
             <a href="/login" className="text-blue-600 hover:underline">
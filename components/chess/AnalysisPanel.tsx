@@ -1,6 +1,8 @@
 'use client'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { MOVE_CLASSIFICATION_ORDER, MOVE_CLASSIFICATION_STYLES } from './MoveClassificationIcon'
+import type { EngineLineView } from '@/hooks/useEngineLines'
 
 interface AnalysisData {
   averageAccuracy: number
@@ -8,6 +10,7 @@ interface AnalysisData {
   mistakes: number
   inaccuracies: number
   brilliantMoves: number
+  classifications?: Record<string, number> | null
   openingPhase: {
     accuracy: number
     moves: number
@@ -25,38 +28,164 @@ interface AnalysisData {
 interface AnalysisPanelProps {
   analysis: AnalysisData | null
   loading?: boolean
+  progress?: {
+    analyzed: number
+    total: number
+  } | null
+  engineLines?: EngineLineView[]
+  engineThinking?: boolean
+  // FEN the engine lines start from, used to number the moves
+  engineFen?: string
+  onLineClick?: (line: EngineLineView) => void
 }
 
-export default function AnalysisPanel({ analysis, loading }: AnalysisPanelProps) {
+const formatLineEvaluation = (line: EngineLineView) => {
+  if (line.mate !== undefined) {
+    return line.mate > 0 ? `M${line.mate}` : `-M${Math.abs(line.mate)}`
+  }
+  return line.evaluation > 0 ? `+${line.evaluation.toFixed(2)}` : line.evaluation.toFixed(2)
+}
+
+function EngineLinesCard({
+  lines,
+  thinking,
+  fen,
+  onLineClick,
+}: {
+  lines: EngineLineView[]
+  thinking?: boolean
+  fen?: string
+  onLineClick?: (line: EngineLineView) => void
+}) {
+  const [, turn, , , , fullmove] = (fen || '').split(' ')
+  const startMoveNumber = parseInt(fullmove) || 1
+  const whiteToMove = turn !== 'b'
+  const depth = lines.length > 0 ? Math.max(...lines.map(line => line.depth)) : 0
+
+  const formatMoves = (san: string[]) => {
+    return san.slice(0, 10).map((move, index) => {
+      const ply = index + (whiteToMove ? 0 : 1)
+      const moveNumber = startMoveNumber + Math.floor(ply / 2)
+      if (ply % 2 === 0) return `${moveNumber}. ${move}`
+      if (index === 0) return `${moveNumber}... ${move}`
+      return move
+    }).join(' ')
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Engine Lines</CardTitle>
+          <span className="text-xs text-gray-500">
+            {thinking ? 'Thinking… ' : ''}{depth > 0 ? `depth ${depth}` : ''}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {lines.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {thinking ? 'Waiting for the engine...' : 'No engine lines for this position'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {lines.map((line) => (
+              <button
+                key={line.multipv}
+                type="button"
+                className="w-full flex items-start gap-2 p-2 rounded text-left text-sm hover:bg-gray-50"
+                onClick={() => onLineClick?.(line)}
+              >
+                <span className={`shrink-0 w-14 px-1 py-0.5 rounded text-center font-mono font-semibold ${
+                  line.evaluation >= 0 ? 'bg-white text-gray-900 border border-gray-300' : 'bg-gray-800 text-white'
+                }`}>
+                  {formatLineEvaluation(line)}
+                </span>
+                <span className="text-gray-700 leading-6">{formatMoves(line.san)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function AnalysisPanel({
+  analysis,
+  loading,
+  progress,
+  engineLines,
+  engineThinking,
+  engineFen,
+  onLineClick,
+}: AnalysisPanelProps) {
+  const engineLinesCard = engineLines ? (
+    <EngineLinesCard
+      lines={engineLines}
+      thinking={engineThinking}
+      fen={engineFen}
+      onLineClick={onLineClick}
+    />
+  ) : null
+
   if (loading) {
     return (
-      <Card>
-        <CardHeader>
-          <CardTitle>Analysis</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="flex items-center justify-center p-8">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-            <p className="ml-4 text-gray-600">Analyzing game...</p>
-          </div>
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        {engineLinesCard}
+        <Card>
+          <CardHeader>
+            <CardTitle>Analysis</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-center p-8">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+              <p className="ml-4 text-gray-600">Analyzing game...</p>
+            </div>
+            {progress && progress.total > 0 && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>Moves analyzed</span>
+                  <span>{progress.analyzed} / {progress.total}</span>
+                </div>
+                <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{ width: `${Math.round((progress.analyzed / progress.total) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
     )
   }
 
   if (!analysis) {
     return (
-      <Card>
-        <CardHeader>
-          <CardTitle>Analysis</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-gray-600">No analysis available</p>
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        {engineLinesCard}
+        <Card>
+          <CardHeader>
+            <CardTitle>Analysis</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-gray-600">No analysis available</p>
+          </CardContent>
+        </Card>
+      </div>
     )
   }
 
+  // Older analyses only stored the summary columns
+  const counts: Record<string, number> = analysis.classifications || {
+    brilliant: analysis.brilliantMoves,
+    inaccuracy: analysis.inaccuracies,
+    mistake: analysis.mistakes,
+    blunder: analysis.blunders
+  }
+
   const getAccuracyColor = (accuracy: number) => {
     if (accuracy >= 90) return 'text-green-600'
     if (accuracy >= 80) return 'text-blue-600'
@@ -66,6 +195,8 @@ export default function AnalysisPanel({ analysis, loading }: AnalysisPanelProps)
 
   return (
     <div className="space-y-4">
+      {engineLinesCard}
+
       {/* Overall Accuracy */}
       <Card>
         <CardHeader>
@@ -88,24 +219,23 @@ export default function AnalysisPanel({ analysis, loading }: AnalysisPanelProps)
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
-            {analysis.brilliantMoves > 0 && (
-              <div className="flex justify-between items-center">
-                <span className="text-cyan-600 font-semibold">✨ Brilliant</span>
-                <span className="text-2xl font-bold text-cyan-600">{analysis.brilliantMoves}</span>
-              </div>
-            )}
-            <div className="flex justify-between items-center">
-              <span className="text-yellow-600 font-semibold">⚠️ Inaccuracies</span>
-              <span className="text-2xl font-bold text-yellow-600">{analysis.inaccuracies}</span>
-            </div>
-            <div className="flex justify-between items-center">
-              <span className="text-orange-600 font-semibold">❌ Mistakes</span>
-              <span className="text-2xl font-bold text-orange-600">{analysis.mistakes}</span>
-            </div>
-            <div className="flex justify-between items-center">
-              <span className="text-red-600 font-semibold">💥 Blunders</span>
-              <span className="text-2xl font-bold text-red-600">{analysis.blunders}</span>
-            </div>
+            {MOVE_CLASSIFICATION_ORDER.map((classification) => {
+              const count = counts[classification] || 0
+              // Always show the error rows so a clean game reads as zero, not missing
+              if (count === 0 && !['inaccuracy', 'mistake', 'blunder'].includes(classification)) return null
+
+              const style = MOVE_CLASSIFICATION_STYLES[classification]
+              const Icon = style.icon
+              return (
+                <div key={classification} className="flex justify-between items-center">
+                  <span className={`flex items-center gap-2 font-semibold ${style.color}`}>
+                    <Icon className="w-4 h-4" />
+                    {style.label}
+                  </span>
+                  <span className={`text-2xl font-bold ${style.color}`}>{count}</span>
+                </div>
+              )
+            })}
           </div>
         </CardContent>
       </Card>
@@ -21,6 +21,26 @@ import {
 } from '@/components/ui/select'
 import { apiFetch } from '@/lib/api/fetch'
 import { toast } from '@/components/ui/use-toast'
+import type { MonthFailure } from '@/lib/api/chess-com'
+import type { FetchFailure } from '@/lib/api/http'
+
+/**
+ * What a failed sync means for the user, from the error kind the API returns
+ */
+function describeFailure(failure: Partial<FetchFailure> & { error?: string }): string {
+  const wait = failure.retryAfter ? ` Try again in ${Math.ceil(failure.retryAfter)} seconds.` : ' Try again in a few minutes.'
+  switch (failure.kind) {
+    case 'rate-limited':
+      return `Chess.com is rate limiting requests.${wait}`
+    case 'not-found':
+      return 'Chess.com has no games for this account.'
+    case 'server':
+    case 'network':
+      return `Chess.com could not be reached.${wait}`
+    default:
+      return failure.error || failure.message || 'Failed to sync games'
+  }
+}
 
 interface BulkSyncDialogProps {
   onSyncComplete?: () => void
@@ -29,7 +49,7 @@ interface BulkSyncDialogProps {
 
 export function BulkSyncDialog({ onSyncComplete, trigger }: BulkSyncDialogProps) {
   const [open, setOpen] = useState(false)
-  const [monthsBack, setMonthsBack] = useState(24)
+  const [monthsBack, setMonthsBack] = useState<number | 'all'>(24)
   const [syncing, setSyncing] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [result, setResult] = useState<{
@@ -37,6 +57,9 @@ export function BulkSyncDialog({ onSyncComplete, trigger }: BulkSyncDialogProps)
     failed: number
     totalFound: number
     alreadyExisted: number
+    monthsChecked: number
+    monthsUnchanged: number
+    failures: MonthFailure[]
   } | null>(null)
 
   const handleBulkSync = async () => {
@@ -54,8 +77,8 @@ export function BulkSyncDialog({ onSyncComplete, trigger }: BulkSyncDialogProps)
       })
 
       if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to sync games')
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(describeFailure(errorData))
       }
 
       const data = await response.json()
@@ -64,6 +87,9 @@ export function BulkSyncDialog({ onSyncComplete, trigger }: BulkSyncDialogProps)
         failed: data.failed,
         totalFound: data.totalFound,
         alreadyExisted: data.alreadyExisted,
+        monthsChecked: data.monthsChecked,
+        monthsUnchanged: data.monthsUnchanged,
+        failures: data.failures || [],
       })
 
       toast({
@@ -89,6 +115,8 @@ export function BulkSyncDialog({ onSyncComplete, trigger }: BulkSyncDialogProps)
   }
 
   const getEstimatedTime = () => {
+    // Only months with games are fetched, and unchanged ones are skipped
+    if (monthsBack === 'all') return 'Depends on history'
     // Rough estimate: ~2 seconds per month of games
     const estimatedSeconds = monthsBack * 2
     if (estimatedSeconds < 60) return `${estimatedSeconds} seconds`
@@ -113,7 +141,7 @@ export function BulkSyncDialog({ onSyncComplete, trigger }: BulkSyncDialogProps)
             Bulk Game Sync
           </DialogTitle>
           <DialogDescription>
-            Import all your games from Chess.com for a specified time period.
+            Import all your games from Chess.com for a specified time period. Months that haven&apos;t changed since your last sync are skipped.
           </DialogDescription>
         </DialogHeader>
 
@@ -121,7 +149,10 @@ export function BulkSyncDialog({ onSyncComplete, trigger }: BulkSyncDialogProps)
           {/* Time Period Selection */}
           <div className="space-y-2">
             <Label htmlFor="months-back">Time Period</Label>
-            <Select value={monthsBack.toString()} onValueChange={(value: string) => setMonthsBack(Number(value))}>
+            <Select
+              value={monthsBack.toString()}
+              onValueChange={(value: string) => setMonthsBack(value === 'all' ? 'all' : Number(value))}
+            >
               <SelectTrigger className="w-full">
                 <SelectValue placeholder="Select time period" />
               </SelectTrigger>
@@ -131,7 +162,7 @@ export function BulkSyncDialog({ onSyncComplete, trigger }: BulkSyncDialogProps)
                 <SelectItem value="24">Last 2 years</SelectItem>
                 <SelectItem value="36">Last 3 years</SelectItem>
                 <SelectItem value="60">Last 5 years</SelectItem>
-                <SelectItem value="120">All time (10 years)</SelectItem>
+                <SelectItem value="all">Entire history</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -186,6 +217,23 @@ export function BulkSyncDialog({ onSyncComplete, trigger }: BulkSyncDialogProps)
                   <p className="text-muted-foreground">Total Found</p>
                 </div>
               </div>
+              <p className="text-xs text-center text-muted-foreground">
+                Checked {result.monthsChecked} month{result.monthsChecked !== 1 ? 's' : ''} with games, {result.monthsUnchanged} unchanged since the last sync
+              </p>
+              {result.failures.length > 0 && (
+                <div className="p-3 bg-orange-50 dark:bg-orange-950 rounded-lg text-sm text-orange-800 dark:text-orange-200">
+                  <p className="font-medium">
+                    {result.failures.length} month{result.failures.length !== 1 ? 's' : ''} could not be fetched. Sync again to retry them.
+                  </p>
+                  <ul className="mt-1 text-xs space-y-0.5">
+                    {result.failures.map(failure => (
+                      <li key={`${failure.year}-${failure.month}`}>
+                        {failure.year}-{String(failure.month).padStart(2, '0')}: {describeFailure(failure)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           )}
 
@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback, useMemo, useRef } from 'react'
 import { Chess } from 'chess.js'
-import { Chessboard as ReactChessboard } from 'react-chessboard'
+import { Chessboard as ReactChessboard, type Arrow } from 'react-chessboard'
 import { 
   ChevronLeft, 
   ChevronRight, 
@@ -50,6 +50,13 @@ import {
   isValidMove,
 } from '@/lib/chess/utils/chess-utils'
 import type { GameSettings, GameMove, Premove, MoveHint } from '@/lib/chess/types/chess'
+import {
+  ANNOTATION_COLORS,
+  annotationColor,
+  toggleArrow,
+  toggleHighlight,
+  type BoardAnnotations,
+} from '@/lib/chess/annotations'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Input } from '@/components/ui/input'
 import { toast } from '@/components/ui/use-toast'
@@ -63,6 +70,10 @@ interface ChessBoardProps {
   showControls?: boolean
   showMoveHistory?: boolean
   allowPremoves?: boolean
+  arrows?: Arrow[]
+  // User arrows and circled squares; right-click drags edit them when onAnnotationsChange is set
+  annotations?: BoardAnnotations
+  onAnnotationsChange?: (annotations: BoardAnnotations) => void
 }
 
 export function ChessBoard({
@@ -74,6 +85,9 @@ export function ChessBoard({
   showControls = true,
   showMoveHistory = true,
   allowPremoves = true,
+  arrows,
+  annotations,
+  onAnnotationsChange,
 }: ChessBoardProps) {
   const [game, setGame] = useState<Chess>(() => createChessGame(initialFen))
   const [gameState, setGameState] = useState({
@@ -126,8 +140,18 @@ export function ChessBoard({
 
   // Refs for cleanup
   const premoveTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined)
+  const annotationStartRef = useRef<string | null>(null)
   const soundRef = useRef<HTMLAudioElement>(null)
 
+  // Follow position changes from the parent, e.g. when stepping through a game
+  const lastInitialFenRef = useRef(initialFen)
+  useEffect(() => {
+    if (initialFen === lastInitialFenRef.current) return
+    lastInitialFenRef.current = initialFen
+    setGame(createChessGame(initialFen))
+    setCurrentMoveIndex(-1)
+  }, [initialFen])
+
   // Initialize audio for move sounds
   useEffect(() => {
     soundRef.current = new Audio('/sounds/move.mp3')
@@ -351,7 +375,8 @@ export function ChessBoard({
 
   // Handle right click
   const handleSquareRightClick = useCallback((square: string) => {
-    if (readOnly) return
+    // Annotations are drawn on mouse up instead
+    if (readOnly || onAnnotationsChange) return
     
     setRightClickedSquares({
       ...rightClickedSquares,
@@ -359,7 +384,29 @@ export function ChessBoard({
         ? null
         : { backgroundColor: 'rgba(255, 0, 0, 0.4)' },
     })
-  }, [readOnly, rightClickedSquares])
+  }, [readOnly, rightClickedSquares, onAnnotationsChange])
+
+  // Right-click drag draws an arrow; right-clicking a single square circles it
+  const handleAnnotationMouseUp = useCallback((square: string, e: React.MouseEvent) => {
+    const start = annotationStartRef.current
+    annotationStartRef.current = null
+    if (!onAnnotationsChange || e.button !== 2 || !start) return
+
+    const color = annotationColor(e)
+    const current = annotations || { arrows: [], highlights: [] }
+    onAnnotationsChange(start === square
+      ? { ...current, highlights: toggleHighlight(current.highlights, { square, color }) }
+      : { ...current, arrows: toggleArrow(current.arrows, { from: start, to: square, color }) })
+  }, [annotations, onAnnotationsChange])
+
+  const boardArrows = useMemo(() => [
+    ...(arrows || []),
+    ...(annotations?.arrows || []).map(arrow => ({
+      startSquare: arrow.from,
+      endSquare: arrow.to,
+      color: ANNOTATION_COLORS[arrow.color] || ANNOTATION_COLORS.G,
+    })),
+  ], [arrows, annotations])
 
   // Custom square styles
   const customSquareStyles = useMemo(() => {
@@ -425,9 +472,18 @@ export function ChessBoard({
       }
     }
     
+    // Circled squares from annotations
+    annotations?.highlights.forEach(({ square, color }) => {
+      styles[square] = {
+        ...styles[square],
+        boxShadow: `inset 0 0 0 4px ${ANNOTATION_COLORS[color] || ANNOTATION_COLORS.G}`,
+        borderRadius: '50%',
+      }
+    })
+
     // Merge with right clicked squares
     return { ...styles, ...rightClickedSquares }
-  }, [selectedSquare, moveFrom, possibleMoves, premove, settings.highlightLastMove, settings.highlightCheck, lastMove, game, rightClickedSquares])
+  }, [selectedSquare, moveFrom, possibleMoves, premove, settings.highlightLastMove, settings.highlightCheck, lastMove, game, rightClickedSquares, annotations])
 
   // Generate move hints (simple center control for now)
   useEffect(() => {
@@ -580,6 +636,9 @@ export function ChessBoard({
                       settings.boardTheme === 'brown' ? '#f0d9b5' : '#EBF0E5',
     },
     squareStyles: customSquareStyles,
+    arrows: boardArrows,
+    // The board's own arrows aren't saved anywhere, so they're off while annotating
+    allowDrawingArrows: !onAnnotationsChange,
     animationDurationInMs: settings.animationSpeed,
     showNotation: settings.showCoordinates,
     allowDragging: !readOnly && settings.moveMode !== 'click',
@@ -593,6 +652,12 @@ export function ChessBoard({
     onSquareRightClick: ({ square }: { square: string; piece: { pieceType: string } | null }) => {
       handleSquareRightClick(square)
     },
+    onSquareMouseDown: ({ square }: { square: string }, e: React.MouseEvent) => {
+      if (e.button === 2) annotationStartRef.current = square
+    },
+    onSquareMouseUp: ({ square }: { square: string }, e: React.MouseEvent) => {
+      handleAnnotationMouseUp(square, e)
+    },
     canDragPiece: ({ isSparePiece, piece, square }: { isSparePiece: boolean; piece: { pieceType: string }; square: string | null }) => {
       if (readOnly) return false
       if (!square) return false
@@ -614,10 +679,13 @@ export function ChessBoard({
     settings.showCoordinates,
     settings.moveMode,
     customSquareStyles,
+    boardArrows,
+    onAnnotationsChange,
     readOnly,
     handlePieceDrop,
     handleSquareClick,
     handleSquareRightClick,
+    handleAnnotationMouseUp,
     handlePieceDragBegin,
     isDragging,
   ])
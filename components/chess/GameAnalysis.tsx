@@ -4,7 +4,12 @@ import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
 import { Chess } from 'chess.js'
 import { ChessBoard } from './ChessBoard'
 import { PgnViewer } from './PGNViewer'
-import { parsePgn } from '@/lib/chess/utils/chess-utils'
+import VerticalEvaluationBar from './VerticalEvaluationBar'
+import { evaluationInPawns } from '@/lib/chess/utils/chess-utils'
+import { parsePgn } from '@/lib/chess/pgn/parser'
+import type { MoveEvaluation } from '@/lib/chess/types/chess'
+import type { MoveClassification } from '@/lib/chess/classification'
+import { formatClock, parseTimeControl, timeSpent, timeTroubleThreshold } from '@/lib/chess/clock'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Button } from '@/components/ui/button'
@@ -52,6 +57,9 @@ interface GameAnalysisProps {
     middlegamePhase?: any
     endgamePhase?: any
   }
+  moveEvaluations?: MoveEvaluation[]
+  // Seconds left after each ply; read from the PGN when not stored
+  clocks?: number[]
   playerColor?: 'white' | 'black'
 }
 
@@ -60,81 +68,143 @@ interface MoveAnalysis {
   san: string
   fen: string
   evaluation: number
+  mate?: number
   bestMove: string
-  severity: 'brilliant' | 'good' | 'inaccuracy' | 'mistake' | 'blunder' | 'none'
+  classification: MoveClassification | null
 }
 
-export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnalysisProps) {
-  const [game, setGame] = useState<Chess>(new Chess())
-  const [currentMove, setCurrentMove] = useState(-1)
+export function GameAnalysis({ pgn, analysis, moveEvaluations = [], clocks: storedClocks, playerColor = 'white' }: GameAnalysisProps) {
   const [parsedPgn, setParsedPgn] = useState(() => parsePgn(pgn))
-  const [isPlaying, setIsPlaying] = useState(false)
-  const [playSpeed, setPlaySpeed] = useState(1000)
-  const [activeTab, setActiveTab] = useState('moves')
-  const playIntervalRef = useRef<NodeJS.Timeout | null>(null)
-
-  // Initialize game from PGN
-  useEffect(() => {
+  // Start from the final position
+  const [game, setGame] = useState<Chess>(() => {
+    const newGame = new Chess()
     try {
-      const newGame = new Chess()
-      const moves = parsedPgn.moves.map(m => m.san)
-      for (const san of moves) {
-        newGame.move(san)
+      for (const move of parsedPgn.moves) {
+        newGame.move(move.san)
       }
-      setGame(newGame)
     } catch (error) {
       console.error('Failed to load PGN:', error)
     }
-  }, [parsedPgn])
+    return newGame
+  })
+  const [currentMove, setCurrentMove] = useState(-1)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [playSpeed, setPlaySpeed] = useState(1000)
+  const [activeTab, setActiveTab] = useState('moves')
+  const playIntervalRef = useRef<NodeJS.Timeout | null>(null)
 
-  // Generate move analysis data (mock data if not provided)
+  // Merge stored engine evaluations into the parsed moves
   const moveAnalysis = useMemo<MoveAnalysis[]>(() => {
-    // In a real app, this would come from the API with engine analysis
-    return parsedPgn.moves.map((move, index) => ({
-      moveNumber: move.number,
-      san: move.san,
-      fen: move.fen,
-      evaluation: (Math.random() - 0.5) * 3, // Mock evaluation between -1.5 and 1.5
-      bestMove: '', // Would be the engine's best move
-      severity: 'none' as const,
-    }))
-  }, [parsedPgn])
+    return parsedPgn.moves.map((move, index) => {
+      const evaluation = moveEvaluations.find(e => e.ply === index + 1)
+
+      return {
+        moveNumber: move.number,
+        san: move.san,
+        fen: move.fen,
+        evaluation: evaluation ? evaluationInPawns(evaluation) : 0,
+        mate: evaluation?.mate ?? undefined,
+        bestMove: evaluation?.bestMove || '',
+        classification: (evaluation?.classification as MoveClassification) || null,
+      }
+    })
+  }, [parsedPgn, moveEvaluations])
+
+  const highlightedMoves = useMemo(() => {
+    return moveAnalysis
+      .map((move, index) => (
+        move.classification === 'mistake' || move.classification === 'miss' || move.classification === 'blunder' ? index : -1
+      ))
+      .filter(index => index >= 0)
+  }, [moveAnalysis])
 
-  // Calculate statistics
+  // Stored statistics; null until the game has been analyzed
   const stats = useMemo(() => {
     const totalMoves = moveAnalysis.length
     return {
       totalMoves,
-      accuracy: analysis?.averageAccuracy || 75 + Math.random() * 20,
-      blunders: analysis?.blunders || Math.floor(Math.random() * 3),
-      mistakes: analysis?.mistakes || Math.floor(Math.random() * 5),
-      inaccuracies: analysis?.inaccuracies || Math.floor(Math.random() * 8),
-      brilliantMoves: analysis?.brilliantMoves || Math.floor(Math.random() * 3),
+      accuracy: analysis?.averageAccuracy ?? null,
+      blunders: analysis?.blunders ?? null,
+      mistakes: analysis?.mistakes ?? null,
+      inaccuracies: analysis?.inaccuracies ?? null,
+      brilliantMoves: analysis?.brilliantMoves ?? null,
+      goodMoves: analysis
+        ? totalMoves - analysis.blunders - analysis.mistakes - analysis.inaccuracies - analysis.brilliantMoves
+        : null,
     }
   }, [moveAnalysis, analysis])
 
-  // Evaluation chart data
+  const formatStat = (value: number | null) => value ?? '—'
+
+  // Evaluation chart data, clamped so a mate score doesn't flatten the curve
   const evaluationData = useMemo(() => {
+    if (moveEvaluations.length === 0) return []
     return moveAnalysis.map((move, index) => ({
       move: index + 1,
-      evaluation: move.evaluation,
+      evaluation: Math.max(-5, Math.min(5, move.evaluation)),
     }))
-  }, [moveAnalysis])
+  }, [moveAnalysis, moveEvaluations.length])
+
+  // Clock after every ply, if the game recorded one
+  const clocks = useMemo(() => {
+    if (storedClocks && storedClocks.length > 0) return storedClocks
+    const moves = parsedPgn.moves
+    if (moves.length === 0 || moves.some(move => move.clock === undefined)) return []
+    return moves.map(move => move.clock!)
+  }, [storedClocks, parsedPgn])
+
+  const timeUsage = useMemo(() => {
+    if (clocks.length === 0) return null
+
+    const control = parseTimeControl(parsedPgn.headers.TimeControl || '')
+    const spent = timeSpent(clocks, control)
+    const threshold = timeTroubleThreshold(control)
+    const initial = control ? control.initialMs / 1000 : null
+
+    const chartData: { move: number; white: number; black?: number }[] = []
+    spent.forEach((seconds, ply) => {
+      const value = Math.round(seconds * 10) / 10
+      if (ply % 2 === 0) {
+        chartData.push({ move: ply / 2 + 1, white: value })
+      } else {
+        chartData[chartData.length - 1].black = value
+      }
+    })
+
+    // The player's errors made with little time on the clock
+    const playerParity = playerColor === 'white' ? 0 : 1
+    const timeTrouble = moveAnalysis
+      .map((move, ply) => ({ ...move, ply, clockBefore: ply >= 2 ? clocks[ply - 2] : initial }))
+      .filter(move =>
+        move.ply % 2 === playerParity &&
+        (move.classification === 'mistake' || move.classification === 'miss' || move.classification === 'blunder') &&
+        move.clockBefore !== null && move.clockBefore < threshold
+      )
+    const playerErrors = moveAnalysis.filter((move, ply) =>
+      ply % 2 === playerParity &&
+      (move.classification === 'mistake' || move.classification === 'miss' || move.classification === 'blunder')
+    ).length
+
+    return { chartData, timeTrouble, playerErrors, threshold }
+  }, [clocks, parsedPgn, moveAnalysis, playerColor])
 
   // Chart data
   const pieData = [
-    { name: 'Brilliant', value: stats.brilliantMoves, color: '#22c55e' },
-    { name: 'Good', value: stats.totalMoves - stats.blunders - stats.mistakes - stats.inaccuracies - stats.brilliantMoves, color: '#3b82f6' },
-    { name: 'Inaccuracies', value: stats.inaccuracies, color: '#eab308' },
-    { name: 'Mistakes', value: stats.mistakes, color: '#f97316' },
-    { name: 'Blunders', value: stats.blunders, color: '#ef4444' },
+    { name: 'Brilliant', value: stats.brilliantMoves ?? 0, color: '#22c55e' },
+    { name: 'Good', value: stats.goodMoves ?? 0, color: '#3b82f6' },
+    { name: 'Inaccuracies', value: stats.inaccuracies ?? 0, color: '#eab308' },
+    { name: 'Mistakes', value: stats.mistakes ?? 0, color: '#f97316' },
+    { name: 'Blunders', value: stats.blunders ?? 0, color: '#ef4444' },
   ].filter(d => d.value > 0)
 
-  const barData = [
-    { phase: 'Opening', accuracy: analysis?.openingPhase?.accuracy || 85 },
-    { phase: 'Middlegame', accuracy: analysis?.middlegamePhase?.accuracy || 72 },
-    { phase: 'Endgame', accuracy: analysis?.endgamePhase?.accuracy || 78 },
-  ]
+  // Phases the game never reached have no accuracy and get no bar
+  const phaseAccuracy = (phase?: { accuracy?: number; moves?: number }) =>
+    phase?.moves === 0 ? null : phase?.accuracy ?? null
+  const barData = analysis ? [
+    { phase: 'Opening', accuracy: phaseAccuracy(analysis.openingPhase) },
+    { phase: 'Middlegame', accuracy: phaseAccuracy(analysis.middlegamePhase) },
+    { phase: 'Endgame', accuracy: phaseAccuracy(analysis.endgamePhase) },
+  ] : []
 
   const getResultText = () => {
     const result = parsedPgn.headers.Result
@@ -190,14 +260,14 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
     }
   }, [currentMove, parsedPgn.moves.length, navigateToMove])
 
-  // Auto-play functionality
+  // Auto-play functionality; playback ends by itself at the last move
+  const playing = isPlaying && currentMove < parsedPgn.moves.length - 1
+
   useEffect(() => {
-    if (isPlaying && currentMove < parsedPgn.moves.length - 1) {
+    if (playing) {
       playIntervalRef.current = setInterval(() => {
         goForward()
       }, playSpeed)
-    } else {
-      setIsPlaying(false)
     }
 
     return () => {
@@ -205,22 +275,34 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
         clearInterval(playIntervalRef.current)
       }
     }
-  }, [isPlaying, currentMove, parsedPgn.moves.length, playSpeed, goForward])
+  }, [playing, playSpeed, goForward])
 
   const togglePlay = useCallback(() => {
     if (currentMove >= parsedPgn.moves.length - 1) {
       goToStart()
     }
-    setIsPlaying(!isPlaying)
-  }, [isPlaying, currentMove, parsedPgn.moves.length, goToStart])
+    setIsPlaying(!playing)
+  }, [playing, currentMove, parsedPgn.moves.length, goToStart])
+
+  // Arrows and circled squares saved with the current move
+  const currentCommands = parsedPgn.moves[currentMove]?.commands
+  const currentAnnotations = currentCommands
+    ? { arrows: currentCommands.arrows || [], highlights: currentCommands.highlights || [] }
+    : undefined
 
   const getCurrentEvaluation = () => {
     if (currentMove < 0 || currentMove >= moveAnalysis.length) return 0
     return moveAnalysis[currentMove].evaluation
   }
 
+  const getCurrentMate = () => {
+    if (currentMove < 0 || currentMove >= moveAnalysis.length) return undefined
+    return moveAnalysis[currentMove].mate
+  }
+
   const formatEvaluation = (evaluation: number) => {
-    if (Math.abs(evaluation) > 10) return 'M' + Math.floor(Math.abs(evaluation))
+    const mate = getCurrentMate()
+    if (mate !== undefined) return 'M' + Math.abs(mate)
     return evaluation.toFixed(1)
   }
 
@@ -234,13 +316,21 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
             {/* Board Container */}
             <Card className="overflow-hidden shadow-xl border-0 bg-white">
               <CardContent className="p-6">
-                <div className="flex justify-center mb-4">
+                <div className="flex justify-center gap-4 mb-4">
+                  {moveEvaluations.length > 0 && (
+                    <VerticalEvaluationBar
+                      evaluation={getCurrentEvaluation()}
+                      mate={getCurrentMate()}
+                      orientation={playerColor}
+                    />
+                  )}
                   <ChessBoard
                     initialFen={game.fen()}
                     orientation={playerColor}
                     showControls={false}
                     showMoveHistory={false}
                     readOnly={true}
+                    annotations={currentAnnotations}
                   />
                 </div>
               </CardContent>
@@ -250,19 +340,19 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
             <div className="grid grid-cols-3 gap-3">
               <Card className="bg-gradient-to-br from-blue-50 to-blue-100 border-blue-200">
                 <CardContent className="p-4 text-center">
-                  <div className="text-2xl font-bold text-blue-700">{stats.accuracy.toFixed(0)}%</div>
+                  <div className="text-2xl font-bold text-blue-700">{stats.accuracy !== null ? `${stats.accuracy.toFixed(0)}%` : '—'}</div>
                   <div className="text-xs text-blue-600 font-medium mt-1">Accuracy</div>
                 </CardContent>
               </Card>
               <Card className="bg-gradient-to-br from-green-50 to-green-100 border-green-200">
                 <CardContent className="p-4 text-center">
-                  <div className="text-2xl font-bold text-green-700">{stats.brilliantMoves}</div>
+                  <div className="text-2xl font-bold text-green-700">{formatStat(stats.brilliantMoves)}</div>
                   <div className="text-xs text-green-600 font-medium mt-1">Brilliant</div>
                 </CardContent>
               </Card>
               <Card className="bg-gradient-to-br from-red-50 to-red-100 border-red-200">
                 <CardContent className="p-4 text-center">
-                  <div className="text-2xl font-bold text-red-700">{stats.blunders}</div>
+                  <div className="text-2xl font-bold text-red-700">{formatStat(stats.blunders)}</div>
                   <div className="text-xs text-red-600 font-medium mt-1">Blunders</div>
                 </CardContent>
               </Card>
@@ -285,7 +375,7 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
                     <LineChart data={evaluationData}>
                       <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                       <XAxis dataKey="move" stroke="#64748b" />
-                      <YAxis domain={[-3, 3]} stroke="#64748b" />
+                      <YAxis domain={[-5, 5]} stroke="#64748b" />
                       <Tooltip 
                         contentStyle={{ 
                           backgroundColor: 'white', 
@@ -316,6 +406,59 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
               </CardContent>
             </Card>
 
+            {/* Time Usage */}
+            {timeUsage && (
+              <Card className="shadow-lg border-0 bg-white">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Clock className="h-5 w-5 text-orange-600" />
+                    Time Usage
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-32">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={timeUsage.chartData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                        <XAxis dataKey="move" stroke="#64748b" />
+                        <YAxis stroke="#64748b" unit="s" />
+                        <Tooltip 
+                          contentStyle={{ 
+                            backgroundColor: 'white', 
+                            border: '1px solid #e2e8f0',
+                            borderRadius: '8px'
+                          }}
+                        />
+                        <Bar dataKey="white" name="White" fill="#cbd5e1" />
+                        <Bar dataKey="black" name="Black" fill="#334155" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                  {timeUsage.playerErrors > 0 && (
+                    <div className="mt-4 space-y-2">
+                      <div className="text-sm text-muted-foreground">
+                        {timeUsage.timeTrouble.length} of your {timeUsage.playerErrors} mistakes came with under {formatClock(timeUsage.threshold * 1000)} left
+                      </div>
+                      {timeUsage.timeTrouble.map((move) => (
+                        <button
+                          key={move.ply}
+                          type="button"
+                          onClick={() => handleMoveClick(move.ply)}
+                          className="w-full flex items-center justify-between p-2 rounded bg-orange-50 border border-orange-200 text-sm hover:bg-orange-100"
+                        >
+                          <span className="font-medium text-orange-900">
+                            {move.moveNumber}{move.ply % 2 === 0 ? '.' : '...'} {move.san}
+                            <span className="ml-2 text-xs capitalize text-orange-700">{move.classification}</span>
+                          </span>
+                          <span className="font-mono text-orange-700">{formatClock(move.clockBefore! * 1000)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Move List */}
             <Card className="shadow-lg border-0 bg-white flex flex-col" style={{ maxHeight: '600px' }}>
               <CardHeader className="pb-3 border-b">
@@ -332,7 +475,7 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
                       <ChevronLeft className="h-4 w-4" />
                     </Button>
                     <Button variant="ghost" size="icon" onClick={togglePlay} className="h-8 w-8">
-                      {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
                     </Button>
                     <Button variant="ghost" size="icon" onClick={goForward} className="h-8 w-8">
                       <ChevronRight className="h-4 w-4" />
@@ -344,6 +487,7 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
                 <PgnViewer
                   pgn={pgn}
                   headers={parsedPgn.headers}
+                  highlightMoves={highlightedMoves}
                   currentMove={currentMove}
                   onMoveClick={handleMoveClick}
                 />
@@ -410,7 +554,7 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
                           <Sparkles className="h-5 w-5 text-green-600" />
                           <span className="font-medium text-green-900">Brilliant</span>
                         </div>
-                        <span className="font-bold text-green-700">{stats.brilliantMoves}</span>
+                        <span className="font-bold text-green-700">{formatStat(stats.brilliantMoves)}</span>
                       </div>
                       <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg border border-blue-200">
                         <div className="flex items-center gap-2">
@@ -418,7 +562,7 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
                           <span className="font-medium text-blue-900">Good</span>
                         </div>
                         <span className="font-bold text-blue-700">
-                          {stats.totalMoves - stats.blunders - stats.mistakes - stats.inaccuracies - stats.brilliantMoves}
+                          {formatStat(stats.goodMoves)}
                         </span>
                       </div>
                       <div className="flex items-center justify-between p-3 bg-yellow-50 rounded-lg border border-yellow-200">
@@ -426,21 +570,21 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
                           <AlertTriangle className="h-5 w-5 text-yellow-600" />
                           <span className="font-medium text-yellow-900">Inaccuracies</span>
                         </div>
-                        <span className="font-bold text-yellow-700">{stats.inaccuracies}</span>
+                        <span className="font-bold text-yellow-700">{formatStat(stats.inaccuracies)}</span>
                       </div>
                       <div className="flex items-center justify-between p-3 bg-orange-50 rounded-lg border border-orange-200">
                         <div className="flex items-center gap-2">
                           <XCircle className="h-5 w-5 text-orange-600" />
                           <span className="font-medium text-orange-900">Mistakes</span>
                         </div>
-                        <span className="font-bold text-orange-700">{stats.mistakes}</span>
+                        <span className="font-bold text-orange-700">{formatStat(stats.mistakes)}</span>
                       </div>
                       <div className="flex items-center justify-between p-3 bg-red-50 rounded-lg border border-red-200">
                         <div className="flex items-center gap-2">
                           <XCircle className="h-5 w-5 text-red-600" />
                           <span className="font-medium text-red-900">Blunders</span>
                         </div>
-                        <span className="font-bold text-red-700">{stats.blunders}</span>
+                        <span className="font-bold text-red-700">{formatStat(stats.blunders)}</span>
                       </div>
                     </div>
                   </TabsContent>
@@ -452,23 +596,27 @@ export function GameAnalysis({ pgn, analysis, playerColor = 'white' }: GameAnaly
                         <BarChart3 className="h-5 w-5 text-blue-600" />
                         Phase Performance
                       </h4>
-                      <div className="h-48">
-                        <ResponsiveContainer width="100%" height="100%">
-                          <BarChart data={barData}>
-                            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-                            <XAxis dataKey="phase" stroke="#64748b" />
-                            <YAxis domain={[0, 100]} stroke="#64748b" />
-                            <Tooltip 
-                              contentStyle={{ 
-                                backgroundColor: 'white', 
-                                border: '1px solid #e2e8f0',
-                                borderRadius: '8px'
-                              }}
-                            />
-                            <Bar dataKey="accuracy" fill="#2563eb" name="Accuracy %" radius={[8, 8, 0, 0]} />
-                          </BarChart>
-                        </ResponsiveContainer>
-                      </div>
+                      {barData.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Analyze this game to see accuracy by phase</p>
+                      ) : (
+                        <div className="h-48">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={barData}>
+                              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                              <XAxis dataKey="phase" stroke="#64748b" />
+                              <YAxis domain={[0, 100]} stroke="#64748b" />
+                              <Tooltip 
+                                contentStyle={{ 
+                                  backgroundColor: 'white', 
+                                  border: '1px solid #e2e8f0',
+                                  borderRadius: '8px'
+                                }}
+                              />
+                              <Bar dataKey="accuracy" fill="#2563eb" name="Accuracy %" radius={[8, 8, 0, 0]} />
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </div>
+                      )}
                     </div>
 
                     {/* Game Info */}
@@ -13,6 +13,7 @@ import {
   Minus,
   Zap,
   Eye,
+  Flag,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
@@ -25,12 +26,17 @@ import {
 import { format } from 'date-fns'
 import { apiFetch } from '@/lib/api/fetch'
 import { cn } from '@/lib/utils'
+import { MoveClassificationIcon } from './MoveClassificationIcon'
+import { TERMINATION_LABELS, type Outcome, type Termination } from '@/lib/ingest/results'
 
 interface GameCardProps {
   game: {
     id: string
     pgn: string
     result: string
+    pgnResult?: string | null
+    outcome?: Outcome | null
+    termination?: Termination | null
     playerColor: string
     opponent: string
     opponentRating?: number | null
@@ -40,71 +46,35 @@ interface GameCardProps {
     opening?: string | null
     openingEco?: string | null
     accuracy?: number | null
+    analysis?: {
+      blunders: number
+      mistakes: number
+      inaccuracies: number
+      brilliantMoves: number
+    } | null
   }
   onDelete?: (id: string) => void
   onView?: (id: string) => void
 }
 
-// Helper to normalize result format (handles both Chess.com format and PGN format)
-const normalizeResult = (result: string, playerColor: string): 'win' | 'loss' | 'draw' => {
-  const isWhite = playerColor === 'white'
-  
-  // Handle PGN format: '1-0', '0-1', '1/2-1/2'
-  if (result === '1-0') return isWhite ? 'win' : 'loss'
-  if (result === '0-1') return isWhite ? 'loss' : 'win'
-  if (result === '1/2-1/2') return 'draw'
-  
-  // Handle Chess.com format - these are from the opponent's perspective
-  const lowerResult = result.toLowerCase()
-  
-  // If the result is 'win', it means you won
-  if (lowerResult === 'win') return 'win'
-  
-  // If the result is 'checkmated', 'timeout', 'resigned', 'insufficient', 'loss', it means you were the one who experienced this
-  if (lowerResult === 'checkmated' || lowerResult === 'timeout' || lowerResult === 'resigned' || 
-      lowerResult === 'loss' || lowerResult === 'insufficient') {
-    return 'loss'
-  }
-  
-  // If the result is 'draw' or 'agreed' or other draw formats
-  if (lowerResult === 'draw' || lowerResult === 'agreed' || lowerResult === 'repetition' || 
-      lowerResult === 'threefold' || lowerResult === 'fifty' || lowerResult === 'stalemate') {
-    return 'draw'
-  }
-  
-  // Default to loss if unknown format
-  return 'loss'
-}
-
 export function GameCard({ game, onDelete, onView }: GameCardProps) {
   const router = useRouter()
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [isHovered, setIsHovered] = useState(false)
 
-  const normalizedResult = normalizeResult(game.result, game.playerColor)
-
   const getResultColor = () => {
-    if (normalizedResult === 'win') return { bg: 'bg-green-50', border: 'border-green-200', text: 'text-green-700', icon: 'text-green-600' }
-    if (normalizedResult === 'draw') return { bg: 'bg-yellow-50', border: 'border-yellow-200', text: 'text-yellow-700', icon: 'text-yellow-600' }
-    return { bg: 'bg-red-50', border: 'border-red-200', text: 'text-red-700', icon: 'text-red-600' }
+    if (game.outcome === 'win') return { bg: 'bg-green-50', border: 'border-green-200', text: 'text-green-700', icon: 'text-green-600' }
+    if (game.outcome === 'draw') return { bg: 'bg-yellow-50', border: 'border-yellow-200', text: 'text-yellow-700', icon: 'text-yellow-600' }
+    if (game.outcome === 'loss') return { bg: 'bg-red-50', border: 'border-red-200', text: 'text-red-700', icon: 'text-red-600' }
+    return { bg: 'bg-gray-50', border: 'border-gray-200', text: 'text-gray-700', icon: 'text-gray-500' }
   }
 
-  const getResultText = () => {
-    // Return the actual result format instead of Won/Lost/Draw
-    if (game.result === '1-0' || game.result === '0-1' || game.result === '1/2-1/2') {
-      return game.result
-    }
-    
-    // For Chess.com format, convert to standard score
-    if (normalizedResult === 'win') return game.playerColor === 'white' ? '1-0' : '0-1'
-    if (normalizedResult === 'draw') return '1/2-1/2'
-    return game.playerColor === 'white' ? '0-1' : '1-0'
-  }
+  const getResultText = () => game.pgnResult || game.result
 
   const getResultIcon = () => {
-    if (normalizedResult === 'win') return Trophy
-    if (normalizedResult === 'draw') return Minus
-    return TrendingDown
+    if (game.outcome === 'win') return Trophy
+    if (game.outcome === 'loss') return TrendingDown
+    return Minus
   }
 
   const formatTimeControl = (tc: string) => {
@@ -220,6 +190,12 @@ export function GameCard({ game, onDelete, onView }: GameCardProps) {
                 </>
               )}
             </div>
+            {game.termination && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Flag className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                <span className="truncate">{TERMINATION_LABELS[game.termination]}</span>
+              </div>
+            )}
             {game.opponentRating && (
               <div className="flex items-center gap-2 text-sm text-gray-600 col-span-2">
                 <TrendingUp className="h-4 w-4 flex-shrink-0 text-gray-400" />
@@ -236,6 +212,35 @@ export function GameCard({ game, onDelete, onView }: GameCardProps) {
             )}
           </div>
 
+          {/* Analysis summary */}
+          {game.analysis && (
+            <div className="flex items-center justify-between mb-4 px-3 py-2 rounded-lg bg-gray-50 border border-gray-100">
+              {game.accuracy != null && (
+                <span className="text-sm font-semibold text-gray-900">{game.accuracy.toFixed(1)}% accuracy</span>
+              )}
+              <div className="flex items-center gap-3 text-sm">
+                {game.analysis.brilliantMoves > 0 && (
+                  <span className="flex items-center gap-1 text-teal-600">
+                    <MoveClassificationIcon classification="brilliant" className="h-4 w-4" />
+                    {game.analysis.brilliantMoves}
+                  </span>
+                )}
+                <span className="flex items-center gap-1 text-yellow-600">
+                  <MoveClassificationIcon classification="inaccuracy" className="h-4 w-4" />
+                  {game.analysis.inaccuracies}
+                </span>
+                <span className="flex items-center gap-1 text-orange-600">
+                  <MoveClassificationIcon classification="mistake" className="h-4 w-4" />
+                  {game.analysis.mistakes}
+                </span>
+                <span className="flex items-center gap-1 text-red-600">
+                  <MoveClassificationIcon classification="blunder" className="h-4 w-4" />
+                  {game.analysis.blunders}
+                </span>
+              </div>
+            </div>
+          )}
+
           {/* Footer with actions */}
           <div className="flex items-center justify-between pt-4 border-t border-gray-100">
             <Button
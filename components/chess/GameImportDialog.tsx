@@ -64,8 +64,13 @@ export function GameImportDialog({
     setImportResult(null)
 
     try {
-      const fetchedGames = await getChessComGamesMultiple(username, monthsBack)
-      
+      const { games: fetchedGames, failures } = await getChessComGamesMultiple(username, monthsBack)
+
+      if (fetchedGames.length === 0 && failures.length > 0) {
+        setError(`Failed to fetch games: ${failures[0].message}`)
+        return
+      }
+
       if (fetchedGames.length === 0) {
         setError('No games found. Try a different username or increase the time range.')
         setIsLoading(false)
@@ -121,7 +126,7 @@ export function GameImportDialog({
 
     try {
       // Get the full game data for selected games
-      const fullGames = await getChessComGamesMultiple(username, monthsBack)
+      const { games: fullGames } = await getChessComGamesMultiple(username, monthsBack)
       const selectedFullGames = fullGames.filter(g => selectedGames.some(sg => sg.url === g.url))
 
       const response = await apiFetch('/api/games/import', {
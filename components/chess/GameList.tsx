@@ -4,12 +4,14 @@ import { useState, useEffect, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import { Loader2, SortDesc, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react'
 import { GameCard } from './GameCard'
+import { PgnUploadDialog } from './PgnUploadDialog'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { apiFetch } from '@/lib/api/fetch'
 import { toast } from '@/components/ui/use-toast'
+import { TERMINATION_LABELS, type Outcome, type Termination } from '@/lib/ingest/results'
 
 interface GameListProps {
   userId?: string
@@ -20,6 +22,9 @@ interface Game {
   id: string
   pgn: string
   result: string
+  pgnResult?: string | null
+  outcome?: Outcome | null
+  termination?: Termination | null
   playerColor: string
   opponent: string
   opponentRating?: number | null
@@ -29,41 +34,23 @@ interface Game {
   opening?: string | null
   openingEco?: string | null
   accuracy?: number | null
+  analysis?: {
+    blunders: number
+    mistakes: number
+    inaccuracies: number
+    brilliantMoves: number
+  } | null
 }
 
 type SortOption = 'date-desc' | 'date-asc' | 'rating-desc' | 'rating-asc'
 type FilterOption = 'all' | 'wins' | 'losses' | 'draws'
 type TimeControlFilter = 'all' | 'bullet' | 'blitz' | 'rapid' | 'classical' | 'daily'
+type TerminationFilter = 'all' | Termination
 
-// Helper to normalize result
-const normalizeResult = (result: string, playerColor: string): 'win' | 'loss' | 'draw' => {
-  const isWhite = playerColor === 'white'
-  
-  // Handle PGN format: '1-0', '0-1', '1/2-1/2'
-  if (result === '1-0') return isWhite ? 'win' : 'loss'
-  if (result === '0-1') return isWhite ? 'loss' : 'win'
-  if (result === '1/2-1/2') return 'draw'
-  
-  // Handle Chess.com format - these are from the opponent's perspective
-  const lowerResult = result.toLowerCase()
-  
-  // If the result is 'win', it means you won
-  if (lowerResult === 'win') return 'win'
-  
-  // If the result is 'checkmated', 'timeout', 'resigned', 'insufficient', 'loss', it means you were the one who experienced this
-  if (lowerResult === 'checkmated' || lowerResult === 'timeout' || lowerResult === 'resigned' || 
-      lowerResult === 'loss' || lowerResult === 'insufficient') {
-    return 'loss'
-  }
-  
-  // If the result is 'draw' or 'agreed' or other draw formats
-  if (lowerResult === 'draw' || lowerResult === 'agreed' || lowerResult === 'repetition' || 
-      lowerResult === 'threefold' || lowerResult === 'fifty' || lowerResult === 'stalemate') {
-    return 'draw'
-  }
-  
-  // Default to loss if unknown format
-  return 'loss'
+const FILTER_OUTCOMES: Record<Exclude<FilterOption, 'all'>, Outcome> = {
+  wins: 'win',
+  losses: 'loss',
+  draws: 'draw',
 }
 
 export function GameList({ userId, onGamesChange }: GameListProps) {
@@ -76,6 +63,7 @@ export function GameList({ userId, onGamesChange }: GameListProps) {
   const [sortBy, setSortBy] = useState<SortOption>('date-desc')
   const [filterBy, setFilterBy] = useState<FilterOption>('all')
   const [timeControlFilter, setTimeControlFilter] = useState<TimeControlFilter>('all')
+  const [terminationFilter, setTerminationFilter] = useState<TerminationFilter>('all')
   const [totalGames, setTotalGames] = useState(0)
   const [currentPage, setCurrentPage] = useState(1)
   const gamesPerPage = 18
@@ -83,11 +71,11 @@ export function GameList({ userId, onGamesChange }: GameListProps) {
   useEffect(() => {
     fetchGames()
     fetchAllGames() // Fetch all games for stats
-  }, [userId, sortBy, filterBy])
+  }, [userId, sortBy, filterBy, terminationFilter])
 
   useEffect(() => {
     setCurrentPage(1) // Reset to first page when filters change
-  }, [timeControlFilter, filterBy, searchQuery])
+  }, [timeControlFilter, filterBy, terminationFilter, searchQuery])
 
   const fetchAllGames = async () => {
     try {
@@ -109,6 +97,7 @@ export function GameList({ userId, onGamesChange }: GameListProps) {
       const params = new URLSearchParams({
         sort: sortBy,
         filter: filterBy,
+        termination: terminationFilter,
         limit: '100', // Increase limit to get more games
       })
 
@@ -189,16 +178,13 @@ export function GameList({ userId, onGamesChange }: GameListProps) {
       }
 
       // Result filter
-      if (filterBy !== 'all') {
-        const result = normalizeResult(game.result, game.playerColor)
-        if (filterBy === 'wins' && result !== 'win') return false
-        if (filterBy === 'losses' && result !== 'loss') return false
-        if (filterBy === 'draws' && result !== 'draw') return false
-      }
+      if (filterBy !== 'all' && game.outcome !== FILTER_OUTCOMES[filterBy]) return false
+
+      if (terminationFilter !== 'all' && game.termination !== terminationFilter) return false
 
       return true
     })
-  }, [games, searchQuery, timeControlFilter, filterBy])
+  }, [games, searchQuery, timeControlFilter, filterBy, terminationFilter])
 
   // Pagination - use totalGames for the count, not filteredGames.length
   const totalPages = Math.ceil(totalGames / gamesPerPage)
@@ -208,22 +194,10 @@ export function GameList({ userId, onGamesChange }: GameListProps) {
   }, [filteredGames, currentPage])
 
   // Count functions - use allGames for stats
-  const getWinCount = () => allGames.filter(g => normalizeResult(g.result, g.playerColor) === 'win').length
-  const getLossCount = () => allGames.filter(g => normalizeResult(g.result, g.playerColor) === 'loss').length
-  const getDrawCount = () => allGames.filter(g => normalizeResult(g.result, g.playerColor) === 'draw').length
-
-  // Debug logging for draw games
-  const drawGames = allGames.filter(g => normalizeResult(g.result, g.playerColor) === 'draw')
-  console.log('Draw games debug:', {
-    totalGames: allGames.length,
-    drawCount: drawGames.length,
-    drawGames: drawGames.slice(0, 5).map(g => ({
-      opponent: g.opponent,
-      rawResult: g.result,
-      playerColor: g.playerColor,
-      normalized: normalizeResult(g.result, g.playerColor)
-    }))
-  })
+  const countOutcome = (outcome: Outcome) => allGames.filter(g => g.outcome === outcome).length
+  const getWinCount = () => countOutcome('win')
+  const getLossCount = () => countOutcome('loss')
+  const getDrawCount = () => countOutcome('draw')
 
   const getTimeControlCount = (timeClass: TimeControlFilter) => {
     if (timeClass === 'all') return allGames.length
@@ -302,6 +276,16 @@ export function GameList({ userId, onGamesChange }: GameListProps) {
                   <TabsTrigger value="draws">Draws</TabsTrigger>
                 </TabsList>
               </Tabs>
+              <select
+                value={terminationFilter}
+                onChange={(e) => setTerminationFilter(e.target.value as TerminationFilter)}
+                className="border rounded px-2 py-1 text-sm bg-background"
+              >
+                <option value="all">Any ending</option>
+                {Object.entries(TERMINATION_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
               <div className="flex items-center gap-2">
                 <SortDesc className="h-4 w-4 text-muted-foreground" />
                 <select
@@ -315,6 +299,13 @@ export function GameList({ userId, onGamesChange }: GameListProps) {
                   <option value="rating-asc">Lowest Rating</option>
                 </select>
               </div>
+              <PgnUploadDialog
+                onImportComplete={() => {
+                  fetchGames()
+                  fetchAllGames()
+                  onGamesChange?.()
+                }}
+              />
             </div>
           </div>
 
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState } from 'react'
+import { Activity, CheckCircle, Link2, Loader2, RefreshCw, Unlink } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { apiFetch } from '@/lib/api/fetch'
+import { toast } from '@/components/ui/use-toast'
+import type { User } from '@/types/user'
+import { LichessSignInButton } from '@/components/auth/LichessSignInButton'
+
+interface LichessAccountCardProps {
+  user: User | null
+  onUserChange: (user: User) => void
+}
+
+/**
+ * Link, sync and unlink the user's Lichess account
+ */
+export function LichessAccountCard({ user, onUserChange }: LichessAccountCardProps) {
+  const [username, setUsername] = useState('')
+  const [linking, setLinking] = useState(false)
+  const [syncing, setSyncing] = useState(false)
+
+  const handleLink = async () => {
+    if (!username.trim()) return
+
+    setLinking(true)
+    try {
+      const response = await apiFetch('/api/lichess/account', {
+        method: 'POST',
+        body: JSON.stringify({ username: username.trim() }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to link account')
+
+      onUserChange(data.user)
+      setUsername('')
+      toast({ title: 'Lichess account linked', description: `Linked to ${data.user.lichessUsername}` })
+    } catch (error) {
+      toast({
+        title: 'Link failed',
+        description: error instanceof Error ? error.message : 'Failed to link account',
+        variant: 'destructive',
+      })
+    } finally {
+      setLinking(false)
+    }
+  }
+
+  const handleUnlink = async () => {
+    try {
+      const response = await apiFetch('/api/lichess/account', { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to unlink account')
+      onUserChange(data.user)
+    } catch (error) {
+      toast({
+        title: 'Unlink failed',
+        description: error instanceof Error ? error.message : 'Failed to unlink account',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleSync = async () => {
+    setSyncing(true)
+    try {
+      const response = await apiFetch('/api/games/sync/lichess', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Sync failed')
+
+      toast({
+        title: data.imported > 0 ? 'Sync successful!' : 'Already up to date',
+        description: data.message,
+      })
+    } catch (error) {
+      toast({
+        title: 'Sync failed',
+        description: error instanceof Error ? error.message : 'Failed to sync games',
+        variant: 'destructive',
+      })
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader className="border-b bg-gradient-to-r from-gray-50 to-slate-50">
+        <CardTitle className="flex items-center gap-2">
+          <div className="p-2 bg-gray-100 rounded-lg">
+            <Activity className="h-5 w-5 text-gray-600" />
+          </div>
+          Lichess Account
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        {user?.lichessUsername ? (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <span className="text-lg font-semibold">{user.lichessUsername}</span>
+              {user.lichessVerified && (
+                <Badge className="bg-blue-100 text-blue-700 border-0 px-3 py-1">
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Verified
+                </Badge>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSync} disabled={syncing}>
+                {syncing ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                )}
+                Sync Games
+              </Button>
+              <Button variant="outline" onClick={handleUnlink} disabled={syncing}>
+                <Unlink className="h-4 w-4 mr-2" />
+                Unlink
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <LichessSignInButton
+              link
+              label="Connect with Lichess"
+              onError={(message) => toast({ title: 'Link failed', description: message, variant: 'destructive' })}
+            />
+            <p className="text-xs text-center text-gray-500">or link by username, without access to private games</p>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Your Lichess username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleLink()}
+              />
+              <Button onClick={handleLink} disabled={linking || !username.trim()}>
+                {linking ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Link2 className="h-4 w-4 mr-2" />
+                )}
+                Link
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default LichessAccountCard
@@ -0,0 +1,68 @@
+'use client'
+
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowRight,
+  BookOpen,
+  Check,
+  Sparkles,
+  Star,
+  ThumbsUp,
+  X,
+  XCircle,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react'
+import type { MoveClassification } from '@/lib/chess/classification'
+import { cn } from '@/lib/utils'
+
+interface ClassificationStyle {
+  label: string
+  icon: LucideIcon
+  color: string
+  bgColor: string
+}
+
+export const MOVE_CLASSIFICATION_STYLES: Record<MoveClassification, ClassificationStyle> = {
+  brilliant: { label: 'Brilliant', icon: Sparkles, color: 'text-teal-500', bgColor: 'bg-teal-50' },
+  great: { label: 'Great', icon: Zap, color: 'text-blue-500', bgColor: 'bg-blue-50' },
+  best: { label: 'Best', icon: Star, color: 'text-green-600', bgColor: 'bg-green-50' },
+  excellent: { label: 'Excellent', icon: ThumbsUp, color: 'text-green-500', bgColor: 'bg-green-50' },
+  good: { label: 'Good', icon: Check, color: 'text-emerald-500', bgColor: 'bg-emerald-50' },
+  book: { label: 'Book', icon: BookOpen, color: 'text-amber-700', bgColor: 'bg-amber-50' },
+  forced: { label: 'Forced', icon: ArrowRight, color: 'text-gray-500', bgColor: 'bg-gray-50' },
+  inaccuracy: { label: 'Inaccuracy', icon: AlertCircle, color: 'text-yellow-500', bgColor: 'bg-yellow-50' },
+  mistake: { label: 'Mistake', icon: AlertTriangle, color: 'text-orange-500', bgColor: 'bg-orange-50' },
+  miss: { label: 'Miss', icon: XCircle, color: 'text-rose-500', bgColor: 'bg-rose-50' },
+  blunder: { label: 'Blunder', icon: X, color: 'text-red-500', bgColor: 'bg-red-50' },
+}
+
+// Display order, best to worst
+export const MOVE_CLASSIFICATION_ORDER: MoveClassification[] = [
+  'brilliant', 'great', 'best', 'excellent', 'good', 'book', 'forced', 'inaccuracy', 'mistake', 'miss', 'blunder',
+]
+
+export function getClassificationStyle(classification?: string | null): ClassificationStyle | null {
+  if (!classification) return null
+  return MOVE_CLASSIFICATION_STYLES[classification as MoveClassification] || null
+}
+
+interface MoveClassificationIconProps {
+  classification?: string | null
+  className?: string
+}
+
+export function MoveClassificationIcon({ classification, className }: MoveClassificationIconProps) {
+  const style = getClassificationStyle(classification)
+  if (!style) return null
+
+  const Icon = style.icon
+  return (
+    <span title={style.label} className="inline-flex">
+      <Icon className={cn('w-3 h-3', style.color, className)} />
+    </span>
+  )
+}
+
+export default MoveClassificationIcon
@@ -1,6 +1,10 @@
 'use client'
 
-import { Trophy, TrendingUp, AlertTriangle, X } from 'lucide-react'
+import { getClassificationStyle } from './MoveClassificationIcon'
+import { MoveComment, Variations } from './VariationLine'
+import { nagText } from '@/lib/chess/annotations'
+import type { MoveEvaluation, ParsedMove } from '@/lib/chess/types/chess'
+import type { MovePath } from '@/lib/chess/move-tree'
 
 interface Move {
   moveNumber: number
@@ -17,40 +21,90 @@ interface Mistake {
 interface MoveListProps {
   moves: Move[]
   mistakes?: Mistake[]
+  evaluations?: MoveEvaluation[]
   currentMove?: number
   onMoveClick?: (moveIndex: number) => void
+  // Move tree of the game; its variations are shown under the main-line move they replace
+  tree?: ParsedMove[]
+  currentPath?: MovePath
+  onPathClick?: (path: MovePath) => void
 }
 
-const getMoveType = (moveNumber: number, move: string, mistakes: Mistake[]) => {
-  const mistake = mistakes.find(m => m.moveNumber === moveNumber && m.playedMove === move)
-  
-  if (mistake) {
-    switch (mistake.severity) {
-      case 'blunder':
-        return { icon: X, color: 'text-red-500', bgColor: 'bg-red-50', label: 'Blunder' }
-      case 'mistake':
-        return { icon: AlertTriangle, color: 'text-orange-500', bgColor: 'bg-orange-50', label: 'Mistake' }
-      case 'inaccuracy':
-        return { icon: AlertTriangle, color: 'text-yellow-500', bgColor: 'bg-yellow-50', label: 'Inaccuracy' }
-      default:
-        return null
-    }
-  }
-  
-  // Could add logic for brilliant/great/best moves here if available
-  return null
+const getMoveType = (ply: number, move: string, mistakes: Mistake[], evaluations: MoveEvaluation[]) => {
+  const moveNumber = Math.ceil(ply / 2)
+  const evaluation = evaluations.find(e => e.ply === ply)
+  const classification = evaluation
+    ? evaluation.classification
+    : mistakes.find(m => m.moveNumber === moveNumber && m.playedMove === move)?.severity
+
+  // Only flag moves worth a second look; plain good moves stay unmarked
+  if (!classification || classification === 'good' || classification === 'excellent') return null
+
+  return getClassificationStyle(classification)
 }
 
-export default function MoveList({ moves, mistakes = [], currentMove = -1, onMoveClick }: MoveListProps) {
+export default function MoveList({
+  moves,
+  mistakes = [],
+  evaluations = [],
+  currentMove = -1,
+  onMoveClick,
+  tree,
+  currentPath,
+  onPathClick,
+}: MoveListProps) {
+  const renderMove = (san: string | undefined, ply: number) => {
+    if (!san) return <div className="flex-1" />
+
+    const moveType = getMoveType(ply + 1, san, mistakes, evaluations)
+    return (
+      <div className="flex-1">
+        <div
+          className={`
+            flex items-center gap-1 px-2 py-1 rounded cursor-pointer transition-colors text-sm
+            ${currentMove === ply
+              ? 'bg-blue-100 text-blue-900 font-semibold'
+              : currentMove > ply
+              ? 'text-gray-700 hover:bg-gray-50'
+              : 'text-gray-400 hover:bg-gray-50'
+            }
+            ${moveType ? moveType.bgColor : ''}
+          `}
+          onClick={() => onMoveClick?.(ply)}
+        >
+          {moveType && (
+            <moveType.icon className={`w-3 h-3 ${moveType.color}`} />
+          )}
+          <span className={moveType ? moveType.color : ''}>
+            {san}{nagText(tree?.[ply]?.nags)}
+          </span>
+        </div>
+      </div>
+    )
+  }
+
+  const renderVariations = (ply: number) => (
+    <>
+      <MoveComment move={tree?.[ply]} />
+      <Variations
+        move={tree?.[ply]}
+        path={[ply]}
+        currentPath={currentPath}
+        onPathClick={onPathClick}
+      />
+    </>
+  )
+
   return (
     <div className="space-y-1 max-h-96 overflow-y-auto">
       {moves.length === 0 ? (
         <p className="text-gray-500 text-sm">No moves yet</p>
       ) : (
         moves.map((move, index) => {
-          const whiteMoveType = move.white ? getMoveType(move.moveNumber, move.white, mistakes) : null
-          const blackMoveType = move.black ? getMoveType(move.moveNumber, move.black, mistakes) : null
-          
+          // A comment or alternatives to White's move split the row so they sit right after it
+          const white = tree?.[index * 2]
+          const splitRow = !!move.black && (!!white?.comment || !!white?.variations?.length)
+
           return (
             <div key={index} className="border-b border-gray-100 pb-1">
               <div className="flex items-center">
@@ -60,57 +114,27 @@ export default function MoveList({ moves, mistakes = [], currentMove = -1, onMov
                 </span>
                 
                 {/* White Move */}
-                <div className="flex-1">
-                  {move.white && (
-                    <div
-                      className={`
-                        flex items-center gap-1 px-2 py-1 rounded cursor-pointer transition-colors text-sm
-                        ${currentMove === index * 2 
-                          ? 'bg-blue-100 text-blue-900 font-semibold' 
-                          : currentMove > index * 2
-                          ? 'text-gray-700 hover:bg-gray-50'
-                          : 'text-gray-400 hover:bg-gray-50'
-                        }
-                        ${whiteMoveType ? whiteMoveType.bgColor : ''}
-                      `}
-                      onClick={() => onMoveClick?.(index * 2)}
-                    >
-                      {whiteMoveType && (
-                        <whiteMoveType.icon className={`w-3 h-3 ${whiteMoveType.color}`} />
-                      )}
-                      <span className={whiteMoveType ? whiteMoveType.color : ''}>
-                        {move.white}
-                      </span>
-                    </div>
-                  )}
-                </div>
+                {renderMove(move.white, index * 2)}
                 
                 {/* Black Move */}
-                <div className="flex-1">
-                  {move.black && (
-                    <div
-                      className={`
-                        flex items-center gap-1 px-2 py-1 rounded cursor-pointer transition-colors text-sm
-                        ${currentMove === index * 2 + 1 
-                          ? 'bg-blue-100 text-blue-900 font-semibold' 
-                          : currentMove > index * 2 + 1
-                          ? 'text-gray-700 hover:bg-gray-50'
-                          : 'text-gray-400 hover:bg-gray-50'
-                        }
-                        ${blackMoveType ? blackMoveType.bgColor : ''}
-                      `}
-                      onClick={() => onMoveClick?.(index * 2 + 1)}
-                    >
-                      {blackMoveType && (
-                        <blackMoveType.icon className={`w-3 h-3 ${blackMoveType.color}`} />
-                      )}
-                      <span className={blackMoveType ? blackMoveType.color : ''}>
-                        {move.black}
-                      </span>
-                    </div>
-                  )}
-                </div>
+                {splitRow
+                  ? <div className="flex-1 px-2 text-sm text-gray-400">…</div>
+                  : renderMove(move.black, index * 2 + 1)}
               </div>
+
+              {renderVariations(index * 2)}
+
+              {splitRow && (
+                <div className="flex items-center">
+                  <span className="text-xs font-semibold text-gray-500 w-8">
+                    {move.moveNumber}...
+                  </span>
+                  <div className="flex-1 px-2 text-sm text-gray-400">…</div>
+                  {renderMove(move.black, index * 2 + 1)}
+                </div>
+              )}
+
+              {renderVariations(index * 2 + 1)}
             </div>
           )
         })
@@ -0,0 +1,158 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { BookOpen, Loader2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { apiFetch } from '@/lib/api/fetch'
+import type { ExplorerPosition } from '@/lib/chess/opening-tree'
+
+type ColorFilter = 'all' | 'white' | 'black'
+type PeriodFilter = 'all' | '1' | '3' | '12'
+
+const TIME_CLASSES = ['bullet', 'blitz', 'rapid', 'classical', 'daily']
+
+interface OpeningExplorerProps {
+  fen: string
+  // Initial color filter, e.g. the side the user played in the game being analyzed
+  color?: ColorFilter
+  onMoveClick?: (san: string) => void
+}
+
+const percent = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 100) : 0)
+
+function ScoreBar({ wins, draws, losses, games }: { wins: number; draws: number; losses: number; games: number }) {
+  return (
+    <div className="flex h-2 w-full overflow-hidden rounded-full bg-gray-100" title={`+${wins} =${draws} -${losses}`}>
+      <div className="bg-green-500" style={{ width: `${percent(wins, games)}%` }} />
+      <div className="bg-gray-400" style={{ width: `${percent(draws, games)}%` }} />
+      <div className="bg-red-500" style={{ width: `${percent(losses, games)}%` }} />
+    </div>
+  )
+}
+
+/**
+ * The moves the user's games continued with from a position, with their
+ * results. Follows `fen` as the board changes.
+ */
+export function OpeningExplorer({ fen, color: initialColor = 'all', onMoveClick }: OpeningExplorerProps) {
+  const [color, setColor] = useState<ColorFilter>(initialColor)
+  const [timeClass, setTimeClass] = useState('all')
+  const [period, setPeriod] = useState<PeriodFilter>('all')
+  const [position, setPosition] = useState<ExplorerPosition | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchPosition = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const params = new URLSearchParams({ fen, color, timeClass })
+        if (period !== 'all') {
+          const from = new Date()
+          from.setMonth(from.getMonth() - Number(period))
+          params.set('from', from.toISOString())
+        }
+
+        const response = await apiFetch(`/api/explorer?${params}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load explorer')
+        if (!cancelled) setPosition(data)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load explorer')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchPosition()
+    return () => {
+      cancelled = true
+    }
+  }, [fen, color, timeClass, period])
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <BookOpen className="h-4 w-4" />
+            My Openings
+          </CardTitle>
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          <select
+            value={color}
+            onChange={(e) => setColor(e.target.value as ColorFilter)}
+            className="border rounded px-2 py-1 text-sm bg-background"
+          >
+            <option value="all">Both colors</option>
+            <option value="white">As White</option>
+            <option value="black">As Black</option>
+          </select>
+          <select
+            value={timeClass}
+            onChange={(e) => setTimeClass(e.target.value)}
+            className="border rounded px-2 py-1 text-sm bg-background"
+          >
+            <option value="all">All time controls</option>
+            {TIME_CLASSES.map(value => (
+              <option key={value} value={value}>{value.charAt(0).toUpperCase() + value.slice(1)}</option>
+            ))}
+          </select>
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as PeriodFilter)}
+            className="border rounded px-2 py-1 text-sm bg-background"
+          >
+            <option value="all">All time</option>
+            <option value="1">Last month</option>
+            <option value="3">Last 3 months</option>
+            <option value="12">Last year</option>
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !position || position.moves.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {position && position.games > 0 ? 'Your games ended here.' : 'No games found from this position.'}
+          </p>
+        ) : (
+          <div className="space-y-1">
+            <div className="grid grid-cols-[3.5rem_3rem_1fr_3rem] gap-2 px-2 text-xs font-medium text-gray-500">
+              <span>Move</span>
+              <span className="text-right">Games</span>
+              <span>Result</span>
+              <span className="text-right">Opp.</span>
+            </div>
+            {position.moves.map(move => (
+              <button
+                key={move.san}
+                type="button"
+                onClick={() => onMoveClick?.(move.san)}
+                disabled={!onMoveClick}
+                className="grid w-full grid-cols-[3.5rem_3rem_1fr_3rem] items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-gray-50 disabled:hover:bg-transparent"
+                title={`Score ${percent(move.wins + move.draws / 2, move.games)}%, last played ${new Date(move.lastPlayed).toLocaleDateString()}`}
+              >
+                <span className="font-semibold">{move.san}</span>
+                <span className="text-right text-gray-600">{move.games}</span>
+                <ScoreBar {...move} />
+                <span className="text-right text-xs text-gray-500">{move.averageOpponentRating ?? '—'}</span>
+              </button>
+            ))}
+            <p className="px-2 pt-2 text-xs text-gray-500">
+              {position.games} game{position.games !== 1 ? 's' : ''}: +{position.wins} ={position.draws} -{position.losses}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default OpeningExplorer
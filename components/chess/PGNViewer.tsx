@@ -1,8 +1,14 @@
 'use client'
 
 import { useState, useMemo } from 'react'
-import { Copy, Check, ChevronDown, ChevronRight } from 'lucide-react'
+import { Copy, Check, ChevronDown, ChevronRight, Download } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { MoveComment, Variations } from './VariationLine'
+import { nagText } from '@/lib/chess/annotations'
+import { parsePgn } from '@/lib/chess/pgn/parser'
+import { downloadPgn } from '@/lib/chess/pgn/download'
+import { pathsEqual, type MovePath } from '@/lib/chess/move-tree'
+import type { ParsedMove } from '@/lib/chess/types/chess'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import {
   Collapsible,
@@ -31,6 +37,10 @@ interface PgnViewerProps {
   highlightMoves?: number[]
   currentMove?: number
   onMoveClick?: (moveNumber: number) => void
+  // Pass the move tree being edited instead of re-parsing `pgn`
+  moves?: ParsedMove[]
+  currentPath?: MovePath
+  onPathClick?: (path: MovePath) => void
 }
 
 export function PgnViewer({
@@ -41,49 +51,35 @@ export function PgnViewer({
   highlightMoves = [],
   currentMove,
   onMoveClick,
+  moves,
+  currentPath,
+  onPathClick,
 }: PgnViewerProps) {
   const [copied, setCopied] = useState(false)
   const [isOpen, setIsOpen] = useState(true)
 
+  const tree = useMemo(() => moves || parsePgn(pgn).moves, [pgn, moves])
+
   const parsedMoves = useMemo(() => {
-    const lines = pgn.split('\n')
-    const moveSection = lines.slice(
-      lines.findIndex(line => !line.startsWith('[')) || 0
-    ).join(' ')
-
-    // Remove comments and variations for clean display
-    const cleanMoves = moveSection
-      .replace(/\{[^}]*\}/g, '')
-      .replace(/\([^)]*\)/g, '')
-      .replace(/\$\d+/g, '')
-      .trim()
-
-    const tokens = cleanMoves.split(/\s+/)
-    const moves: { number: number; white?: string; black?: string }[] = []
-    let currentNumber = 1
-    let expectingWhite = true
-
-    for (const token of tokens) {
-      // Skip result tokens and move numbers
-      if (['1-0', '0-1', '1/2-1/2', '*', ''].includes(token)) continue
-      if (/^\d+\.$/.test(token)) continue
-
-      if (expectingWhite) {
-        moves.push({ number: currentNumber, white: token })
-        expectingWhite = false
+    const rows: { number: number; white?: string; black?: string; whiteIndex?: number; blackIndex?: number }[] = []
+
+    tree.forEach((move, index) => {
+      const last = rows[rows.length - 1]
+      if (move.turn === 'b' && last && last.number === move.number && last.black === undefined) {
+        last.black = move.san
+        last.blackIndex = index
+      } else if (move.turn === 'w') {
+        rows.push({ number: move.number, white: move.san, whiteIndex: index })
       } else {
-        moves[moves.length - 1].black = token
-        currentNumber++
-        expectingWhite = true
+        rows.push({ number: move.number, black: move.san, blackIndex: index })
       }
-    }
+    })
 
-    return moves
-  }, [pgn])
+    return rows
+  }, [tree])
 
-  const getMoveStyle = (moveNumber: number, color: 'white' | 'black') => {
-    const index = (moveNumber - 1) * 2 + (color === 'white' ? 0 : 1)
-    const isCurrentMove = currentMove === index
+  const getMoveStyle = (index: number) => {
+    const isCurrentMove = currentPath ? pathsEqual(currentPath, [index]) : currentMove === index
     const isHighlighted = highlightMoves.includes(index)
 
     if (isCurrentMove) {
@@ -117,7 +113,11 @@ export function PgnViewer({
               </Button>
             </CollapsibleTrigger>
             <CollapsibleContent>
-              <div className="flex justify-end pt-2">
+              <div className="flex justify-end gap-2 pt-2">
+                <Button variant="outline" size="sm" onClick={() => downloadPgn(pgn)}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Download
+                </Button>
                 <Button variant="outline" size="sm" onClick={handleCopy}>
                   {copied ? (
                     <Check className="h-4 w-4 mr-1" />
@@ -185,38 +185,47 @@ export function PgnViewer({
         {/* Moves */}
         <div className="space-y-1 max-h-96 overflow-y-auto">
           {parsedMoves.map((move, index) => (
-            <div key={index} className="grid grid-cols-[3rem_1fr_1fr] gap-2">
-              {/* Move Number */}
-              {showMoveNumbers && move.white && (
+            <div key={index}>
+              <div className="grid grid-cols-[3rem_1fr_1fr] gap-2">
+                {/* Move Number */}
                 <span className="text-muted-foreground text-xs text-right">
-                  {move.number}.
+                  {showMoveNumbers && `${move.number}.`}
                 </span>
-              )}
-              {!showMoveNumbers && move.white && (
-                <span className="text-muted-foreground text-xs text-right">
-                  {move.number}.
-                </span>
-              )}
-              
-              {/* White Move */}
-              {move.white && (
-                <button
-                  className={`text-left px-2 py-1 rounded ${getMoveStyle(move.number, 'white')}`}
-                  onClick={() => onMoveClick?.((move.number - 1) * 2)}
-                >
-                  {move.white}
-                </button>
-              )}
-              
-              {/* Black Move */}
-              {move.black && (
-                <button
-                  className={`text-left px-2 py-1 rounded ${getMoveStyle(move.number, 'black')}`}
-                  onClick={() => onMoveClick?.((move.number - 1) * 2 + 1)}
-                >
-                  {move.black}
-                </button>
-              )}
+
+                {/* White Move */}
+                {move.whiteIndex !== undefined ? (
+                  <button
+                    className={`text-left px-2 py-1 rounded ${getMoveStyle(move.whiteIndex)}`}
+                    onClick={() => onMoveClick?.(move.whiteIndex!)}
+                  >
+                    {move.white}{nagText(tree[move.whiteIndex].nags)}
+                  </button>
+                ) : (
+                  <span className="px-2 py-1 text-muted-foreground">…</span>
+                )}
+
+                {/* Black Move */}
+                {move.blackIndex !== undefined && (
+                  <button
+                    className={`text-left px-2 py-1 rounded ${getMoveStyle(move.blackIndex)}`}
+                    onClick={() => onMoveClick?.(move.blackIndex!)}
+                  >
+                    {move.black}{nagText(tree[move.blackIndex].nags)}
+                  </button>
+                )}
+              </div>
+
+              {[move.whiteIndex, move.blackIndex].map(ply => ply !== undefined && (
+                <div key={ply}>
+                  <MoveComment move={tree[ply]} />
+                  <Variations
+                    move={tree[ply]}
+                    path={[ply]}
+                    currentPath={currentPath}
+                    onPathClick={onPathClick}
+                  />
+                </div>
+              ))}
             </div>
           ))}
         </div>
@@ -0,0 +1,200 @@
+'use client'
+
+import { useState } from 'react'
+import { FileUp, Loader2, CheckCircle, AlertCircle, Copy } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import { apiFetch } from '@/lib/api/fetch'
+import { toast } from '@/components/ui/use-toast'
+
+interface PgnUploadDialogProps {
+  onImportComplete?: () => void
+  trigger?: React.ReactNode
+}
+
+interface GameImportResult {
+  index: number
+  white: string
+  black: string
+  status: 'imported' | 'duplicate' | 'failed'
+  message?: string
+}
+
+interface ImportReport {
+  imported: number
+  duplicates: number
+  failed: number
+  results: GameImportResult[]
+}
+
+export function PgnUploadDialog({ onImportComplete, trigger }: PgnUploadDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [aliases, setAliases] = useState('')
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+
+  const handleImport = async () => {
+    if (!file) {
+      setError('Please choose a PGN file')
+      return
+    }
+
+    setImporting(true)
+    setError(null)
+    setReport(null)
+
+    try {
+      const pgn = await file.text()
+      const response = await apiFetch('/api/games/import/pgn', {
+        method: 'POST',
+        body: JSON.stringify({
+          pgn,
+          aliases: aliases.split(/[\n;]/).map(alias => alias.trim()).filter(Boolean),
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import games')
+      }
+
+      setReport(data)
+      toast({
+        title: data.imported > 0 ? 'Import successful!' : 'Nothing imported',
+        description: data.message,
+      })
+
+      if (data.imported > 0) {
+        onImportComplete?.()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import games. Please check the file and try again.')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) {
+      setFile(null)
+      setReport(null)
+      setError(null)
+    }
+  }
+
+  const statusIcon = (status: GameImportResult['status']) => {
+    if (status === 'imported') return <CheckCircle className="h-4 w-4 text-green-600 shrink-0" />
+    if (status === 'duplicate') return <Copy className="h-4 w-4 text-gray-400 shrink-0" />
+    return <AlertCircle className="h-4 w-4 text-red-600 shrink-0" />
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline">
+            <FileUp className="h-4 w-4 mr-2" />
+            Upload PGN
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Upload a PGN File</DialogTitle>
+          <DialogDescription>
+            Import every game from a tournament export or database file. Games are matched to you by the White and Black names.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="pgn-file">PGN file</Label>
+            <Input
+              id="pgn-file"
+              type="file"
+              accept=".pgn,application/x-chess-pgn,text/plain"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="aliases">Your names in the file (Optional)</Label>
+            <textarea
+              id="aliases"
+              className="w-full min-h-[72px] rounded-md border border-input bg-background px-3 py-2 text-sm"
+              placeholder={'Carlsen, Magnus\nMagnus C'}
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              One per line. Your username is always included.
+            </p>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-600 bg-red-50 p-3 rounded-lg">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {report && (
+            <div className="space-y-2">
+              <div className="flex gap-4 text-sm">
+                <span className="text-green-700 font-medium">{report.imported} imported</span>
+                <span className="text-gray-600">{report.duplicates} already imported</span>
+                <span className="text-red-600">{report.failed} failed</span>
+              </div>
+              <div className="border rounded-lg divide-y max-h-64 overflow-y-auto">
+                {report.results.map((result) => (
+                  <div key={result.index} className="flex items-start gap-2 p-2 text-sm">
+                    {statusIcon(result.status)}
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">
+                        #{result.index + 1} {result.white} vs {result.black}
+                      </div>
+                      {result.message && (
+                        <div className="text-xs text-muted-foreground">{result.message}</div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              {report ? 'Close' : 'Cancel'}
+            </Button>
+            <Button onClick={handleImport} disabled={importing || !file}>
+              {importing ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <FileUp className="h-4 w-4 mr-2" />
+                  Import Games
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
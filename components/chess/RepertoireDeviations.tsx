@@ -0,0 +1,155 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertTriangle, Loader2, RefreshCw } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { apiFetch } from '@/lib/api/fetch'
+import type { RepertoireColor, RepertoireReport } from '@/lib/chess/repertoire'
+
+interface RepertoireDeviationsProps {
+  color: RepertoireColor
+  // Changes whenever the saved repertoire does, so the report is rebuilt
+  version?: string | null
+  onPositionClick?: (fen: string) => void
+}
+
+const moveLabel = (moveNumber: number, fen: string, san: string) =>
+  `${moveNumber}${fen.split(' ')[1] === 'w' ? '.' : '...'} ${san}`
+
+/**
+ * Where the user's games left their repertoire: their own deviations to fix
+ * and opponent moves the repertoire doesn't cover yet
+ */
+export function RepertoireDeviations({ color, version, onPositionClick }: RepertoireDeviationsProps) {
+  const [report, setReport] = useState<RepertoireReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reload, setReload] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchReport = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await apiFetch(`/api/repertoire/${color}/report`)
+        const data = await response.json()
+        if (response.status === 404) {
+          if (!cancelled) setReport(null)
+          return
+        }
+        if (!response.ok) throw new Error(data.error || 'Failed to load report')
+        if (!cancelled) setReport(data)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load report')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchReport()
+    return () => {
+      cancelled = true
+    }
+  }, [color, version, reload])
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            Deviations
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={() => setReload(n => n + 1)} disabled={loading}>
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-4">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !report ? (
+          <p className="text-sm text-gray-500">Save some moves to check your games against them.</p>
+        ) : report.games === 0 ? (
+          <p className="text-sm text-gray-500">No games as {color} yet.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="rounded-lg bg-green-50 p-2">
+                <div className="text-xl font-bold text-green-700">{report.followed}</div>
+                <div className="text-xs text-gray-600">Followed</div>
+              </div>
+              <div className="rounded-lg bg-red-50 p-2">
+                <div className="text-xl font-bold text-red-700">{report.playerDeviations}</div>
+                <div className="text-xs text-gray-600">You left it</div>
+              </div>
+              <div className="rounded-lg bg-amber-50 p-2">
+                <div className="text-xl font-bold text-amber-700">{report.opponentDeviations}</div>
+                <div className="text-xs text-gray-600">Opponent left it</div>
+              </div>
+            </div>
+
+            {report.positions.length > 0 && (
+              <div className="space-y-1">
+                {report.positions.map(position => (
+                  <div
+                    key={`${position.fen}|${position.san}`}
+                    className="flex items-center justify-between gap-2 rounded px-2 py-1.5 text-sm hover:bg-gray-50"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => onPositionClick?.(position.fen)}
+                      disabled={!onPositionClick}
+                      className="min-w-0 text-left"
+                    >
+                      <span className={position.by === 'player' ? 'font-semibold text-red-700' : 'font-semibold text-amber-700'}>
+                        {position.by === 'player' ? 'You' : 'Opponent'}: {moveLabel(position.moveNumber, position.fen, position.san)}
+                      </span>
+                      <span className="block truncate text-xs text-gray-500">
+                        Repertoire: {position.expected.join(', ')}
+                      </span>
+                    </button>
+                    <Link
+                      href={`/analysis/${position.lastGameId}`}
+                      className="shrink-0 text-xs text-blue-600 hover:underline"
+                      title={`Last played ${new Date(position.lastPlayed).toLocaleDateString()}`}
+                    >
+                      {position.games} game{position.games !== 1 ? 's' : ''}
+                    </Link>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-1 border-t pt-3">
+              <p className="px-2 text-xs font-medium text-gray-500">Recent games</p>
+              {report.recent.slice(0, 10).map(game => (
+                <Link
+                  key={game.gameId}
+                  href={`/analysis/${game.gameId}`}
+                  className="flex items-center justify-between rounded px-2 py-1 text-sm hover:bg-gray-50"
+                >
+                  <span className="text-gray-600">{new Date(game.date).toLocaleDateString()}</span>
+                  <span className={
+                    !game.deviation ? 'text-green-700'
+                      : game.deviation.by === 'player' ? 'text-red-700' : 'text-amber-700'
+                  }>
+                    {game.deviation
+                      ? moveLabel(game.deviation.moveNumber, game.deviation.fen, game.deviation.san)
+                      : `In book for ${game.plies} plies`}
+                  </span>
+                </Link>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default RepertoireDeviations
@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import { FileUp, Loader2, AlertCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import { apiFetch } from '@/lib/api/fetch'
+import { toast } from '@/components/ui/use-toast'
+import type { RepertoireColor } from '@/lib/chess/repertoire'
+
+interface RepertoireImportDialogProps {
+  color: RepertoireColor
+  onImportComplete?: (pgn: string) => void
+  trigger?: React.ReactNode
+}
+
+export function RepertoireImportDialog({ color, onImportComplete, trigger }: RepertoireImportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [text, setText] = useState('')
+  const [replace, setReplace] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleImport = async () => {
+    setImporting(true)
+    setError(null)
+
+    try {
+      const pgn = file ? await file.text() : text
+      const response = await apiFetch(`/api/repertoire/${color}/import`, {
+        method: 'POST',
+        body: JSON.stringify({ pgn, replace }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import repertoire')
+      }
+
+      toast({
+        title: 'Repertoire imported',
+        description: `${data.imported} line${data.imported !== 1 ? 's' : ''} merged` +
+          (data.skipped > 0 ? `, ${data.skipped} skipped` : ''),
+      })
+      onImportComplete?.(data.pgn)
+      handleOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import repertoire')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen)
+    if (!newOpen) {
+      setFile(null)
+      setText('')
+      setReplace(false)
+      setError(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" size="sm">
+            <FileUp className="h-4 w-4 mr-2" />
+            Import PGN
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import {color === 'white' ? 'White' : 'Black'} Repertoire</DialogTitle>
+          <DialogDescription>
+            Every game in the file, with its variations, is merged into your repertoire. Study and chapter exports work well.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="repertoire-file">PGN file</Label>
+            <Input
+              id="repertoire-file"
+              type="file"
+              accept=".pgn,application/x-chess-pgn,text/plain"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </div>
+
+          {!file && (
+            <div className="space-y-2">
+              <Label htmlFor="repertoire-text">Or paste PGN</Label>
+              <textarea
+                id="repertoire-text"
+                className="w-full min-h-[120px] rounded-md border border-input bg-background px-3 py-2 font-mono text-sm"
+                placeholder={'1. e4 c5 (1... e5 2. Nf3) 2. c3 *'}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch id="repertoire-replace" checked={replace} onCheckedChange={setReplace} />
+            <Label htmlFor="repertoire-replace">Replace the current repertoire instead of merging</Label>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-600 bg-red-50 p-3 rounded-lg">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={importing || (!file && !text.trim())}>
+              {importing ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <FileUp className="h-4 w-4 mr-2" />
+                  Import
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import type { ParsedMove } from '@/lib/chess/types/chess'
+import { pathsEqual, type MovePath } from '@/lib/chess/move-tree'
+import { nagText } from '@/lib/chess/annotations'
+
+interface VariationLineProps {
+  line: ParsedMove[]
+  linePath: MovePath // path of the line, without a move index
+  currentPath?: MovePath
+  onPathClick?: (path: MovePath) => void
+}
+
+/**
+ * A side line written out inline, with its own nested variations in parentheses
+ */
+export function VariationLine({ line, linePath, currentPath, onPathClick }: VariationLineProps) {
+  return (
+    <>
+      {line.map((move, index) => {
+        const path = [...linePath, index]
+        const isCurrent = !!currentPath && pathsEqual(path, currentPath)
+        // Black moves get "N..." at the start and after a comment or nested variation
+        const previous = line[index - 1]
+        const showNumber = move.turn === 'w' || !previous || !!previous.comment || !!previous.variations?.length
+
+        return (
+          <span key={index}>
+            {index === 0 && move.commentBefore && (
+              <span className="italic text-gray-500">{move.commentBefore} </span>
+            )}
+            {showNumber && (
+              <span className="text-muted-foreground">
+                {move.number}{move.turn === 'w' ? '.' : '...'}
+              </span>
+            )}
+            <span
+              className={`px-0.5 rounded ${onPathClick ? 'cursor-pointer hover:bg-gray-100' : ''} ${
+                isCurrent ? 'bg-blue-100 text-blue-900 font-semibold' : ''
+              }`}
+              onClick={() => onPathClick?.(path)}
+            >
+              {move.san}{nagText(move.nags)}
+            </span>{' '}
+            {move.comment && (
+              <span className="italic text-gray-500">{move.comment} </span>
+            )}
+            {move.variations?.map((variation, v) => (
+              <span key={v} className="text-gray-500">
+                (
+                <VariationLine
+                  line={variation}
+                  linePath={[...path, v]}
+                  currentPath={currentPath}
+                  onPathClick={onPathClick}
+                />
+                ){' '}
+              </span>
+            ))}
+          </span>
+        )
+      })}
+    </>
+  )
+}
+
+interface VariationsProps {
+  move: ParsedMove | undefined
+  path: MovePath // path of the move the variations branch from
+  currentPath?: MovePath
+  onPathClick?: (path: MovePath) => void
+}
+
+/**
+ * The alternatives to one main-line move, one indented block each
+ */
+export function Variations({ move, path, currentPath, onPathClick }: VariationsProps) {
+  if (!move?.variations?.length) return null
+
+  return (
+    <div className="ml-8 my-1 space-y-0.5 border-l-2 border-gray-200 pl-2 text-xs text-gray-600">
+      {move.variations.map((variation, v) => (
+        <div key={v}>
+          <VariationLine
+            line={variation}
+            linePath={[...path, v]}
+            currentPath={currentPath}
+            onPathClick={onPathClick}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * A main-line move's comment, shown under its row
+ */
+export function MoveComment({ move }: { move: ParsedMove | undefined }) {
+  if (!move?.comment) return null
+  return (
+    <p className="ml-8 px-2 text-xs italic text-gray-500">
+      {move.number}{move.turn === 'w' ? '.' : '...'} {move.comment}
+    </p>
+  )
+}
+
+export default VariationLine
@@ -16,7 +16,10 @@ import {
   Zap,
   Settings,
   HelpCircle,
-  Bell
+  Bell,
+  BookOpen,
+  BookMarked,
+  Puzzle
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -45,6 +48,24 @@ export function DashboardSidebar({ user, onLogout, collapsed = false, onToggleCo
       icon: Gamepad2,
       badge: null
     },
+    { 
+      href: '/dashboard/explorer', 
+      label: 'Opening Explorer', 
+      icon: BookOpen,
+      badge: null
+    },
+    { 
+      href: '/dashboard/repertoire', 
+      label: 'Repertoire', 
+      icon: BookMarked,
+      badge: null
+    },
+    { 
+      href: '/dashboard/puzzles', 
+      label: 'Puzzles', 
+      icon: Puzzle,
+      badge: null
+    },
     { 
       href: '/dashboard/play', 
       label: 'Play', 
@@ -1,6 +1,19 @@
 import { create } from 'zustand'
 import { Chess } from 'chess.js'
-import type { GameSettings, GameMove } from '@/lib/chess/types/chess'
+import type { GameSettings, GameMove, ParsedMove } from '@/lib/chess/types/chess'
+import { parsePgn, STANDARD_START_FEN } from '@/lib/chess/pgn/parser'
+import {
+  addMove,
+  deleteFromPath,
+  demoteVariation,
+  lineEndPath,
+  movesToPath,
+  nextPath,
+  previousPath,
+  promoteVariation,
+  type MovePath,
+  type TreeEdit,
+} from '@/lib/chess/move-tree'
 
 interface ChessGameState {
   // Game state
@@ -10,7 +23,12 @@ interface ChessGameState {
   isGameOver: boolean
   gameResult: string
   
-  // Move history
+  // Move tree; alternative moves are kept as variations
+  startFen: string
+  moves: ParsedMove[]
+  currentPath: MovePath
+
+  // Moves leading to the current position
   moveHistory: GameMove[]
   currentMoveIndex: number
   
@@ -22,10 +40,16 @@ interface ChessGameState {
   undoMove: () => void
   resetGame: () => void
   goToMove: (index: number) => void
+  goToPath: (path: MovePath) => void
   goToStart: () => void
   goToEnd: () => void
   goForward: () => void
   goBack: () => void
+
+  // Variation actions, applied to the line holding the current move
+  promoteVariation: () => void
+  demoteVariation: () => void
+  deleteVariation: () => void
   
   // Settings actions
   setOrientation: (orientation: 'white' | 'black') => void
@@ -44,6 +68,9 @@ export const useChessGame = create<ChessGameState>((set, get) => ({
   turn: 'w',
   isGameOver: false,
   gameResult: 'Game in Progress',
+  startFen: STANDARD_START_FEN,
+  moves: [],
+  currentPath: [],
   moveHistory: [],
   currentMoveIndex: -1,
   settings: {
@@ -70,118 +97,78 @@ export const useChessGame = create<ChessGameState>((set, get) => ({
 
   // Actions
   makeMove: (move) => {
-    const { game } = get()
-    try {
-      const result = game.move(move)
-      if (result) {
-        set({
-          game: new Chess(game.fen()),
-          fen: game.fen(),
-          turn: game.turn() as 'w' | 'b',
-          isGameOver: game.isGameOver(),
-          gameResult: getGameResultText(game),
-          moveHistory: getHistory(game),
-          currentMoveIndex: -1, // Reset to end when making a new move
-        })
-        return true
-      }
-      return false
-    } catch {
-      return false
-    }
+    const { startFen, moves, currentPath } = get()
+    const edit = addMove(moves, startFen, currentPath, move)
+    if (!edit) return false
+    set(positionState(startFen, edit))
+    return true
   },
 
   undoMove: () => {
-    const { game } = get()
-    try {
-      game.undo()
-      set({
-        game: new Chess(game.fen()),
-        fen: game.fen(),
-        turn: game.turn() as 'w' | 'b',
-        isGameOver: game.isGameOver(),
-        gameResult: getGameResultText(game),
-        moveHistory: getHistory(game),
-        currentMoveIndex: Math.max(-1, get().currentMoveIndex - 1),
-      })
-    } catch {
-      // Can't undo
+    const { startFen, moves, currentPath } = get()
+    // Only the last move of a line is taken back; elsewhere this just steps back
+    if (nextPath(moves, currentPath)) {
+      get().goBack()
+      return
     }
+    const edit = deleteFromPath(moves, currentPath)
+    if (edit) set(positionState(startFen, edit))
   },
 
   resetGame: () => {
-    const game = new Chess()
-    set({
-      game,
-      fen: game.fen(),
-      turn: 'w',
-      isGameOver: false,
-      gameResult: 'Game in Progress',
-      moveHistory: [],
-      currentMoveIndex: -1,
-    })
+    set(positionState(STANDARD_START_FEN, { moves: [], path: [] }))
   },
 
   goToMove: (index) => {
-    const { game } = get()
-    const history = game.history({ verbose: true }) as any[]
-    const newGame = new Chess()
-    newGame.reset()
-    
-    for (let i = 0; i <= index && i < history.length; i++) {
-      newGame.move(history[i])
-    }
-    
-    set({
-      game: newGame,
-      fen: newGame.fen(),
-      turn: newGame.turn() as 'w' | 'b',
-      isGameOver: newGame.isGameOver(),
-      gameResult: getGameResultText(newGame),
-      currentMoveIndex: index,
-    })
+    const { moves, currentPath } = get()
+    const paths = linePaths(moves, currentPath)
+    get().goToPath(index < 0 ? [] : paths[Math.min(index, paths.length - 1)] || [])
+  },
+
+  goToPath: (path) => {
+    const { startFen, moves } = get()
+    set(positionState(startFen, { moves, path }))
   },
 
   goToStart: () => {
-    const { game } = get()
-    const newGame = new Chess()
-    newGame.reset()
-    set({
-      game: newGame,
-      fen: newGame.fen(),
-      turn: 'w',
-      isGameOver: false,
-      gameResult: 'Game in Progress',
-      currentMoveIndex: -1,
-    })
+    get().goToPath([])
   },
 
   goToEnd: () => {
-    const { game, moveHistory } = get()
-    set({
-      game: new Chess(game.fen()),
-      fen: game.fen(),
-      turn: game.turn() as 'w' | 'b',
-      isGameOver: game.isGameOver(),
-      gameResult: getGameResultText(game),
-      currentMoveIndex: moveHistory.length - 1,
-    })
+    const { moves, currentPath } = get()
+    get().goToPath(lineEndPath(moves, currentPath))
   },
 
   goForward: () => {
-    const { currentMoveIndex, moveHistory } = get()
-    if (currentMoveIndex < moveHistory.length - 1) {
-      get().goToMove(currentMoveIndex + 1)
-    }
+    const { moves, currentPath } = get()
+    const next = nextPath(moves, currentPath)
+    if (next) get().goToPath(next)
   },
 
   goBack: () => {
-    const { currentMoveIndex } = get()
-    if (currentMoveIndex > -1) {
-      get().goToMove(currentMoveIndex - 1)
+    const { currentPath } = get()
+    if (currentPath.length > 0) {
+      get().goToPath(previousPath(currentPath))
     }
   },
 
+  promoteVariation: () => {
+    const { startFen, moves, currentPath } = get()
+    const edit = promoteVariation(moves, currentPath)
+    if (edit) set(positionState(startFen, edit))
+  },
+
+  demoteVariation: () => {
+    const { startFen, moves, currentPath } = get()
+    const edit = demoteVariation(moves, currentPath)
+    if (edit) set(positionState(startFen, edit))
+  },
+
+  deleteVariation: () => {
+    const { startFen, moves, currentPath } = get()
+    const edit = deleteFromPath(moves, currentPath)
+    if (edit) set(positionState(startFen, edit))
+  },
   setOrientation: (orientation) => {
     set((state) => ({
       settings: { ...state.settings, orientation },
@@ -202,41 +189,55 @@ export const useChessGame = create<ChessGameState>((set, get) => ({
 
   setPosition: (fen) => {
     try {
-      const game = new Chess(fen)
-      set({
-        game,
-        fen,
-        turn: game.turn() as 'w' | 'b',
-        isGameOver: game.isGameOver(),
-        gameResult: getGameResultText(game),
-        moveHistory: getHistory(game),
-        currentMoveIndex: -1,
-      })
+      new Chess(fen)
+      set(positionState(fen, { moves: [], path: [] }))
     } catch {
       // Invalid FEN
     }
   },
 
   loadPgn: (pgn) => {
-    try {
-      const game = new Chess()
-      game.loadPgn(pgn)
-      set({
-        game,
-        fen: game.fen(),
-        turn: game.turn() as 'w' | 'b',
-        isGameOver: game.isGameOver(),
-        gameResult: getGameResultText(game),
-        moveHistory: getHistory(game),
-        currentMoveIndex: -1,
-      })
-    } catch {
-      // Invalid PGN
-    }
+    const parsed = parsePgn(pgn)
+    // Invalid PGN
+    if (parsed.error) return
+    set(positionState(parsed.startFen, { moves: parsed.moves, path: lineEndPath(parsed.moves, []) }))
   },
 }))
 
 // Helper functions
+function positionState(startFen: string, { moves, path }: TreeEdit) {
+  const game = new Chess(startFen)
+  for (const move of movesToPath(moves, path)) {
+    game.move(move.san)
+  }
+
+  const moveHistory = getHistory(game)
+  return {
+    game,
+    fen: game.fen(),
+    turn: game.turn() as 'w' | 'b',
+    isGameOver: game.isGameOver(),
+    gameResult: getGameResultText(game),
+    startFen,
+    moves,
+    currentPath: path,
+    moveHistory,
+    currentMoveIndex: moveHistory.length - 1,
+  }
+}
+
+// Paths of every move on the line through `path`, from the first move to the line's end
+function linePaths(moves: ParsedMove[], path: MovePath): MovePath[] {
+  const paths: MovePath[] = []
+  for (let p = path; p.length > 0; p = previousPath(p)) {
+    paths.unshift(p)
+  }
+  for (let p = nextPath(moves, path); p; p = nextPath(moves, p)) {
+    paths.push(p)
+  }
+  return paths
+}
+
 function getGameResultText(game: Chess): string {
   if (game.isCheckmate()) return 'Checkmate'
   if (game.isDraw()) return 'Draw'
@@ -0,0 +1,97 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { StockfishEngine, type EngineLine } from '@/lib/chess/engine'
+import { uciLineToSan } from '@/lib/chess/utils/chess-utils'
+
+export interface EngineLineView {
+  multipv: number
+  depth: number
+  evaluation: number // pawns, white's point of view
+  mate?: number // white's point of view
+  moves: string[] // UCI
+  san: string[]
+}
+
+interface UseEngineLinesOptions {
+  multiPv?: number
+  // 'infinite' keeps searching until the position changes or the hook is disabled
+  depth?: number | 'infinite'
+  enabled?: boolean
+}
+
+function toView(fen: string, line: EngineLine): EngineLineView {
+  const sign = fen.split(' ')[1] === 'b' ? -1 : 1
+  return {
+    multipv: line.multipv,
+    depth: line.depth,
+    evaluation: line.evaluation * sign,
+    mate: line.mate !== undefined ? line.mate * sign : undefined,
+    moves: line.pv,
+    san: uciLineToSan(fen, line.pv),
+  }
+}
+
+interface SearchResult {
+  fen: string | null
+  lines: EngineLineView[]
+  done: boolean
+  error: string | null
+}
+
+/**
+ * Top engine lines for a position, updated while the browser engine searches
+ */
+export function useEngineLines(fen: string | null, { multiPv = 3, depth = 16, enabled = true }: UseEngineLinesOptions = {}) {
+  const [result, setResult] = useState<SearchResult>({ fen: null, lines: [], done: true, error: null })
+
+  const engineRef = useRef<StockfishEngine | null>(null)
+
+  useEffect(() => {
+    return () => {
+      engineRef.current?.terminate()
+      engineRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || !fen) return
+
+    if (!engineRef.current) {
+      engineRef.current = new StockfishEngine()
+    }
+
+    // Leaving the position stops its search so the next one starts right away
+    const controller = new AbortController()
+
+    engineRef.current
+      .analyze(fen, depth, {
+        multiPv,
+        signal: controller.signal,
+        onInfo: (engineLines) => {
+          if (!controller.signal.aborted) {
+            setResult({ fen, lines: engineLines.map(line => toView(fen, line)), done: false, error: null })
+          }
+        },
+      })
+      .then(() => {
+        setResult(prev => ({ fen, lines: prev.fen === fen ? prev.lines : [], done: true, error: null }))
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setResult({ fen, lines: [], done: true, error: err instanceof Error ? err.message : 'Engine failed' })
+        }
+      })
+
+    return () => controller.abort()
+  }, [fen, multiPv, depth, enabled])
+
+  const active = enabled && !!fen
+  const current = active && result.fen === fen
+
+  return {
+    lines: current ? result.lines : [],
+    thinking: active && (!current || !result.done),
+    error: current ? result.error : null,
+  }
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  // Classify openings of games stored before the opening book was added
+  const { startOpeningBackfill } = await import('./lib/ingest/openings')
+  startOpeningBackfill()
+}
@@ -1,5 +1,10 @@
+import { createHttpClient, HttpError, toFetchFailure, type FetchFailure } from './http'
+
 const CHESS_COM_API_BASE = 'https://api.chess.com/pub'
 
+// Chess.com serves serial requests freely and rate limits parallel ones
+const chessComClient = createHttpClient({ name: 'Chess.com', concurrency: 2 })
+
 export interface ChessComPlayer {
   username: string
   player_id: number
@@ -39,64 +44,157 @@ export interface ChessComGame {
   }
 }
 
-export async function verifyChessComUser(username: string): Promise<boolean> {
+export interface MonthFailure extends FetchFailure {
+  year: number
+  month: number
+}
+
+// One month of games listed by the archives endpoint
+export interface ChessComArchiveMonth {
+  year: number
+  month: number
+  url: string
+}
+
+// Validators from an earlier fetch of the same archive
+export interface ArchiveValidators {
+  etag?: string | null
+  lastModified?: string | null
+}
+
+export type ArchiveFetchResult =
+  | { changed: false }
+  | { changed: true; games: ChessComGame[]; etag: string | null; lastModified: string | null }
+
+/**
+ * Null when Chess.com has nothing at the URL; other failures are thrown
+ */
+async function getOrNull<T>(url: string, conditional = false): Promise<T | null> {
   try {
-    const response = await fetch(`${CHESS_COM_API_BASE}/player/${username}`)
-    return response.ok
-  } catch {
-    return false
+    return await chessComClient.json<T>(url, { conditional })
+  } catch (error) {
+    if (error instanceof HttpError && error.kind === 'not-found') return null
+    throw error
   }
 }
 
+export async function verifyChessComUser(username: string): Promise<boolean> {
+  return (await getChessComPlayer(username)) !== null
+}
+
 export async function getChessComPlayer(username: string): Promise<ChessComPlayer | null> {
-  try {
-    const response = await fetch(`${CHESS_COM_API_BASE}/player/${username}`)
-    if (!response.ok) return null
-    return await response.json()
-  } catch {
-    return null
-  }
+  return getOrNull<ChessComPlayer>(`${CHESS_COM_API_BASE}/player/${username}`)
 }
 
+/**
+ * A month of games. Monthly archives are revalidated with ETags, so
+ * fetching an unchanged month again is cheap.
+ */
 export async function getChessComGames(
   username: string,
   year: number,
   month: number
 ): Promise<ChessComGame[]> {
+  const monthStr = month.toString().padStart(2, '0')
+  const data = await getOrNull<{ games?: ChessComGame[] }>(
+    `${CHESS_COM_API_BASE}/player/${username}/games/${year}/${monthStr}`,
+    true
+  )
+  return data?.games || []
+}
+
+/**
+ * The months the player has games in, oldest first
+ */
+export async function getChessComArchives(username: string): Promise<ChessComArchiveMonth[]> {
+  const data = await getOrNull<{ archives?: string[] }>(
+    `${CHESS_COM_API_BASE}/player/${username}/games/archives`
+  )
+
+  const months: ChessComArchiveMonth[] = []
+  for (const url of data?.archives || []) {
+    const match = url.match(/\/games\/(\d{4})\/(\d{2})$/)
+    if (match) months.push({ year: Number(match[1]), month: Number(match[2]), url })
+  }
+  return months.sort((a, b) => a.year - b.year || a.month - b.month)
+}
+
+/**
+ * Archives from the last `monthsBack` calendar months, including this one.
+ * 'all' keeps the whole history.
+ */
+export function recentArchives(
+  archives: ChessComArchiveMonth[],
+  monthsBack: number | 'all'
+): ChessComArchiveMonth[] {
+  if (monthsBack === 'all') return archives
+  const now = new Date()
+  const cutoff = new Date(now.getFullYear(), now.getMonth() - monthsBack + 1, 1)
+  const first = cutoff.getFullYear() * 12 + cutoff.getMonth()
+  return archives.filter(archive => archive.year * 12 + archive.month - 1 >= first)
+}
+
+/**
+ * Fetch an archive month unless it hasn't changed since the fetch that
+ * returned `validators`
+ */
+export async function fetchChessComArchive(
+  archive: ChessComArchiveMonth,
+  validators: ArchiveValidators = {}
+): Promise<ArchiveFetchResult> {
+  const headers: Record<string, string> = { Accept: 'application/json' }
+  if (validators.etag) headers['If-None-Match'] = validators.etag
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified
+
+  let response: Response
   try {
-    const monthStr = month.toString().padStart(2, '0')
-    const response = await fetch(
-      `${CHESS_COM_API_BASE}/player/${username}/games/${year}/${monthStr}`
-    )
-    if (!response.ok) return []
-    const data = await response.json()
-    return data.games || []
-  } catch {
-    return []
+    response = await chessComClient.request(archive.url, { headers })
+  } catch (error) {
+    // A listed month that has since gone away has no games
+    if (error instanceof HttpError && error.kind === 'not-found') {
+      return { changed: true, games: [], etag: null, lastModified: null }
+    }
+    throw error
+  }
+  if (response.status === 304) return { changed: false }
+
+  const data: { games?: ChessComGame[] } = await response.json()
+  return {
+    changed: true,
+    games: data.games || [],
+    etag: response.headers.get('ETag'),
+    lastModified: response.headers.get('Last-Modified'),
   }
 }
 
+/**
+ * Games from the last `monthsBack` months the player has archives for, or
+ * their entire history. Months that can't be fetched are reported in
+ * `failures` rather than read as empty.
+ */
 export async function getChessComGamesMultiple(
   username: string,
-  monthsBack: number = 12
-): Promise<ChessComGame[]> {
-  const allGames: ChessComGame[] = []
-  const currentDate = new Date()
-  
-  for (let i = 0; i < monthsBack; i++) {
-    const date = new Date(currentDate.getFullYear(), currentDate.getMonth() - i, 1)
-    const year = date.getFullYear()
-    const month = date.getMonth() + 1
-    
-    try {
-      const games = await getChessComGames(username, year, month)
-      allGames.push(...games)
-    } catch (error) {
-      console.error(`Failed to fetch games for ${year}-${month}:`, error)
+  monthsBack: number | 'all' = 12
+): Promise<{ games: ChessComGame[]; failures: MonthFailure[] }> {
+  const months = recentArchives(await getChessComArchives(username), monthsBack)
+
+  // The client limits how many of these run at once
+  const results = await Promise.allSettled(
+    months.map(({ year, month }) => getChessComGames(username, year, month))
+  )
+
+  const games: ChessComGame[] = []
+  const failures: MonthFailure[] = []
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      games.push(...result.value)
+    } else {
+      console.error(`Failed to fetch games for ${months[i].year}-${months[i].month}:`, result.reason)
+      failures.push({ year: months[i].year, month: months[i].month, ...toFetchFailure(result.reason) })
     }
-  }
-  
-  return allGames
+  })
+
+  return { games, failures }
 }
 
 export async function getCurrentMonthGames(username: string): Promise<ChessComGame[]> {
@@ -124,11 +222,5 @@ export interface ChessComStats {
 }
 
 export async function getChessComStats(username: string): Promise<ChessComStats | null> {
-  try {
-    const response = await fetch(`${CHESS_COM_API_BASE}/player/${username}/stats`)
-    if (!response.ok) return null
-    return await response.json()
-  } catch {
-    return null
-  }
+  return getOrNull<ChessComStats>(`${CHESS_COM_API_BASE}/player/${username}/stats`)
 }
\ No newline at end of file
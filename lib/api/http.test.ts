@@ -0,0 +1,127 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { createHttpClient, HttpError } from './http'
+
+type Route = (req: IncomingMessage, res: ServerResponse, hit: number) => void
+
+// Stub upstream: each path answers with its route, told how often it was hit
+const routes = new Map<string, Route>()
+const hits = new Map<string, IncomingMessage[]>()
+let server: Server
+let base: string
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const seen = [...(hits.get(req.url!) ?? []), req]
+    hits.set(req.url!, seen)
+    const route = routes.get(req.url!)
+    if (route) route(req, res, seen.length)
+    else res.writeHead(404).end()
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  routes.clear()
+  hits.clear()
+})
+
+const client = (options: Partial<Parameters<typeof createHttpClient>[0]> = {}) =>
+  createHttpClient({ name: 'Stub', baseDelayMs: 10, ...options })
+
+describe('createHttpClient', () => {
+  it('retries server errors with backoff until one succeeds', async () => {
+    routes.set('/flaky', (req, res, hit) => {
+      if (hit < 3) res.writeHead(503).end()
+      else res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}')
+    })
+
+    await expect(client().json(`${base}/flaky`)).resolves.toEqual({ ok: true })
+    expect(hits.get('/flaky')).toHaveLength(3)
+  })
+
+  it('gives up after the last retry', async () => {
+    routes.set('/down', (req, res) => res.writeHead(500).end())
+
+    const error = await client({ retries: 2 }).request(`${base}/down`).catch(e => e)
+    expect(error).toBeInstanceOf(HttpError)
+    expect(error).toMatchObject({ kind: 'server', status: 500 })
+    expect(hits.get('/down')).toHaveLength(3)
+  })
+
+  it('does not retry client errors', async () => {
+    const error = await client().request(`${base}/missing`).catch(e => e)
+
+    expect(error).toMatchObject({ kind: 'not-found', status: 404 })
+    expect(hits.get('/missing')).toHaveLength(1)
+  })
+
+  it('waits as long as Retry-After asks before retrying', async () => {
+    routes.set('/limited', (req, res, hit) => {
+      if (hit === 1) res.writeHead(429, { 'Retry-After': '1' }).end()
+      else res.writeHead(200).end('done')
+    })
+
+    const started = Date.now()
+    const response = await client({ baseDelayMs: 1 }).request(`${base}/limited`)
+
+    await expect(response.text()).resolves.toBe('done')
+    expect(Date.now() - started).toBeGreaterThanOrEqual(950)
+  })
+
+  it('fails at once with the Retry-After when the wait is too long', async () => {
+    routes.set('/banned', (req, res) => res.writeHead(429, { 'Retry-After': '120' }).end())
+
+    const error = await client({ maxRetryAfterMs: 5_000 }).request(`${base}/banned`).catch(e => e)
+
+    expect(error).toMatchObject({ kind: 'rate-limited', status: 429, retryAfter: 120 })
+    expect(hits.get('/banned')).toHaveLength(1)
+  })
+
+  it('revalidates with the ETag and reuses the cached body on 304', async () => {
+    routes.set('/archive', (req, res) => {
+      if (req.headers['if-none-match'] === '"v1"') res.writeHead(304).end()
+      else res.writeHead(200, { 'ETag': '"v1"', 'Content-Type': 'application/json' }).end('{"games":[1]}')
+    })
+    const http = client()
+
+    await expect(http.json(`${base}/archive`, { conditional: true })).resolves.toEqual({ games: [1] })
+    await expect(http.json(`${base}/archive`, { conditional: true })).resolves.toEqual({ games: [1] })
+
+    const [first, second] = hits.get('/archive')!
+    expect(first.headers['if-none-match']).toBeUndefined()
+    expect(second.headers['if-none-match']).toBe('"v1"')
+  })
+
+  it('hands a 304 back to callers that sent their own validators', async () => {
+    routes.set('/mine', (req, res) => res.writeHead(304).end())
+
+    const response = await client().request(`${base}/mine`, { headers: { 'If-None-Match': '"theirs"' } })
+    expect(response.status).toBe(304)
+  })
+
+  it('keeps at most `concurrency` requests in flight', async () => {
+    let inFlight = 0
+    let peak = 0
+    routes.set('/slow', (req, res) => {
+      peak = Math.max(peak, ++inFlight)
+      setTimeout(() => {
+        inFlight--
+        res.writeHead(200).end('ok')
+      }, 50)
+    })
+    const http = client({ concurrency: 2 })
+
+    const responses = await Promise.all(Array.from({ length: 5 }, () => http.request(`${base}/slow`)))
+
+    expect(responses.every(response => response.ok)).toBe(true)
+    expect(hits.get('/slow')).toHaveLength(5)
+    expect(peak).toBe(2)
+  })
+})
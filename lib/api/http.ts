@@ -0,0 +1,204 @@
+export type HttpErrorKind = 'rate-limited' | 'not-found' | 'client' | 'server' | 'network'
+
+/**
+ * A request that failed for good: retries are used up or the error can't
+ * be retried. `retryAfter` is in seconds when the server asked us to wait.
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public kind: HttpErrorKind,
+    public status: number | null,
+    public url: string,
+    public retryAfter?: number
+  ) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+/**
+ * An HttpError (or anything else thrown) as plain data, for API responses
+ */
+export interface FetchFailure {
+  kind: HttpErrorKind
+  status: number | null
+  message: string
+  retryAfter?: number
+}
+
+export function toFetchFailure(error: unknown): FetchFailure {
+  if (error instanceof HttpError) {
+    return { kind: error.kind, status: error.status, message: error.message, retryAfter: error.retryAfter }
+  }
+  return { kind: 'network', status: null, message: error instanceof Error ? error.message : 'Request failed' }
+}
+
+export interface HttpClientOptions {
+  name: string // used in error messages, e.g. "Chess.com"
+  concurrency?: number
+  retries?: number
+  baseDelayMs?: number
+  maxRetryAfterMs?: number // longer waits fail with the Retry-After instead of blocking
+  cacheSize?: number
+}
+
+export interface HttpRequestOptions extends RequestInit {
+  // Revalidate with If-None-Match / If-Modified-Since and reuse the cached body on 304
+  conditional?: boolean
+}
+
+interface CachedResponse {
+  etag: string | null
+  lastModified: string | null
+  body: string
+  contentType: string | null
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Seconds to wait from a Retry-After header, which is either seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000)
+}
+
+function errorKind(status: number): HttpErrorKind {
+  if (status === 429) return 'rate-limited'
+  if (status === 404) return 'not-found'
+  return status >= 500 ? 'server' : 'client'
+}
+
+function isRetryable(kind: HttpErrorKind, status: number | null): boolean {
+  return kind === 'network' || kind === 'rate-limited' || (kind === 'server' && status !== 501)
+}
+
+/**
+ * A fetch wrapper for one upstream API: at most `concurrency` requests in
+ * flight, retries with exponential backoff (or the server's Retry-After) on
+ * rate limits, 5xx and network errors, and conditional requests on demand.
+ * Other non-2xx responses are thrown as HttpError, except a 304 to
+ * validators the caller sent itself.
+ */
+export function createHttpClient({
+  name,
+  concurrency = 2,
+  retries = 3,
+  baseDelayMs = 500,
+  maxRetryAfterMs = 60_000,
+  cacheSize = 200,
+}: HttpClientOptions) {
+  let active = 0
+  const waiting: (() => void)[] = []
+  const cache = new Map<string, CachedResponse>()
+
+  const acquire = async () => {
+    if (active < concurrency) {
+      active++
+      return
+    }
+    await new Promise<void>(resolve => waiting.push(resolve))
+  }
+
+  // A freed slot goes straight to the next waiter, so nobody can jump the queue
+  const release = () => {
+    const next = waiting.shift()
+    if (next) next()
+    else active--
+  }
+
+  const remember = (url: string, entry: CachedResponse) => {
+    cache.delete(url)
+    cache.set(url, entry)
+    // Maps keep insertion order, so the first key is the least recently stored
+    if (cache.size > cacheSize) cache.delete(cache.keys().next().value!)
+  }
+
+  const attempt = async (url: string, { conditional, ...init }: HttpRequestOptions): Promise<Response> => {
+    const headers = new Headers(init.headers)
+    const cached = conditional ? cache.get(url) : undefined
+    if (cached?.etag) headers.set('If-None-Match', cached.etag)
+    if (cached?.lastModified) headers.set('If-Modified-Since', cached.lastModified)
+
+    let response: Response
+    try {
+      response = await fetch(url, { ...init, headers })
+    } catch (error) {
+      throw new HttpError(
+        `${name} request failed: ${error instanceof Error ? error.message : 'network error'}`,
+        'network',
+        null,
+        url
+      )
+    }
+
+    if (response.status === 304) {
+      // Without a cached body the caller sent its own validators and handles the 304
+      if (!cached) return response
+      return new Response(cached.body, {
+        status: 200,
+        headers: cached.contentType ? { 'Content-Type': cached.contentType } : undefined,
+      })
+    }
+
+    if (!response.ok) {
+      const kind = errorKind(response.status)
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+      const message = kind === 'rate-limited'
+        ? `${name} is rate limiting requests`
+        : `${name} request failed with status ${response.status}`
+      throw new HttpError(message, kind, response.status, url, retryAfter)
+    }
+
+    const etag = response.headers.get('ETag')
+    const lastModified = response.headers.get('Last-Modified')
+    if (conditional && (etag || lastModified)) {
+      const body = await response.text()
+      const contentType = response.headers.get('Content-Type')
+      remember(url, { etag, lastModified, body, contentType })
+      return new Response(body, { status: response.status, headers: response.headers })
+    }
+
+    return response
+  }
+
+  /**
+   * The response once its headers arrive. The concurrency slot is released
+   * then, so streamed bodies don't hold it.
+   */
+  const request = async (url: string, options: HttpRequestOptions = {}): Promise<Response> => {
+    for (let i = 0; ; i++) {
+      let error: unknown
+      await acquire()
+      try {
+        return await attempt(url, options)
+      } catch (caught) {
+        error = caught
+      } finally {
+        release()
+      }
+
+      if (!(error instanceof HttpError) || !isRetryable(error.kind, error.status) || i >= retries) throw error
+
+      const delay = error.retryAfter !== undefined
+        ? error.retryAfter * 1000
+        : baseDelayMs * 2 ** i * (1 + Math.random() / 2)
+      if (delay > maxRetryAfterMs) throw error
+      await sleep(delay)
+    }
+  }
+
+  const json = async <T>(url: string, options: HttpRequestOptions = {}): Promise<T> => {
+    const headers = new Headers(options.headers)
+    if (!headers.has('Accept')) headers.set('Accept', 'application/json')
+    const response = await request(url, { ...options, headers })
+    return response.json()
+  }
+
+  return { request, json }
+}
@@ -0,0 +1,119 @@
+import { createHash, randomBytes } from 'crypto'
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import type { LichessAccount } from './lichess-oauth'
+
+export interface MockLichessOptions {
+  account?: LichessAccount
+  email?: string | null
+  expiresIn?: number // seconds; tokens never expire without it
+}
+
+export interface MockLichessServer {
+  url: string // point LICHESS_HOST here
+  tokens: Set<string> // access tokens that are currently valid
+  close(): Promise<void>
+}
+
+interface PendingCode {
+  challenge: string
+  redirectUri: string
+  clientId: string
+}
+
+/**
+ * Local stand-in for the parts of Lichess that sign-in uses: the
+ * authorization page, which approves at once and redirects back with a
+ * code, the PKCE token endpoint, and the account endpoints. Like Lichess,
+ * it only hands out a token for the verifier matching the code's challenge.
+ */
+export async function startMockLichessServer({
+  account = { id: 'mockuser', username: 'MockUser' },
+  email = 'mockuser@example.com',
+  expiresIn,
+}: MockLichessOptions = {}): Promise<MockLichessServer> {
+  const codes = new Map<string, PendingCode>()
+  const tokens = new Set<string>()
+
+  const json = (res: ServerResponse, status: number, body?: object) => {
+    res.writeHead(status, body ? { 'Content-Type': 'application/json' } : undefined)
+    res.end(body ? JSON.stringify(body) : undefined)
+  }
+
+  const readForm = async (req: IncomingMessage) => {
+    let body = ''
+    for await (const chunk of req) body += chunk
+    return new URLSearchParams(body)
+  }
+
+  const bearer = (req: IncomingMessage) => {
+    const token = req.headers.authorization?.replace('Bearer ', '')
+    return token && tokens.has(token) ? token : null
+  }
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url!, 'http://localhost')
+
+    if (req.method === 'GET' && url.pathname === '/oauth') {
+      const params = url.searchParams
+      const redirectUri = params.get('redirect_uri')
+      const challenge = params.get('code_challenge')
+      if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256' ||
+          !redirectUri || !challenge || !params.get('client_id')) {
+        return json(res, 400, { error: 'invalid_request' })
+      }
+
+      const code = randomBytes(12).toString('base64url')
+      codes.set(code, { challenge, redirectUri, clientId: params.get('client_id')! })
+
+      const back = new URL(redirectUri)
+      back.searchParams.set('code', code)
+      if (params.get('state')) back.searchParams.set('state', params.get('state')!)
+      res.writeHead(302, { Location: back.toString() })
+      return res.end()
+    }
+
+    if (req.method === 'POST' && url.pathname === '/api/token') {
+      const form = await readForm(req)
+      const pending = codes.get(form.get('code') ?? '')
+      const verifier = form.get('code_verifier') ?? ''
+      const challenge = createHash('sha256').update(verifier).digest('base64url')
+      if (form.get('grant_type') !== 'authorization_code' || !pending || pending.challenge !== challenge ||
+          pending.redirectUri !== form.get('redirect_uri') || pending.clientId !== form.get('client_id')) {
+        return json(res, 400, { error: 'invalid_grant' })
+      }
+
+      // Codes are single use
+      codes.delete(form.get('code')!)
+      const accessToken = `lio_${randomBytes(12).toString('base64url')}`
+      tokens.add(accessToken)
+      return json(res, 200, { token_type: 'Bearer', access_token: accessToken, expires_in: expiresIn })
+    }
+
+    if (req.method === 'DELETE' && url.pathname === '/api/token') {
+      const token = bearer(req)
+      if (token) tokens.delete(token)
+      return json(res, 204)
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/account') {
+      return bearer(req) ? json(res, 200, account) : json(res, 401, { error: 'No such token' })
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/account/email') {
+      if (!bearer(req)) return json(res, 401, { error: 'No such token' })
+      return email ? json(res, 200, { email }) : json(res, 403, { error: 'Missing scope' })
+    }
+
+    json(res, 404, { error: 'Not found' })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    tokens,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+  }
+}
@@ -0,0 +1,190 @@
+import { createHash } from 'crypto'
+import { NextRequest } from 'next/server'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { generateToken } from '@/lib/auth'
+import { decryptSecret, encryptSecret } from '@/lib/crypto'
+import { startMockLichessServer, type MockLichessServer } from './lichess-mock-server'
+
+type FakeUser = Record<string, unknown> & { id: string }
+
+// Just enough of the user table for the sign-in routes
+const { users } = vi.hoisted(() => ({ users: [] as FakeUser[] }))
+
+vi.mock('@/lib/db/prisma', () => {
+  const find = (where: Record<string, unknown>) =>
+    users.find(user => Object.entries(where).every(([key, value]) => user[key] === value)) ?? null
+
+  return {
+    prisma: {
+      user: {
+        findUnique: async ({ where }: { where: Record<string, unknown> }) => find(where),
+        create: async ({ data }: { data: Record<string, unknown> }) => {
+          const user: FakeUser = { id: `user${users.length + 1}`, ...data }
+          delete user.profile
+          users.push(user)
+          return user
+        },
+        update: async ({ where, data }: { where: Record<string, unknown>; data: Record<string, unknown> }) =>
+          Object.assign(find(where)!, data),
+      },
+    },
+  }
+})
+
+let mock: MockLichessServer
+// Loaded once LICHESS_HOST points at the mock server
+let oauth: typeof import('./lichess-oauth')
+let startRoute: typeof import('@/app/api/auth/lichess/route')
+let callbackRoute: typeof import('@/app/api/auth/lichess/callback/route')
+
+beforeAll(async () => {
+  mock = await startMockLichessServer({ expiresIn: 3600 })
+  process.env.LICHESS_HOST = mock.url
+  oauth = await import('./lichess-oauth')
+  startRoute = await import('@/app/api/auth/lichess/route')
+  callbackRoute = await import('@/app/api/auth/lichess/callback/route')
+})
+
+afterAll(async () => {
+  await mock.close()
+})
+
+beforeEach(() => {
+  users.length = 0
+})
+
+/**
+ * Start sign-in and let the mock approve it. Returns the callback URL
+ * Lichess sent the browser to and the cookie holding the PKCE state.
+ */
+async function authorize(sessionToken?: string) {
+  const start = await startRoute.POST(new NextRequest('http://app.test/api/auth/lichess', {
+    method: 'POST',
+    headers: sessionToken ? { Authorization: `Bearer ${sessionToken}` } : undefined,
+  }))
+  const { url } = await start.json()
+  const cookie = start.cookies.get(oauth.LICHESS_OAUTH_COOKIE)!.value
+
+  const approval = await fetch(url, { redirect: 'manual' })
+  return { url: new URL(url), callbackUrl: new URL(approval.headers.get('location')!), cookie }
+}
+
+async function callback(callbackUrl: URL, cookie: string) {
+  const response = await callbackRoute.GET(new NextRequest(callbackUrl, {
+    headers: { cookie: `${oauth.LICHESS_OAUTH_COOKIE}=${cookie}` },
+  }))
+  return new URLSearchParams(new URL(response.headers.get('location')!).hash.slice(1))
+}
+
+describe('Lichess sign-in', () => {
+  it('sends a S256 challenge of the verifier and the state kept in the cookie', async () => {
+    const { url, callbackUrl, cookie } = await authorize()
+    const saved = JSON.parse(decryptSecret(cookie))
+
+    expect(url.origin).toBe(mock.url)
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256')
+    expect(url.searchParams.get('code_challenge'))
+      .toBe(createHash('sha256').update(saved.verifier).digest('base64url'))
+    expect(url.searchParams.get('state')).toBe(saved.state)
+    expect(callbackUrl.pathname).toBe('/api/auth/lichess/callback')
+    expect(callbackUrl.searchParams.get('state')).toBe(saved.state)
+  })
+
+  it('creates a verified account with the token stored encrypted', async () => {
+    const { callbackUrl, cookie } = await authorize()
+    const result = await callback(callbackUrl, cookie)
+
+    expect(result.get('error')).toBeNull()
+    expect(result.get('token')).toBeTruthy()
+    expect(result.get('next')).toBe('/dashboard')
+
+    expect(users).toHaveLength(1)
+    const [user] = users
+    expect(user).toMatchObject({
+      email: 'mockuser@example.com',
+      username: 'MockUser',
+      lichessUserId: 'mockuser',
+      lichessUsername: 'MockUser',
+      lichessVerified: true,
+    })
+    expect(mock.tokens.has(decryptSecret(user.lichessAccessToken as string))).toBe(true)
+    expect((user.lichessTokenExpiresAt as Date).getTime()).toBeGreaterThan(Date.now())
+  })
+
+  it('links the account of a signed-in user', async () => {
+    users.push({ id: 'existing', email: 'me@example.com', password: 'hash', lichessUsername: 'MockUser', lichessVerified: false })
+    const { callbackUrl, cookie } = await authorize(generateToken('existing', 'me@example.com'))
+    const result = await callback(callbackUrl, cookie)
+
+    expect(result.get('next')).toBe('/dashboard/profile')
+    expect(users).toHaveLength(1)
+    expect(users[0]).toMatchObject({ lichessUserId: 'mockuser', lichessVerified: true })
+  })
+
+  it('rejects a callback whose state does not match the cookie', async () => {
+    const { callbackUrl, cookie } = await authorize()
+    callbackUrl.searchParams.set('state', 'forged')
+
+    const result = await callback(callbackUrl, cookie)
+
+    expect(result.get('error')).toMatch(/expired/)
+    expect(users).toHaveLength(0)
+  })
+
+  it('rejects a callback with a tampered state cookie', async () => {
+    const { callbackUrl, cookie } = await authorize()
+    const tampered = cookie.slice(0, -2) + (cookie.endsWith('A') ? 'BB' : 'AA')
+
+    const result = await callback(callbackUrl, tampered)
+
+    expect(result.get('error')).toMatch(/expired/)
+    expect(users).toHaveLength(0)
+  })
+
+  it('gets no token for a code exchanged with the wrong verifier', async () => {
+    const { callbackUrl } = await authorize()
+    const code = callbackUrl.searchParams.get('code')!
+    const redirectUri = oauth.lichessRedirectUri('http://app.test')
+
+    await expect(oauth.exchangeLichessCode(code, oauth.createPkcePair().verifier, redirectUri))
+      .rejects.toThrow('Lichess token exchange failed: 400')
+  })
+
+  it('revokes a token', async () => {
+    const { callbackUrl, cookie } = await authorize()
+    await callback(callbackUrl, cookie)
+    const token = decryptSecret(users[0].lichessAccessToken as string)
+
+    await oauth.revokeLichessToken(token)
+
+    expect(mock.tokens.has(token)).toBe(false)
+    await expect(oauth.getLichessAccount(token)).rejects.toThrow('Lichess account request failed: 401')
+  })
+})
+
+describe('storedLichessToken', () => {
+  it('decrypts the stored token', async () => {
+    users.push({ id: 'u1', lichessAccessToken: encryptSecret('lio_secret'), lichessTokenExpiresAt: null })
+    await expect(oauth.storedLichessToken('u1')).resolves.toBe('lio_secret')
+  })
+
+  it('treats a token that fails to decrypt as missing', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const [iv, tag, ciphertext] = encryptSecret('lio_secret').split('.')
+    const otherTag = Buffer.from(tag, 'base64url').map(byte => byte ^ 1)
+    users.push({
+      id: 'u1',
+      lichessAccessToken: [iv, Buffer.from(otherTag).toString('base64url'), ciphertext].join('.'),
+      lichessTokenExpiresAt: null,
+    })
+
+    await expect(oauth.storedLichessToken('u1')).resolves.toBeNull()
+    expect(logged).toHaveBeenCalledWith('Failed to decrypt Lichess token:', expect.any(Error))
+    logged.mockRestore()
+  })
+
+  it('ignores an expired token', async () => {
+    users.push({ id: 'u1', lichessAccessToken: encryptSecret('lio_secret'), lichessTokenExpiresAt: new Date(Date.now() - 1000) })
+    await expect(oauth.storedLichessToken('u1')).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,132 @@
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from '../db/prisma'
+import { decryptSecret } from '../crypto'
+import { LICHESS_HOST, lichessHeaders } from './lichess'
+
+// Lichess doesn't register OAuth apps; any stable client id works
+const LICHESS_CLIENT_ID = process.env.LICHESS_CLIENT_ID || 'nexuschess'
+const LICHESS_SCOPES = ['email:read']
+
+// Holds the PKCE verifier and state between the redirect and the callback
+export const LICHESS_OAUTH_COOKIE = 'nexuschess_lichess_oauth'
+
+export interface LichessOAuthState {
+  verifier: string
+  state: string
+  linkUserId?: string // set when a signed-in user is linking their account
+}
+
+export interface LichessAccount {
+  id: string
+  username: string
+}
+
+/**
+ * PKCE verifier and its S256 challenge
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url')
+  const challenge = createHash('sha256').update(verifier).digest('base64url')
+  return { verifier, challenge }
+}
+
+export function lichessRedirectUri(origin: string): string {
+  return `${process.env.APP_URL || origin}/api/auth/lichess/callback`
+}
+
+export function lichessAuthorizationUrl(redirectUri: string, state: string, challenge: string): string {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: LICHESS_CLIENT_ID,
+    redirect_uri: redirectUri,
+    scope: LICHESS_SCOPES.join(' '),
+    code_challenge_method: 'S256',
+    code_challenge: challenge,
+    state,
+  })
+  return `${LICHESS_HOST}/oauth?${params}`
+}
+
+/**
+ * Trade an authorization code for an access token
+ */
+export async function exchangeLichessCode(
+  code: string,
+  verifier: string,
+  redirectUri: string
+): Promise<{ accessToken: string; expiresAt: Date | null }> {
+  const response = await fetch(`${LICHESS_HOST}/api/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: verifier,
+      redirect_uri: redirectUri,
+      client_id: LICHESS_CLIENT_ID,
+    }),
+  })
+  if (!response.ok) {
+    throw new Error(`Lichess token exchange failed: ${response.status}`)
+  }
+
+  const data = await response.json()
+  return {
+    accessToken: data.access_token,
+    expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : null,
+  }
+}
+
+export async function getLichessAccount(token: string): Promise<LichessAccount> {
+  const response = await fetch(`${LICHESS_HOST}/api/account`, {
+    headers: lichessHeaders('application/json', token),
+  })
+  if (!response.ok) {
+    throw new Error(`Lichess account request failed: ${response.status}`)
+  }
+  const { id, username } = await response.json()
+  return { id, username }
+}
+
+export async function getLichessEmail(token: string): Promise<string | null> {
+  try {
+    const response = await fetch(`${LICHESS_HOST}/api/account/email`, {
+      headers: lichessHeaders('application/json', token),
+    })
+    if (!response.ok) return null
+    const { email } = await response.json()
+    return email || null
+  } catch {
+    return null
+  }
+}
+
+export async function revokeLichessToken(token: string): Promise<void> {
+  try {
+    await fetch(`${LICHESS_HOST}/api/token`, {
+      method: 'DELETE',
+      headers: lichessHeaders('application/json', token),
+    })
+  } catch (error) {
+    console.error('Failed to revoke Lichess token:', error)
+  }
+}
+
+/**
+ * The user's decrypted Lichess access token, or null without a usable one
+ */
+export async function storedLichessToken(userId: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { lichessAccessToken: true, lichessTokenExpiresAt: true },
+  })
+  if (!user?.lichessAccessToken) return null
+  if (user.lichessTokenExpiresAt && user.lichessTokenExpiresAt <= new Date()) return null
+
+  try {
+    return decryptSecret(user.lichessAccessToken)
+  } catch (error) {
+    console.error('Failed to decrypt Lichess token:', error)
+    return null
+  }
+}
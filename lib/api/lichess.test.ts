@@ -0,0 +1,52 @@
+import { createServer, type IncomingMessage, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+let server: Server
+let requests: IncomingMessage[] = []
+let closed: Promise<void>
+// Loaded once LICHESS_HOST points at the stub server
+let lichess: typeof import('./lichess')
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(req)
+    if (req.url!.startsWith('/api/games/user/')) {
+      // Two games, then the stream stays open as if more were coming
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' })
+      res.write('{"id":"game1"}\n{"id":"game2"}\n')
+      closed = new Promise(resolve => res.on('close', () => resolve()))
+      return
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ id: 'someone', username: 'Someone', perfs: {}, createdAt: 0 }))
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  process.env.LICHESS_HOST = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  lichess = await import('./lichess')
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe('Lichess API', () => {
+  it('closes the export stream when the reader stops early', async () => {
+    const ids: string[] = []
+    for await (const game of lichess.streamLichessGames('someone')) {
+      ids.push(game.id)
+      break
+    }
+
+    expect(ids).toEqual(['game1'])
+    await closed
+  })
+
+  it('escapes the username in the user URL', async () => {
+    requests = []
+    await lichess.getLichessUser('a b/c')
+
+    expect(requests[0].url).toBe('/api/user/a%20b%2Fc')
+  })
+})
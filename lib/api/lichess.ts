@@ -1,4 +1,21 @@
-const LICHESS_API_BASE = 'https://lichess.org/api'
+import { createHttpClient, HttpError } from './http'
+
+// Overridable so a local mock server can stand in for Lichess
+export const LICHESS_HOST = process.env.LICHESS_HOST || 'https://lichess.org'
+const LICHESS_API_BASE = `${LICHESS_HOST}/api`
+
+// Lichess asks for one request at a time
+const lichessClient = createHttpClient({ name: 'Lichess', concurrency: 1 })
+
+/**
+ * Request headers, with the user's OAuth token when there is one. Signed-in
+ * requests get higher rate limits and can see the user's private games.
+ */
+export function lichessHeaders(accept: string, token?: string | null): Record<string, string> {
+  const headers: Record<string, string> = { 'Accept': accept }
+  if (token) headers['Authorization'] = `Bearer ${token}`
+  return headers
+}
 
 export interface LichessGame {
   id: string
@@ -57,17 +74,67 @@ export interface LichessUser {
   }
 }
 
-export async function getLichessUser(username: string): Promise<LichessUser | null> {
+/**
+ * Null when there is no such user; other failures are thrown
+ */
+export async function getLichessUser(username: string, token?: string | null): Promise<LichessUser | null> {
   try {
-    const response = await fetch(`${LICHESS_API_BASE}/user/${username}`, {
-      headers: {
-        'Accept': 'application/json'
-      }
+    return await lichessClient.json<LichessUser>(`${LICHESS_API_BASE}/user/${encodeURIComponent(username)}`, {
+      headers: lichessHeaders('application/json', token)
     })
-    if (!response.ok) return null
-    return await response.json()
-  } catch {
-    return null
+  } catch (error) {
+    if (error instanceof HttpError && error.kind === 'not-found') return null
+    throw error
+  }
+}
+
+export interface LichessGamesOptions {
+  max?: number
+  since?: number // only games started at or after this time, in ms
+  sort?: 'dateAsc' | 'dateDesc'
+  token?: string | null // OAuth token of the account being exported
+}
+
+/**
+ * Stream a user's games from the export API, one NDJSON line at a time,
+ * so a full history never has to be held in memory
+ */
+export async function* streamLichessGames(
+  username: string,
+  { max, since, sort, token }: LichessGamesOptions = {}
+): AsyncGenerator<LichessGame> {
+  const params = new URLSearchParams({ pgnInJson: 'true', clocks: 'true' })
+  if (max) params.set('max', String(max))
+  if (since) params.set('since', String(since))
+  if (sort) params.set('sort', sort)
+
+  const response = await lichessClient.request(
+    `${LICHESS_API_BASE}/games/user/${encodeURIComponent(username)}?${params}`,
+    { headers: lichessHeaders('application/x-ndjson', token) }
+  )
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+
+      const lines = buffer.split('\n')
+      buffer = done ? '' : lines.pop()!
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line)
+      }
+
+      if (done) break
+    }
+  } finally {
+    // Close the response when the consumer stops early or a line fails to
+    // parse; a stream that already failed has nothing left to close
+    await reader.cancel().catch(() => {})
   }
 }
 
@@ -75,31 +142,14 @@ export async function getLichessGames(
   username: string,
   max: number = 50
 ): Promise<LichessGame[]> {
-  try {
-    const response = await fetch(
-      `${LICHESS_API_BASE}/games/user/${username}?max=${max}&pgnInJson=true`,
-      {
-        headers: {
-          'Accept': 'application/x-ndjson'
-        }
-      }
-    )
-    if (!response.ok) return []
-    
-    const text = await response.text()
-    const lines = text.trim().split('\n').filter(Boolean)
-    return lines.map(line => JSON.parse(line))
-  } catch {
-    return []
+  const games: LichessGame[] = []
+  for await (const game of streamLichessGames(username, { max })) {
+    games.push(game)
   }
+  return games
 }
 
 export async function verifyLichessUser(username: string): Promise<boolean> {
-  try {
-    const user = await getLichessUser(username)
-    return user !== null
-  } catch {
-    return false
-  }
+  return (await getLichessUser(username)) !== null
 }
 
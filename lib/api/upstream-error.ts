@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { HttpError, toFetchFailure, type FetchFailure } from './http'
+
+const STATUS_BY_KIND: Record<FetchFailure['kind'], number> = {
+  'rate-limited': 429,
+  'not-found': 404,
+  client: 502,
+  server: 502,
+  network: 502,
+}
+
+/**
+ * API response for a failed Chess.com or Lichess request, keeping its kind
+ * and Retry-After so the client can say what went wrong
+ */
+export function fetchFailureResponse(failure: FetchFailure) {
+  const response = NextResponse.json(
+    { error: failure.message, kind: failure.kind, retryAfter: failure.retryAfter },
+    { status: STATUS_BY_KIND[failure.kind] }
+  )
+  if (failure.retryAfter !== undefined) {
+    response.headers.set('Retry-After', String(Math.ceil(failure.retryAfter)))
+  }
+  return response
+}
+
+/**
+ * Response for an HttpError, or null for errors that didn't come from upstream
+ */
+export function upstreamErrorResponse(error: unknown) {
+  return error instanceof HttpError ? fetchFailureResponse(toFetchFailure(error)) : null
+}
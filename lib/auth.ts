@@ -1,9 +1,24 @@
 import bcrypt from 'bcryptjs'
 import jwt, { SignOptions } from 'jsonwebtoken'
+import { NextRequest, NextResponse } from 'next/server'
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d'
 
+// User fields safe to send to the client: no password or Lichess token
+export const publicUserSelect = {
+  id: true,
+  email: true,
+  username: true,
+  chesscomUsername: true,
+  chesscomVerified: true,
+  lichessUsername: true,
+  lichessVerified: true,
+  rating: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
+
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 10)
 }
@@ -22,4 +37,26 @@ export function verifyToken(token: string): { userId: string; email: string } |
   } catch {
     return null
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The signed-in user of an API request, from the Bearer header or the
+ * session cookie. Without one, `response` is the 401 to send back.
+ */
+export function authenticateRequest(request: NextRequest):
+  | { token: { userId: string; email: string }; response?: undefined }
+  | { token?: undefined; response: NextResponse } {
+  const tokenStr = request.headers.get('authorization')?.replace('Bearer ', '') ||
+                   request.cookies.get('nexuschess_token')?.value
+
+  if (!tokenStr) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const token = verifyToken(tokenStr)
+  if (!token) {
+    return { response: NextResponse.json({ error: 'Invalid token' }, { status: 401 }) }
+  }
+
+  return { token }
+}
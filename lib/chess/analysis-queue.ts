@@ -0,0 +1,200 @@
+import { prisma } from '@/lib/db/prisma'
+import { GameAnalyzer, type GameAnalysis } from './analyzer'
+import { getEnginePool } from './engine-process'
+
+export const DEFAULT_ANALYSIS_DEPTH = 15
+
+const POLL_INTERVAL_MS = 2000
+
+// A running job's worker refreshes its heartbeat this often...
+const HEARTBEAT_INTERVAL_MS = 30_000
+// ...so one that hasn't for this long belongs to a process that died
+const STALE_JOB_MS = 2 * 60_000
+
+const globalForQueue = globalThis as unknown as {
+  analysisWorkerRunning: boolean | undefined
+}
+
+/**
+ * Queue analysis for a game, reusing a job that is already pending or running
+ */
+export async function enqueueAnalysis(gameId: string, userId: string, depth: number = DEFAULT_ANALYSIS_DEPTH) {
+  const activeJob = await prisma.analysisJob.findFirst({
+    where: { gameId, status: { in: ['pending', 'running'] } },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  if (activeJob) return activeJob
+
+  const job = await prisma.analysisJob.create({
+    data: { gameId, userId, depth }
+  })
+
+  startAnalysisWorker()
+  return job
+}
+
+/**
+ * Whether a job is marked running but its worker stopped sending heartbeats
+ */
+export function isStaleJob(job: { status: string; heartbeatAt: Date | null }): boolean {
+  return job.status === 'running' && (!job.heartbeatAt || job.heartbeatAt.getTime() < Date.now() - STALE_JOB_MS)
+}
+
+/**
+ * Start the in-process worker loop if it isn't running yet.
+ * The loop drains pending jobs oldest first and exits once the queue is empty.
+ */
+export function startAnalysisWorker() {
+  if (globalForQueue.analysisWorkerRunning) return
+  globalForQueue.analysisWorkerRunning = true
+
+  drainQueue()
+    .catch(error => console.error('Analysis worker crashed:', error))
+    .finally(() => {
+      globalForQueue.analysisWorkerRunning = false
+    })
+}
+
+/**
+ * Put jobs whose worker died back in the queue. Jobs other live processes
+ * are running keep their heartbeat fresh and are left alone.
+ */
+async function requeueStaleJobs() {
+  const cutoff = new Date(Date.now() - STALE_JOB_MS)
+  await prisma.analysisJob.updateMany({
+    where: {
+      status: 'running',
+      OR: [{ heartbeatAt: null }, { heartbeatAt: { lt: cutoff } }]
+    },
+    data: { status: 'pending', progress: 0, heartbeatAt: null }
+  })
+}
+
+async function drainQueue() {
+  while (true) {
+    await requeueStaleJobs()
+    const job = await claimNextJob()
+
+    if (!job) {
+      // Give requests that enqueue while we're shutting down a chance to be picked up
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+      const pending = await prisma.analysisJob.count({ where: { status: 'pending' } })
+      if (pending === 0) return
+      continue
+    }
+
+    await processJob(job.id, job.gameId, job.depth)
+  }
+}
+
+async function claimNextJob() {
+  const next = await prisma.analysisJob.findFirst({
+    where: { status: 'pending' },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  if (!next) return null
+
+  // Only one worker may move a job out of pending
+  const claimed = await prisma.analysisJob.updateMany({
+    where: { id: next.id, status: 'pending' },
+    data: { status: 'running', startedAt: new Date(), heartbeatAt: new Date() }
+  })
+
+  return claimed.count === 1 ? next : null
+}
+
+async function processJob(jobId: string, gameId: string, depth: number) {
+  const heartbeat = setInterval(() => {
+    prisma.analysisJob
+      .updateMany({ where: { id: jobId, status: 'running' }, data: { heartbeatAt: new Date() } })
+      .catch(error => console.error(`Heartbeat for analysis job ${jobId} failed:`, error))
+  }, HEARTBEAT_INTERVAL_MS)
+
+  try {
+    const game = await prisma.game.findUnique({ where: { id: gameId } })
+    if (!game) {
+      throw new Error('Game no longer exists')
+    }
+
+    const analysis = await getEnginePool().run(engine =>
+      new GameAnalyzer(engine).analyzeGame(game.pgn, game.playerColor as 'white' | 'black', {
+        depth,
+        onProgress: async (progress, totalMoves) => {
+          await prisma.analysisJob.update({
+            where: { id: jobId },
+            data: { progress, totalMoves, heartbeatAt: new Date() }
+          })
+        }
+      })
+    )
+
+    await saveAnalysis(gameId, depth, analysis)
+
+    await prisma.analysisJob.update({
+      where: { id: jobId },
+      data: { status: 'completed', completedAt: new Date() }
+    })
+  } catch (error) {
+    console.error(`Analysis job ${jobId} failed:`, error)
+    await prisma.analysisJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date()
+      }
+    })
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+async function saveAnalysis(gameId: string, depth: number, analysis: GameAnalysis) {
+  await prisma.$transaction([
+    // Replace any earlier result so re-analysis doesn't duplicate mistakes
+    prisma.analysis.deleteMany({ where: { gameId } }),
+    prisma.mistake.deleteMany({ where: { gameId } }),
+    prisma.moveEvaluation.deleteMany({ where: { gameId } }),
+    prisma.analysis.create({
+      data: {
+        gameId,
+        engineDepth: depth,
+        averageAccuracy: analysis.averageAccuracy,
+        blunders: analysis.blunders,
+        mistakes: analysis.mistakes,
+        inaccuracies: analysis.inaccuracies,
+        brilliantMoves: analysis.brilliantMoves,
+        classifications: analysis.classifications,
+        openingPhase: analysis.openingPhase,
+        middlegamePhase: analysis.middlegamePhase,
+        endgamePhase: analysis.endgamePhase
+      }
+    }),
+    prisma.mistake.createMany({
+      data: analysis.mistakesList.map(mistake => ({
+        gameId,
+        moveNumber: mistake.moveNumber,
+        fen: mistake.fen,
+        playedMove: mistake.playedMove,
+        bestMove: mistake.bestMove,
+        evaluation: mistake.evaluation,
+        previousEval: mistake.previousEval,
+        severity: mistake.severity,
+        phase: mistake.phase,
+        explanation: mistake.explanation
+      }))
+    }),
+    prisma.moveEvaluation.createMany({
+      data: analysis.moveEvaluations.map(evaluation => ({
+        gameId,
+        ...evaluation
+      }))
+    }),
+    prisma.game.update({
+      where: { id: gameId },
+      data: { accuracy: analysis.averageAccuracy }
+    })
+  ])
+}
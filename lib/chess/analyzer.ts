@@ -1,5 +1,17 @@
-import { Chess } from 'chess.js'
+import { Chess, DEFAULT_POSITION } from 'chess.js'
+import { bookPrefixLength } from './eco'
 import { StockfishEngine } from './engine'
+import { evaluationInPawns } from './utils/chess-utils'
+import {
+  classifyMove,
+  gameAccuracy,
+  isMistakeSeverity,
+  isSacrifice,
+  moveAccuracy,
+  winPercent,
+  type MistakeSeverity,
+  type MoveClassification
+} from './classification'
 
 export interface MistakeAnalysis {
   moveNumber: number
@@ -8,18 +20,33 @@ export interface MistakeAnalysis {
   bestMove: string
   evaluation: number
   previousEval: number
-  severity: 'blunder' | 'mistake' | 'inaccuracy'
+  severity: MistakeSeverity
   phase: 'opening' | 'middlegame' | 'endgame'
   explanation: string
 }
 
+export interface MoveEvaluationResult {
+  ply: number
+  fen: string // position after the move
+  san: string
+  uci: string
+  cp: number | null // centipawns from white's point of view
+  mate: number | null // moves to mate from white's point of view
+  bestMove: string // engine choice in the position before the move; empty for book moves
+  pv: string[]
+  depth: number
+  classification: MoveClassification
+}
+
 export interface GameAnalysis {
   averageAccuracy: number
   blunders: number
   mistakes: number
   inaccuracies: number
   brilliantMoves: number
+  classifications: Partial<Record<MoveClassification, number>> // player's moves per class
   mistakesList: MistakeAnalysis[]
+  moveEvaluations: MoveEvaluationResult[]
   openingPhase: {
     accuracy: number
     moves: number
@@ -34,11 +61,22 @@ export interface GameAnalysis {
   }
 }
 
+export interface AnalyzeGameOptions {
+  depth?: number
+  onProgress?: (analyzedMoves: number, totalMoves: number) => void | Promise<void>
+}
+
 export class GameAnalyzer {
   private engine: StockfishEngine
-
-  constructor() {
-    this.engine = new StockfishEngine()
+  private ownsEngine: boolean
+
+  /**
+   * Pass an engine to analyze with a specific adapter (e.g. a pooled server process).
+   * Without one, a browser Worker engine is created and terminated after each game.
+   */
+  constructor(engine?: StockfishEngine) {
+    this.engine = engine ?? new StockfishEngine()
+    this.ownsEngine = !engine
   }
 
   async initialize() {
@@ -51,30 +89,52 @@ export class GameAnalyzer {
     return 'middlegame'
   }
 
-  private classifyMistake(evalDrop: number): 'blunder' | 'mistake' | 'inaccuracy' | null {
-    if (Math.abs(evalDrop) >= 3) return 'blunder'
-    if (Math.abs(evalDrop) >= 1.5) return 'mistake'
-    if (Math.abs(evalDrop) >= 0.5) return 'inaccuracy'
-    return null
-  }
-
   private generateExplanation(mistake: {
     playedMove: string
     bestMove: string
-    evalDrop: number
+    winLoss: number
     severity: string
   }): string {
     const explanations = {
-      blunder: `This move loses significant material or position. The evaluation dropped by ${Math.abs(mistake.evalDrop).toFixed(1)} pawns. Consider ${mistake.bestMove} instead.`,
+      blunder: `This move loses significant material or position. Your winning chances dropped by ${Math.round(mistake.winLoss)}%. Consider ${mistake.bestMove} instead.`,
       mistake: `This move gives away an advantage. A better continuation was ${mistake.bestMove}, maintaining your position.`,
+      miss: `Your opponent just went wrong, but this move lets them off the hook. ${mistake.bestMove} would have punished it.`,
       inaccuracy: `Not the most precise move. ${mistake.bestMove} would have been slightly better.`
     }
     
     return explanations[mistake.severity as keyof typeof explanations] || 'Suboptimal move.'
   }
 
-  async analyzeGame(pgn: string, playerColor: 'white' | 'black'): Promise<GameAnalysis> {
+  /**
+   * Engine scores are relative to the side to move; store everything from white's side
+   */
+  private async evaluateForWhite(fen: string, depth: number) {
+    const result = await this.engine.analyze(fen, depth)
+    const sign = fen.split(' ')[1] === 'b' ? -1 : 1
+
+    // Mate 0 (side to move is checkmated) has no sign, so leave it to the clamped score
+    const mate = result.mate ? result.mate * sign : null
+    const cp = mate === null ? Math.round(result.evaluation * sign * 100) : null
+
+    return {
+      bestMove: result.move,
+      cp,
+      mate,
+      win: winPercent(cp, mate),
+      depth: result.depth,
+      pv: result.pv || []
+    }
+  }
+
+  async analyzeGame(
+    pgn: string,
+    playerColor: 'white' | 'black',
+    options: AnalyzeGameOptions = {}
+  ): Promise<GameAnalysis> {
+    const { depth = 15, onProgress } = options
+
     await this.initialize()
+    await this.engine.newGame()
 
     const chess = new Chess()
     chess.loadPgn(pgn)
@@ -84,11 +144,12 @@ export class GameAnalyzer {
     let mistakes = 0
     let inaccuracies = 0
     let brilliantMoves = 0
+    const classifications: Partial<Record<MoveClassification, number>> = {}
     const mistakesList: MistakeAnalysis[] = []
+    const moveEvaluations: MoveEvaluationResult[] = []
 
-    let previousEval = 0
-    let totalMoves = 0
-    let totalAccuracy = 0
+    // White's win percentage for every position, starting position included
+    const winPercents: number[] = []
 
     // Phase tracking
     const phases = {
@@ -100,94 +161,119 @@ export class GameAnalyzer {
     // Reset to starting position
     chess.reset()
 
+    // Book moves aren't searched. Every position up to where the game left
+    // the book gets the eval of the last book position, so they cost no accuracy.
+    const bookPlies = bookPrefixLength(history[0]?.before ?? DEFAULT_POSITION, history.map(move => move.after))
+    const bookEnd = bookPlies > 0 ? await this.evaluateForWhite(history[bookPlies - 1].after, depth) : null
+    const bookPosition = bookEnd && { ...bookEnd, bestMove: '', pv: [] as string[], depth: 0 }
+
+    // Each position is searched once; its result is both the eval after
+    // the previous move and the best move for the next one
+    let before = bookPosition ?? await this.evaluateForWhite(chess.fen(), depth)
+    winPercents.push(before.win)
+
     for (let i = 0; i < history.length; i++) {
       const move = history[i]
-      const isPlayerMove = (playerColor === 'white' && i % 2 === 0) || 
-                           (playerColor === 'black' && i % 2 === 1)
-
-      if (!isPlayerMove) {
-        chess.move(move.san)
-        continue
-      }
+      const isWhiteMove = i % 2 === 0
+      const isPlayerMove = (playerColor === 'white') === isWhiteMove
 
       // Get position before the move
       const fenBeforeMove = chess.fen()
-
-      // Analyze position
-      const analysis = await this.engine.analyze(fenBeforeMove, 15)
-      const bestMove = analysis.move
-      const currentEval = analysis.evaluation
+      const legalMoveCount = chess.moves().length
 
       // Make the actual move
       chess.move(move.san)
-
-      // Calculate evaluation after the move
       const fenAfterMove = chess.fen()
-      const evalAfterMove = await this.engine.evaluatePosition(fenAfterMove, 12)
-
-      // Adjust evaluation based on player color
-      const adjustedPrevEval = playerColor === 'white' ? previousEval : -previousEval
-      const adjustedCurrentEval = playerColor === 'white' ? evalAfterMove : -evalAfterMove
 
-      const evalDrop = adjustedPrevEval - adjustedCurrentEval
-
-      // Determine game phase
-      const pieces = chess.board().flat().filter(p => p !== null).length
-      const phase = this.determinePhase(Math.floor(i / 2) + 1, pieces)
-
-      // Calculate move accuracy (100% if eval improves, scales down based on eval drop)
-      let moveAccuracy = 100
-      if (evalDrop > 0) {
-        moveAccuracy = Math.max(0, 100 - (evalDrop * 20))
-      }
-
-      totalAccuracy += moveAccuracy
-      totalMoves++
-
-      phases[phase].accuracy += moveAccuracy
-      phases[phase].moves++
-
-      // Classify mistake
-      const severity = this.classifyMistake(evalDrop)
-
-      if (severity) {
-        if (severity === 'blunder') blunders++
-        else if (severity === 'mistake') mistakes++
-        else if (severity === 'inaccuracy') inaccuracies++
-
-        mistakesList.push({
-          moveNumber: Math.floor(i / 2) + 1,
-          fen: fenBeforeMove,
-          playedMove: move.san,
-          bestMove,
-          evaluation: adjustedCurrentEval,
-          previousEval: adjustedPrevEval,
-          severity,
-          phase,
-          explanation: this.generateExplanation({
+      const isBook = i < bookPlies
+      const after = !isBook ? await this.evaluateForWhite(fenAfterMove, depth)
+        : i === bookPlies - 1 ? bookEnd! : bookPosition!
+      winPercents.push(after.win)
+
+      // Win percentages from the mover's point of view
+      const winBefore = isWhiteMove ? before.win : 100 - before.win
+      const winAfter = isWhiteMove ? after.win : 100 - after.win
+
+      const uci = move.from + move.to + (move.promotion || '')
+      const classification = classifyMove({
+        winBefore,
+        winAfter,
+        isBestMove: uci === before.bestMove,
+        legalMoveCount,
+        isSacrifice: isSacrifice(chess, move),
+        isBook,
+        previousClassification: moveEvaluations[moveEvaluations.length - 1]?.classification
+      })
+
+      moveEvaluations.push({
+        ply: i + 1,
+        fen: fenAfterMove,
+        san: move.san,
+        uci,
+        cp: after.cp,
+        mate: after.mate,
+        bestMove: before.bestMove,
+        pv: before.pv,
+        depth: after.depth,
+        classification
+      })
+
+      if (isPlayerMove) {
+        // Determine game phase
+        const pieces = chess.board().flat().filter(p => p !== null).length
+        const phase = this.determinePhase(Math.floor(i / 2) + 1, pieces)
+
+        const accuracy = moveAccuracy(winBefore, winAfter)
+        phases[phase].accuracy += accuracy
+        phases[phase].moves++
+
+        classifications[classification] = (classifications[classification] || 0) + 1
+
+        if (isMistakeSeverity(classification)) {
+          if (classification === 'blunder') blunders++
+          // A miss is a mistake-sized error, counted with mistakes in the summary
+          else if (classification === 'mistake' || classification === 'miss') mistakes++
+          else if (classification === 'inaccuracy') inaccuracies++
+
+          mistakesList.push({
+            moveNumber: Math.floor(i / 2) + 1,
+            fen: fenBeforeMove,
             playedMove: move.san,
-            bestMove,
-            evalDrop,
-            severity
+            bestMove: before.bestMove,
+            evaluation: evaluationInPawns(after) * (isWhiteMove ? 1 : -1),
+            previousEval: evaluationInPawns(before) * (isWhiteMove ? 1 : -1),
+            severity: classification,
+            phase,
+            explanation: this.generateExplanation({
+              playedMove: move.san,
+              bestMove: before.bestMove,
+              winLoss: winBefore - winAfter,
+              severity: classification
+            })
           })
-        })
-      } else if (evalDrop < -1) {
-        // Brilliant move
-        brilliantMoves++
+        } else if (classification === 'brilliant') {
+          brilliantMoves++
+        }
       }
 
-      previousEval = evalAfterMove
+      before = after
+
+      await onProgress?.(i + 1, history.length)
     }
 
-    this.engine.terminate()
+    if (this.ownsEngine) {
+      this.engine.terminate()
+    }
 
     return {
-      averageAccuracy: totalMoves > 0 ? totalAccuracy / totalMoves : 0,
+      averageAccuracy: gameAccuracy(winPercents, playerColor),
       blunders,
       mistakes,
       inaccuracies,
       brilliantMoves,
+      classifications,
       mistakesList,
+      moveEvaluations,
       openingPhase: {
         accuracy: phases.opening.moves > 0 ? phases.opening.accuracy / phases.opening.moves : 0,
         moves: phases.opening.moves
@@ -202,4 +288,4 @@ export class GameAnalyzer {
       }
     }
   }
-}
\ No newline at end of file
+}
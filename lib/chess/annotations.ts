@@ -0,0 +1,114 @@
+import type { PgnArrow, PgnHighlight } from './types/chess'
+
+export interface BoardAnnotations {
+  arrows: PgnArrow[]
+  highlights: PgnHighlight[]
+}
+
+// PGN color letters and how they are drawn, matching Lichess
+export const ANNOTATION_COLORS: Record<string, string> = {
+  G: '#15781B',
+  R: '#882020',
+  Y: '#e68f00',
+  B: '#003088',
+}
+
+/**
+ * Color letter for a right-click drag: plain is green, Shift red,
+ * Alt blue and Shift+Alt yellow
+ */
+export function annotationColor(modifiers: { shiftKey?: boolean; altKey?: boolean }): string {
+  if (modifiers.shiftKey && modifiers.altKey) return 'Y'
+  if (modifiers.shiftKey) return 'R'
+  if (modifiers.altKey) return 'B'
+  return 'G'
+}
+
+/**
+ * Add an arrow, recolor it, or remove it when the same arrow is drawn again
+ */
+export function toggleArrow(arrows: PgnArrow[], arrow: PgnArrow): PgnArrow[] {
+  const existing = arrows.find(a => a.from === arrow.from && a.to === arrow.to)
+  const others = arrows.filter(a => a !== existing)
+  return existing?.color === arrow.color ? others : [...others, arrow]
+}
+
+export function toggleHighlight(highlights: PgnHighlight[], highlight: PgnHighlight): PgnHighlight[] {
+  const existing = highlights.find(h => h.square === highlight.square)
+  const others = highlights.filter(h => h !== existing)
+  return existing?.color === highlight.color ? others : [...others, highlight]
+}
+
+// Move assessments; a move has at most one
+export const MOVE_NAGS = [1, 2, 3, 4, 5, 6]
+
+// Position assessments; also at most one per move
+export const POSITION_NAGS = [10, 13, 14, 15, 16, 17, 18, 19]
+
+export const NAG_SYMBOLS: Record<number, string> = {
+  1: '!',
+  2: '?',
+  3: '!!',
+  4: '??',
+  5: '!?',
+  6: '?!',
+  7: '□',
+  10: '=',
+  13: '∞',
+  14: '⩲',
+  15: '⩱',
+  16: '±',
+  17: '∓',
+  18: '+−',
+  19: '−+',
+  22: '⨀',
+  23: '⨀',
+  32: '⟳',
+  33: '⟳',
+  36: '↑',
+  37: '↑',
+  40: '→',
+  41: '→',
+  132: '⇆',
+  133: '⇆',
+  138: '⊕',
+  139: '⊕',
+  146: 'N',
+}
+
+export const NAG_NAMES: Record<number, string> = {
+  1: 'Good move',
+  2: 'Mistake',
+  3: 'Brilliant move',
+  4: 'Blunder',
+  5: 'Interesting move',
+  6: 'Dubious move',
+  10: 'Equal position',
+  13: 'Unclear position',
+  14: 'White is slightly better',
+  15: 'Black is slightly better',
+  16: 'White is better',
+  17: 'Black is better',
+  18: 'White is winning',
+  19: 'Black is winning',
+}
+
+/**
+ * Glyphs for a move's NAGs, move assessments first; unknown NAGs show as $n
+ */
+export function nagText(nags: number[] | undefined): string {
+  if (!nags?.length) return ''
+  const ordered = [...nags].sort((a, b) => Number(!MOVE_NAGS.includes(a)) - Number(!MOVE_NAGS.includes(b)))
+  return ordered.map(nag => NAG_SYMBOLS[nag] ?? `$${nag}`).join('')
+}
+
+/**
+ * Set or clear a NAG, replacing any other NAG from the same group
+ */
+export function toggleNag(nags: number[] | undefined, nag: number): number[] {
+  const current = nags || []
+  if (current.includes(nag)) return current.filter(n => n !== nag)
+
+  const group = MOVE_NAGS.includes(nag) ? MOVE_NAGS : POSITION_NAGS.includes(nag) ? POSITION_NAGS : [nag]
+  return [...current.filter(n => !group.includes(n)), nag]
+}
@@ -0,0 +1,168 @@
+import type { Chess, Move } from 'chess.js'
+
+export type MoveClassification =
+  | 'book'
+  | 'forced'
+  | 'brilliant'
+  | 'great'
+  | 'best'
+  | 'excellent'
+  | 'good'
+  | 'inaccuracy'
+  | 'mistake'
+  | 'miss'
+  | 'blunder'
+
+export type MistakeSeverity = Extract<MoveClassification, 'inaccuracy' | 'mistake' | 'miss' | 'blunder'>
+
+export const MISTAKE_SEVERITIES: MistakeSeverity[] = ['inaccuracy', 'mistake', 'miss', 'blunder']
+
+// Win percentage lost (mover's point of view) at which each class starts
+const EXCELLENT_LOSS = 2
+const GOOD_LOSS = 5
+const INACCURACY_LOSS = 10
+const MISTAKE_LOSS = 20
+
+const PIECE_VALUES: Record<string, number> = {
+  p: 1, n: 3, b: 3, r: 5, q: 9, k: 0,
+}
+
+/**
+ * Chance of winning (0-100) for white, using the logistic model fitted on
+ * Lichess games. Mate scores map to a certain win or loss.
+ */
+export function winPercent(cp: number | null, mate: number | null): number {
+  if (mate !== null && mate !== 0) {
+    return mate > 0 ? 100 : 0
+  }
+
+  const clamped = Math.max(-1000, Math.min(1000, cp ?? 0))
+  const winningChances = 2 / (1 + Math.exp(-0.00368208 * clamped)) - 1
+  return 50 + 50 * winningChances
+}
+
+/**
+ * Accuracy (0-100) of a single move from the mover's win percentage before and after it
+ */
+export function moveAccuracy(winBefore: number, winAfter: number): number {
+  if (winAfter >= winBefore) return 100
+
+  const accuracy = 103.1668100711649 * Math.exp(-0.04354415386753951 * (winBefore - winAfter)) - 3.166924740191411
+  // +1 absorbs engine noise on near-equal moves
+  return Math.max(0, Math.min(100, accuracy + 1))
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+  return Math.sqrt(variance)
+}
+
+/**
+ * Game accuracy for one side.
+ *
+ * `winPercents` holds white's win percentage for every position of the game,
+ * starting with the initial one. Each move's accuracy is weighted by how
+ * volatile the surrounding positions were, so quiet stretches count for less,
+ * and the weighted mean is averaged with the harmonic mean so a few blunders
+ * pull the score down the way players expect.
+ */
+export function gameAccuracy(winPercents: number[], color: 'white' | 'black'): number {
+  if (winPercents.length < 2) return 0
+
+  const windowSize = Math.max(2, Math.min(8, Math.floor(winPercents.length / 10)))
+  const windows: number[][] = []
+
+  // Pad the front so every move gets a window
+  const firstWindow = winPercents.slice(0, windowSize)
+  for (let i = 0; i < Math.min(windowSize, winPercents.length) - 2; i++) {
+    windows.push(firstWindow)
+  }
+  for (let i = 0; i + windowSize <= winPercents.length; i++) {
+    windows.push(winPercents.slice(i, i + windowSize))
+  }
+
+  const weights = windows.map(window => Math.max(0.5, Math.min(12, standardDeviation(window))))
+
+  const accuracies: { accuracy: number; weight: number }[] = []
+  for (let i = 0; i < winPercents.length - 1; i++) {
+    const isWhiteMove = i % 2 === 0
+    if (isWhiteMove !== (color === 'white')) continue
+
+    const before = isWhiteMove ? winPercents[i] : 100 - winPercents[i]
+    const after = isWhiteMove ? winPercents[i + 1] : 100 - winPercents[i + 1]
+    accuracies.push({ accuracy: moveAccuracy(before, after), weight: weights[i] ?? 1 })
+  }
+
+  if (accuracies.length === 0) return 0
+
+  const totalWeight = accuracies.reduce((sum, a) => sum + a.weight, 0)
+  const weightedMean = accuracies.reduce((sum, a) => sum + a.accuracy * a.weight, 0) / totalWeight
+  const harmonicMean = accuracies.length / accuracies.reduce((sum, a) => sum + 1 / Math.max(a.accuracy, 1), 0)
+
+  return (weightedMean + harmonicMean) / 2
+}
+
+/**
+ * Whether the move leaves material hanging: the piece can be taken for less
+ * than it is worth, either because it is undefended or a cheaper piece attacks it.
+ * `position` is the board after the move.
+ */
+export function isSacrifice(position: Chess, move: Move): boolean {
+  if (move.piece === 'p' || move.piece === 'k') return false
+
+  const movedValue = PIECE_VALUES[move.promotion || move.piece]
+  const capturedValue = move.captured ? PIECE_VALUES[move.captured] : 0
+  if (movedValue - capturedValue < 2) return false
+
+  const opponent = position.turn()
+  const attackers = position.attackers(move.to, opponent)
+  if (attackers.length === 0) return false
+
+  const defenders = position.attackers(move.to, move.color)
+  const cheapestAttacker = Math.min(
+    ...attackers.map(square => PIECE_VALUES[position.get(square)?.type || 'k'] || 0)
+  )
+
+  return defenders.length === 0 || cheapestAttacker < movedValue
+}
+
+export interface ClassifyMoveInput {
+  winBefore: number // mover's win percentage with best play
+  winAfter: number // mover's win percentage after the played move
+  isBestMove: boolean
+  legalMoveCount: number
+  isSacrifice?: boolean
+  isBook?: boolean
+  previousClassification?: MoveClassification | null
+}
+
+export function classifyMove(input: ClassifyMoveInput): MoveClassification {
+  if (input.isBook) return 'book'
+  if (input.legalMoveCount === 1) return 'forced'
+
+  const loss = Math.max(0, input.winBefore - input.winAfter)
+  const opponentErred = input.previousClassification === 'mistake' ||
+                        input.previousClassification === 'blunder' ||
+                        input.previousClassification === 'miss'
+
+  if (input.isBestMove || loss < EXCELLENT_LOSS) {
+    // A sound sacrifice that doesn't leave the mover worse off
+    if (input.isSacrifice && input.winAfter >= 50 && input.winBefore < 97) return 'brilliant'
+    // Found the move that punishes the opponent's error
+    if (input.isBestMove && opponentErred) return 'great'
+    return input.isBestMove ? 'best' : 'excellent'
+  }
+
+  if (loss < GOOD_LOSS) return 'good'
+  if (loss >= MISTAKE_LOSS) return 'blunder'
+
+  // Letting the opponent off the hook after their mistake
+  if (opponentErred) return 'miss'
+
+  return loss >= INACCURACY_LOSS ? 'mistake' : 'inaccuracy'
+}
+
+export function isMistakeSeverity(classification: MoveClassification): classification is MistakeSeverity {
+  return (MISTAKE_SEVERITIES as MoveClassification[]).includes(classification)
+}
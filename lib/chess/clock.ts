@@ -0,0 +1,212 @@
+import type { Chess } from 'chess.js'
+
+export type ClockColor = 'w' | 'b'
+
+export interface TimeControl {
+  initialMs: number
+  incrementMs: number
+  // Fischer adds the increment after every move; Bronstein gives back the
+  // time spent on the move, up to the increment
+  delay: 'fischer' | 'bronstein'
+}
+
+/**
+ * Parse a PGN TimeControl tag such as "300" or "180+2"
+ */
+export function parseTimeControl(value: string, delay: TimeControl['delay'] = 'fischer'): TimeControl | null {
+  const match = value.match(/^(\d+)(?:\+(\d+))?$/)
+  if (!match) return null
+
+  return {
+    initialMs: parseInt(match[1]) * 1000,
+    incrementMs: match[2] ? parseInt(match[2]) * 1000 : 0,
+    delay,
+  }
+}
+
+export function formatTimeControl(control: TimeControl): string {
+  return `${Math.round(control.initialMs / 1000)}+${Math.round(control.incrementMs / 1000)}`
+}
+
+/**
+ * Two-sided game clock. Time is read from `now`, so the clock needs no timer
+ * of its own; callers poll `getRemaining` and `flagged` to display it.
+ */
+export class ChessClock {
+  private remaining: Record<ClockColor, number>
+  private active: ClockColor | null = null
+  private running = false
+  private turnStartedAt = 0
+  // Time the active side used before the clock was paused
+  private turnUsedMs = 0
+
+  constructor(private control: TimeControl, private now: () => number = Date.now) {
+    this.remaining = { w: control.initialMs, b: control.initialMs }
+  }
+
+  get activeColor() {
+    return this.active
+  }
+
+  get isRunning() {
+    return this.running
+  }
+
+  start(color: ClockColor = 'w') {
+    this.active = color
+    this.turnUsedMs = 0
+    this.turnStartedAt = this.now()
+    this.running = true
+  }
+
+  private usedThisTurn() {
+    return this.turnUsedMs + (this.running ? this.now() - this.turnStartedAt : 0)
+  }
+
+  getRemaining(color: ClockColor): number {
+    if (color !== this.active) return this.remaining[color]
+    return Math.max(0, this.remaining[color] - this.usedThisTurn())
+  }
+
+  /**
+   * End the active side's turn and start the opponent's.
+   * Returns the mover's remaining time, increment included.
+   */
+  press(): number {
+    const color = this.active
+    if (!color) {
+      throw new Error('Clock is not started')
+    }
+
+    const used = this.usedThisTurn()
+    let left = this.remaining[color] - used
+    // A side that has already flagged gets nothing back
+    if (left > 0) {
+      left += this.control.delay === 'bronstein'
+        ? Math.min(used, this.control.incrementMs)
+        : this.control.incrementMs
+    }
+    this.remaining[color] = Math.max(0, left)
+
+    this.active = color === 'w' ? 'b' : 'w'
+    this.turnUsedMs = 0
+    this.turnStartedAt = this.now()
+
+    return this.remaining[color]
+  }
+
+  pause() {
+    if (!this.running || !this.active) return
+    this.turnUsedMs = this.usedThisTurn()
+    this.running = false
+  }
+
+  resume() {
+    if (this.running || !this.active) return
+    this.turnStartedAt = this.now()
+    this.running = true
+  }
+
+  /**
+   * Freeze both clocks for good, e.g. when the game ends
+   */
+  stop() {
+    if (!this.active) return
+    this.remaining[this.active] = this.getRemaining(this.active)
+    this.active = null
+    this.running = false
+  }
+
+  /**
+   * The side whose time has run out, if any
+   */
+  flagged(): ClockColor | null {
+    if (this.active && this.getRemaining(this.active) <= 0) return this.active
+    return null
+  }
+}
+
+/**
+ * Whether `color` has anything more than a lone king or a king and a single
+ * minor piece, i.e. could still deliver mate
+ */
+export function hasMatingMaterial(game: Chess, color: ClockColor): boolean {
+  const pieces = game.board().flat().filter(square => square && square.color === color && square.type !== 'k')
+  if (pieces.length === 0) return false
+  if (pieces.length === 1 && (pieces[0]!.type === 'n' || pieces[0]!.type === 'b')) return false
+  return true
+}
+
+/**
+ * Result when `flagged` runs out of time: the opponent wins unless they
+ * cannot possibly mate, in which case it is a draw
+ */
+export function resultOnTime(game: Chess, flagged: ClockColor): string {
+  const opponent = flagged === 'w' ? 'b' : 'w'
+  if (!hasMatingMaterial(game, opponent)) return '1/2-1/2'
+  return opponent === 'w' ? '1-0' : '0-1'
+}
+
+/**
+ * Clock display, e.g. "4:59" or "0:09.3" under ten seconds
+ */
+export function formatClock(ms: number): string {
+  const clamped = Math.max(0, ms)
+  const totalSeconds = Math.floor(clamped / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+  }
+  if (clamped < 10_000) {
+    return `${minutes}:${String(seconds).padStart(2, '0')}.${Math.floor((clamped % 1000) / 100)}`
+  }
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+/**
+ * Seconds left from a "[%clk 0:04:59.9]" command inside a PGN comment
+ */
+export function parseClk(comment: string): number | null {
+  const match = comment.match(/\[%clk\s+(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)\]/)
+  if (!match) return null
+  return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3])
+}
+
+/**
+ * Seconds spent on each ply given the clock after every ply. The first move
+ * of each side is measured from the initial time when it is known.
+ */
+export function timeSpent(clocks: number[], control: TimeControl | null): number[] {
+  const initial = control ? control.initialMs / 1000 : null
+  const increment = control ? control.incrementMs / 1000 : 0
+
+  return clocks.map((clock, ply) => {
+    const before = ply >= 2 ? clocks[ply - 2] : initial ?? clock
+    return Math.max(0, before - clock + (ply >= 2 || initial !== null ? increment : 0))
+  })
+}
+
+/**
+ * Clock level (seconds) under which a player counts as being in time trouble
+ */
+export function timeTroubleThreshold(control: TimeControl | null): number {
+  if (!control) return 30
+  return Math.max(10, Math.min(60, control.initialMs / 1000 * 0.1))
+}
+
+/**
+ * PGN clock command for the time left after a move, e.g. "[%clk 0:04:58.3]"
+ */
+export function clkComment(ms: number): string {
+  const tenths = Math.floor(Math.max(0, ms) / 100)
+  const totalSeconds = Math.floor(tenths / 10)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const fraction = tenths % 10 ? `.${tenths % 10}` : ''
+
+  return `[%clk ${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}${fraction}]`
+}
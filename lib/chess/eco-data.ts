@@ -0,0 +1,825 @@
+/**
+ * Opening book: ECO code, opening name and the moves that reach it from the
+ * starting position. Positions are matched by EPD, so lines that transpose
+ * into an entry are named after it too.
+ */
+export const ECO_OPENINGS: [eco: string, name: string, moves: string][] = [
+  // A00-A03: irregular first moves and Bird's Opening
+  ['A00', 'Polish Opening', '1. b4'],
+  ['A00', 'Polish Opening: Outflank Variation', '1. b4 c6'],
+  ['A00', 'Grob Opening', '1. g4'],
+  ['A00', 'Hungarian Opening', '1. g3'],
+  ['A00', 'Hungarian Opening: Symmetrical Variation', '1. g3 g6'],
+  ['A00', 'Van Geet Opening', '1. Nc3'],
+  ['A00', 'Van Geet Opening: Reversed Nimzowitsch', '1. Nc3 e5'],
+  ['A00', 'Mieses Opening', '1. d3'],
+  ['A00', 'Van\'t Kruijs Opening', '1. e3'],
+  ['A00', 'Saragossa Opening', '1. c3'],
+  ['A00', 'Anderssen\'s Opening', '1. a3'],
+  ['A00', 'Ware Opening', '1. a4'],
+  ['A00', 'Clemenz Opening', '1. h3'],
+  ['A00', 'Kadas Opening', '1. h4'],
+  ['A00', 'Sodium Attack', '1. Na3'],
+  ['A00', 'Amar Opening', '1. Nh3'],
+  ['A00', 'Barnes Opening', '1. f3'],
+  ['A01', 'Nimzo-Larsen Attack', '1. b3'],
+  ['A01', 'Nimzo-Larsen Attack: Modern Variation', '1. b3 e5'],
+  ['A01', 'Nimzo-Larsen Attack: Classical Variation', '1. b3 d5'],
+  ['A01', 'Nimzo-Larsen Attack: Indian Variation', '1. b3 Nf6'],
+  ['A02', 'Bird Opening', '1. f4'],
+  ['A02', 'Bird Opening: From\'s Gambit', '1. f4 e5'],
+  ['A02', 'Bird Opening: Dutch Variation', '1. f4 d5'],
+  ['A03', 'Bird Opening: Dutch Variation', '1. f4 d5 2. Nf3'],
+
+  // A04-A09: Zukertort and King's Indian Attack
+  ['A04', 'Zukertort Opening', '1. Nf3'],
+  ['A04', 'Zukertort Opening: Sicilian Invitation', '1. Nf3 c5'],
+  ['A04', 'Zukertort Opening: Dutch Variation', '1. Nf3 f5'],
+  ['A04', 'Zukertort Opening: Kingside Fianchetto', '1. Nf3 g6'],
+  ['A04', 'Zukertort Opening: Black Mustang Defense', '1. Nf3 Nc6'],
+  ['A05', 'Zukertort Opening: Indian Defense', '1. Nf3 Nf6'],
+  ['A05', 'King\'s Indian Attack', '1. Nf3 Nf6 2. g3'],
+  ['A06', 'Zukertort Opening: Queen\'s Gambit Invitation', '1. Nf3 d5'],
+  ['A06', 'Nimzo-Larsen Attack: Classical Variation', '1. Nf3 d5 2. b3'],
+  ['A06', 'Zukertort Opening: Tennison Gambit', '1. Nf3 d5 2. e4'],
+  ['A07', 'King\'s Indian Attack', '1. Nf3 d5 2. g3'],
+  ['A07', 'King\'s Indian Attack: Symmetrical Defense', '1. Nf3 d5 2. g3 g6'],
+  ['A07', 'King\'s Indian Attack: Yugoslav Variation', '1. Nf3 d5 2. g3 Nf6 3. Bg2 c6'],
+  ['A08', 'King\'s Indian Attack', '1. Nf3 d5 2. g3 c5 3. Bg2'],
+  ['A09', 'Réti Opening', '1. Nf3 d5 2. c4'],
+  ['A09', 'Réti Opening: Advance Variation', '1. Nf3 d5 2. c4 d4'],
+  ['A09', 'Réti Opening: Réti Accepted', '1. Nf3 d5 2. c4 dxc4'],
+
+  // A10-A39: English Opening
+  ['A10', 'English Opening', '1. c4'],
+  ['A10', 'English Opening: Anglo-Dutch Defense', '1. c4 f5'],
+  ['A10', 'English Opening: Great Snake Variation', '1. c4 g6'],
+  ['A10', 'English Opening: Jaenisch Gambit', '1. c4 b5'],
+  ['A11', 'English Opening: Caro-Kann Defensive System', '1. c4 c6'],
+  ['A13', 'English Opening: Agincourt Defense', '1. c4 e6'],
+  ['A13', 'English Opening: Agincourt Defense', '1. c4 e6 2. Nf3 d5'],
+  ['A14', 'English Opening: Agincourt Defense, Neo-Catalan Declined', '1. c4 e6 2. Nf3 d5 3. g3 Nf6 4. Bg2 Be7 5. O-O'],
+  ['A15', 'English Opening: Anglo-Indian Defense', '1. c4 Nf6'],
+  ['A15', 'English Opening: Anglo-Indian Defense, King\'s Indian Formation', '1. c4 Nf6 2. Nf3 g6'],
+  ['A16', 'English Opening: Anglo-Indian Defense, Queen\'s Knight Variation', '1. c4 Nf6 2. Nc3'],
+  ['A16', 'English Opening: Anglo-Grünfeld Defense', '1. c4 Nf6 2. Nc3 d5'],
+  ['A17', 'English Opening: Anglo-Indian Defense, Hedgehog System', '1. c4 Nf6 2. Nc3 e6'],
+  ['A18', 'English Opening: Mikenas-Carls Variation', '1. c4 Nf6 2. Nc3 e6 3. e4'],
+  ['A20', 'English Opening: King\'s English Variation', '1. c4 e5'],
+  ['A20', 'English Opening: King\'s English Variation, Kingside Fianchetto', '1. c4 e5 2. g3'],
+  ['A21', 'English Opening: King\'s English Variation, Reversed Sicilian', '1. c4 e5 2. Nc3'],
+  ['A22', 'English Opening: King\'s English Variation, Two Knights Variation', '1. c4 e5 2. Nc3 Nf6'],
+  ['A22', 'English Opening: Carls-Bremen System', '1. c4 e5 2. Nc3 Nf6 3. g3'],
+  ['A25', 'English Opening: King\'s English Variation, Reversed Closed Sicilian', '1. c4 e5 2. Nc3 Nc6'],
+  ['A26', 'English Opening: King\'s English Variation, Botvinnik System', '1. c4 e5 2. Nc3 Nc6 3. g3 g6 4. Bg2 Bg7 5. d3 d6 6. e4'],
+  ['A27', 'English Opening: King\'s English Variation, Three Knights System', '1. c4 e5 2. Nc3 Nc6 3. Nf3'],
+  ['A28', 'English Opening: King\'s English Variation, Four Knights Variation', '1. c4 e5 2. Nc3 Nc6 3. Nf3 Nf6'],
+  ['A29', 'English Opening: King\'s English Variation, Four Knights Variation, Fianchetto Line', '1. c4 e5 2. Nc3 Nc6 3. Nf3 Nf6 4. g3'],
+  ['A30', 'English Opening: Symmetrical Variation', '1. c4 c5'],
+  ['A30', 'English Opening: Symmetrical Variation, Hedgehog Defense', '1. c4 c5 2. Nf3 Nf6 3. Nc3 e6 4. g3 b6 5. Bg2 Bb7 6. O-O Be7'],
+  ['A31', 'English Opening: Symmetrical Variation, Anti-Benoni Variation', '1. c4 c5 2. Nf3 Nf6 3. d4'],
+  ['A33', 'English Opening: Symmetrical Variation, Anti-Benoni Variation', '1. c4 c5 2. Nf3 Nf6 3. d4 cxd4 4. Nxd4 e6 5. Nc3 Nc6'],
+  ['A34', 'English Opening: Symmetrical Variation, Normal Variation', '1. c4 c5 2. Nc3'],
+  ['A34', 'English Opening: Symmetrical Variation, Three Knights Variation', '1. c4 c5 2. Nc3 Nf6 3. Nf3'],
+  ['A35', 'English Opening: Symmetrical Variation, Two Knights Variation', '1. c4 c5 2. Nc3 Nc6'],
+  ['A36', 'English Opening: Symmetrical Variation, Fianchetto Variation', '1. c4 c5 2. Nc3 Nc6 3. g3'],
+  ['A36', 'English Opening: Symmetrical Variation, Symmetrical Variation', '1. c4 c5 2. Nc3 Nc6 3. g3 g6 4. Bg2 Bg7'],
+  ['A36', 'English Opening: Symmetrical Variation, Botvinnik System', '1. c4 c5 2. Nc3 Nc6 3. g3 g6 4. Bg2 Bg7 5. e4'],
+  ['A37', 'English Opening: Symmetrical Variation, Two Knights Line', '1. c4 c5 2. Nc3 Nc6 3. g3 g6 4. Bg2 Bg7 5. Nf3'],
+  ['A38', 'English Opening: Symmetrical Variation, Full Symmetry Line', '1. c4 c5 2. Nc3 Nc6 3. g3 g6 4. Bg2 Bg7 5. Nf3 Nf6'],
+
+  // A40-A44: queen's pawn odds and ends
+  ['A40', 'Queen\'s Pawn Game', '1. d4'],
+  ['A40', 'Horwitz Defense', '1. d4 e6'],
+  ['A40', 'English Defense', '1. d4 e6 2. c4 b6'],
+  ['A40', 'Modern Defense', '1. d4 g6'],
+  ['A40', 'Polish Defense', '1. d4 b5'],
+  ['A40', 'Queen\'s Pawn Game: Englund Gambit', '1. d4 e5'],
+  ['A40', 'Englund Gambit', '1. d4 e5 2. dxe5 Nc6'],
+  ['A40', 'Owen Defense', '1. d4 b6'],
+  ['A40', 'Queen\'s Pawn Game: Mikenas Defense', '1. d4 Nc6'],
+  ['A41', 'Queen\'s Pawn Game: Modern Defense', '1. d4 d6'],
+  ['A41', 'Rat Defense: English Rat', '1. d4 d6 2. c4'],
+  ['A41', 'Old Indian Defense', '1. d4 d6 2. c4 e5'],
+  ['A42', 'Modern Defense: Averbakh System', '1. d4 d6 2. c4 g6 3. Nc3 Bg7 4. e4'],
+  ['A43', 'Benoni Defense: Old Benoni', '1. d4 c5'],
+  ['A43', 'Benoni Defense: Old Benoni', '1. d4 c5 2. d5'],
+  ['A44', 'Benoni Defense: Old Benoni', '1. d4 c5 2. d5 e5'],
+
+  // A45-A49: Indian games without c4
+  ['A45', 'Indian Defense', '1. d4 Nf6'],
+  ['A45', 'Trompowsky Attack', '1. d4 Nf6 2. Bg5'],
+  ['A45', 'Trompowsky Attack: Edge Variation', '1. d4 Nf6 2. Bg5 Ne4'],
+  ['A45', 'Trompowsky Attack: Classical Defense', '1. d4 Nf6 2. Bg5 e6'],
+  ['A45', 'Indian Defense: Omega Gambit', '1. d4 Nf6 2. e4'],
+  ['A45', 'Indian Defense: Normal Variation', '1. d4 Nf6 2. c3'],
+  ['A46', 'Indian Defense: Knights Variation', '1. d4 Nf6 2. Nf3'],
+  ['A46', 'London System', '1. d4 Nf6 2. Nf3 e6 3. Bf4'],
+  ['A46', 'Torre Attack', '1. d4 Nf6 2. Nf3 e6 3. Bg5'],
+  ['A46', 'Indian Defense: Spielmann-Indian', '1. d4 Nf6 2. Nf3 c5'],
+  ['A46', 'Yusupov-Rubinstein System', '1. d4 Nf6 2. Nf3 e6 3. e3'],
+  ['A47', 'Queen\'s Indian Defense', '1. d4 Nf6 2. Nf3 b6'],
+  ['A48', 'East Indian Defense', '1. d4 Nf6 2. Nf3 g6'],
+  ['A48', 'London System', '1. d4 Nf6 2. Nf3 g6 3. Bf4'],
+  ['A48', 'Torre Attack', '1. d4 Nf6 2. Nf3 g6 3. Bg5'],
+  ['A49', 'King\'s Indian Defense: Fianchetto Variation, Przepiorka Variation', '1. d4 Nf6 2. Nf3 g6 3. g3'],
+
+  // A50-A79: Indian defenses with c4, Benoni and Benko
+  ['A50', 'Indian Defense: Normal Variation', '1. d4 Nf6 2. c4'],
+  ['A50', 'Queen\'s Indian Accelerated', '1. d4 Nf6 2. c4 b6'],
+  ['A50', 'Indian Defense: Mexican Defense', '1. d4 Nf6 2. c4 Nc6'],
+  ['A51', 'Indian Defense: Budapest Defense', '1. d4 Nf6 2. c4 e5'],
+  ['A51', 'Indian Defense: Budapest Defense, Fajarowicz Variation', '1. d4 Nf6 2. c4 e5 3. dxe5 Ne4'],
+  ['A52', 'Indian Defense: Budapest Defense', '1. d4 Nf6 2. c4 e5 3. dxe5 Ng4'],
+  ['A52', 'Indian Defense: Budapest Defense, Adler Variation', '1. d4 Nf6 2. c4 e5 3. dxe5 Ng4 4. Nf3'],
+  ['A52', 'Indian Defense: Budapest Defense, Rubinstein Variation', '1. d4 Nf6 2. c4 e5 3. dxe5 Ng4 4. Bf4'],
+  ['A53', 'Old Indian Defense', '1. d4 Nf6 2. c4 d6'],
+  ['A54', 'Old Indian Defense: Two Knights Variation', '1. d4 Nf6 2. c4 d6 3. Nc3 e5 4. Nf3'],
+  ['A55', 'Old Indian Defense: Normal Variation', '1. d4 Nf6 2. c4 d6 3. Nc3 e5 4. Nf3 Nbd7 5. e4'],
+  ['A56', 'Benoni Defense', '1. d4 Nf6 2. c4 c5'],
+  ['A56', 'Benoni Defense: Czech Benoni Defense', '1. d4 Nf6 2. c4 c5 3. d5 e5'],
+  ['A57', 'Benko Gambit', '1. d4 Nf6 2. c4 c5 3. d5 b5'],
+  ['A57', 'Benko Gambit Declined: Quiet Line', '1. d4 Nf6 2. c4 c5 3. d5 b5 4. Nf3'],
+  ['A58', 'Benko Gambit Accepted', '1. d4 Nf6 2. c4 c5 3. d5 b5 4. cxb5'],
+  ['A58', 'Benko Gambit Accepted: Pawn Return Variation', '1. d4 Nf6 2. c4 c5 3. d5 b5 4. cxb5 a6 5. b6'],
+  ['A58', 'Benko Gambit Accepted: Fully Accepted Variation', '1. d4 Nf6 2. c4 c5 3. d5 b5 4. cxb5 a6 5. bxa6'],
+  ['A60', 'Benoni Defense: Modern Variation', '1. d4 Nf6 2. c4 c5 3. d5 e6'],
+  ['A61', 'Benoni Defense', '1. d4 Nf6 2. c4 c5 3. d5 e6 4. Nc3 exd5 5. cxd5 d6 6. Nf3 g6'],
+  ['A65', 'Benoni Defense: King\'s Pawn Line', '1. d4 Nf6 2. c4 c5 3. d5 e6 4. Nc3 exd5 5. cxd5 d6 6. e4'],
+  ['A66', 'Benoni Defense: Pawn Storm Variation', '1. d4 Nf6 2. c4 c5 3. d5 e6 4. Nc3 exd5 5. cxd5 d6 6. e4 g6 7. f4'],
+  ['A67', 'Benoni Defense: Taimanov Variation', '1. d4 Nf6 2. c4 c5 3. d5 e6 4. Nc3 exd5 5. cxd5 d6 6. e4 g6 7. f4 Bg7 8. Bb5+'],
+  ['A70', 'Benoni Defense: Classical Variation', '1. d4 Nf6 2. c4 c5 3. d5 e6 4. Nc3 exd5 5. cxd5 d6 6. e4 g6 7. Nf3'],
+
+  // A80-A99: Dutch Defense
+  ['A80', 'Dutch Defense', '1. d4 f5'],
+  ['A80', 'Dutch Defense: Korchnoi Attack', '1. d4 f5 2. h3'],
+  ['A80', 'Dutch Defense: Manhattan Gambit', '1. d4 f5 2. Qd3'],
+  ['A80', 'Dutch Defense: Raphael Variation', '1. d4 f5 2. Nc3'],
+  ['A80', 'Dutch Defense: Alapin Variation', '1. d4 f5 2. Bg5'],
+  ['A82', 'Dutch Defense: Staunton Gambit', '1. d4 f5 2. e4'],
+  ['A83', 'Dutch Defense: Staunton Gambit Accepted', '1. d4 f5 2. e4 fxe4 3. Nc3 Nf6 4. Bg5'],
+  ['A84', 'Dutch Defense', '1. d4 f5 2. c4'],
+  ['A85', 'Dutch Defense: Queen\'s Knight Variation', '1. d4 f5 2. c4 Nf6 3. Nc3'],
+  ['A86', 'Dutch Defense: Fianchetto Variation', '1. d4 f5 2. c4 Nf6 3. g3'],
+  ['A87', 'Dutch Defense: Leningrad Variation', '1. d4 f5 2. c4 Nf6 3. g3 g6 4. Bg2 Bg7 5. Nf3'],
+  ['A90', 'Dutch Defense: Classical Variation', '1. d4 f5 2. c4 Nf6 3. g3 e6 4. Bg2'],
+  ['A90', 'Dutch Defense: Stonewall Variation', '1. d4 f5 2. c4 Nf6 3. g3 e6 4. Bg2 d5'],
+  ['A91', 'Dutch Defense: Classical Variation', '1. d4 f5 2. c4 Nf6 3. g3 e6 4. Bg2 Be7'],
+  ['A92', 'Dutch Defense: Classical Variation', '1. d4 f5 2. c4 Nf6 3. g3 e6 4. Bg2 Be7 5. Nf3 O-O'],
+  ['A96', 'Dutch Defense: Classical Variation', '1. d4 f5 2. c4 Nf6 3. g3 e6 4. Bg2 Be7 5. Nf3 O-O 6. O-O d6'],
+  ['A97', 'Dutch Defense: Ilyin-Zhenevsky Variation', '1. d4 f5 2. c4 Nf6 3. g3 e6 4. Bg2 Be7 5. Nf3 O-O 6. O-O d6 7. Nc3 Qe8'],
+
+  // B00: king's pawn odds and ends
+  ['B00', 'King\'s Pawn Game', '1. e4'],
+  ['B00', 'Nimzowitsch Defense', '1. e4 Nc6'],
+  ['B00', 'Nimzowitsch Defense: Declined Variation', '1. e4 Nc6 2. Nf3'],
+  ['B00', 'Nimzowitsch Defense: Scandinavian Variation', '1. e4 Nc6 2. d4 d5'],
+  ['B00', 'Owen Defense', '1. e4 b6'],
+  ['B00', 'St. George Defense', '1. e4 a6'],
+  ['B00', 'Borg Defense', '1. e4 g5'],
+  ['B00', 'Carr Defense', '1. e4 h6'],
+  ['B00', 'Duras Gambit', '1. e4 f5'],
+  ['B00', 'Barnes Defense', '1. e4 f6'],
+  ['B00', 'Hippopotamus Defense', '1. e4 Nh6'],
+  ['B00', 'Lemming Defense', '1. e4 Na6'],
+
+  // B01: Scandinavian Defense
+  ['B01', 'Scandinavian Defense', '1. e4 d5'],
+  ['B01', 'Scandinavian Defense', '1. e4 d5 2. exd5'],
+  ['B01', 'Scandinavian Defense: Modern Variation', '1. e4 d5 2. exd5 Nf6'],
+  ['B01', 'Scandinavian Defense: Icelandic-Palme Gambit', '1. e4 d5 2. exd5 Nf6 3. c4 e6'],
+  ['B01', 'Scandinavian Defense: Portuguese Gambit', '1. e4 d5 2. exd5 Nf6 3. d4 Bg4'],
+  ['B01', 'Scandinavian Defense: Mieses-Kotroc Variation', '1. e4 d5 2. exd5 Qxd5'],
+  ['B01', 'Scandinavian Defense: Main Line', '1. e4 d5 2. exd5 Qxd5 3. Nc3 Qa5'],
+  ['B01', 'Scandinavian Defense: Main Line', '1. e4 d5 2. exd5 Qxd5 3. Nc3 Qa5 4. d4 Nf6 5. Nf3'],
+  ['B01', 'Scandinavian Defense: Valencian Variation', '1. e4 d5 2. exd5 Qxd5 3. Nc3 Qd8'],
+  ['B01', 'Scandinavian Defense: Gubinsky-Melts Defense', '1. e4 d5 2. exd5 Qxd5 3. Nc3 Qd6'],
+  ['B01', 'Scandinavian Defense: Blackburne-Kloosterboer Gambit', '1. e4 d5 2. exd5 c6'],
+
+  // B02-B05: Alekhine's Defense
+  ['B02', 'Alekhine Defense', '1. e4 Nf6'],
+  ['B02', 'Alekhine Defense: Scandinavian Variation', '1. e4 Nf6 2. Nc3 d5'],
+  ['B02', 'Alekhine Defense: Maróczy Variation', '1. e4 Nf6 2. d3'],
+  ['B02', 'Alekhine Defense: Two Pawns Attack', '1. e4 Nf6 2. e5 Nd5 3. c4 Nb6 4. c5'],
+  ['B02', 'Alekhine Defense', '1. e4 Nf6 2. e5'],
+  ['B02', 'Alekhine Defense', '1. e4 Nf6 2. e5 Nd5'],
+  ['B03', 'Alekhine Defense', '1. e4 Nf6 2. e5 Nd5 3. d4'],
+  ['B03', 'Alekhine Defense: Exchange Variation', '1. e4 Nf6 2. e5 Nd5 3. d4 d6 4. c4 Nb6 5. exd6'],
+  ['B03', 'Alekhine Defense: Four Pawns Attack', '1. e4 Nf6 2. e5 Nd5 3. d4 d6 4. c4 Nb6 5. f4'],
+  ['B04', 'Alekhine Defense: Modern Variation', '1. e4 Nf6 2. e5 Nd5 3. d4 d6 4. Nf3'],
+  ['B05', 'Alekhine Defense: Modern Variation, Main Line', '1. e4 Nf6 2. e5 Nd5 3. d4 d6 4. Nf3 Bg4'],
+
+  // B06-B09: Modern and Pirc Defenses
+  ['B06', 'Modern Defense', '1. e4 g6'],
+  ['B06', 'Modern Defense', '1. e4 g6 2. d4 Bg7'],
+  ['B06', 'Modern Defense: Standard Line', '1. e4 g6 2. d4 Bg7 3. Nc3'],
+  ['B06', 'Modern Defense: Three Pawns Attack', '1. e4 g6 2. d4 Bg7 3. Nc3 d6 4. f4'],
+  ['B06', 'Modern Defense: Pterodactyl Variation', '1. e4 g6 2. d4 Bg7 3. Nc3 c5'],
+  ['B06', 'Modern Defense: Gurgenidze Defense', '1. e4 g6 2. d4 Bg7 3. Nc3 c6 4. f4 d5 5. e5 h5'],
+  ['B07', 'Pirc Defense', '1. e4 d6'],
+  ['B07', 'Pirc Defense', '1. e4 d6 2. d4 Nf6'],
+  ['B07', 'Pirc Defense', '1. e4 d6 2. d4 Nf6 3. Nc3'],
+  ['B07', 'Pirc Defense: Byrne Variation', '1. e4 d6 2. d4 Nf6 3. Nc3 g6 4. Bg5'],
+  ['B07', 'Pirc Defense: 150 Attack', '1. e4 d6 2. d4 Nf6 3. Nc3 g6 4. Be3 c6 5. Qd2'],
+  ['B07', 'Pirc Defense: Kholmov System', '1. e4 d6 2. d4 Nf6 3. Nc3 g6 4. Bc4'],
+  ['B07', 'Pirc Defense: Czech Defense', '1. e4 d6 2. d4 Nf6 3. Nc3 c6'],
+  ['B08', 'Pirc Defense: Classical Variation', '1. e4 d6 2. d4 Nf6 3. Nc3 g6 4. Nf3'],
+  ['B08', 'Pirc Defense: Classical Variation', '1. e4 d6 2. d4 Nf6 3. Nc3 g6 4. Nf3 Bg7 5. Be2'],
+  ['B09', 'Pirc Defense: Austrian Attack', '1. e4 d6 2. d4 Nf6 3. Nc3 g6 4. f4'],
+  ['B09', 'Pirc Defense: Austrian Attack', '1. e4 d6 2. d4 Nf6 3. Nc3 g6 4. f4 Bg7 5. Nf3'],
+
+  // B10-B19: Caro-Kann Defense
+  ['B10', 'Caro-Kann Defense', '1. e4 c6'],
+  ['B10', 'Caro-Kann Defense: Accelerated Panov Attack', '1. e4 c6 2. c4'],
+  ['B10', 'Caro-Kann Defense: Two Knights Attack', '1. e4 c6 2. Nc3 d5 3. Nf3'],
+  ['B10', 'Caro-Kann Defense: Breyer Variation', '1. e4 c6 2. d3'],
+  ['B10', 'Caro-Kann Defense: Hillbilly Attack', '1. e4 c6 2. Bc4'],
+  ['B11', 'Caro-Kann Defense: Two Knights Attack, Mindeno Variation', '1. e4 c6 2. Nc3 d5 3. Nf3 Bg4'],
+  ['B12', 'Caro-Kann Defense', '1. e4 c6 2. d4'],
+  ['B12', 'Caro-Kann Defense', '1. e4 c6 2. d4 d5'],
+  ['B12', 'Caro-Kann Defense: Advance Variation', '1. e4 c6 2. d4 d5 3. e5'],
+  ['B12', 'Caro-Kann Defense: Advance Variation, Short Variation', '1. e4 c6 2. d4 d5 3. e5 Bf5 4. Nf3 e6 5. Be2'],
+  ['B12', 'Caro-Kann Defense: Advance Variation, Bayonet Attack', '1. e4 c6 2. d4 d5 3. e5 Bf5 4. g4'],
+  ['B12', 'Caro-Kann Defense: Advance Variation, Botvinnik-Carls Defense', '1. e4 c6 2. d4 d5 3. e5 c5'],
+  ['B12', 'Caro-Kann Defense: Maróczy Variation', '1. e4 c6 2. d4 d5 3. f3'],
+  ['B12', 'Caro-Kann Defense: Mieses Attack', '1. e4 c6 2. d4 d5 3. Be3'],
+  ['B13', 'Caro-Kann Defense: Exchange Variation', '1. e4 c6 2. d4 d5 3. exd5 cxd5'],
+  ['B13', 'Caro-Kann Defense: Exchange Variation', '1. e4 c6 2. d4 d5 3. exd5 cxd5 4. Bd3'],
+  ['B13', 'Caro-Kann Defense: Panov Attack', '1. e4 c6 2. d4 d5 3. exd5 cxd5 4. c4'],
+  ['B14', 'Caro-Kann Defense: Panov Attack', '1. e4 c6 2. d4 d5 3. exd5 cxd5 4. c4 Nf6 5. Nc3 e6'],
+  ['B14', 'Caro-Kann Defense: Panov Attack, Fianchetto Defense', '1. e4 c6 2. d4 d5 3. exd5 cxd5 4. c4 Nf6 5. Nc3 g6'],
+  ['B15', 'Caro-Kann Defense', '1. e4 c6 2. d4 d5 3. Nc3'],
+  ['B15', 'Caro-Kann Defense: Main Line', '1. e4 c6 2. d4 d5 3. Nc3 dxe4 4. Nxe4'],
+  ['B15', 'Caro-Kann Defense: Gurgenidze System', '1. e4 c6 2. d4 d5 3. Nc3 g6'],
+  ['B15', 'Caro-Kann Defense: Tartakower Variation', '1. e4 c6 2. d4 d5 3. Nc3 dxe4 4. Nxe4 Nf6 5. Nxf6+ exf6'],
+  ['B16', 'Caro-Kann Defense: Bronstein-Larsen Variation', '1. e4 c6 2. d4 d5 3. Nc3 dxe4 4. Nxe4 Nf6 5. Nxf6+ gxf6'],
+  ['B17', 'Caro-Kann Defense: Karpov Variation', '1. e4 c6 2. d4 d5 3. Nc3 dxe4 4. Nxe4 Nd7'],
+  ['B18', 'Caro-Kann Defense: Classical Variation', '1. e4 c6 2. d4 d5 3. Nc3 dxe4 4. Nxe4 Bf5'],
+  ['B18', 'Caro-Kann Defense: Classical Variation, Main Line', '1. e4 c6 2. d4 d5 3. Nc3 dxe4 4. Nxe4 Bf5 5. Ng3 Bg6 6. h4 h6 7. Nf3'],
+  ['B19', 'Caro-Kann Defense: Classical Variation, Spassky Variation', '1. e4 c6 2. d4 d5 3. Nc3 dxe4 4. Nxe4 Bf5 5. Ng3 Bg6 6. h4 h6 7. Nf3 Nd7 8. h5'],
+
+  // B20-B99: Sicilian Defense
+  ['B20', 'Sicilian Defense', '1. e4 c5'],
+  ['B20', 'Sicilian Defense: Bowdler Attack', '1. e4 c5 2. Bc4'],
+  ['B20', 'Sicilian Defense: Wing Gambit', '1. e4 c5 2. b4'],
+  ['B20', 'Sicilian Defense: Snyder Variation', '1. e4 c5 2. b3'],
+  ['B20', 'Sicilian Defense: Staunton-Cochrane Variation', '1. e4 c5 2. c4'],
+  ['B20', 'Sicilian Defense: Kopec System', '1. e4 c5 2. Nf3 d6 3. Bd3'],
+  ['B20', 'Sicilian Defense: Lasker-Dunne Attack', '1. e4 c5 2. g3'],
+  ['B20', 'Sicilian Defense: Brick Variation', '1. e4 c5 2. Nh3'],
+  ['B21', 'Sicilian Defense: Smith-Morra Gambit', '1. e4 c5 2. d4'],
+  ['B21', 'Sicilian Defense: Smith-Morra Gambit', '1. e4 c5 2. d4 cxd4 3. c3'],
+  ['B21', 'Sicilian Defense: Smith-Morra Gambit Accepted', '1. e4 c5 2. d4 cxd4 3. c3 dxc3 4. Nxc3'],
+  ['B21', 'Sicilian Defense: Smith-Morra Gambit Declined, Alapin Formation', '1. e4 c5 2. d4 cxd4 3. c3 Nf6'],
+  ['B21', 'Sicilian Defense: McDonnell Attack', '1. e4 c5 2. f4'],
+  ['B21', 'Sicilian Defense: Grand Prix Attack', '1. e4 c5 2. Nc3 Nc6 3. f4'],
+  ['B22', 'Sicilian Defense: Alapin Variation', '1. e4 c5 2. c3'],
+  ['B22', 'Sicilian Defense: Alapin Variation, Barmen Defense', '1. e4 c5 2. c3 d5'],
+  ['B22', 'Sicilian Defense: Alapin Variation, Barmen Defense', '1. e4 c5 2. c3 d5 3. exd5 Qxd5 4. d4'],
+  ['B22', 'Sicilian Defense: Alapin Variation', '1. e4 c5 2. c3 Nf6'],
+  ['B22', 'Sicilian Defense: Alapin Variation, Smith-Morra Declined', '1. e4 c5 2. c3 Nf6 3. e5 Nd5 4. d4 cxd4'],
+  ['B22', 'Sicilian Defense: Alapin Variation, Stoltz Attack', '1. e4 c5 2. c3 Nf6 3. e5 Nd5 4. Nf3 Nc6 5. Bc4 Nb6 6. Bb3'],
+  ['B22', 'Sicilian Defense: Alapin Variation, French Variation', '1. e4 c5 2. c3 e6'],
+  ['B23', 'Sicilian Defense: Closed', '1. e4 c5 2. Nc3'],
+  ['B23', 'Sicilian Defense: Closed', '1. e4 c5 2. Nc3 Nc6'],
+  ['B23', 'Sicilian Defense: Closed, Chameleon Variation', '1. e4 c5 2. Nc3 Nc6 3. Nge2'],
+  ['B24', 'Sicilian Defense: Closed', '1. e4 c5 2. Nc3 Nc6 3. g3'],
+  ['B25', 'Sicilian Defense: Closed', '1. e4 c5 2. Nc3 Nc6 3. g3 g6 4. Bg2 Bg7 5. d3 d6'],
+  ['B26', 'Sicilian Defense: Closed, Botvinnik Defense', '1. e4 c5 2. Nc3 Nc6 3. g3 g6 4. Bg2 Bg7 5. d3 d6 6. Be3'],
+  ['B27', 'Sicilian Defense', '1. e4 c5 2. Nf3'],
+  ['B27', 'Sicilian Defense: Hyperaccelerated Dragon', '1. e4 c5 2. Nf3 g6'],
+  ['B27', 'Sicilian Defense: Katalimov Variation', '1. e4 c5 2. Nf3 b6'],
+  ['B27', 'Sicilian Defense: Quinteros Variation', '1. e4 c5 2. Nf3 Qc7'],
+  ['B28', 'Sicilian Defense: O\'Kelly Variation', '1. e4 c5 2. Nf3 a6'],
+  ['B29', 'Sicilian Defense: Nimzowitsch Variation', '1. e4 c5 2. Nf3 Nf6'],
+  ['B29', 'Sicilian Defense: Nimzowitsch Variation, Main Line', '1. e4 c5 2. Nf3 Nf6 3. e5 Nd5 4. Nc3'],
+  ['B30', 'Sicilian Defense: Old Sicilian', '1. e4 c5 2. Nf3 Nc6'],
+  ['B30', 'Sicilian Defense: Nyezhmetdinov-Rossolimo Attack', '1. e4 c5 2. Nf3 Nc6 3. Bb5'],
+  ['B30', 'Sicilian Defense: Closed, Three Knights Variation', '1. e4 c5 2. Nf3 Nc6 3. Nc3'],
+  ['B31', 'Sicilian Defense: Nyezhmetdinov-Rossolimo Attack, Fianchetto Variation', '1. e4 c5 2. Nf3 Nc6 3. Bb5 g6'],
+  ['B31', 'Sicilian Defense: Nyezhmetdinov-Rossolimo Attack, Fianchetto Variation', '1. e4 c5 2. Nf3 Nc6 3. Bb5 g6 4. Bxc6'],
+  ['B30', 'Sicilian Defense: Nyezhmetdinov-Rossolimo Attack, with e6', '1. e4 c5 2. Nf3 Nc6 3. Bb5 e6'],
+  ['B32', 'Sicilian Defense: Open', '1. e4 c5 2. Nf3 Nc6 3. d4'],
+  ['B32', 'Sicilian Defense: Open', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4'],
+  ['B32', 'Sicilian Defense: Löwenthal Variation', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 e5'],
+  ['B32', 'Sicilian Defense: Kalashnikov Variation', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 e5 5. Nb5 d6'],
+  ['B32', 'Sicilian Defense: Flohr Variation', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 Qc7'],
+  ['B33', 'Sicilian Defense: Lasker-Pelikan Variation', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 e5'],
+  ['B33', 'Sicilian Defense: Lasker-Pelikan Variation', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 e5 6. Ndb5 d6'],
+  ['B33', 'Sicilian Defense: Lasker-Pelikan Variation, Sveshnikov Variation', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 e5 6. Ndb5 d6 7. Bg5 a6 8. Na3 b5'],
+  ['B33', 'Sicilian Defense: Four Knights Variation', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 e6'],
+  ['B34', 'Sicilian Defense: Accelerated Dragon', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 g6'],
+  ['B34', 'Sicilian Defense: Accelerated Dragon, Exchange Variation', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 g6 5. Nxc6'],
+  ['B35', 'Sicilian Defense: Accelerated Dragon, Modern Bc4 Variation', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 g6 5. Nc3 Bg7 6. Be3 Nf6 7. Bc4'],
+  ['B36', 'Sicilian Defense: Accelerated Dragon, Maróczy Bind', '1. e4 c5 2. Nf3 Nc6 3. d4 cxd4 4. Nxd4 g6 5. c4'],
+  ['B40', 'Sicilian Defense: French Variation', '1. e4 c5 2. Nf3 e6'],
+  ['B40', 'Sicilian Defense: French Variation, Open', '1. e4 c5 2. Nf3 e6 3. d4 cxd4 4. Nxd4'],
+  ['B40', 'Sicilian Defense: Pin Variation', '1. e4 c5 2. Nf3 e6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 Bb4'],
+  ['B41', 'Sicilian Defense: Kan Variation', '1. e4 c5 2. Nf3 e6 3. d4 cxd4 4. Nxd4 a6'],
+  ['B41', 'Sicilian Defense: Kan Variation, Maróczy Bind', '1. e4 c5 2. Nf3 e6 3. d4 cxd4 4. Nxd4 a6 5. c4'],
+  ['B42', 'Sicilian Defense: Kan Variation, Modern Variation', '1. e4 c5 2. Nf3 e6 3. d4 cxd4 4. Nxd4 a6 5. Bd3'],
+  ['B43', 'Sicilian Defense: Kan Variation, Wing Attack', '1. e4 c5 2. Nf3 e6 3. d4 cxd4 4. Nxd4 a6 5. Nc3'],
+  ['B44', 'Sicilian Defense: Taimanov Variation', '1. e4 c5 2. Nf3 e6 3. d4 cxd4 4. Nxd4 Nc6'],
+  ['B45', 'Sicilian Defense: Taimanov Variation, Normal Variation', '1. e4 c5 2. Nf3 e6 3. d4 cxd4 4. Nxd4 Nc6 5. Nc3'],
+  ['B46', 'Sicilian Defense: Taimanov Variation', '1. e4 c5 2. Nf3 e6 3. d4 cxd4 4. Nxd4 Nc6 5. Nc3 a6'],
+  ['B47', 'Sicilian Defense: Taimanov Variation, Bastrikov Variation', '1. e4 c5 2. Nf3 e6 3. d4 cxd4 4. Nxd4 Nc6 5. Nc3 Qc7'],
+  ['B48', 'Sicilian Defense: Taimanov Variation, English Attack', '1. e4 c5 2. Nf3 e6 3. d4 cxd4 4. Nxd4 Nc6 5. Nc3 Qc7 6. Be3 a6 7. Qd2'],
+  ['B50', 'Sicilian Defense: Modern Variations', '1. e4 c5 2. Nf3 d6'],
+  ['B50', 'Sicilian Defense: Delayed Alapin Variation', '1. e4 c5 2. Nf3 d6 3. c3'],
+  ['B51', 'Sicilian Defense: Canal Attack', '1. e4 c5 2. Nf3 d6 3. Bb5+'],
+  ['B52', 'Sicilian Defense: Canal Attack, Main Line', '1. e4 c5 2. Nf3 d6 3. Bb5+ Bd7'],
+  ['B53', 'Sicilian Defense: Modern Variations, Main Line', '1. e4 c5 2. Nf3 d6 3. d4'],
+  ['B53', 'Sicilian Defense: Chekhover Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Qxd4'],
+  ['B54', 'Sicilian Defense: Modern Variations', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4'],
+  ['B54', 'Sicilian Defense: Prins Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. f3'],
+  ['B56', 'Sicilian Defense: Classical Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3'],
+  ['B56', 'Sicilian Defense: Venice Attack', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 e5 6. Bb5+'],
+  ['B57', 'Sicilian Defense: Classical Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 Nc6'],
+  ['B57', 'Sicilian Defense: Sozin Attack', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 Nc6 6. Bc4'],
+  ['B58', 'Sicilian Defense: Classical Variation, Boleslavsky Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 Nc6 6. Be2'],
+  ['B60', 'Sicilian Defense: Richter-Rauzer Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 Nc6 6. Bg5'],
+  ['B62', 'Sicilian Defense: Richter-Rauzer Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 Nc6 6. Bg5 e6'],
+  ['B63', 'Sicilian Defense: Richter-Rauzer Variation, Traditional Line', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 Nc6 6. Bg5 e6 7. Qd2'],
+  ['B70', 'Sicilian Defense: Dragon Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 g6'],
+  ['B70', 'Sicilian Defense: Dragon Variation, Fianchetto Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 g6 6. g3'],
+  ['B71', 'Sicilian Defense: Dragon Variation, Levenfish Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 g6 6. f4'],
+  ['B72', 'Sicilian Defense: Dragon Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 g6 6. Be3'],
+  ['B73', 'Sicilian Defense: Dragon Variation, Classical Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 g6 6. Be2'],
+  ['B75', 'Sicilian Defense: Dragon Variation, Yugoslav Attack', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 g6 6. Be3 Bg7 7. f3'],
+  ['B76', 'Sicilian Defense: Dragon Variation, Yugoslav Attack', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 g6 6. Be3 Bg7 7. f3 O-O'],
+  ['B77', 'Sicilian Defense: Dragon Variation, Yugoslav Attack', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 g6 6. Be3 Bg7 7. f3 O-O 8. Qd2 Nc6 9. Bc4'],
+  ['B76', 'Sicilian Defense: Dragon Variation, Yugoslav Attack, 9.O-O-O', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 g6 6. Be3 Bg7 7. f3 O-O 8. Qd2 Nc6 9. O-O-O'],
+  ['B80', 'Sicilian Defense: Scheveningen Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 e6'],
+  ['B80', 'Sicilian Defense: Scheveningen Variation, English Attack', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 e6 6. Be3'],
+  ['B81', 'Sicilian Defense: Scheveningen Variation, Keres Attack', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 e6 6. g4'],
+  ['B83', 'Sicilian Defense: Scheveningen Variation, Classical Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 e6 6. Be2'],
+  ['B86', 'Sicilian Defense: Sozin Attack', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 e6 6. Bc4'],
+  ['B90', 'Sicilian Defense: Najdorf Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6'],
+  ['B90', 'Sicilian Defense: Najdorf Variation, English Attack', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 6. Be3'],
+  ['B90', 'Sicilian Defense: Najdorf Variation, Adams Attack', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 6. h3'],
+  ['B90', 'Sicilian Defense: Najdorf Variation, Lipnitsky Attack', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 6. Bc4'],
+  ['B91', 'Sicilian Defense: Najdorf Variation, Zagreb Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 6. g3'],
+  ['B92', 'Sicilian Defense: Najdorf Variation, Opocensky Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 6. Be2'],
+  ['B93', 'Sicilian Defense: Najdorf Variation, Amsterdam Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 6. f4'],
+  ['B94', 'Sicilian Defense: Najdorf Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 6. Bg5'],
+  ['B96', 'Sicilian Defense: Najdorf Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 6. Bg5 e6'],
+  ['B96', 'Sicilian Defense: Najdorf Variation, Polugaevsky Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 6. Bg5 e6 7. f4 b5'],
+  ['B97', 'Sicilian Defense: Najdorf Variation, Poisoned Pawn Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 6. Bg5 e6 7. f4 Qb6'],
+  ['B98', 'Sicilian Defense: Najdorf Variation', '1. e4 c5 2. Nf3 d6 3. d4 cxd4 4. Nxd4 Nf6 5. Nc3 a6 6. Bg5 e6 7. f4 Be7'],
+
+  // C00-C19: French Defense
+  ['C00', 'French Defense', '1. e4 e6'],
+  ['C00', 'French Defense: Knight Variation', '1. e4 e6 2. Nf3'],
+  ['C00', 'French Defense: King\'s Indian Attack', '1. e4 e6 2. d3'],
+  ['C00', 'French Defense: Chigorin Variation', '1. e4 e6 2. Qe2'],
+  ['C00', 'French Defense: Wing Gambit', '1. e4 e6 2. Nf3 d5 3. e5 c5 4. b4'],
+  ['C00', 'French Defense: Normal Variation', '1. e4 e6 2. d4'],
+  ['C00', 'French Defense: Schlechter Variation', '1. e4 e6 2. d4 d5 3. Bd3'],
+  ['C00', 'French Defense: Franco-Sicilian Defense', '1. e4 e6 2. d4 c5'],
+  ['C01', 'French Defense: Exchange Variation', '1. e4 e6 2. d4 d5 3. exd5'],
+  ['C01', 'French Defense: Exchange Variation', '1. e4 e6 2. d4 d5 3. exd5 exd5'],
+  ['C01', 'French Defense: Exchange Variation, Monte Carlo Variation', '1. e4 e6 2. d4 d5 3. exd5 exd5 4. c4'],
+  ['C02', 'French Defense: Advance Variation', '1. e4 e6 2. d4 d5 3. e5'],
+  ['C02', 'French Defense: Advance Variation', '1. e4 e6 2. d4 d5 3. e5 c5'],
+  ['C02', 'French Defense: Advance Variation', '1. e4 e6 2. d4 d5 3. e5 c5 4. c3'],
+  ['C02', 'French Defense: Advance Variation, Nimzowitsch System', '1. e4 e6 2. d4 d5 3. e5 c5 4. Nf3'],
+  ['C02', 'French Defense: Advance Variation, Main Line', '1. e4 e6 2. d4 d5 3. e5 c5 4. c3 Nc6 5. Nf3'],
+  ['C02', 'French Defense: Advance Variation, Milner-Barry Gambit', '1. e4 e6 2. d4 d5 3. e5 c5 4. c3 Nc6 5. Nf3 Qb6 6. Bd3'],
+  ['C02', 'French Defense: Advance Variation, Euwe Variation', '1. e4 e6 2. d4 d5 3. e5 c5 4. c3 Nc6 5. Nf3 Bd7'],
+  ['C03', 'French Defense: Tarrasch Variation', '1. e4 e6 2. d4 d5 3. Nd2'],
+  ['C03', 'French Defense: Tarrasch Variation, Guimard Defense', '1. e4 e6 2. d4 d5 3. Nd2 Nc6'],
+  ['C03', 'French Defense: Tarrasch Variation, Morozevich Variation', '1. e4 e6 2. d4 d5 3. Nd2 Be7'],
+  ['C05', 'French Defense: Tarrasch Variation, Closed Variation', '1. e4 e6 2. d4 d5 3. Nd2 Nf6'],
+  ['C06', 'French Defense: Tarrasch Variation, Closed Variation, Main Line', '1. e4 e6 2. d4 d5 3. Nd2 Nf6 4. e5 Nfd7 5. Bd3 c5 6. c3 Nc6 7. Ne2'],
+  ['C07', 'French Defense: Tarrasch Variation, Open System', '1. e4 e6 2. d4 d5 3. Nd2 c5'],
+  ['C07', 'French Defense: Tarrasch Variation, Open System, Euwe-Keres Line', '1. e4 e6 2. d4 d5 3. Nd2 c5 4. exd5 Qxd5'],
+  ['C08', 'French Defense: Tarrasch Variation, Open System', '1. e4 e6 2. d4 d5 3. Nd2 c5 4. exd5 exd5'],
+  ['C10', 'French Defense: Paulsen Variation', '1. e4 e6 2. d4 d5 3. Nc3'],
+  ['C10', 'French Defense: Rubinstein Variation', '1. e4 e6 2. d4 d5 3. Nc3 dxe4'],
+  ['C10', 'French Defense: Rubinstein Variation', '1. e4 e6 2. d4 d5 3. Nc3 dxe4 4. Nxe4'],
+  ['C10', 'French Defense: Rubinstein Variation, Fort Knox Variation', '1. e4 e6 2. d4 d5 3. Nc3 dxe4 4. Nxe4 Bd7'],
+  ['C10', 'French Defense: Rubinstein Variation, Blackburne Defense', '1. e4 e6 2. d4 d5 3. Nc3 dxe4 4. Nxe4 Nd7'],
+  ['C11', 'French Defense: Classical Variation', '1. e4 e6 2. d4 d5 3. Nc3 Nf6'],
+  ['C11', 'French Defense: Steinitz Variation', '1. e4 e6 2. d4 d5 3. Nc3 Nf6 4. e5'],
+  ['C11', 'French Defense: Steinitz Variation', '1. e4 e6 2. d4 d5 3. Nc3 Nf6 4. e5 Nfd7 5. f4'],
+  ['C12', 'French Defense: MacCutcheon Variation', '1. e4 e6 2. d4 d5 3. Nc3 Nf6 4. Bg5 Bb4'],
+  ['C13', 'French Defense: Classical Variation', '1. e4 e6 2. d4 d5 3. Nc3 Nf6 4. Bg5'],
+  ['C13', 'French Defense: Classical Variation, Burn Variation', '1. e4 e6 2. d4 d5 3. Nc3 Nf6 4. Bg5 dxe4'],
+  ['C13', 'French Defense: Alekhine-Chatard Attack', '1. e4 e6 2. d4 d5 3. Nc3 Nf6 4. Bg5 Be7 5. e5 Nfd7 6. h4'],
+  ['C14', 'French Defense: Classical Variation, Normal Variation', '1. e4 e6 2. d4 d5 3. Nc3 Nf6 4. Bg5 Be7 5. e5 Nfd7 6. Bxe7 Qxe7'],
+  ['C15', 'French Defense: Winawer Variation', '1. e4 e6 2. d4 d5 3. Nc3 Bb4'],
+  ['C15', 'French Defense: Winawer Variation, Alekhine Gambit', '1. e4 e6 2. d4 d5 3. Nc3 Bb4 4. Ne2'],
+  ['C16', 'French Defense: Winawer Variation, Advance Variation', '1. e4 e6 2. d4 d5 3. Nc3 Bb4 4. e5'],
+  ['C17', 'French Defense: Winawer Variation, Advance Variation', '1. e4 e6 2. d4 d5 3. Nc3 Bb4 4. e5 c5'],
+  ['C18', 'French Defense: Winawer Variation, Poisoned Pawn Variation', '1. e4 e6 2. d4 d5 3. Nc3 Bb4 4. e5 c5 5. a3 Bxc3+ 6. bxc3 Ne7 7. Qg4'],
+  ['C18', 'French Defense: Winawer Variation', '1. e4 e6 2. d4 d5 3. Nc3 Bb4 4. e5 c5 5. a3 Bxc3+ 6. bxc3'],
+  ['C19', 'French Defense: Winawer Variation, Poisoned Pawn Variation', '1. e4 e6 2. d4 d5 3. Nc3 Bb4 4. e5 c5 5. a3 Bxc3+ 6. bxc3 Ne7 7. Nf3'],
+
+  // C20-C29: open games, Center Game, Vienna
+  ['C20', 'King\'s Pawn Game', '1. e4 e5'],
+  ['C20', 'King\'s Pawn Game: Wayward Queen Attack', '1. e4 e5 2. Qh5'],
+  ['C20', 'Bongcloud Attack', '1. e4 e5 2. Ke2'],
+  ['C20', 'King\'s Pawn Game: Napoleon Attack', '1. e4 e5 2. Qf3'],
+  ['C20', 'King\'s Pawn Game: Alapin Opening', '1. e4 e5 2. Ne2'],
+  ['C20', 'King\'s Pawn Game: Leonardis Variation', '1. e4 e5 2. d3'],
+  ['C20', 'Portuguese Opening', '1. e4 e5 2. Bb5'],
+  ['C20', 'English Opening: The Whale', '1. e4 e5 2. c4'],
+  ['C20', 'King\'s Pawn Game: MacLeod Attack', '1. e4 e5 2. c3'],
+  ['C21', 'Center Game', '1. e4 e5 2. d4'],
+  ['C21', 'Center Game Accepted', '1. e4 e5 2. d4 exd4'],
+  ['C21', 'Danish Gambit', '1. e4 e5 2. d4 exd4 3. c3'],
+  ['C21', 'Danish Gambit Accepted', '1. e4 e5 2. d4 exd4 3. c3 dxc3 4. Bc4'],
+  ['C22', 'Center Game: Normal Variation', '1. e4 e5 2. d4 exd4 3. Qxd4'],
+  ['C22', 'Center Game: Paulsen Attack Variation', '1. e4 e5 2. d4 exd4 3. Qxd4 Nc6 4. Qe3'],
+  ['C23', 'Bishop\'s Opening', '1. e4 e5 2. Bc4'],
+  ['C23', 'Bishop\'s Opening: Philidor Counterattack', '1. e4 e5 2. Bc4 c6'],
+  ['C23', 'Bishop\'s Opening: Calabrese Countergambit', '1. e4 e5 2. Bc4 f5'],
+  ['C24', 'Bishop\'s Opening: Berlin Defense', '1. e4 e5 2. Bc4 Nf6'],
+  ['C24', 'Bishop\'s Opening: Urusov Gambit', '1. e4 e5 2. Bc4 Nf6 3. d4'],
+  ['C24', 'Bishop\'s Opening: Vienna Hybrid', '1. e4 e5 2. Bc4 Nf6 3. d3'],
+  ['C25', 'Vienna Game', '1. e4 e5 2. Nc3'],
+  ['C25', 'Vienna Game: Max Lange Defense', '1. e4 e5 2. Nc3 Nc6'],
+  ['C25', 'Vienna Game: Vienna Gambit', '1. e4 e5 2. Nc3 Nc6 3. f4'],
+  ['C25', 'Vienna Game: Hamppe-Allgaier Gambit', '1. e4 e5 2. Nc3 Nc6 3. f4 exf4 4. Nf3 g5 5. h4 g4 6. Ng5'],
+  ['C25', 'Vienna Game: Anderssen Defense', '1. e4 e5 2. Nc3 Bc5'],
+  ['C26', 'Vienna Game: Falkbeer Variation', '1. e4 e5 2. Nc3 Nf6'],
+  ['C26', 'Vienna Game: Mengarini Variation', '1. e4 e5 2. Nc3 Nf6 3. a3'],
+  ['C26', 'Vienna Game: Stanley Variation', '1. e4 e5 2. Nc3 Nf6 3. Bc4'],
+  ['C26', 'Vienna Game: Mieses Variation', '1. e4 e5 2. Nc3 Nf6 3. g3'],
+  ['C27', 'Vienna Game: Frankenstein-Dracula Variation', '1. e4 e5 2. Nc3 Nf6 3. Bc4 Nxe4'],
+  ['C27', 'Vienna Game: Stanley Variation, Reversed Spanish', '1. e4 e5 2. Nc3 Nf6 3. Bc4 Bb4'],
+  ['C28', 'Vienna Game: Stanley Variation, Three Knights Variation', '1. e4 e5 2. Nc3 Nf6 3. Bc4 Nc6'],
+  ['C29', 'Vienna Game: Vienna Gambit', '1. e4 e5 2. Nc3 Nf6 3. f4'],
+  ['C29', 'Vienna Game: Vienna Gambit, Main Line', '1. e4 e5 2. Nc3 Nf6 3. f4 d5'],
+  ['C29', 'Vienna Game: Vienna Gambit, Modern Variation', '1. e4 e5 2. Nc3 Nf6 3. f4 d5 4. d3'],
+  ['C29', 'Vienna Game: Vienna Gambit, Kaufmann Variation', '1. e4 e5 2. Nc3 Nf6 3. f4 d5 4. fxe5 Nxe4 5. Nf3'],
+
+  // C30-C39: King's Gambit
+  ['C30', 'King\'s Gambit', '1. e4 e5 2. f4'],
+  ['C30', 'King\'s Gambit Declined: Classical Variation', '1. e4 e5 2. f4 Bc5'],
+  ['C30', 'King\'s Gambit Declined: Queen\'s Knight Defense', '1. e4 e5 2. f4 Nc6'],
+  ['C30', 'King\'s Gambit Declined: Keene Defense', '1. e4 e5 2. f4 Qh4+'],
+  ['C31', 'King\'s Gambit Declined: Falkbeer Countergambit', '1. e4 e5 2. f4 d5'],
+  ['C31', 'King\'s Gambit Declined: Falkbeer Countergambit Accepted', '1. e4 e5 2. f4 d5 3. exd5'],
+  ['C32', 'King\'s Gambit Declined: Falkbeer Countergambit, Modern Variation', '1. e4 e5 2. f4 d5 3. exd5 e4 4. d3 Nf6'],
+  ['C33', 'King\'s Gambit Accepted', '1. e4 e5 2. f4 exf4'],
+  ['C33', 'King\'s Gambit Accepted: Bishop\'s Gambit', '1. e4 e5 2. f4 exf4 3. Bc4'],
+  ['C33', 'King\'s Gambit Accepted: Mason-Keres Gambit', '1. e4 e5 2. f4 exf4 3. Nc3'],
+  ['C34', 'King\'s Gambit Accepted: King\'s Knight Gambit', '1. e4 e5 2. f4 exf4 3. Nf3'],
+  ['C34', 'King\'s Gambit Accepted: Fischer Defense', '1. e4 e5 2. f4 exf4 3. Nf3 d6'],
+  ['C34', 'King\'s Gambit Accepted: Schallopp Defense', '1. e4 e5 2. f4 exf4 3. Nf3 Nf6'],
+  ['C35', 'King\'s Gambit Accepted: Cunningham Defense', '1. e4 e5 2. f4 exf4 3. Nf3 Be7'],
+  ['C36', 'King\'s Gambit Accepted: Modern Defense', '1. e4 e5 2. f4 exf4 3. Nf3 d5'],
+  ['C37', 'King\'s Gambit Accepted: Kieseritzky Gambit', '1. e4 e5 2. f4 exf4 3. Nf3 g5 4. h4 g4 5. Ne5'],
+  ['C37', 'King\'s Gambit Accepted: Muzio Gambit', '1. e4 e5 2. f4 exf4 3. Nf3 g5 4. Bc4 g4 5. O-O'],
+  ['C37', 'King\'s Gambit Accepted: Quaade Gambit', '1. e4 e5 2. f4 exf4 3. Nf3 g5 4. Nc3'],
+  ['C38', 'King\'s Gambit Accepted: Traxler Variation', '1. e4 e5 2. f4 exf4 3. Nf3 g5 4. Bc4 Bg7'],
+  ['C39', 'King\'s Gambit Accepted: Allgaier Gambit', '1. e4 e5 2. f4 exf4 3. Nf3 g5 4. h4 g4 5. Ng5'],
+  ['C39', 'King\'s Gambit Accepted: Kieseritzky Gambit', '1. e4 e5 2. f4 exf4 3. Nf3 g5 4. h4'],
+
+  // C40-C41: King's Knight Opening and Philidor
+  ['C40', 'King\'s Knight Opening', '1. e4 e5 2. Nf3'],
+  ['C40', 'Latvian Gambit', '1. e4 e5 2. Nf3 f5'],
+  ['C40', 'Latvian Gambit Accepted', '1. e4 e5 2. Nf3 f5 3. Nxe5'],
+  ['C40', 'Elephant Gambit', '1. e4 e5 2. Nf3 d5'],
+  ['C40', 'Damiano Defense', '1. e4 e5 2. Nf3 f6'],
+  ['C40', 'Gunderam Defense', '1. e4 e5 2. Nf3 Qe7'],
+  ['C40', 'McConnell Defense', '1. e4 e5 2. Nf3 Qf6'],
+  ['C41', 'Philidor Defense', '1. e4 e5 2. Nf3 d6'],
+  ['C41', 'Philidor Defense', '1. e4 e5 2. Nf3 d6 3. d4'],
+  ['C41', 'Philidor Defense: Exchange Variation', '1. e4 e5 2. Nf3 d6 3. d4 exd4'],
+  ['C41', 'Philidor Defense: Philidor Countergambit', '1. e4 e5 2. Nf3 d6 3. d4 f5'],
+  ['C41', 'Philidor Defense: Lion Variation', '1. e4 e5 2. Nf3 d6 3. d4 Nf6 4. Nc3 Nbd7'],
+  ['C41', 'Philidor Defense: Hanham Variation', '1. e4 e5 2. Nf3 d6 3. d4 Nd7'],
+  ['C41', 'Philidor Defense', '1. e4 e5 2. Nf3 d6 3. Bc4'],
+
+  // C42-C43: Petrov's Defense
+  ['C42', 'Petrov\'s Defense', '1. e4 e5 2. Nf3 Nf6'],
+  ['C42', 'Petrov\'s Defense: Classical Attack', '1. e4 e5 2. Nf3 Nf6 3. Nxe5 d6 4. Nf3 Nxe4 5. d4'],
+  ['C42', 'Petrov\'s Defense: Three Knights Game', '1. e4 e5 2. Nf3 Nf6 3. Nc3'],
+  ['C42', 'Petrov\'s Defense: Stafford Gambit', '1. e4 e5 2. Nf3 Nf6 3. Nxe5 Nc6'],
+  ['C42', 'Petrov\'s Defense: Nimzowitsch Attack', '1. e4 e5 2. Nf3 Nf6 3. Nxe5 d6 4. Nf3 Nxe4 5. Nc3'],
+  ['C42', 'Petrov\'s Defense: Cochrane Gambit', '1. e4 e5 2. Nf3 Nf6 3. Nxe5 d6 4. Nxf7'],
+  ['C42', 'Russian Game: Damiano Variation', '1. e4 e5 2. Nf3 Nf6 3. Nxe5 Nxe4'],
+  ['C42', 'Petrov\'s Defense', '1. e4 e5 2. Nf3 Nf6 3. Nxe5'],
+  ['C42', 'Petrov\'s Defense: Italian Variation', '1. e4 e5 2. Nf3 Nf6 3. Bc4'],
+  ['C43', 'Petrov\'s Defense: Modern Attack', '1. e4 e5 2. Nf3 Nf6 3. d4'],
+  ['C43', 'Petrov\'s Defense: Modern Attack, Main Line', '1. e4 e5 2. Nf3 Nf6 3. d4 Nxe4 4. Bd3 d5 5. Nxe5'],
+
+  // C44-C45: Scotch and Ponziani
+  ['C44', 'King\'s Pawn Game: Knight Attack', '1. e4 e5 2. Nf3 Nc6'],
+  ['C44', 'Ponziani Opening', '1. e4 e5 2. Nf3 Nc6 3. c3'],
+  ['C44', 'Ponziani Opening: Jaenisch Counterattack', '1. e4 e5 2. Nf3 Nc6 3. c3 Nf6'],
+  ['C44', 'Ponziani Opening: Romanishin Variation', '1. e4 e5 2. Nf3 Nc6 3. c3 Be7'],
+  ['C44', 'Ponziani Opening: Leonhardt Variation', '1. e4 e5 2. Nf3 Nc6 3. c3 d5'],
+  ['C44', 'King\'s Knight Opening: Konstantinopolsky', '1. e4 e5 2. Nf3 Nc6 3. g3'],
+  ['C44', 'Irish Gambit', '1. e4 e5 2. Nf3 Nc6 3. Nxe5'],
+  ['C44', 'Scotch Game', '1. e4 e5 2. Nf3 Nc6 3. d4'],
+  ['C44', 'Scotch Game', '1. e4 e5 2. Nf3 Nc6 3. d4 exd4'],
+  ['C44', 'Scotch Gambit', '1. e4 e5 2. Nf3 Nc6 3. d4 exd4 4. Bc4'],
+  ['C44', 'Scotch Game: Göring Gambit', '1. e4 e5 2. Nf3 Nc6 3. d4 exd4 4. c3'],
+  ['C44', 'Scotch Game: Scotch Gambit, Dubois Réti Defense', '1. e4 e5 2. Nf3 Nc6 3. d4 exd4 4. Bc4 Nf6'],
+  ['C44', 'Scotch Game: Lolli Variation', '1. e4 e5 2. Nf3 Nc6 3. d4 Nxd4'],
+  ['C44', 'King\'s Knight Opening: Normal Variation', '1. e4 e5 2. Nf3 Nc6 3. Be2'],
+  ['C44', 'Tayler Opening', '1. e4 e5 2. Nf3 Nc6 3. Be2 Nf6 4. d4'],
+  ['C45', 'Scotch Game', '1. e4 e5 2. Nf3 Nc6 3. d4 exd4 4. Nxd4'],
+  ['C45', 'Scotch Game: Classical Variation', '1. e4 e5 2. Nf3 Nc6 3. d4 exd4 4. Nxd4 Bc5'],
+  ['C45', 'Scotch Game: Schmidt Variation', '1. e4 e5 2. Nf3 Nc6 3. d4 exd4 4. Nxd4 Nf6'],
+  ['C45', 'Scotch Game: Mieses Variation', '1. e4 e5 2. Nf3 Nc6 3. d4 exd4 4. Nxd4 Nf6 5. Nxc6 bxc6 6. e5'],
+  ['C45', 'Scotch Game: Steinitz Variation', '1. e4 e5 2. Nf3 Nc6 3. d4 exd4 4. Nxd4 Qh4'],
+  ['C45', 'Scotch Game: Malaniuk Variation', '1. e4 e5 2. Nf3 Nc6 3. d4 exd4 4. Nxd4 Bb4+'],
+  ['C45', 'Scotch Game: Potter Variation', '1. e4 e5 2. Nf3 Nc6 3. d4 exd4 4. Nxd4 Bc5 5. Nb3'],
+
+  // C46-C49: Three and Four Knights
+  ['C46', 'Three Knights Opening', '1. e4 e5 2. Nf3 Nc6 3. Nc3'],
+  ['C46', 'Three Knights Opening: Steinitz Defense', '1. e4 e5 2. Nf3 Nc6 3. Nc3 g6'],
+  ['C46', 'Three Knights Opening: Schlechter Variation', '1. e4 e5 2. Nf3 Nc6 3. Nc3 Bb4'],
+  ['C47', 'Four Knights Game', '1. e4 e5 2. Nf3 Nc6 3. Nc3 Nf6'],
+  ['C47', 'Four Knights Game: Scotch Variation', '1. e4 e5 2. Nf3 Nc6 3. Nc3 Nf6 4. d4'],
+  ['C47', 'Four Knights Game: Italian Variation', '1. e4 e5 2. Nf3 Nc6 3. Nc3 Nf6 4. Bc4'],
+  ['C47', 'Four Knights Game: Glek System', '1. e4 e5 2. Nf3 Nc6 3. Nc3 Nf6 4. g3'],
+  ['C47', 'Four Knights Game: Belgrade Gambit', '1. e4 e5 2. Nf3 Nc6 3. Nc3 Nf6 4. d4 exd4 5. Nd5'],
+  ['C47', 'Four Knights Game: Scotch Variation Accepted', '1. e4 e5 2. Nf3 Nc6 3. Nc3 Nf6 4. d4 exd4 5. Nxd4'],
+  ['C48', 'Four Knights Game: Spanish Variation', '1. e4 e5 2. Nf3 Nc6 3. Nc3 Nf6 4. Bb5'],
+  ['C48', 'Four Knights Game: Spanish Variation, Rubinstein Variation', '1. e4 e5 2. Nf3 Nc6 3. Nc3 Nf6 4. Bb5 Nd4'],
+  ['C49', 'Four Knights Game: Double Spanish', '1. e4 e5 2. Nf3 Nc6 3. Nc3 Nf6 4. Bb5 Bb4'],
+  ['C49', 'Four Knights Game: Spanish Variation, Symmetrical Variation', '1. e4 e5 2. Nf3 Nc6 3. Nc3 Nf6 4. Bb5 Bb4 5. O-O O-O 6. d3 d6'],
+
+  // C50-C59: Italian Game and Two Knights
+  ['C50', 'Italian Game', '1. e4 e5 2. Nf3 Nc6 3. Bc4'],
+  ['C50', 'Italian Game: Hungarian Defense', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Be7'],
+  ['C50', 'Italian Game: Rousseau Gambit', '1. e4 e5 2. Nf3 Nc6 3. Bc4 f5'],
+  ['C50', 'Italian Game: Blackburne-Kostić Gambit', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nd4'],
+  ['C50', 'Italian Game: Paris Defense', '1. e4 e5 2. Nf3 Nc6 3. Bc4 d6'],
+  ['C50', 'Italian Game: Giuoco Piano', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5'],
+  ['C50', 'Italian Game: Giuoco Pianissimo', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. d3'],
+  ['C50', 'Italian Game: Giuoco Pianissimo, Normal', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. d3 Nf6'],
+  ['C50', 'Italian Game: Four Knights Variation', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. Nc3 Nf6'],
+  ['C50', 'Italian Game: Giuoco Piano, Rosentreter Gambit', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. O-O Nf6 5. d4'],
+  ['C50', 'Italian Game: Giuoco Piano, Castling Variation', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. O-O'],
+  ['C51', 'Italian Game: Evans Gambit', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. b4'],
+  ['C51', 'Italian Game: Evans Gambit Declined', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. b4 Bb6'],
+  ['C51', 'Italian Game: Evans Gambit Accepted', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. b4 Bxb4'],
+  ['C52', 'Italian Game: Evans Gambit, Main Line', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. b4 Bxb4 5. c3 Ba5'],
+  ['C53', 'Italian Game: Classical Variation', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. c3'],
+  ['C53', 'Italian Game: Classical Variation, Giuoco Pianissimo', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. c3 Nf6 5. d3'],
+  ['C53', 'Italian Game: Giuoco Piano, Center Holding Variation', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. c3 Qe7'],
+  ['C53', 'Italian Game: Classical Variation, Greco Gambit', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. c3 Nf6'],
+  ['C54', 'Italian Game: Classical Variation, Center Attack', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. c3 Nf6 5. d4'],
+  ['C54', 'Italian Game: Classical Variation, Center Attack', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. c3 Nf6 5. d4 exd4 6. cxd4'],
+  ['C54', 'Italian Game: Classical Variation, Greco Gambit, Traditional Line', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. c3 Nf6 5. d4 exd4 6. cxd4 Bb4+ 7. Nc3'],
+  ['C54', 'Italian Game: Giuoco Piano, Aitken Variation', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. c3 Nf6 5. d4 exd4 6. cxd4 Bb4+ 7. Bd2'],
+  ['C55', 'Italian Game: Two Knights Defense', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6'],
+  ['C55', 'Italian Game: Two Knights Defense, Modern Bishop\'s Opening', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. d3'],
+  ['C55', 'Italian Game: Two Knights Defense, Open Variation', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. d4'],
+  ['C55', 'Italian Game: Scotch Gambit, Max Lange Attack', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. d4 exd4 5. O-O Bc5 6. e5'],
+  ['C55', 'Italian Game: Two Knights Defense, Perreux Variation', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. d4 exd4 5. Ng5'],
+  ['C55', 'Italian Game: Anti-Fried Liver Defense', '1. e4 e5 2. Nf3 Nc6 3. Bc4 h6'],
+  ['C56', 'Italian Game: Scotch Gambit', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. d4 exd4 5. O-O Nxe4'],
+  ['C57', 'Italian Game: Two Knights Defense, Knight Attack', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. Ng5'],
+  ['C57', 'Italian Game: Two Knights Defense, Traxler Counterattack', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. Ng5 Bc5'],
+  ['C57', 'Italian Game: Two Knights Defense, Knight Attack, Normal Variation', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. Ng5 d5 5. exd5'],
+  ['C57', 'Italian Game: Two Knights Defense, Fritz Variation', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. Ng5 d5 5. exd5 Nd4'],
+  ['C57', 'Italian Game: Two Knights Defense, Ulvestad Variation', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. Ng5 d5 5. exd5 b5'],
+  ['C57', 'Italian Game: Two Knights Defense, Fried Liver Attack', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. Ng5 d5 5. exd5 Nxd5 6. Nxf7'],
+  ['C57', 'Italian Game: Two Knights Defense, Lolli Attack', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. Ng5 d5 5. exd5 Nxd5 6. d4'],
+  ['C58', 'Italian Game: Two Knights Defense, Polerio Defense', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. Ng5 d5 5. exd5 Na5'],
+  ['C58', 'Italian Game: Two Knights Defense, Polerio Defense, Bishop Check Line', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. Ng5 d5 5. exd5 Na5 6. Bb5+'],
+  ['C59', 'Italian Game: Two Knights Defense, Polerio Defense, Goring Variation', '1. e4 e5 2. Nf3 Nc6 3. Bc4 Nf6 4. Ng5 d5 5. exd5 Na5 6. Bb5+ c6 7. dxc6 bxc6 8. Be2 h6'],
+
+  // C60-C99: Ruy Lopez
+  ['C60', 'Ruy Lopez', '1. e4 e5 2. Nf3 Nc6 3. Bb5'],
+  ['C60', 'Ruy Lopez: Cozio Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 Nge7'],
+  ['C60', 'Ruy Lopez: Fianchetto Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 g6'],
+  ['C60', 'Ruy Lopez: Alapin Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 Bb4'],
+  ['C61', 'Ruy Lopez: Bird Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 Nd4'],
+  ['C62', 'Ruy Lopez: Steinitz Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 d6'],
+  ['C63', 'Ruy Lopez: Schliemann Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 f5'],
+  ['C64', 'Ruy Lopez: Classical Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 Bc5'],
+  ['C65', 'Ruy Lopez: Berlin Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 Nf6'],
+  ['C65', 'Ruy Lopez: Berlin Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 Nf6 4. O-O'],
+  ['C65', 'Ruy Lopez: Berlin Defense, Anderssen Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 Nf6 4. d3'],
+  ['C67', 'Ruy Lopez: Berlin Defense, Rio Gambit Accepted', '1. e4 e5 2. Nf3 Nc6 3. Bb5 Nf6 4. O-O Nxe4'],
+  ['C67', 'Ruy Lopez: Berlin Defense, l\'Hermet Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 Nf6 4. O-O Nxe4 5. d4'],
+  ['C67', 'Ruy Lopez: Berlin Defense, Berlin Wall', '1. e4 e5 2. Nf3 Nc6 3. Bb5 Nf6 4. O-O Nxe4 5. d4 Nd6 6. Bxc6 dxc6 7. dxe5 Nf5 8. Qxd8+ Kxd8'],
+  ['C68', 'Ruy Lopez: Morphy Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6'],
+  ['C68', 'Ruy Lopez: Exchange Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Bxc6'],
+  ['C68', 'Ruy Lopez: Exchange Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Bxc6 dxc6'],
+  ['C69', 'Ruy Lopez: Exchange Variation, Normal Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Bxc6 dxc6 5. O-O'],
+  ['C70', 'Ruy Lopez: Morphy Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4'],
+  ['C70', 'Ruy Lopez: Morphy Defense, Caro Gambit', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 b5'],
+  ['C71', 'Ruy Lopez: Morphy Defense, Modern Steinitz Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 d6'],
+  ['C74', 'Ruy Lopez: Morphy Defense, Modern Steinitz Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 d6 5. c3'],
+  ['C74', 'Ruy Lopez: Siesta Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 d6 5. c3 f5'],
+  ['C77', 'Ruy Lopez: Morphy Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6'],
+  ['C77', 'Ruy Lopez: Morphy Defense, Anderssen Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. d3'],
+  ['C77', 'Ruy Lopez: Morphy Defense, Wormald Attack', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. Qe2'],
+  ['C78', 'Ruy Lopez: Morphy Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O'],
+  ['C78', 'Ruy Lopez: Archangel Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O b5 6. Bb3 Bb7'],
+  ['C78', 'Ruy Lopez: Morphy Defense, Neo-Archangel Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O b5 6. Bb3 Bc5'],
+  ['C80', 'Ruy Lopez: Open', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Nxe4'],
+  ['C80', 'Ruy Lopez: Open, Main Line', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Nxe4 6. d4 b5 7. Bb3 d5 8. dxe5 Be6'],
+  ['C84', 'Ruy Lopez: Closed', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7'],
+  ['C85', 'Ruy Lopez: Closed, Delayed Exchange', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Bxc6'],
+  ['C86', 'Ruy Lopez: Worrall Attack', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Qe2'],
+  ['C87', 'Ruy Lopez: Closed, Averbakh Variation', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 d6'],
+  ['C88', 'Ruy Lopez: Closed', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3'],
+  ['C88', 'Ruy Lopez: Closed', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1'],
+  ['C88', 'Ruy Lopez: Closed, Anti-Marshall 8.a4', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 O-O 8. a4'],
+  ['C88', 'Ruy Lopez: Closed, 7...O-O', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 O-O'],
+  ['C89', 'Ruy Lopez: Marshall Attack', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 O-O 8. c3 d5'],
+  ['C90', 'Ruy Lopez: Closed', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 d6'],
+  ['C90', 'Ruy Lopez: Closed', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 O-O 8. c3'],
+  ['C92', 'Ruy Lopez: Closed', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 O-O 8. c3 d6 9. h3'],
+  ['C92', 'Ruy Lopez: Closed, Zaitsev System', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 O-O 8. c3 d6 9. h3 Bb7'],
+  ['C93', 'Ruy Lopez: Closed, Smyslov Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 O-O 8. c3 d6 9. h3 h6'],
+  ['C94', 'Ruy Lopez: Closed, Breyer Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 O-O 8. c3 d6 9. h3 Nb8'],
+  ['C96', 'Ruy Lopez: Closed', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 O-O 8. c3 d6 9. h3 Na5'],
+  ['C97', 'Ruy Lopez: Closed, Chigorin Defense', '1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 4. Ba4 Nf6 5. O-O Be7 6. Re1 b5 7. Bb3 O-O 8. c3 d6 9. h3 Na5 10. Bc2 c5 11. d4 Qc7'],
+
+  // D00-D05: queen's pawn games
+  ['D00', 'Queen\'s Pawn Game', '1. d4 d5'],
+  ['D00', 'Queen\'s Pawn Game: Accelerated London System', '1. d4 d5 2. Bf4'],
+  ['D00', 'London System', '1. d4 d5 2. Bf4 Nf6 3. e3'],
+  ['D00', 'Queen\'s Pawn Game: Levitsky Attack', '1. d4 d5 2. Bg5'],
+  ['D00', 'Blackmar-Diemer Gambit', '1. d4 d5 2. e4'],
+  ['D00', 'Blackmar-Diemer Gambit', '1. d4 d5 2. e4 dxe4 3. Nc3 Nf6 4. f3'],
+  ['D00', 'Queen\'s Pawn Game: Stonewall Attack', '1. d4 d5 2. e3 Nf6 3. Bd3'],
+  ['D00', 'Queen\'s Pawn Game: Colle System', '1. d4 d5 2. e3'],
+  ['D00', 'Queen\'s Pawn Game: Chigorin Variation', '1. d4 d5 2. Nc3'],
+  ['D01', 'Richter-Veresov Attack', '1. d4 d5 2. Nc3 Nf6 3. Bg5'],
+  ['D02', 'Queen\'s Pawn Game: Zukertort Variation', '1. d4 d5 2. Nf3'],
+  ['D02', 'Queen\'s Pawn Game: Symmetrical Variation', '1. d4 d5 2. Nf3 Nf6'],
+  ['D02', 'London System', '1. d4 d5 2. Nf3 Nf6 3. Bf4'],
+  ['D02', 'Queen\'s Pawn Game: Chigorin Variation', '1. d4 d5 2. Nf3 Nc6'],
+  ['D03', 'Queen\'s Pawn Game: Torre Attack', '1. d4 d5 2. Nf3 Nf6 3. Bg5'],
+  ['D04', 'Queen\'s Pawn Game: Colle System', '1. d4 d5 2. Nf3 Nf6 3. e3'],
+  ['D05', 'Queen\'s Pawn Game: Colle System', '1. d4 d5 2. Nf3 Nf6 3. e3 e6 4. Bd3'],
+  ['D05', 'Queen\'s Pawn Game: Zukertort Variation', '1. d4 d5 2. Nf3 Nf6 3. e3 e6 4. Bd3 c5 5. b3'],
+
+  // D06-D69: Queen's Gambit
+  ['D06', 'Queen\'s Gambit', '1. d4 d5 2. c4'],
+  ['D06', 'Queen\'s Gambit Declined: Baltic Defense', '1. d4 d5 2. c4 Bf5'],
+  ['D06', 'Queen\'s Gambit Declined: Marshall Defense', '1. d4 d5 2. c4 Nf6'],
+  ['D06', 'Queen\'s Gambit Refused: Austrian Defense', '1. d4 d5 2. c4 c5'],
+  ['D07', 'Queen\'s Gambit Declined: Chigorin Defense', '1. d4 d5 2. c4 Nc6'],
+  ['D08', 'Queen\'s Gambit Declined: Albin Countergambit', '1. d4 d5 2. c4 e5'],
+  ['D08', 'Queen\'s Gambit Declined: Albin Countergambit, Lasker Trap', '1. d4 d5 2. c4 e5 3. dxe5 d4 4. e3 Bb4+ 5. Bd2 dxe3'],
+  ['D09', 'Queen\'s Gambit Declined: Albin Countergambit, Fianchetto Variation', '1. d4 d5 2. c4 e5 3. dxe5 d4 4. Nf3 Nc6 5. g3'],
+  ['D10', 'Slav Defense', '1. d4 d5 2. c4 c6'],
+  ['D10', 'Slav Defense: Exchange Variation', '1. d4 d5 2. c4 c6 3. cxd5'],
+  ['D10', 'Slav Defense: Exchange Variation', '1. d4 d5 2. c4 c6 3. cxd5 cxd5'],
+  ['D10', 'Slav Defense: Three Knights Variation', '1. d4 d5 2. c4 c6 3. Nc3'],
+  ['D10', 'Slav Defense: Winawer Countergambit', '1. d4 d5 2. c4 c6 3. Nc3 e5'],
+  ['D11', 'Slav Defense: Modern Line', '1. d4 d5 2. c4 c6 3. Nf3'],
+  ['D11', 'Slav Defense: Quiet Variation', '1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. e3'],
+  ['D12', 'Slav Defense: Quiet Variation', '1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. e3 Bf5'],
+  ['D13', 'Slav Defense: Exchange Variation', '1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. cxd5 cxd5'],
+  ['D15', 'Slav Defense: Three Knights Variation', '1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. Nc3'],
+  ['D15', 'Slav Defense: Chameleon Variation', '1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. Nc3 a6'],
+  ['D15', 'Slav Defense: Alekhine Variation', '1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. Nc3 dxc4'],
+  ['D16', 'Slav Defense: Smyslov Variation', '1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. Nc3 dxc4 5. a4 Na6'],
+  ['D16', 'Slav Defense: Alapin Variation', '1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. Nc3 dxc4 5. a4'],
+  ['D17', 'Slav Defense: Czech Variation', '1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. Nc3 dxc4 5. a4 Bf5'],
+  ['D18', 'Slav Defense: Czech Variation, Classical System', '1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. Nc3 dxc4 5. a4 Bf5 6. e3'],
+  ['D19', 'Slav Defense: Czech Variation, Classical System, Main Line', '1. d4 d5 2. c4 c6 3. Nf3 Nf6 4. Nc3 dxc4 5. a4 Bf5 6. e3 e6 7. Bxc4 Bb4 8. O-O'],
+  ['D20', 'Queen\'s Gambit Accepted', '1. d4 d5 2. c4 dxc4'],
+  ['D20', 'Queen\'s Gambit Accepted: Central Variation', '1. d4 d5 2. c4 dxc4 3. e4'],
+  ['D20', 'Queen\'s Gambit Accepted: Old Variation', '1. d4 d5 2. c4 dxc4 3. e3'],
+  ['D21', 'Queen\'s Gambit Accepted: Normal Variation', '1. d4 d5 2. c4 dxc4 3. Nf3'],
+  ['D23', 'Queen\'s Gambit Accepted', '1. d4 d5 2. c4 dxc4 3. Nf3 Nf6'],
+  ['D24', 'Queen\'s Gambit Accepted: Bogoljubov Defense', '1. d4 d5 2. c4 dxc4 3. Nf3 Nf6 4. Nc3'],
+  ['D25', 'Queen\'s Gambit Accepted: Normal Variation', '1. d4 d5 2. c4 dxc4 3. Nf3 Nf6 4. e3'],
+  ['D26', 'Queen\'s Gambit Accepted: Classical Defense', '1. d4 d5 2. c4 dxc4 3. Nf3 Nf6 4. e3 e6'],
+  ['D27', 'Queen\'s Gambit Accepted: Classical Defense', '1. d4 d5 2. c4 dxc4 3. Nf3 Nf6 4. e3 e6 5. Bxc4 c5 6. O-O a6'],
+  ['D30', 'Queen\'s Gambit Declined', '1. d4 d5 2. c4 e6'],
+  ['D30', 'Queen\'s Gambit Declined: Capablanca Variation', '1. d4 d5 2. c4 e6 3. Nf3'],
+  ['D30', 'Queen\'s Gambit Declined: Catalan Variation', '1. d4 d5 2. c4 e6 3. g3'],
+  ['D30', 'Queen\'s Gambit Declined', '1. d4 d5 2. c4 e6 3. Nf3 Nf6'],
+  ['D31', 'Queen\'s Gambit Declined: Queen\'s Knight Variation', '1. d4 d5 2. c4 e6 3. Nc3'],
+  ['D31', 'Semi-Slav Defense: Accelerated Move Order', '1. d4 d5 2. c4 e6 3. Nc3 c6'],
+  ['D31', 'Semi-Slav Defense: Marshall Gambit', '1. d4 d5 2. c4 e6 3. Nc3 c6 4. e4'],
+  ['D31', 'Queen\'s Gambit Declined: Alapin Variation', '1. d4 d5 2. c4 e6 3. Nc3 b6'],
+  ['D31', 'Queen\'s Gambit Declined: Janowski Variation', '1. d4 d5 2. c4 e6 3. Nc3 a6'],
+  ['D31', 'Queen\'s Gambit Declined: Charousek Variation', '1. d4 d5 2. c4 e6 3. Nc3 Be7'],
+  ['D32', 'Tarrasch Defense', '1. d4 d5 2. c4 e6 3. Nc3 c5'],
+  ['D32', 'Tarrasch Defense: Two Knights Variation', '1. d4 d5 2. c4 e6 3. Nc3 c5 4. cxd5 exd5 5. Nf3'],
+  ['D32', 'Tarrasch Defense: Schara Gambit', '1. d4 d5 2. c4 e6 3. Nc3 c5 4. cxd5 cxd4'],
+  ['D33', 'Tarrasch Defense: Prague Variation', '1. d4 d5 2. c4 e6 3. Nc3 c5 4. cxd5 exd5 5. Nf3 Nc6 6. g3'],
+  ['D34', 'Tarrasch Defense: Classical Variation', '1. d4 d5 2. c4 e6 3. Nc3 c5 4. cxd5 exd5 5. Nf3 Nc6 6. g3 Nf6 7. Bg2 Be7'],
+  ['D35', 'Queen\'s Gambit Declined: Normal Defense', '1. d4 d5 2. c4 e6 3. Nc3 Nf6'],
+  ['D35', 'Queen\'s Gambit Declined: Exchange Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. cxd5'],
+  ['D35', 'Queen\'s Gambit Declined: Exchange Variation, Positional Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. cxd5 exd5 5. Bg5'],
+  ['D36', 'Queen\'s Gambit Declined: Exchange Variation, Reshevsky Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. cxd5 exd5 5. Bg5 c6 6. Qc2'],
+  ['D37', 'Queen\'s Gambit Declined: Three Knights Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3'],
+  ['D37', 'Queen\'s Gambit Declined: Harrwitz Attack', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3 Be7 5. Bf4'],
+  ['D38', 'Queen\'s Gambit Declined: Ragozin Defense', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3 Bb4'],
+  ['D40', 'Queen\'s Gambit Declined: Semi-Tarrasch Defense', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3 c5'],
+  ['D41', 'Queen\'s Gambit Declined: Semi-Tarrasch Defense, Exchange Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3 c5 5. cxd5 Nxd5'],
+  ['D43', 'Semi-Slav Defense', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3 c6'],
+  ['D43', 'Semi-Slav Defense: Moscow Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3 c6 5. Bg5 h6'],
+  ['D44', 'Semi-Slav Defense: Botvinnik Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3 c6 5. Bg5 dxc4'],
+  ['D45', 'Semi-Slav Defense: Normal Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3 c6 5. e3'],
+  ['D45', 'Semi-Slav Defense: Stoltz Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3 c6 5. e3 Nbd7 6. Qc2'],
+  ['D46', 'Semi-Slav Defense: Main Line', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3 c6 5. e3 Nbd7 6. Bd3'],
+  ['D47', 'Semi-Slav Defense: Meran Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Nf3 c6 5. e3 Nbd7 6. Bd3 dxc4 7. Bxc4 b5'],
+  ['D50', 'Queen\'s Gambit Declined: Modern Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Bg5'],
+  ['D51', 'Queen\'s Gambit Declined: Modern Variation, Knight Defense', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Bg5 Nbd7'],
+  ['D51', 'Queen\'s Gambit Declined: Elephant Trap', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Bg5 Nbd7 5. cxd5 exd5 6. Nxd5'],
+  ['D52', 'Queen\'s Gambit Declined: Cambridge Springs Defense', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Bg5 Nbd7 5. e3 c6 6. Nf3 Qa5'],
+  ['D53', 'Queen\'s Gambit Declined: Modern Variation, Heral Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Bg5 Be7'],
+  ['D55', 'Queen\'s Gambit Declined: Neo-Orthodox Variation', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Bg5 Be7 5. e3 O-O 6. Nf3 h6'],
+  ['D56', 'Queen\'s Gambit Declined: Lasker Defense', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Bg5 Be7 5. e3 O-O 6. Nf3 h6 7. Bh4 Ne4'],
+  ['D58', 'Queen\'s Gambit Declined: Tartakower Defense', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Bg5 Be7 5. e3 O-O 6. Nf3 h6 7. Bh4 b6'],
+  ['D60', 'Queen\'s Gambit Declined: Orthodox Defense', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Bg5 Be7 5. e3 O-O 6. Nf3 Nbd7'],
+  ['D63', 'Queen\'s Gambit Declined: Orthodox Defense, Main Line', '1. d4 d5 2. c4 e6 3. Nc3 Nf6 4. Bg5 Be7 5. e3 O-O 6. Nf3 Nbd7 7. Rc1'],
+
+  // D70-D99: Grünfeld Defense
+  ['D70', 'Neo-Grünfeld Defense', '1. d4 Nf6 2. c4 g6 3. f3 d5'],
+  ['D70', 'Neo-Grünfeld Defense', '1. d4 Nf6 2. c4 g6 3. g3 d5'],
+  ['D80', 'Grünfeld Defense', '1. d4 Nf6 2. c4 g6 3. Nc3 d5'],
+  ['D80', 'Grünfeld Defense: Lundin Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. Bg5'],
+  ['D82', 'Grünfeld Defense: Brinckmann Attack', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. Bf4'],
+  ['D85', 'Grünfeld Defense: Exchange Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. cxd5 Nxd5'],
+  ['D85', 'Grünfeld Defense: Exchange Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. cxd5 Nxd5 5. e4 Nxc3 6. bxc3'],
+  ['D85', 'Grünfeld Defense: Modern Exchange Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. cxd5 Nxd5 5. e4 Nxc3 6. bxc3 Bg7 7. Nf3'],
+  ['D86', 'Grünfeld Defense: Exchange Variation, Classical Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. cxd5 Nxd5 5. e4 Nxc3 6. bxc3 Bg7 7. Bc4'],
+  ['D90', 'Grünfeld Defense: Three Knights Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. Nf3'],
+  ['D90', 'Grünfeld Defense: Flohr Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. Nf3 Bg7 5. Qa4+'],
+  ['D91', 'Grünfeld Defense: Three Knights Variation, Petrosian System', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. Nf3 Bg7 5. Bg5'],
+  ['D94', 'Grünfeld Defense: Three Knights Variation, Burille Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. Nf3 Bg7 5. e3'],
+  ['D96', 'Grünfeld Defense: Russian Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. Nf3 Bg7 5. Qb3'],
+  ['D97', 'Grünfeld Defense: Russian Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 d5 4. Nf3 Bg7 5. Qb3 dxc4 6. Qxc4 O-O 7. e4'],
+
+  // E00-E09: Catalan and irregular Indian lines
+  ['E00', 'Indian Defense: East Indian Defense', '1. d4 Nf6 2. c4 e6'],
+  ['E00', 'Catalan Opening', '1. d4 Nf6 2. c4 e6 3. g3'],
+  ['E00', 'Indian Defense: Seirawan Attack', '1. d4 Nf6 2. c4 e6 3. Bg5'],
+  ['E01', 'Catalan Opening: Closed', '1. d4 Nf6 2. c4 e6 3. g3 d5 4. Bg2'],
+  ['E02', 'Catalan Opening: Open Defense', '1. d4 Nf6 2. c4 e6 3. g3 d5 4. Bg2 dxc4'],
+  ['E04', 'Catalan Opening: Open Defense', '1. d4 Nf6 2. c4 e6 3. g3 d5 4. Bg2 dxc4 5. Nf3'],
+  ['E05', 'Catalan Opening: Open Defense, Classical Line', '1. d4 Nf6 2. c4 e6 3. g3 d5 4. Bg2 dxc4 5. Nf3 Be7'],
+  ['E06', 'Catalan Opening: Closed Variation', '1. d4 Nf6 2. c4 e6 3. g3 d5 4. Bg2 Be7 5. Nf3'],
+  ['E10', 'Indian Defense: Anti-Nimzo-Indian', '1. d4 Nf6 2. c4 e6 3. Nf3'],
+  ['E10', 'Blumenfeld Countergambit', '1. d4 Nf6 2. c4 e6 3. Nf3 c5 4. d5 b5'],
+  ['E11', 'Bogo-Indian Defense', '1. d4 Nf6 2. c4 e6 3. Nf3 Bb4+'],
+  ['E11', 'Bogo-Indian Defense: Grünfeld Variation', '1. d4 Nf6 2. c4 e6 3. Nf3 Bb4+ 4. Nbd2'],
+  ['E11', 'Bogo-Indian Defense: Exchange Variation', '1. d4 Nf6 2. c4 e6 3. Nf3 Bb4+ 4. Bd2 Bxd2+'],
+  ['E11', 'Bogo-Indian Defense: Nimzowitsch Variation', '1. d4 Nf6 2. c4 e6 3. Nf3 Bb4+ 4. Bd2 Qe7'],
+
+  // E12-E19: Queen's Indian Defense
+  ['E12', 'Queen\'s Indian Defense', '1. d4 Nf6 2. c4 e6 3. Nf3 b6'],
+  ['E12', 'Queen\'s Indian Defense: Petrosian Variation', '1. d4 Nf6 2. c4 e6 3. Nf3 b6 4. a3'],
+  ['E12', 'Queen\'s Indian Defense: Kasparov Variation', '1. d4 Nf6 2. c4 e6 3. Nf3 b6 4. Nc3'],
+  ['E14', 'Queen\'s Indian Defense: Spassky System', '1. d4 Nf6 2. c4 e6 3. Nf3 b6 4. e3'],
+  ['E15', 'Queen\'s Indian Defense: Fianchetto Variation', '1. d4 Nf6 2. c4 e6 3. Nf3 b6 4. g3'],
+  ['E15', 'Queen\'s Indian Defense: Fianchetto Variation, Nimzowitsch Variation', '1. d4 Nf6 2. c4 e6 3. Nf3 b6 4. g3 Ba6'],
+  ['E16', 'Queen\'s Indian Defense: Capablanca Variation', '1. d4 Nf6 2. c4 e6 3. Nf3 b6 4. g3 Bb7 5. Bg2 Bb4+'],
+  ['E17', 'Queen\'s Indian Defense: Traditional Variation', '1. d4 Nf6 2. c4 e6 3. Nf3 b6 4. g3 Bb7 5. Bg2 Be7'],
+
+  // E20-E59: Nimzo-Indian Defense
+  ['E20', 'Nimzo-Indian Defense', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4'],
+  ['E20', 'Nimzo-Indian Defense: Kmoch Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. f3'],
+  ['E20', 'Nimzo-Indian Defense: Romanishin Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. g3'],
+  ['E21', 'Nimzo-Indian Defense: Three Knights Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. Nf3'],
+  ['E22', 'Nimzo-Indian Defense: Spielmann Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. Qb3'],
+  ['E24', 'Nimzo-Indian Defense: Sämisch Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. a3'],
+  ['E24', 'Nimzo-Indian Defense: Sämisch Variation, Accelerated', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. a3 Bxc3+ 5. bxc3'],
+  ['E30', 'Nimzo-Indian Defense: Leningrad Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. Bg5'],
+  ['E32', 'Nimzo-Indian Defense: Classical Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. Qc2'],
+  ['E32', 'Nimzo-Indian Defense: Classical Variation, Keres Defense', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. Qc2 O-O'],
+  ['E34', 'Nimzo-Indian Defense: Classical Variation, Noa Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. Qc2 d5'],
+  ['E38', 'Nimzo-Indian Defense: Classical Variation, Berlin Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. Qc2 c5'],
+  ['E40', 'Nimzo-Indian Defense: Normal Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. e3'],
+  ['E41', 'Nimzo-Indian Defense: Hübner Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. e3 c5'],
+  ['E43', 'Nimzo-Indian Defense: St. Petersburg Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. e3 b6'],
+  ['E44', 'Nimzo-Indian Defense: Fischer Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. e3 b6 5. Ne2'],
+  ['E46', 'Nimzo-Indian Defense: Normal Variation', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. e3 O-O'],
+  ['E47', 'Nimzo-Indian Defense: Normal Variation, Bishop Attack', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. e3 O-O 5. Bd3'],
+  ['E48', 'Nimzo-Indian Defense: Normal Variation, Bishop Attack, Classical Defense', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. e3 O-O 5. Bd3 d5'],
+  ['E53', 'Nimzo-Indian Defense: Normal Variation, Gligoric System', '1. d4 Nf6 2. c4 e6 3. Nc3 Bb4 4. e3 O-O 5. Bd3 d5 6. Nf3 c5 7. O-O'],
+
+  // E60-E99: King's Indian Defense
+  ['E60', 'Indian Defense: West Indian Defense', '1. d4 Nf6 2. c4 g6'],
+  ['E60', 'King\'s Indian Defense: Normal Variation', '1. d4 Nf6 2. c4 g6 3. Nf3'],
+  ['E60', 'King\'s Indian Defense: Fianchetto Variation', '1. d4 Nf6 2. c4 g6 3. g3'],
+  ['E61', 'King\'s Indian Defense', '1. d4 Nf6 2. c4 g6 3. Nc3'],
+  ['E61', 'King\'s Indian Defense', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7'],
+  ['E61', 'King\'s Indian Defense: Smyslov Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. Nf3 d6 5. Bg5'],
+  ['E62', 'King\'s Indian Defense: Fianchetto Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. Nf3 d6 5. g3'],
+  ['E70', 'King\'s Indian Defense: Normal Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4'],
+  ['E70', 'King\'s Indian Defense: Normal Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6'],
+  ['E73', 'King\'s Indian Defense: Averbakh Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Be2 O-O 6. Bg5'],
+  ['E76', 'King\'s Indian Defense: Four Pawns Attack', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. f4'],
+  ['E80', 'King\'s Indian Defense: Sämisch Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. f3'],
+  ['E81', 'King\'s Indian Defense: Sämisch Variation, Normal Defense', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. f3 O-O'],
+  ['E90', 'King\'s Indian Defense: Normal Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Nf3'],
+  ['E91', 'King\'s Indian Defense: Orthodox Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Nf3 O-O 6. Be2'],
+  ['E92', 'King\'s Indian Defense: Orthodox Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Nf3 O-O 6. Be2 e5'],
+  ['E92', 'King\'s Indian Defense: Petrosian Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Nf3 O-O 6. Be2 e5 7. d5'],
+  ['E92', 'King\'s Indian Defense: Exchange Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Nf3 O-O 6. Be2 e5 7. dxe5'],
+  ['E94', 'King\'s Indian Defense: Orthodox Variation', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Nf3 O-O 6. Be2 e5 7. O-O'],
+  ['E97', 'King\'s Indian Defense: Orthodox Variation, Classical System', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Nf3 O-O 6. Be2 e5 7. O-O Nc6'],
+  ['E97', 'King\'s Indian Defense: Orthodox Variation, Bayonet Attack', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Nf3 O-O 6. Be2 e5 7. O-O Nc6 8. d5 Ne7 9. b4'],
+  ['E98', 'King\'s Indian Defense: Orthodox Variation, Classical System, Main Line', '1. d4 Nf6 2. c4 g6 3. Nc3 Bg7 4. e4 d6 5. Nf3 O-O 6. Be2 e5 7. O-O Nc6 8. d5 Ne7 9. Ne1'],
+]
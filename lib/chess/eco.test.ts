@@ -0,0 +1,31 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js'
+import { describe, expect, it } from 'vitest'
+import { bookPrefixLength, classifyOpening } from './eco'
+
+function fensAfter(sans: string[]): string[] {
+  const chess = new Chess()
+  return sans.map(san => {
+    chess.move(san)
+    return chess.fen()
+  })
+}
+
+describe('bookPrefixLength', () => {
+  it('counts every move of a game that stays in the book', () => {
+    const fens = fensAfter(['e4', 'e5', 'Nf3', 'Nc6'])
+    expect(bookPrefixLength(DEFAULT_POSITION, fens)).toBe(4)
+  })
+
+  it('stops where the game leaves the book even if it transposes back in', () => {
+    // 2.Ng1 Ng8 leaves the book; 3.e4 e5 reaches the King's Pawn Game again
+    const fens = fensAfter(['Nf3', 'Nf6', 'Ng1', 'Ng8', 'e4', 'e5'])
+
+    expect(classifyOpening(DEFAULT_POSITION, fens)).toMatchObject({ eco: 'C20', ply: 6 })
+    expect(bookPrefixLength(DEFAULT_POSITION, fens)).toBe(2)
+  })
+
+  it('has no book for games set up from another position', () => {
+    const start = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
+    expect(bookPrefixLength(start, [])).toBe(0)
+  })
+})
@@ -0,0 +1,71 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js'
+import { ECO_OPENINGS } from './eco-data'
+import { positionKey } from './opening-tree'
+
+export interface EcoOpening {
+  eco: string
+  name: string
+  ply: number // plies from the starting position to the book position
+}
+
+let book: Map<string, EcoOpening> | null = null
+// Every position on the way to a book entry, named or not
+let bookLines: Set<string> | null = null
+
+/**
+ * Opening book keyed by position, built on first use. When two lines reach
+ * the same position the first entry in the table wins.
+ */
+function openingBook(): Map<string, EcoOpening> {
+  if (book) return book
+
+  book = new Map()
+  bookLines = new Set()
+  for (const [eco, name, moves] of ECO_OPENINGS) {
+    const chess = new Chess()
+    const sans = moves.split(/\s+/).filter(token => !/^\d+\.$/.test(token))
+    for (const san of sans) {
+      chess.move(san)
+      bookLines.add(positionKey(chess.fen()))
+    }
+
+    const key = positionKey(chess.fen())
+    if (!book.has(key)) book.set(key, { eco, name, ply: sans.length })
+  }
+  return book
+}
+
+export function lookupOpening(fen: string): EcoOpening | null {
+  return openingBook().get(positionKey(fen)) ?? null
+}
+
+/**
+ * Name a game after the deepest book position it reached. `fens` are the
+ * positions after each move; the returned `ply` is the index of the move
+ * that reached it plus one. A game can leave the book and transpose back
+ * in, so `bookPrefixLength` counts the moves that were actually book.
+ * Games set up from another position have no book.
+ */
+export function classifyOpening(startFen: string, fens: string[]): EcoOpening | null {
+  if (positionKey(startFen) !== positionKey(DEFAULT_POSITION)) return null
+
+  let match: EcoOpening | null = null
+  for (let i = 0; i < fens.length; i++) {
+    const opening = lookupOpening(fens[i])
+    if (opening) match = { eco: opening.eco, name: opening.name, ply: i + 1 }
+  }
+  return match
+}
+
+/**
+ * Plies played before the game first left the book. Moves after that are
+ * the players' own, even if they transpose back into a book position.
+ */
+export function bookPrefixLength(startFen: string, fens: string[]): number {
+  if (positionKey(startFen) !== positionKey(DEFAULT_POSITION)) return 0
+
+  openingBook()
+  let plies = 0
+  while (plies < fens.length && bookLines!.has(positionKey(fens[plies]))) plies++
+  return plies
+}
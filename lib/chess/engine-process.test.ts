@@ -0,0 +1,100 @@
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import type { StockfishEngine } from './engine'
+import { EnginePool } from './engine-process'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+
+// A UCI engine in a few lines: `go depth 99` crashes it mid-search and
+// `go depth 98` answers, then dies while idle
+const FAKE_ENGINE = `
+const readline = require('readline')
+readline.createInterface({ input: process.stdin }).on('line', line => {
+  if (line === 'uci') console.log('id name Fake\\nuciok')
+  else if (line === 'isready') console.log('readyok')
+  else if (line === 'go depth 99') process.exit(1)
+  else if (line === 'go depth 98') {
+    console.log('bestmove e2e4')
+    setTimeout(() => process.exit(0), 20)
+  }
+  else if (line.startsWith('go')) console.log('info depth 1 multipv 1 score cp 10 pv e2e4\\nbestmove e2e4')
+  else if (line === 'quit') process.exit(0)
+})
+`
+
+let dir: string
+let binary: string
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'fake-engine-'))
+  binary = path.join(dir, 'engine')
+  writeFileSync(binary, `#!${process.execPath}\n${FAKE_ENGINE}`)
+  chmodSync(binary, 0o755)
+})
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+describe('EnginePool', () => {
+  it('fails a search at once when the engine crashes and replaces the engine', async () => {
+    const pool = new EnginePool(1, binary)
+    const started = Date.now()
+
+    await expect(pool.run(engine => engine.analyze(START_FEN, 99))).rejects.toThrow('UCI engine exited')
+    expect(Date.now() - started).toBeLessThan(5_000)
+
+    await expect(pool.run(engine => engine.getBestMove(START_FEN, 5))).resolves.toBe('e2e4')
+    pool.terminate()
+  })
+
+  it('does not hand out an engine that died while idle', async () => {
+    const pool = new EnginePool(1, binary)
+
+    await expect(pool.run(engine => engine.getBestMove(START_FEN, 98))).resolves.toBe('e2e4')
+    await new Promise(resolve => setTimeout(resolve, 200))
+
+    const started = Date.now()
+    await expect(pool.run(engine => engine.getBestMove(START_FEN, 5))).resolves.toBe('e2e4')
+    expect(Date.now() - started).toBeLessThan(5_000)
+    pool.terminate()
+  })
+
+  it('rejects callers still waiting for an engine when terminated', async () => {
+    const pool = new EnginePool(1, binary)
+    let finish = () => {}
+    const busy = pool.run(() => new Promise<void>(resolve => { finish = resolve }))
+    await new Promise(resolve => setTimeout(resolve, 200))
+
+    const queued = pool.run(engine => engine.getBestMove(START_FEN, 5))
+    pool.terminate()
+
+    await expect(queued).rejects.toThrow('Engine pool terminated')
+    finish()
+    await busy
+    pool.terminate()
+  })
+
+  it('stops engines that are checked out when terminated', async () => {
+    const pool = new EnginePool(1, binary)
+    let checkedOut: StockfishEngine | undefined
+    let finish = () => {}
+    const busy = pool.run(engine => {
+      checkedOut = engine
+      return new Promise<void>(resolve => { finish = resolve })
+    })
+    await new Promise(resolve => setTimeout(resolve, 200))
+
+    const terminate = vi.spyOn(checkedOut!, 'terminate')
+    pool.terminate()
+    expect(terminate).toHaveBeenCalled()
+
+    // Handing it back afterwards doesn't return it to the pool
+    finish()
+    await busy
+    await expect(pool.run(async engine => engine)).resolves.not.toBe(checkedOut)
+    pool.terminate()
+  })
+})
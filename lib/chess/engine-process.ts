@@ -0,0 +1,187 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process'
+import { createInterface } from 'readline'
+import { StockfishEngine, type EngineAdapter } from './engine'
+
+const DEFAULT_POOL_SIZE = 2
+
+/**
+ * Node adapter speaking UCI to a local engine binary over stdin/stdout.
+ * The binary path is read from STOCKFISH_PATH and defaults to `stockfish` on PATH.
+ */
+export class ProcessEngineAdapter implements EngineAdapter {
+  private process: ChildProcessWithoutNullStreams | null = null
+  private handler: ((line: string) => void) | null = null
+  private exitHandler: ((reason: Error) => void) | null = null
+
+  constructor(private binaryPath: string = process.env.STOCKFISH_PATH || 'stockfish') {}
+
+  start() {
+    return new Promise<void>((resolve, reject) => {
+      const child = spawn(this.binaryPath, [], { stdio: 'pipe' })
+
+      child.once('spawn', () => {
+        this.process = child
+        resolve()
+      })
+
+      child.once('error', (error) => {
+        this.process = null
+        reject(new Error(`Failed to start UCI engine at "${this.binaryPath}": ${error.message}`))
+      })
+
+      child.once('exit', (code, signal) => {
+        // A restarted engine may already have replaced this process
+        if (this.process !== child) return
+        this.process = null
+        this.exitHandler?.(new Error(`UCI engine exited (${signal ?? `code ${code}`})`))
+      })
+
+      // Writing to an engine that just died fails with EPIPE; 'exit' reports the death
+      child.stdin.on('error', (error) => {
+        console.error('UCI engine stdin error:', error.message)
+      })
+
+      createInterface({ input: child.stdout }).on('line', (line) => {
+        this.handler?.(line.trim())
+      })
+    })
+  }
+
+  send(command: string) {
+    if (this.process?.stdin.writable) {
+      this.process.stdin.write(`${command}\n`)
+    }
+  }
+
+  onMessage(handler: (line: string) => void) {
+    this.handler = handler
+  }
+
+  onExit(handler: (reason: Error) => void) {
+    this.exitHandler = handler
+  }
+
+  terminate() {
+    const child = this.process
+    if (child) {
+      this.process = null
+      child.stdin.end('quit\n')
+      child.kill()
+    }
+  }
+}
+
+/**
+ * Fixed-size pool of engine processes shared by server-side analysis.
+ * Callers borrow an engine with `run`, which returns it to the pool afterwards.
+ */
+export class EnginePool {
+  private idle: StockfishEngine[] = []
+  private busy = new Set<StockfishEngine>() // checked out by `run`
+  private waiting: { resolve: (engine: StockfishEngine) => void; reject: (error: unknown) => void }[] = []
+  private created = 0
+
+  constructor(
+    private size: number = Number(process.env.STOCKFISH_POOL_SIZE) || DEFAULT_POOL_SIZE,
+    private binaryPath?: string
+  ) {}
+
+  private async acquire(): Promise<StockfishEngine> {
+    let engine = this.idle.pop()
+    // Engines that died while idle are replaced rather than handed out
+    while (engine && !engine.alive) {
+      this.evict(engine)
+      engine = this.idle.pop()
+    }
+    if (engine) return engine
+
+    if (this.created < this.size) {
+      this.created++
+      const newEngine = new StockfishEngine(new ProcessEngineAdapter(this.binaryPath))
+      try {
+        await newEngine.initialize()
+        return newEngine
+      } catch (error) {
+        this.created--
+        throw error
+      }
+    }
+
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }))
+  }
+
+  private release(engine: StockfishEngine) {
+    // The pool was terminated while the engine was out
+    if (!this.busy.delete(engine)) {
+      engine.terminate()
+      return
+    }
+    if (!engine.alive) {
+      this.discard(engine)
+      return
+    }
+
+    const next = this.waiting.shift()
+    if (next) {
+      this.busy.add(engine)
+      next.resolve(engine)
+    } else {
+      this.idle.push(engine)
+    }
+  }
+
+  private evict(engine: StockfishEngine) {
+    engine.terminate()
+    this.created--
+  }
+
+  private discard(engine: StockfishEngine) {
+    this.evict(engine)
+
+    // Start a replacement for whoever is queued behind the discarded engine
+    const next = this.waiting.shift()
+    if (next) {
+      this.acquire().then(next.resolve, next.reject)
+    }
+  }
+
+  async run<T>(task: (engine: StockfishEngine) => Promise<T>): Promise<T> {
+    const engine = await this.acquire()
+    this.busy.add(engine)
+    try {
+      const result = await task(engine)
+      this.release(engine)
+      return result
+    } catch (error) {
+      // The engine may be left mid-search, so don't hand it to the next caller
+      if (this.busy.delete(engine)) this.discard(engine)
+      else engine.terminate()
+      throw error
+    }
+  }
+
+  terminate() {
+    for (const engine of [...this.idle, ...this.busy]) {
+      engine.terminate()
+    }
+    this.idle = []
+    this.busy.clear()
+    this.created = 0
+
+    for (const waiter of this.waiting) {
+      waiter.reject(new Error('Engine pool terminated'))
+    }
+    this.waiting = []
+  }
+}
+
+const globalForEngine = globalThis as unknown as {
+  enginePool: EnginePool | undefined
+}
+
+export function getEnginePool(): EnginePool {
+  if (!globalForEngine.enginePool) {
+    globalForEngine.enginePool = new EnginePool()
+  }
+  return globalForEngine.enginePool
+}
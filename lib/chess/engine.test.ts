@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { StockfishEngine, type EngineAdapter } from './engine'
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+
+type Reply = string[] | ((command: string) => string[] | void)
+
+/**
+ * Engine that answers commands from a transcript: each command prefix maps
+ * to the lines sent back, or to a function producing them. Unknown
+ * commands get no answer, like a real engine's setoption/position.
+ */
+class TranscriptAdapter implements EngineAdapter {
+  sent: string[] = []
+  terminated = 0
+  private handler: ((line: string) => void) | null = null
+
+  constructor(public transcript: Record<string, Reply>) {}
+
+  async start() {}
+
+  send(command: string) {
+    this.sent.push(command)
+    const prefix = Object.keys(this.transcript).find(key => command.startsWith(key))
+    if (!prefix) return
+
+    const reply = this.transcript[prefix]
+    const lines = typeof reply === 'function' ? reply(command) : reply
+    if (lines) this.emit(...lines)
+  }
+
+  // Engine output arrives asynchronously, as it does from a worker or process
+  emit(...lines: string[]) {
+    queueMicrotask(() => lines.forEach(line => this.handler?.(line)))
+  }
+
+  onMessage(handler: (line: string) => void) {
+    this.handler = handler
+  }
+
+  terminate() {
+    this.terminated++
+  }
+}
+
+const handshake: Record<string, Reply> = {
+  uci: ['id name Transcript', 'uciok'],
+  isready: ['readyok'],
+}
+
+describe('StockfishEngine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('runs the UCI handshake once for concurrent callers', async () => {
+    const adapter = new TranscriptAdapter({ ...handshake })
+    const engine = new StockfishEngine(adapter)
+
+    await Promise.all([engine.initialize(), engine.initialize()])
+
+    expect(adapter.sent.filter(command => command === 'uci')).toHaveLength(1)
+    expect(adapter.sent).toEqual([
+      'uci',
+      'setoption name Threads value 2',
+      'setoption name Hash value 128',
+      'isready',
+    ])
+  })
+
+  it('fails the handshake when the engine never sends uciok', async () => {
+    const engine = new StockfishEngine(new TranscriptAdapter({ isready: ['readyok'] }))
+
+    const init = engine.initialize()
+    const assertion = expect(init).rejects.toThrow('UCI engine did not respond within 10000ms')
+    await vi.advanceTimersByTimeAsync(10_000)
+    await assertion
+  })
+
+  it('parses MultiPV lines, ignoring info without a score', async () => {
+    const adapter = new TranscriptAdapter({
+      ...handshake,
+      'go depth': [
+        'info depth 1 currmove e2e4 currmovenumber 1',
+        'info depth 12 seldepth 16 multipv 1 score cp 35 nodes 1000 pv e2e4 e7e5 g1f3',
+        'info depth 12 seldepth 15 multipv 2 score cp -12 nodes 1000 pv d2d4 d7d5',
+        'info depth 12 seldepth 9 multipv 3 score mate -3 nodes 1000 pv f2f3 e7e5',
+        'bestmove e2e4 ponder e7e5',
+      ],
+    })
+    const engine = new StockfishEngine(adapter)
+    const onInfo = vi.fn()
+
+    const result = await engine.analyze(START_FEN, 12, { multiPv: 3, onInfo })
+
+    expect(adapter.sent).toContain('setoption name MultiPV value 3')
+    expect(adapter.sent).toContain(`position fen ${START_FEN}`)
+    expect(result.move).toBe('e2e4')
+    expect(result.evaluation).toBe(0.35)
+    expect(result.depth).toBe(12)
+    expect(result.pv).toEqual(['e2e4', 'e7e5', 'g1f3'])
+    expect(result.lines).toEqual([
+      { multipv: 1, depth: 12, evaluation: 0.35, pv: ['e2e4', 'e7e5', 'g1f3'] },
+      { multipv: 2, depth: 12, evaluation: -0.12, pv: ['d2d4', 'd7d5'] },
+      { multipv: 3, depth: 12, evaluation: -100, mate: -3, pv: ['f2f3', 'e7e5'] },
+    ])
+    expect(onInfo).toHaveBeenCalledTimes(3)
+  })
+
+  it('stops a search that runs past its timeout', async () => {
+    const adapter = new TranscriptAdapter({
+      ...handshake,
+      'go depth': ['info depth 5 multipv 1 score cp 20 pv e2e4'],
+      stop: ['bestmove e2e4'],
+    })
+    const engine = new StockfishEngine(adapter)
+
+    const search = engine.analyze(START_FEN, 30, { timeoutMs: 100 })
+    const assertion = expect(search).rejects.toThrow('Analysis did not finish within 100ms')
+    await vi.advanceTimersByTimeAsync(100)
+    await assertion
+
+    expect(adapter.sent).toContain('stop')
+  })
+
+  it('gives up on an engine that ignores stop and frees the queue', async () => {
+    const adapter = new TranscriptAdapter({ ...handshake })
+    const engine = new StockfishEngine(adapter)
+    const controller = new AbortController()
+
+    const search = engine.analyze(START_FEN, 'infinite', { signal: controller.signal })
+    const assertion = expect(search).rejects.toThrow('UCI engine did not stop')
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort()
+    await vi.advanceTimersByTimeAsync(2_000)
+    await assertion
+
+    adapter.transcript['go depth'] = ['bestmove d2d4']
+    await expect(engine.analyze(START_FEN, 10)).resolves.toMatchObject({ move: 'd2d4' })
+  })
+
+  it('restarts an engine that ignores stop, keeping its strength', async () => {
+    const adapter = new TranscriptAdapter({ ...handshake })
+    const engine = new StockfishEngine(adapter)
+    await engine.setStrength({ elo: 1500 })
+    const controller = new AbortController()
+
+    const search = engine.analyze(START_FEN, 'infinite', { signal: controller.signal })
+    const assertion = expect(search).rejects.toThrow('UCI engine did not stop')
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort()
+    await vi.advanceTimersByTimeAsync(2_000)
+    await assertion
+
+    // Its late bestmove must not answer the next search, so the engine is replaced
+    expect(adapter.terminated).toBe(1)
+    adapter.transcript['go depth'] = ['bestmove d2d4']
+    await expect(engine.analyze(START_FEN, 10)).resolves.toMatchObject({ move: 'd2d4' })
+    expect(adapter.sent.filter(command => command === 'uci')).toHaveLength(2)
+    expect(adapter.sent.filter(command => command === 'setoption name UCI_Elo value 1500')).toHaveLength(2)
+  })
+
+  it('rejects an aborted infinite search once the engine stops', async () => {
+    const adapter = new TranscriptAdapter({
+      ...handshake,
+      'go infinite': ['info depth 8 multipv 1 score cp 10 pv e2e4'],
+      stop: ['bestmove e2e4'],
+    })
+    const engine = new StockfishEngine(adapter)
+    const controller = new AbortController()
+
+    const search = engine.analyze(START_FEN, 'infinite', { signal: controller.signal })
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort(new Error('moved on'))
+
+    await expect(search).rejects.toThrow('moved on')
+    expect(adapter.sent).toContain('stop')
+  })
+
+  it('never starts a search aborted during the isready handshake', async () => {
+    let releaseReady = () => {}
+    const adapter = new TranscriptAdapter({
+      ...handshake,
+      'go depth': ['bestmove e2e4'],
+    })
+    const engine = new StockfishEngine(adapter)
+    await engine.initialize()
+
+    // Hold back readyok until the search has been aborted
+    adapter.transcript.isready = () => {
+      releaseReady = () => adapter.emit('readyok')
+    }
+    const controller = new AbortController()
+    const search = engine.analyze(START_FEN, 'infinite', { signal: controller.signal })
+    const assertion = expect(search).rejects.toThrow('moved on')
+    await vi.advanceTimersByTimeAsync(0)
+
+    controller.abort(new Error('moved on'))
+    releaseReady()
+    await assertion
+
+    expect(adapter.sent).not.toContain('go infinite')
+
+    // The queue is free for the next position
+    adapter.transcript.isready = ['readyok']
+    await expect(engine.analyze(START_FEN, 10)).resolves.toMatchObject({ move: 'e2e4' })
+  })
+
+  it('keeps up with live analysis when positions change mid-handshake', async () => {
+    const pendingReady: (() => void)[] = []
+    const adapter = new TranscriptAdapter({
+      ...handshake,
+      'go infinite': ['info depth 6 multipv 1 score cp 15 pv e2e4'],
+      stop: ['bestmove e2e4'],
+    })
+    const engine = new StockfishEngine(adapter)
+    await engine.initialize()
+    adapter.transcript.isready = () => {
+      pendingReady.push(() => adapter.emit('readyok'))
+    }
+
+    // Like useEngineLines: every new position aborts the previous search,
+    // here all before the engine has answered the first isready
+    let controller = new AbortController()
+    const searches: Promise<unknown>[] = []
+    for (let i = 0; i < 5; i++) {
+      controller.abort()
+      controller = new AbortController()
+      const search = engine.analyze(START_FEN, 'infinite', { signal: controller.signal })
+      search.catch(() => {})
+      searches.push(search)
+      await vi.advanceTimersByTimeAsync(0)
+    }
+
+    while (pendingReady.length > 0) {
+      pendingReady.shift()!()
+      await vi.advanceTimersByTimeAsync(0)
+    }
+
+    // Only the last position reaches `go`, and it can still be stopped
+    expect(adapter.sent.filter(command => command === 'go infinite')).toHaveLength(1)
+    controller.abort()
+    await expect(searches[4]).rejects.toThrow()
+    for (const search of searches.slice(0, 4)) await expect(search).rejects.toThrow()
+
+    adapter.transcript.isready = ['readyok']
+    adapter.transcript['go depth'] = ['bestmove g1f3']
+    await expect(engine.analyze(START_FEN, 10)).resolves.toMatchObject({ move: 'g1f3' })
+  })
+})
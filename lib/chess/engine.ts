@@ -4,104 +4,380 @@ interface EngineMove {
   mate?: number
   depth: number
   pv?: string[] // Principal variation
+  lines: EngineLine[]
 }
 
-export class StockfishEngine {
+/**
+ * One MultiPV line. Scores are from the side to move's point of view.
+ */
+export interface EngineLine {
+  multipv: number
+  depth: number
+  evaluation: number
+  mate?: number
+  pv: string[]
+}
+
+export interface AnalyzeOptions {
+  multiPv?: number
+  // Called with the current lines, best first, every time the engine reports progress
+  onInfo?: (lines: EngineLine[]) => void
+  // Aborting stops the search and rejects with the signal's reason
+  signal?: AbortSignal
+  // Defaults to a minute for fixed-depth searches and no limit for infinite ones
+  timeoutMs?: number
+}
+
+/**
+ * Playing strength. `elo` turns on UCI_LimitStrength; without it the engine
+ * plays at `skillLevel` (0-20, default full strength).
+ */
+export interface EngineStrength {
+  elo?: number
+  skillLevel?: number
+}
+
+const HANDSHAKE_TIMEOUT_MS = 10_000
+const DEFAULT_ANALYZE_TIMEOUT_MS = 60_000
+// How long to wait for `bestmove` after sending `stop`
+const STOP_GRACE_MS = 2_000
+
+interface LineWaiter {
+  match: (line: string) => boolean
+  resolve: (line: string) => void
+  reject: (error: unknown) => void
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Transport between StockfishEngine and a UCI engine.
+ * Implementations deliver engine output one line at a time.
+ */
+export interface EngineAdapter {
+  start(): Promise<void>
+  send(command: string): void
+  onMessage(handler: (line: string) => void): void
+  // Called when the engine dies on its own, for transports where it can
+  onExit?(handler: (reason: Error) => void): void
+  terminate(): void
+}
+
+/**
+ * Browser adapter running Stockfish in a Web Worker
+ */
+export class WorkerEngineAdapter implements EngineAdapter {
   private worker: Worker | null = null
+  private handler: ((line: string) => void) | null = null
+
+  constructor(private scriptUrl: string = '/engine/stockfish.js') {}
+
+  async start() {
+    if (typeof window === 'undefined') {
+      throw new Error('WorkerEngineAdapter requires a browser environment')
+    }
+
+    this.worker = new Worker(this.scriptUrl)
+    this.worker.onmessage = (e) => {
+      this.handler?.(String(e.data))
+    }
+  }
+
+  send(command: string) {
+    this.worker?.postMessage(command)
+  }
+
+  onMessage(handler: (line: string) => void) {
+    this.handler = handler
+  }
+
+  terminate() {
+    if (this.worker) {
+      this.worker.terminate()
+      this.worker = null
+    }
+  }
+}
+
+/**
+ * UCI session over an EngineAdapter.
+ *
+ * Commands that expect a reply (handshake, new game, search) run one at a
+ * time through an internal queue, so concurrent callers never see each
+ * other's output. Every wait has a timeout, and searches can be cancelled
+ * with `stop()` or an AbortSignal.
+ */
+export class StockfishEngine {
+  private adapter: EngineAdapter
   private ready = false
-  private messageQueue: ((value: any) => void)[] = []
+  private initializing: Promise<void> | null = null
+  private queue: Promise<unknown> = Promise.resolve()
+  private waiter: LineWaiter | null = null
+  private lineListener: ((line: string) => void) | null = null
+  private searching = false
+  private exited = false
+  private strength: EngineStrength | null = null
+
+  constructor(adapter: EngineAdapter = new WorkerEngineAdapter()) {
+    this.adapter = adapter
+  }
 
   async initialize() {
-    if (typeof window === 'undefined') return
-
-    this.worker = new Worker('/stockfish.js')
-    
-    return new Promise<void>((resolve) => {
-      if (!this.worker) return
-
-      this.worker.onmessage = (e) => {
-        const message = e.data
-        
-        if (message === 'uciok') {
-          this.ready = true
-          this.send('setoption name Threads value 2')
-          this.send('setoption name Hash value 128')
-          resolve()
-        }
+    if (this.ready) return
+    if (!this.initializing) {
+      this.initializing = this.handshake().catch((error) => {
+        this.initializing = null
+        throw error
+      })
+    }
+    return this.initializing
+  }
 
-        // Handle queued message handlers
-        if (this.messageQueue.length > 0) {
-          const handler = this.messageQueue.shift()
-          handler?.(message)
-        }
-      }
+  /**
+   * False once the engine has died; the next call starts it again
+   */
+  get alive() {
+    return !this.exited
+  }
 
-      this.send('uci')
+  private async handshake() {
+    await this.adapter.start()
+    this.exited = false
+    this.adapter.onMessage(line => this.handleLine(line))
+    this.adapter.onExit?.(reason => {
+      this.exited = true
+      this.ready = false
+      this.initializing = null
+      this.searching = false
+      // Fail the current wait now rather than at its timeout
+      this.rejectWaiter(reason)
     })
+
+    this.send('uci')
+    await this.waitForLine(line => line === 'uciok', HANDSHAKE_TIMEOUT_MS)
+
+    this.send('setoption name Threads value 2')
+    this.send('setoption name Hash value 128')
+    // A restarted engine plays at the strength it was set to
+    if (this.strength) this.sendStrength(this.strength)
+    await this.syncReady()
+
+    this.ready = true
+  }
+
+  private handleLine(line: string) {
+    this.lineListener?.(line)
+
+    const waiter = this.waiter
+    if (waiter && waiter.match(line)) {
+      this.waiter = null
+      clearTimeout(waiter.timer)
+      waiter.resolve(line)
+    }
   }
 
   private send(command: string) {
-    if (this.worker) {
-      this.worker.postMessage(command)
+    this.adapter.send(command)
+  }
+
+  /**
+   * Wait for the first engine line matching `match`. Only one wait is active at a time.
+   */
+  private waitForLine(match: (line: string) => boolean, timeoutMs?: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const waiter: LineWaiter = { match, resolve, reject }
+      if (timeoutMs !== undefined) {
+        waiter.timer = setTimeout(() => {
+          if (this.waiter === waiter) this.waiter = null
+          reject(new Error(`UCI engine did not respond within ${timeoutMs}ms`))
+        }, timeoutMs)
+      }
+      this.waiter = waiter
+    })
+  }
+
+  private rejectWaiter(error: Error) {
+    if (this.waiter) {
+      clearTimeout(this.waiter.timer)
+      this.waiter.reject(error)
+      this.waiter = null
     }
   }
 
-  async analyze(fen: string, depth: number = 18): Promise<EngineMove> {
+  private syncReady(timeoutMs: number = HANDSHAKE_TIMEOUT_MS) {
+    this.send('isready')
+    return this.waitForLine(line => line === 'readyok', timeoutMs)
+  }
+
+  /**
+   * Run a task once all previously queued tasks have settled
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    // The engine may have been reset while the task waited its turn
+    const run = async () => {
+      if (!this.ready) await this.initialize()
+      return task()
+    }
+    const result = this.queue.then(run, run)
+    this.queue = result.catch(() => {})
+    return result
+  }
+
+  /**
+   * Tell the engine a new game starts so it drops its hash table and history
+   */
+  async newGame() {
     if (!this.ready) await this.initialize()
 
-    return new Promise((resolve) => {
-      let bestMove = ''
-      let evaluation = 0
-      let mate: number | undefined
-      let currentDepth = 0
-      let pv: string[] = []
-
-      const messageHandler = (message: string) => {
-        if (message.startsWith('info depth')) {
-          // Parse engine output
-          const depthMatch = message.match(/depth (\d+)/)
-          const scoreMatch = message.match(/score (cp|mate) (-?\d+)/)
-          const pvMatch = message.match(/pv (.+)/)
-
-          if (depthMatch) {
-            currentDepth = parseInt(depthMatch[1])
-          }
+    return this.enqueue(async () => {
+      this.send('ucinewgame')
+      await this.syncReady()
+    })
+  }
 
-          if (scoreMatch) {
-            const [, type, value] = scoreMatch
-            if (type === 'cp') {
-              evaluation = parseInt(value) / 100 // Convert centipawns to pawns
-            } else if (type === 'mate') {
-              mate = parseInt(value)
-              evaluation = mate > 0 ? 100 : -100
-            }
-          }
+  /**
+   * Weaken (or restore) the engine for play. Applies to searches queued after this call.
+   */
+  async setStrength({ elo, skillLevel = 20 }: EngineStrength = {}) {
+    if (!this.ready) await this.initialize()
 
-          if (pvMatch) {
-            pv = pvMatch[1].split(' ')
-          }
+    return this.enqueue(async () => {
+      this.strength = { elo, skillLevel }
+      this.sendStrength(this.strength)
+      await this.syncReady()
+    })
+  }
+
+  private sendStrength({ elo, skillLevel = 20 }: EngineStrength) {
+    if (elo !== undefined) {
+      this.send('setoption name UCI_LimitStrength value true')
+      this.send(`setoption name UCI_Elo value ${elo}`)
+    } else {
+      this.send('setoption name UCI_LimitStrength value false')
+      this.send(`setoption name Skill Level value ${skillLevel}`)
+    }
+  }
+
+  /**
+   * Cut the current search short; it resolves with the best move found so far
+   */
+  stop() {
+    if (this.searching) {
+      this.send('stop')
+    }
+  }
+
+  /**
+   * Search a position to `depth`, or with `'infinite'` until stopped via
+   * `stop()` or the signal. An infinite search that is stopped resolves with
+   * its best move; an aborted one rejects.
+   */
+  async analyze(fen: string, depth: number | 'infinite' = 18, options: AnalyzeOptions = {}): Promise<EngineMove> {
+    if (!this.ready) await this.initialize()
+
+    const {
+      multiPv = 1,
+      onInfo,
+      signal,
+      timeoutMs = depth === 'infinite' ? undefined : DEFAULT_ANALYZE_TIMEOUT_MS
+    } = options
+
+    return this.enqueue(async () => {
+      signal?.throwIfAborted()
+
+      this.send(`setoption name MultiPV value ${multiPv}`)
+      this.send(`position fen ${fen}`)
+      await this.syncReady()
+      // An abort while waiting for readyok has no listener to hear it yet
+      signal?.throwIfAborted()
+
+      const lines: EngineLine[] = []
+      let timedOut = false
+
+      this.lineListener = (message) => {
+        // Lines without a score are currmove/hashfull updates
+        if (!message.startsWith('info depth') || !message.includes(' score ')) return
+
+        // Parse engine output
+        const depthMatch = message.match(/depth (\d+)/)
+        const multipvMatch = message.match(/multipv (\d+)/)
+        const scoreMatch = message.match(/score (cp|mate) (-?\d+)/)
+        const pvMatch = message.match(/ pv (.+)/)
+
+        const multipv = multipvMatch ? parseInt(multipvMatch[1]) : 1
+        const line: EngineLine = {
+          multipv,
+          depth: depthMatch ? parseInt(depthMatch[1]) : 0,
+          evaluation: 0,
+          pv: pvMatch ? pvMatch[1].split(' ') : []
         }
 
-        if (message.startsWith('bestmove')) {
-          const moveMatch = message.match(/bestmove (\S+)/)
-          if (moveMatch) {
-            bestMove = moveMatch[1]
-            resolve({
-              move: bestMove,
-              evaluation,
-              mate,
-              depth: currentDepth,
-              pv
-            })
+        if (scoreMatch) {
+          const [, type, value] = scoreMatch
+          if (type === 'cp') {
+            line.evaluation = parseInt(value) / 100 // Convert centipawns to pawns
+          } else if (type === 'mate') {
+            line.mate = parseInt(value)
+            line.evaluation = line.mate > 0 ? 100 : -100
           }
-        } else {
-          this.messageQueue.push(messageHandler)
         }
+
+        lines[multipv - 1] = line
+        onInfo?.(lines.filter(Boolean))
       }
 
-      this.messageQueue.push(messageHandler)
-      this.send(`position fen ${fen}`)
-      this.send(`go depth ${depth}`)
+      // An engine that ignores `stop` must not block the queue forever
+      let abortGrace: ReturnType<typeof setTimeout> | undefined
+      const onAbort = () => {
+        this.stop()
+        abortGrace = setTimeout(() => {
+          this.rejectWaiter(new Error('UCI engine did not stop'))
+        }, STOP_GRACE_MS)
+      }
+      signal?.addEventListener('abort', onAbort)
+
+      // Past the deadline, stop the search and give the engine a moment to answer
+      const deadline = timeoutMs !== undefined
+        ? setTimeout(() => {
+            timedOut = true
+            this.stop()
+          }, timeoutMs)
+        : undefined
+
+      this.searching = true
+      this.send(depth === 'infinite' ? 'go infinite' : `go depth ${depth}`)
+
+      let answered = false
+      try {
+        const bestMoveLine = await this.waitForLine(
+          line => line.startsWith('bestmove'),
+          timeoutMs !== undefined ? timeoutMs + STOP_GRACE_MS : undefined
+        )
+        answered = true
+
+        signal?.throwIfAborted()
+        if (timedOut) {
+          throw new Error(`Analysis did not finish within ${timeoutMs}ms`)
+        }
+
+        const best = lines[0]
+        return {
+          move: bestMoveLine.split(' ')[1],
+          evaluation: best?.evaluation ?? 0,
+          mate: best?.mate,
+          depth: best?.depth ?? 0,
+          pv: best?.pv ?? [],
+          lines: lines.filter(Boolean)
+        }
+      } finally {
+        clearTimeout(deadline)
+        clearTimeout(abortGrace)
+        signal?.removeEventListener('abort', onAbort)
+        this.lineListener = null
+        this.searching = false
+        // An engine that never answered `stop` may still send its bestmove,
+        // which would answer the next search. Start a fresh one instead.
+        if (!answered) this.terminate()
+      }
     })
   }
 
@@ -116,12 +392,12 @@ export class StockfishEngine {
   }
 
   terminate() {
-    if (this.worker) {
-      this.worker.terminate()
-      this.worker = null
-      this.ready = false
-    }
+    this.adapter.terminate()
+    this.ready = false
+    this.initializing = null
+    this.searching = false
+    this.rejectWaiter(new Error('UCI engine terminated'))
   }
 }
 
-export const stockfish = new StockfishEngine()
\ No newline at end of file
+export const stockfish = new StockfishEngine()
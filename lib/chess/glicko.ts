@@ -0,0 +1,90 @@
+// Glicko-2 (http://www.glicko.net/glicko/glicko2.pdf), one game per rating period
+
+// Converts between the Glicko and Glicko-2 scales
+const SCALE = 173.7178
+const BASE_RATING = 1500
+
+// Constrains how fast volatility changes
+const TAU = 0.5
+const CONVERGENCE = 0.000001
+
+export const DEFAULT_DEVIATION = 350
+export const DEFAULT_VOLATILITY = 0.06
+
+// Deviations stay in this range, so a rating never freezes or swings wildly
+const MIN_DEVIATION = 45
+const MAX_DEVIATION = DEFAULT_DEVIATION
+
+export interface GlickoRating {
+  rating: number
+  deviation: number
+  volatility: number
+}
+
+export interface GlickoOpponent {
+  rating: number
+  deviation: number
+}
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI))
+
+/**
+ * The player's new rating after one result against an opponent:
+ * 1 for a win, 0.5 for a draw, 0 for a loss
+ */
+export function updateGlicko(player: GlickoRating, opponent: GlickoOpponent, score: number): GlickoRating {
+  const mu = (player.rating - BASE_RATING) / SCALE
+  const phi = player.deviation / SCALE
+  const sigma = player.volatility
+
+  const muJ = (opponent.rating - BASE_RATING) / SCALE
+  const gJ = g(opponent.deviation / SCALE)
+  const expected = 1 / (1 + Math.exp(-gJ * (mu - muJ)))
+
+  const v = 1 / (gJ * gJ * expected * (1 - expected))
+  const delta = v * gJ * (score - expected)
+
+  // New volatility by the Illinois algorithm (step 5 of the paper)
+  const a = Math.log(sigma * sigma)
+  const f = (x: number) => {
+    const ex = Math.exp(x)
+    const d = phi * phi + v + ex
+    return (ex * (delta * delta - d)) / (2 * d * d) - (x - a) / (TAU * TAU)
+  }
+
+  let A = a
+  let B: number
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v)
+  } else {
+    let k = 1
+    while (f(a - k * TAU) < 0) k++
+    B = a - k * TAU
+  }
+
+  let fA = f(A)
+  let fB = f(B)
+  while (Math.abs(B - A) > CONVERGENCE) {
+    const C = A + ((A - B) * fA) / (fB - fA)
+    const fC = f(C)
+    if (fC * fB <= 0) {
+      A = B
+      fA = fB
+    } else {
+      fA = fA / 2
+    }
+    B = C
+    fB = fC
+  }
+  const volatility = Math.exp(A / 2)
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility)
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v)
+  const newMu = mu + newPhi * newPhi * gJ * (score - expected)
+
+  return {
+    rating: newMu * SCALE + BASE_RATING,
+    deviation: Math.min(MAX_DEVIATION, Math.max(MIN_DEVIATION, newPhi * SCALE)),
+    volatility,
+  }
+}
@@ -0,0 +1,331 @@
+import { Chess } from 'chess.js'
+import type { ParsedMove } from './types/chess'
+
+/**
+ * A position in a move tree. `[i]` is move i of the main line,
+ * `[i, v, j]` is move j of the v-th variation branching at move i, and so on.
+ * The empty path is the starting position.
+ */
+export type MovePath = number[]
+
+export interface TreeEdit {
+  moves: ParsedMove[]
+  path: MovePath
+}
+
+export type MoveInput = string | { from: string; to: string; promotion?: string }
+
+/**
+ * The line a path points into, with the move's index in it
+ */
+function lineAt(moves: ParsedMove[], path: MovePath): { line: ParsedMove[]; index: number } | null {
+  let line = moves
+  for (let i = 0; i < path.length - 1; i += 2) {
+    const variation = line[path[i]]?.variations?.[path[i + 1]]
+    if (!variation) return null
+    line = variation
+  }
+  const index = path[path.length - 1]
+  return line[index] ? { line, index } : null
+}
+
+/**
+ * Copy the tree, replacing the line at `linePath` (a path without its last index)
+ */
+function replaceLine(moves: ParsedMove[], linePath: MovePath, update: (line: ParsedMove[]) => ParsedMove[]): ParsedMove[] {
+  if (linePath.length === 0) return update(moves)
+
+  const [index, variation, ...rest] = linePath
+  return moves.map((move, i) => {
+    if (i !== index) return move
+    const variations = (move.variations || []).map((line, v) =>
+      v === variation ? replaceLine(line, rest, update) : line
+    )
+    return { ...move, variations }
+  })
+}
+
+export function getMove(moves: ParsedMove[], path: MovePath): ParsedMove | undefined {
+  const found = lineAt(moves, path)
+  return found ? found.line[found.index] : undefined
+}
+
+export function fenAt(moves: ParsedMove[], startFen: string, path: MovePath): string {
+  return getMove(moves, path)?.fen ?? startFen
+}
+
+export function isMainLine(path: MovePath): boolean {
+  return path.length <= 1
+}
+
+export function pathsEqual(a: MovePath, b: MovePath): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i])
+}
+
+/**
+ * The position before the move at `path`. The first move of a variation
+ * follows the move before the one it replaces.
+ */
+export function previousPath(path: MovePath): MovePath {
+  if (path.length === 0) return path
+  const last = path[path.length - 1]
+  if (last > 0) return [...path.slice(0, -1), last - 1]
+  if (path.length === 1) return []
+  return previousPath(path.slice(0, -2))
+}
+
+/**
+ * The next move along the current line, or null at its end
+ */
+export function nextPath(moves: ParsedMove[], path: MovePath): MovePath | null {
+  if (path.length === 0) return moves.length > 0 ? [0] : null
+  const found = lineAt(moves, path)
+  if (!found || found.index + 1 >= found.line.length) return null
+  return [...path.slice(0, -1), found.index + 1]
+}
+
+/**
+ * Last move of the line the path is on
+ */
+export function lineEndPath(moves: ParsedMove[], path: MovePath): MovePath {
+  if (path.length === 0) return moves.length > 0 ? [moves.length - 1] : []
+  const found = lineAt(moves, path)
+  return found ? [...path.slice(0, -1), found.line.length - 1] : path
+}
+
+/**
+ * Every move from the start of the game up to and including `path`
+ */
+export function movesToPath(moves: ParsedMove[], path: MovePath): ParsedMove[] {
+  const result: ParsedMove[] = []
+  let line = moves
+  for (let i = 0; i < path.length; i += 2) {
+    const index = path[i]
+    // A variation replaces line[index], so only the moves before it were played
+    const end = i === path.length - 1 ? index + 1 : index
+    result.push(...line.slice(0, end))
+    if (i < path.length - 1) {
+      line = line[index]?.variations?.[path[i + 1]] || []
+    }
+  }
+  return result
+}
+
+/**
+ * The first move in the tree, main line before variations, that reaches the
+ * position of `fen` (move counters ignored). The empty path for the starting
+ * position; null when the tree never reaches it.
+ */
+export function findPosition(moves: ParsedMove[], startFen: string, fen: string): MovePath | null {
+  const key = (value: string) => value.split(' ').slice(0, 4).join(' ')
+  const target = key(fen)
+  if (key(startFen) === target) return []
+
+  const search = (line: ParsedMove[], linePath: MovePath): MovePath | null => {
+    const index = line.findIndex(move => key(move.fen) === target)
+    if (index >= 0) return [...linePath, index]
+
+    for (let i = 0; i < line.length; i++) {
+      const variations = line[i].variations || []
+      for (let v = 0; v < variations.length; v++) {
+        const found = search(variations[v], [...linePath, i, v])
+        if (found) return found
+      }
+    }
+    return null
+  }
+
+  return search(moves, [])
+}
+
+function createMove(fen: string, input: MoveInput): ParsedMove | null {
+  const chess = new Chess(fen)
+  let played
+  try {
+    played = chess.move(input)
+  } catch {
+    return null
+  }
+
+  const [, turn, , , , fullmove] = fen.split(' ')
+  return {
+    number: parseInt(fullmove) || 1,
+    turn: turn as 'w' | 'b',
+    san: played.san,
+    fen: chess.fen(),
+  }
+}
+
+/**
+ * Play a move after `path`. An existing continuation or variation with the
+ * same move is reused; a different move starts a new variation instead of
+ * overwriting the line. Returns null for an illegal move.
+ */
+export function addMove(moves: ParsedMove[], startFen: string, path: MovePath, input: MoveInput): TreeEdit | null {
+  const move = createMove(fenAt(moves, startFen, path), input)
+  if (!move) return null
+
+  const next = nextPath(moves, path)
+  if (!next) {
+    // End of the line: extend it
+    const linePath = path.length === 0 ? [] : path.slice(0, -1)
+    const index = path.length === 0 ? 0 : path[path.length - 1] + 1
+    return {
+      moves: replaceLine(moves, linePath, line => [...line, move]),
+      path: [...linePath, index],
+    }
+  }
+
+  const nextMove = getMove(moves, next)!
+  if (nextMove.san === move.san) return { moves, path: next }
+
+  const variations = nextMove.variations || []
+  const existing = variations.findIndex(line => line[0]?.san === move.san)
+  if (existing >= 0) return { moves, path: [...next, existing, 0] }
+
+  const linePath = next.slice(0, -1)
+  const index = next[next.length - 1]
+  return {
+    moves: replaceLine(moves, linePath, line => line.map((m, i) =>
+      i === index ? { ...m, variations: [...variations, [move]] } : m
+    )),
+    path: [...next, variations.length, 0],
+  }
+}
+
+/**
+ * Change the move at `path`, e.g. to edit its comment or NAGs
+ */
+export function updateMove(moves: ParsedMove[], path: MovePath, update: (move: ParsedMove) => ParsedMove): ParsedMove[] {
+  if (path.length === 0 || !getMove(moves, path)) return moves
+  const index = path[path.length - 1]
+  return replaceLine(moves, path.slice(0, -1), line => line.map((move, i) => (i === index ? update(move) : move)))
+}
+
+/**
+ * Swap the continuation at `line[index]` with its variation `v`.
+ * The old continuation takes the variation's place.
+ */
+function swapWithContinuation(line: ParsedMove[], index: number, v: number): ParsedMove[] {
+  const branch = line[index]
+  const variations = branch.variations || []
+  const variation = variations[v]
+  const oldContinuation = [{ ...branch, variations: undefined }, ...line.slice(index + 1)]
+
+  const [first, ...rest] = variation
+  const newVariations = [
+    ...variations.map((other, i) => (i === v ? oldContinuation : other)),
+    ...(first.variations || []),
+  ]
+
+  return [
+    ...line.slice(0, index),
+    { ...first, variations: newVariations },
+    ...rest,
+  ]
+}
+
+function swapVariations(line: ParsedMove[], index: number, a: number, b: number): ParsedMove[] {
+  return line.map((move, i) => {
+    if (i !== index) return move
+    const variations = [...(move.variations || [])]
+    ;[variations[a], variations[b]] = [variations[b], variations[a]]
+    return { ...move, variations }
+  })
+}
+
+/**
+ * Move the variation holding `path` one step up: ahead of the previous
+ * variation, or in place of the line it branches from if it is the first.
+ * Returns null when the move isn't in a variation.
+ */
+export function promoteVariation(moves: ParsedMove[], path: MovePath): TreeEdit | null {
+  if (path.length < 3 || !getMove(moves, path)) return null
+
+  const parentPath = path.slice(0, -3)
+  const [index, v, j] = path.slice(-3)
+
+  if (v > 0) {
+    return {
+      moves: replaceLine(moves, parentPath, line => swapVariations(line, index, v, v - 1)),
+      path: [...parentPath, index, v - 1, j],
+    }
+  }
+
+  return {
+    moves: replaceLine(moves, parentPath, line => swapWithContinuation(line, index, 0)),
+    path: [...parentPath, index + j],
+  }
+}
+
+/**
+ * Move the line holding `path` one step down: behind the next variation, or,
+ * for a continuation, below the first variation at the nearest branch point.
+ * Returns null when there is nothing to swap with.
+ */
+export function demoteVariation(moves: ParsedMove[], path: MovePath): TreeEdit | null {
+  const found = lineAt(moves, path)
+  if (!found) return null
+
+  // The continuation branches at the last move at or before this one that has variations
+  let branch = found.index
+  while (branch >= 0 && !found.line[branch].variations?.length) branch--
+
+  const linePath = path.slice(0, -1)
+  if (branch >= 0) {
+    return {
+      moves: replaceLine(moves, linePath, line => swapWithContinuation(line, branch, 0)),
+      path: [...linePath, branch, 0, found.index - branch],
+    }
+  }
+
+  if (path.length < 3) return null
+
+  const parentPath = path.slice(0, -3)
+  const [index, v, j] = path.slice(-3)
+  const siblings = getMove(moves, [...parentPath, index])?.variations || []
+  if (v + 1 >= siblings.length) return null
+
+  return {
+    moves: replaceLine(moves, parentPath, line => swapVariations(line, index, v, v + 1)),
+    path: [...parentPath, index, v + 1, j],
+  }
+}
+
+/**
+ * Delete the move at `path` and everything after it in its line. Deleting
+ * the first move of a variation removes the variation; deleting a move that
+ * has alternatives lets the first alternative take its place.
+ */
+export function deleteFromPath(moves: ParsedMove[], path: MovePath): TreeEdit | null {
+  const found = lineAt(moves, path)
+  if (!found) return null
+
+  const { index } = found
+  const linePath = path.slice(0, -1)
+
+  if (index === 0 && path.length >= 3) {
+    const parentPath = path.slice(0, -3)
+    const [branch, v] = path.slice(-3)
+    return {
+      moves: replaceLine(moves, parentPath, line => line.map((move, i) =>
+        i === branch
+          ? { ...move, variations: move.variations!.filter((_, k) => k !== v) }
+          : move
+      )),
+      path: previousPath(path),
+    }
+  }
+
+  const removed = found.line[index]
+  const [replacement, ...others] = removed.variations || []
+  return {
+    moves: replaceLine(moves, linePath, line => {
+      const kept = line.slice(0, index)
+      if (!replacement) return kept
+      const [first, ...rest] = replacement
+      return [...kept, { ...first, variations: [...others, ...(first.variations || [])] }, ...rest]
+    }),
+    path: previousPath(path),
+  }
+}
@@ -0,0 +1,94 @@
+import { prisma } from '@/lib/db/prisma'
+import {
+  buildOpeningTree,
+  explorePosition,
+  filterOpeningLines,
+  openingLine,
+  type ExplorerFilters,
+  type ExplorerPosition,
+  type OpeningLine,
+} from './opening-tree'
+
+// Games whose PGN is read at once when the cache is filled
+const PGN_BATCH_SIZE = 200
+
+interface CachedLine {
+  updatedAt: number
+  line: OpeningLine
+}
+
+// Parsed openings per user, so each explorer request only reads new or edited games
+const globalForExplorer = globalThis as unknown as {
+  openingLines: Map<string, Map<string, CachedLine>> | undefined
+}
+
+const openingLinesCache = globalForExplorer.openingLines ?? new Map<string, Map<string, CachedLine>>()
+globalForExplorer.openingLines = openingLinesCache
+
+/**
+ * Opening lines of all the user's games, parsing only games that were
+ * added or changed since the last call
+ */
+export async function loadOpeningLines(userId: string): Promise<OpeningLine[]> {
+  const games = await prisma.game.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      updatedAt: true,
+      playerColor: true,
+      outcome: true,
+      opponentRating: true,
+      timeClass: true,
+      date: true,
+    },
+  })
+
+  const cached = openingLinesCache.get(userId) ?? new Map<string, CachedLine>()
+  const lines = new Map<string, CachedLine>()
+  const stale: typeof games = []
+
+  for (const game of games) {
+    const entry = cached.get(game.id)
+    if (entry && entry.updatedAt === game.updatedAt.getTime()) {
+      lines.set(game.id, entry)
+    } else {
+      stale.push(game)
+    }
+  }
+
+  for (let i = 0; i < stale.length; i += PGN_BATCH_SIZE) {
+    const batch = stale.slice(i, i + PGN_BATCH_SIZE)
+    const pgns = await prisma.game.findMany({
+      where: { id: { in: batch.map(game => game.id) } },
+      select: { id: true, pgn: true },
+    })
+    const pgnById = new Map(pgns.map(game => [game.id, game.pgn]))
+
+    for (const { updatedAt, playerColor, ...game } of batch) {
+      const pgn = pgnById.get(game.id)
+      if (pgn === undefined) continue // deleted in the meantime
+      try {
+        const line = openingLine({ ...game, playerColor: playerColor === 'black' ? 'black' : 'white', pgn })
+        lines.set(game.id, { updatedAt: updatedAt.getTime(), line })
+      } catch (error) {
+        console.error(`Failed to read opening of game ${game.id}:`, error)
+      }
+    }
+  }
+
+  // Rebuilt from the current games, so deleted ones drop out
+  openingLinesCache.set(userId, lines)
+  return [...lines.values()].map(entry => entry.line)
+}
+
+/**
+ * How the user has done from a position in their own games
+ */
+export async function exploreUserPosition(
+  userId: string,
+  fen: string,
+  filters: ExplorerFilters = {}
+): Promise<ExplorerPosition> {
+  const lines = filterOpeningLines(await loadOpeningLines(userId), filters)
+  return explorePosition(buildOpeningTree(lines), fen)
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { filterOpeningLines, type OpeningLine } from './opening-tree'
+
+const line = (id: string, date: string): OpeningLine => ({
+  id,
+  playerColor: 'white',
+  outcome: 'win',
+  opponentRating: 1500,
+  timeClass: 'blitz',
+  date: new Date(date),
+  plies: [],
+})
+
+describe('filterOpeningLines', () => {
+  const lines = [
+    line('before', '2024-03-16T23:59:59Z'),
+    line('morning', '2024-03-17T00:00:00Z'),
+    line('evening', '2024-03-17T21:30:00Z'),
+    line('after', '2024-03-18T00:00:00Z'),
+  ]
+
+  it('keeps games from `from` up to but not including `to`', () => {
+    const filtered = filterOpeningLines(lines, {
+      from: new Date('2024-03-17T00:00:00Z'),
+      to: new Date('2024-03-18T00:00:00Z'),
+    })
+
+    expect(filtered.map(l => l.id)).toEqual(['morning', 'evening'])
+  })
+})
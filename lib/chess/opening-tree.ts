@@ -0,0 +1,167 @@
+import { parsePgn } from './pgn/parser'
+
+// Plies of each game that go into the tree
+export const OPENING_TREE_DEPTH = 30
+
+/**
+ * The first opening moves of one of the user's games, with the position
+ * before each move
+ */
+export interface OpeningLine {
+  id: string
+  playerColor: 'white' | 'black'
+  outcome: string | null // win, loss or draw for the user
+  opponentRating: number | null
+  timeClass: string | null
+  date: Date
+  plies: { key: string; san: string }[]
+  endKey?: string // final position, when the game ended within the depth read
+}
+
+export interface OpeningStats {
+  games: number
+  wins: number
+  draws: number
+  losses: number
+}
+
+export interface MoveStats extends OpeningStats {
+  san: string
+  ratingTotal: number
+  ratedGames: number
+  lastPlayed: Date
+}
+
+export interface PositionNode extends OpeningStats {
+  moves: Map<string, MoveStats>
+}
+
+// Position key → games that reached it and the moves played from it
+export type OpeningTree = Map<string, PositionNode>
+
+export interface ExplorerFilters {
+  color?: 'white' | 'black'
+  timeClass?: string
+  from?: Date
+  to?: Date // exclusive, so a whole day ends at the next midnight
+}
+
+// JSON-ready stats for one move from a position
+export interface ExplorerMove extends OpeningStats {
+  san: string
+  averageOpponentRating: number | null
+  lastPlayed: string
+}
+
+export interface ExplorerPosition extends OpeningStats {
+  moves: ExplorerMove[]
+}
+
+/**
+ * Identifies a position regardless of move counters: the first four FEN
+ * fields, like an EPD. chess.js only writes an en passant square when the
+ * capture is possible, so transpositions get the same key.
+ */
+export function positionKey(fen: string): string {
+  return fen.trim().split(/\s+/).slice(0, 4).join(' ')
+}
+
+/**
+ * Read the opening of a stored game. Games whose PGN can't be read at all
+ * give an empty line.
+ */
+export function openingLine(
+  game: Omit<OpeningLine, 'plies' | 'endKey'> & { pgn: string },
+  depth: number = OPENING_TREE_DEPTH
+): OpeningLine {
+  const { pgn, ...fields } = game
+  const parsed = parsePgn(pgn)
+  const moves = parsed.moves.slice(0, depth)
+
+  const plies = moves.map((move, i) => ({
+    key: positionKey(i === 0 ? parsed.startFen : moves[i - 1].fen),
+    san: move.san,
+  }))
+  if (parsed.moves.length > depth) return { ...fields, plies }
+
+  const last = moves[moves.length - 1]
+  return { ...fields, plies, endKey: positionKey(last ? last.fen : parsed.startFen) }
+}
+
+export function filterOpeningLines(lines: OpeningLine[], { color, timeClass, from, to }: ExplorerFilters): OpeningLine[] {
+  return lines.filter(line =>
+    (!color || line.playerColor === color) &&
+    (!timeClass || line.timeClass === timeClass) &&
+    (!from || line.date >= from) &&
+    (!to || line.date < to)
+  )
+}
+
+function addOutcome(stats: OpeningStats, outcome: string | null) {
+  stats.games++
+  if (outcome === 'win') stats.wins++
+  else if (outcome === 'draw') stats.draws++
+  else if (outcome === 'loss') stats.losses++
+}
+
+/**
+ * Merge opening lines into a tree keyed by position. A game that passes
+ * through a position twice counts there once, with the first move it played.
+ */
+export function buildOpeningTree(lines: OpeningLine[]): OpeningTree {
+  const tree: OpeningTree = new Map()
+
+  const visit = (key: string, outcome: string | null) => {
+    let node = tree.get(key)
+    if (!node) {
+      node = { games: 0, wins: 0, draws: 0, losses: 0, moves: new Map() }
+      tree.set(key, node)
+    }
+    addOutcome(node, outcome)
+    return node
+  }
+
+  for (const line of lines) {
+    const seen = new Set<string>()
+    for (const { key, san } of line.plies) {
+      if (seen.has(key)) continue
+      seen.add(key)
+      const node = visit(key, line.outcome)
+
+      let move = node.moves.get(san)
+      if (!move) {
+        move = { san, games: 0, wins: 0, draws: 0, losses: 0, ratingTotal: 0, ratedGames: 0, lastPlayed: line.date }
+        node.moves.set(san, move)
+      }
+      addOutcome(move, line.outcome)
+      if (line.opponentRating) {
+        move.ratingTotal += line.opponentRating
+        move.ratedGames++
+      }
+      if (line.date > move.lastPlayed) move.lastPlayed = line.date
+    }
+    if (line.endKey && !seen.has(line.endKey)) visit(line.endKey, line.outcome)
+  }
+
+  return tree
+}
+
+/**
+ * Stats for a position, its moves most played first. Positions the user
+ * never reached come back with no games.
+ */
+export function explorePosition(tree: OpeningTree, fen: string): ExplorerPosition {
+  const node = tree.get(positionKey(fen))
+  if (!node) return { games: 0, wins: 0, draws: 0, losses: 0, moves: [] }
+
+  const moves = [...node.moves.values()]
+    .sort((a, b) => b.games - a.games)
+    .map(({ ratingTotal, ratedGames, lastPlayed, ...stats }) => ({
+      ...stats,
+      averageOpponentRating: ratedGames > 0 ? Math.round(ratingTotal / ratedGames) : null,
+      lastPlayed: lastPlayed.toISOString(),
+    }))
+
+  const { games, wins, draws, losses } = node
+  return { games, wins, draws, losses, moves }
+}
@@ -0,0 +1,86 @@
+import type { PgnCommands } from '../types/chess'
+import { clkComment, parseClk } from '../clock'
+
+const COMMAND_PATTERN = /\[%(\w+)\s+([^\]]*)\]/g
+
+/**
+ * Pull [%clk], [%eval], [%cal] and [%csl] commands out of a comment.
+ * Unknown commands stay in the returned text.
+ */
+export function extractCommands(comment: string): { text: string; commands: PgnCommands } {
+  const commands: PgnCommands = {}
+
+  const text = comment.replace(COMMAND_PATTERN, (command, name: string, value: string) => {
+    value = value.trim()
+
+    switch (name) {
+      case 'clk': {
+        const clock = parseClk(command)
+        if (clock === null) return command
+        commands.clock = clock
+        return ''
+      }
+      case 'eval': {
+        const match = value.match(/^(#)?([+-]?\d+(?:\.\d+)?)(?:,(\d+))?$/)
+        if (!match) return command
+        commands.eval = match[1]
+          ? { mate: parseInt(match[2]) }
+          : { cp: parseFloat(match[2]) }
+        if (match[3]) commands.eval.depth = parseInt(match[3])
+        return ''
+      }
+      case 'cal': {
+        const arrows = value.split(',').map(item => item.trim().match(/^([A-Z])([a-h][1-8])([a-h][1-8])$/))
+        if (arrows.some(arrow => !arrow)) return command
+        commands.arrows = [
+          ...(commands.arrows || []),
+          ...arrows.map(arrow => ({ color: arrow![1], from: arrow![2], to: arrow![3] })),
+        ]
+        return ''
+      }
+      case 'csl': {
+        const squares = value.split(',').map(item => item.trim().match(/^([A-Z])([a-h][1-8])$/))
+        if (squares.some(square => !square)) return command
+        commands.highlights = [
+          ...(commands.highlights || []),
+          ...squares.map(square => ({ color: square![1], square: square![2] })),
+        ]
+        return ''
+      }
+      default:
+        return command
+    }
+  })
+
+  return { text: text.replace(/\s+/g, ' ').trim(), commands }
+}
+
+/**
+ * Commands in PGN form, in the order Lichess and Chess.com write them
+ */
+export function formatCommands(commands: PgnCommands): string {
+  const parts: string[] = []
+
+  if (commands.highlights?.length) {
+    parts.push(`[%csl ${commands.highlights.map(h => `${h.color}${h.square}`).join(',')}]`)
+  }
+  if (commands.arrows?.length) {
+    parts.push(`[%cal ${commands.arrows.map(a => `${a.color}${a.from}${a.to}`).join(',')}]`)
+  }
+  if (commands.eval) {
+    const { cp, mate, depth } = commands.eval
+    const value = mate !== undefined ? `#${mate}` : (cp ?? 0).toFixed(2)
+    parts.push(`[%eval ${value}${depth !== undefined ? `,${depth}` : ''}]`)
+  }
+  if (commands.clock !== undefined) {
+    parts.push(clkComment(Math.round(commands.clock * 10) * 100))
+  }
+
+  return parts.join(' ')
+}
+
+export function hasCommands(commands: PgnCommands | undefined): boolean {
+  if (!commands) return false
+  return commands.clock !== undefined || commands.eval !== undefined ||
+    !!commands.arrows?.length || !!commands.highlights?.length
+}
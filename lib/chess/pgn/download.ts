@@ -0,0 +1,12 @@
+/**
+ * Save a PGN as a file from the browser
+ */
+export function downloadPgn(pgn: string, filename = `chess-game-${new Date().toISOString().slice(0, 10)}.pgn`) {
+  const blob = new Blob([pgn.endsWith('\n') ? pgn : `${pgn}\n`], { type: 'application/x-chess-pgn' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,70 @@
+import { createHash } from 'crypto'
+import type { PgnGame } from '../types/chess'
+import { parseTimeControl } from '../clock'
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .sort()
+}
+
+/**
+ * Whether a White/Black header refers to one of the player's names.
+ * "Carlsen, Magnus", "Magnus Carlsen" and "carlsen magnus" all match each other.
+ */
+export function matchesPlayerName(headerName: string | undefined, aliases: string[]): boolean {
+  if (!headerName) return false
+  const tokens = nameTokens(headerName).join(' ')
+  if (!tokens) return false
+  return aliases.some(alias => nameTokens(alias).join(' ') === tokens)
+}
+
+/**
+ * Stable hash of a game's players, date, result and moves, used to skip
+ * games that were already imported. Comments and other headers don't count.
+ */
+export function pgnContentHash(game: PgnGame): string {
+  const { White, Black, Date: date } = game.headers
+  const content = [
+    White || '',
+    Black || '',
+    date || '',
+    game.result,
+    game.startFen,
+    game.moves.map(move => move.san).join(' '),
+  ].join('\n')
+
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Lichess-style time class from a TimeControl header, using the estimated
+ * duration of a 40-move game
+ */
+export function timeClassFromTimeControl(value: string | undefined): string | null {
+  const control = value ? parseTimeControl(value) : null
+  if (!control) return null
+
+  const seconds = (control.initialMs + 40 * control.incrementMs) / 1000
+  if (seconds < 180) return 'bullet'
+  if (seconds < 480) return 'blitz'
+  if (seconds < 1500) return 'rapid'
+  return 'classical'
+}
+
+/**
+ * Date from a PGN Date header ("2024.03.17"); unknown parts ("2024.??.??") default to the first
+ */
+export function parsePgnDate(value: string | undefined): Date | null {
+  const match = value?.match(/^(\d{4})\.(\d{2}|\?\?)\.(\d{2}|\?\?)$/)
+  if (!match) return null
+
+  const month = match[2] === '??' ? 1 : parseInt(match[2])
+  const day = match[3] === '??' ? 1 : parseInt(match[3])
+  const date = new Date(Date.UTC(parseInt(match[1]), month - 1, day))
+  return isNaN(date.getTime()) ? null : date
+}
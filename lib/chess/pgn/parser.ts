@@ -0,0 +1,244 @@
+import { Chess } from 'chess.js'
+import type { ParsedMove, PgnError, PgnGame, PgnHeaders } from '../types/chess'
+import { tokenizePgn, type PgnToken } from './tokenizer'
+import { extractCommands, hasCommands } from './commands'
+
+export const STANDARD_START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+
+const RESULTS = ['1-0', '0-1', '1/2-1/2', '*']
+
+// Thrown inside the parser only; callers get a PgnError on the game
+class PgnSyntaxError extends Error {
+  constructor(message: string, public token: PgnToken | undefined) {
+    super(message)
+  }
+}
+
+interface Cursor {
+  tokens: PgnToken[]
+  pos: number
+}
+
+function parseHeaders(cursor: Cursor, headers: PgnHeaders) {
+  const { tokens } = cursor
+  while (tokens[cursor.pos]?.type === 'tagOpen') {
+    const open = tokens[cursor.pos]
+    const name = tokens[cursor.pos + 1]
+    const value = tokens[cursor.pos + 2]
+    const close = tokens[cursor.pos + 3]
+
+    if (name?.type !== 'symbol') {
+      throw new PgnSyntaxError('Expected a tag name', name ?? open)
+    }
+    if (value?.type !== 'string') {
+      throw new PgnSyntaxError(`Expected a quoted value for tag ${name.value}`, value ?? name)
+    }
+    if (close?.type !== 'tagClose') {
+      throw new PgnSyntaxError('Expected ]', close ?? value)
+    }
+
+    headers[name.value] = value.value
+    cursor.pos += 4
+  }
+}
+
+function addComment(move: ParsedMove, raw: string) {
+  const { text, commands } = extractCommands(raw)
+  if (text) {
+    move.comment = move.comment ? `${move.comment} ${text}` : text
+  }
+  if (hasCommands(commands)) {
+    move.commands = { ...move.commands, ...commands }
+    if (commands.clock !== undefined) move.clock = commands.clock
+  }
+}
+
+/**
+ * Read moves into `moves` until the line ends. Moves are pushed as they are
+ * read, so a syntax error leaves everything before it in place.
+ * Returns the comment found before the first move, if any.
+ */
+function parseLine(cursor: Cursor, fen: string, moves: ParsedMove[], isVariation: boolean): string | undefined {
+  const chess = new Chess(fen)
+  let fenBeforeLast = fen
+  let commentBefore: string | undefined
+
+  while (cursor.pos < cursor.tokens.length) {
+    const token = cursor.tokens[cursor.pos]
+    const last = moves[moves.length - 1]
+
+    switch (token.type) {
+      case 'symbol': {
+        if (RESULTS.includes(token.value)) {
+          if (isVariation) throw new PgnSyntaxError('Game result inside a variation', token)
+          return commentBefore
+        }
+        cursor.pos++
+        // Move numbers; the periods after them are skipped below
+        if (/^\d+$/.test(token.value)) break
+
+        const san = token.value.replace(/^0-0-0/, 'O-O-O').replace(/^0-0/, 'O-O')
+        const before = chess.fen()
+        let move
+        try {
+          move = chess.move(san)
+        } catch {
+          throw new PgnSyntaxError(`Illegal move ${token.value}`, token)
+        }
+
+        const [, turn, , , , fullmove] = before.split(' ')
+        moves.push({
+          number: parseInt(fullmove) || 1,
+          turn: turn as 'w' | 'b',
+          san: move.san,
+          fen: chess.fen(),
+        })
+        fenBeforeLast = before
+        break
+      }
+      case 'period':
+        cursor.pos++
+        break
+      case 'nag':
+        if (!last) throw new PgnSyntaxError('Annotation before any move', token)
+        last.nags = [...(last.nags || []), parseInt(token.value)]
+        cursor.pos++
+        break
+      case 'comment':
+        if (last) {
+          addComment(last, token.value)
+        } else {
+          const text = token.value.trim()
+          commentBefore = commentBefore ? `${commentBefore} ${text}` : text
+        }
+        cursor.pos++
+        break
+      case 'variationOpen': {
+        if (!last) throw new PgnSyntaxError('Variation before any move', token)
+        cursor.pos++
+        const variation: ParsedMove[] = []
+        last.variations = [...(last.variations || []), variation]
+        const variationComment = parseLine(cursor, fenBeforeLast, variation, true)
+        if (variation[0] && variationComment) variation[0].commentBefore = variationComment
+        cursor.pos++ // the closing parenthesis
+        break
+      }
+      case 'variationClose':
+        if (!isVariation) throw new PgnSyntaxError('Unmatched )', token)
+        return commentBefore
+      case 'asterisk':
+        if (isVariation) throw new PgnSyntaxError('Game result inside a variation', token)
+        return commentBefore
+      case 'tagOpen':
+        // A new game started without a result on the previous one
+        if (isVariation) throw new PgnSyntaxError('Unterminated variation', token)
+        return commentBefore
+      case 'invalid':
+        throw new PgnSyntaxError(token.value, token)
+      default:
+        throw new PgnSyntaxError(`Unexpected ${token.value}`, token)
+    }
+  }
+
+  if (isVariation) {
+    throw new PgnSyntaxError('Unterminated variation', cursor.tokens[cursor.tokens.length - 1])
+  }
+  return commentBefore
+}
+
+function emptyGame(pgn: string): PgnGame {
+  return { pgn, headers: {}, moves: [], startFen: STANDARD_START_FEN, result: '*' }
+}
+
+/**
+ * Parse one game starting at the cursor. Errors are recorded on the game and
+ * the cursor is left on the failing token.
+ */
+function parseGame(cursor: Cursor): PgnGame {
+  const game = emptyGame('')
+  const startToken = cursor.tokens[cursor.pos]
+
+  try {
+    parseHeaders(cursor, game.headers)
+
+    if (game.headers.FEN) {
+      try {
+        new Chess(game.headers.FEN)
+        game.startFen = game.headers.FEN
+      } catch {
+        throw new PgnSyntaxError(`Invalid FEN header "${game.headers.FEN}"`, startToken)
+      }
+    }
+
+    game.comment = parseLine(cursor, game.startFen, game.moves, false)
+
+    const end = cursor.tokens[cursor.pos]
+    if (end && (end.type === 'asterisk' || RESULTS.includes(end.value))) {
+      game.result = end.value
+      cursor.pos++
+    } else {
+      game.result = game.headers.Result || '*'
+    }
+  } catch (error) {
+    if (!(error instanceof PgnSyntaxError)) throw error
+    game.error = {
+      message: error.message,
+      line: error.token?.line ?? 1,
+      column: error.token?.column ?? 1,
+    }
+    game.result = game.headers.Result || '*'
+  }
+
+  return game
+}
+
+/**
+ * Parse every game in a PGN file. A game with a syntax error keeps the moves
+ * read before it and carries an `error` with the line and column; parsing
+ * resumes at the next game's tag section.
+ */
+export function parsePgnGames(text: string): PgnGame[] {
+  const cursor: Cursor = { tokens: tokenizePgn(text), pos: 0 }
+  const games: PgnGame[] = []
+  const starts: number[] = []
+
+  while (cursor.pos < cursor.tokens.length) {
+    const start = cursor.pos
+    const game = parseGame(cursor)
+
+    if (game.error) {
+      // Skip ahead to the next tag section
+      cursor.pos = Math.max(cursor.pos, start + 1)
+      while (
+        cursor.pos < cursor.tokens.length &&
+        !(cursor.tokens[cursor.pos].type === 'tagOpen' && cursor.tokens[cursor.pos - 1]?.type !== 'tagClose')
+      ) {
+        cursor.pos++
+      }
+    }
+
+    games.push(game)
+    starts.push(cursor.tokens[start].offset)
+  }
+
+  // Keep each game's own source text
+  games.forEach((game, index) => {
+    game.pgn = text.slice(starts[index], starts[index + 1] ?? text.length).trim()
+  })
+
+  return games
+}
+
+/**
+ * Parse the first game of a PGN. See `parsePgnGames` for error handling.
+ */
+export function parsePgn(text: string): PgnGame {
+  return parsePgnGames(text)[0] || emptyGame(text)
+}
+
+/**
+ * All errors in a parsed file, with the game they belong to
+ */
+export function collectPgnErrors(games: PgnGame[]): (PgnError & { game: number })[] {
+  return games.flatMap((game, index) => (game.error ? [{ ...game.error, game: index }] : []))
+}
@@ -0,0 +1,133 @@
+import type { ParsedMove, PgnGame } from '../types/chess'
+import { formatCommands } from './commands'
+import { STANDARD_START_FEN } from './parser'
+
+// The Seven Tag Roster comes first, in this order
+const ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result']
+
+interface SerializeOptions {
+  maxWidth?: number
+}
+
+type SerializableGame = Pick<PgnGame, 'headers' | 'moves'> & Partial<Pick<PgnGame, 'result' | 'comment' | 'startFen'>>
+
+function escapeTag(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+}
+
+// Comments can't contain a closing brace
+function commentToken(text: string) {
+  return `{${text.replace(/}/g, ')')}}`
+}
+
+function moveComment(move: ParsedMove): string {
+  const commands = move.clock !== undefined && move.commands?.clock === undefined
+    ? { ...move.commands, clock: move.clock }
+    : move.commands || {}
+  return [formatCommands(commands), move.comment].filter(Boolean).join(' ')
+}
+
+function lineTokens(moves: ParsedMove[], out: string[]) {
+  // Black moves need "N..." at the start of a line and after anything inserted between moves
+  let needNumber = true
+
+  moves.forEach((move, index) => {
+    if (index === 0 && move.commentBefore) {
+      out.push(commentToken(move.commentBefore))
+    }
+
+    if (move.turn === 'w') {
+      out.push(`${move.number}.`)
+    } else if (needNumber) {
+      out.push(`${move.number}...`)
+    }
+    out.push(move.san)
+    needNumber = false
+
+    for (const nag of move.nags || []) {
+      out.push(`$${nag}`)
+    }
+
+    const comment = moveComment(move)
+    if (comment) {
+      out.push(commentToken(comment))
+      needNumber = true
+    }
+
+    for (const variation of move.variations || []) {
+      if (variation.length === 0) continue
+      out.push('(')
+      lineTokens(variation, out)
+      out.push(')')
+      needNumber = true
+    }
+  })
+}
+
+function wrap(tokens: string[], maxWidth: number): string {
+  // Parentheses hug the token next to them
+  const words: string[] = []
+  let openParen = false
+  for (const token of tokens) {
+    if (token === '(') {
+      openParen = true
+    } else if (token === ')') {
+      words[words.length - 1] += ')'
+    } else {
+      words.push(openParen ? `(${token}` : token)
+      openParen = false
+    }
+  }
+
+  const lines: string[] = []
+  let current = ''
+  for (const word of words) {
+    if (current && current.length + 1 + word.length > maxWidth) {
+      lines.push(current)
+      current = word
+    } else {
+      current = current ? `${current} ${word}` : word
+    }
+  }
+  if (current) lines.push(current)
+
+  return lines.join('\n')
+}
+
+/**
+ * Write a game back to PGN export format, including variations, NAGs,
+ * comments and their embedded commands
+ */
+export function serializePgn(game: SerializableGame, { maxWidth = 80 }: SerializeOptions = {}): string {
+  const result = game.result || game.headers.Result || '*'
+  const headers: Record<string, string | undefined> = { ...game.headers, Result: result }
+
+  if (game.startFen && game.startFen !== STANDARD_START_FEN && !headers.FEN) {
+    headers.SetUp = '1'
+    headers.FEN = game.startFen
+  }
+
+  const tagNames = [
+    ...ROSTER.filter(name => headers[name] !== undefined),
+    ...Object.keys(headers).filter(name => !ROSTER.includes(name)),
+  ]
+  const tagSection = tagNames
+    .filter(name => headers[name] !== undefined)
+    .map(name => `[${name} "${escapeTag(headers[name]!)}"]`)
+    .join('\n')
+
+  const tokens: string[] = []
+  if (game.comment) tokens.push(commentToken(game.comment))
+  lineTokens(game.moves, tokens)
+  tokens.push(result)
+
+  const movetext = wrap(tokens, maxWidth)
+  return tagSection ? `${tagSection}\n\n${movetext}` : movetext
+}
+
+/**
+ * Write several games as one PGN file
+ */
+export function serializePgnGames(games: SerializableGame[], options?: SerializeOptions): string {
+  return games.map(game => serializePgn(game, options)).join('\n\n') + '\n'
+}
@@ -0,0 +1,166 @@
+export type PgnTokenType =
+  | 'tagOpen' // [
+  | 'tagClose' // ]
+  | 'string'
+  | 'symbol' // SAN, move numbers, results, tag names
+  | 'period'
+  | 'asterisk'
+  | 'nag' // $n or a suffix like !?
+  | 'comment'
+  | 'variationOpen' // (
+  | 'variationClose' // )
+  | 'invalid' // unreadable text; the value says why
+
+export interface PgnToken {
+  type: PgnTokenType
+  value: string
+  offset: number
+  line: number
+  column: number
+}
+
+// Move suffixes and the NAG each one stands for
+export const SUFFIX_NAGS: Record<string, number> = {
+  '!': 1,
+  '?': 2,
+  '!!': 3,
+  '??': 4,
+  '!?': 5,
+  '?!': 6,
+}
+
+const PUNCTUATION: Record<string, PgnTokenType> = {
+  '[': 'tagOpen',
+  ']': 'tagClose',
+  '(': 'variationOpen',
+  ')': 'variationClose',
+  '.': 'period',
+  '*': 'asterisk',
+}
+
+const SYMBOL_CHAR = /[A-Za-z0-9_+#=:\-/]/
+
+/**
+ * Split PGN text into tokens, keeping the 1-based line and column of each.
+ * Text that can't be read becomes an `invalid` token so the parser can
+ * report it and move on to the next game.
+ */
+export function tokenizePgn(text: string): PgnToken[] {
+  const tokens: PgnToken[] = []
+  let index = 0
+  let line = 1
+  let column = 1
+
+  const advance = (count = 1) => {
+    for (let i = 0; i < count; i++) {
+      if (text[index] === '\n') {
+        line++
+        column = 1
+      } else {
+        column++
+      }
+      index++
+    }
+  }
+
+  // Where the token being read starts
+  let start = { offset: 0, line: 1, column: 1 }
+  const push = (type: PgnTokenType, value: string) => {
+    tokens.push({ type, value, ...start })
+  }
+
+  while (index < text.length) {
+    const char = text[index]
+    start = { offset: index, line, column }
+
+    if (/\s/.test(char)) {
+      advance()
+      continue
+    }
+
+    // Escape lines and rest-of-line comments
+    if ((char === '%' && column === 1) || char === ';') {
+      while (index < text.length && text[index] !== '\n') advance()
+      continue
+    }
+
+    if (char === '{') {
+      const end = text.indexOf('}', index + 1)
+      if (end === -1) {
+        advance(text.length - index)
+        push('invalid', 'Unterminated comment')
+        continue
+      }
+      const value = text.slice(index + 1, end)
+      advance(end - index + 1)
+      push('comment', value)
+      continue
+    }
+
+    if (char === '"') {
+      let value = ''
+      advance()
+      while (index < text.length && text[index] !== '"' && text[index] !== '\n') {
+        if (text[index] === '\\' && index + 1 < text.length) {
+          advance()
+        }
+        value += text[index]
+        advance()
+      }
+      if (text[index] !== '"') {
+        push('invalid', 'Unterminated string')
+        continue
+      }
+      advance()
+      push('string', value)
+      continue
+    }
+
+    if (char === '$') {
+      let value = ''
+      advance()
+      while (index < text.length && /\d/.test(text[index])) {
+        value += text[index]
+        advance()
+      }
+      push(value ? 'nag' : 'invalid', value || 'Expected a number after $')
+      continue
+    }
+
+    if (char === '!' || char === '?') {
+      let value = ''
+      while (index < text.length && (text[index] === '!' || text[index] === '?')) {
+        value += text[index]
+        advance()
+      }
+      const nag = SUFFIX_NAGS[value]
+      if (nag === undefined) {
+        push('invalid', `Unknown move suffix "${value}"`)
+      } else {
+        push('nag', String(nag))
+      }
+      continue
+    }
+
+    if (PUNCTUATION[char]) {
+      advance()
+      push(PUNCTUATION[char], char)
+      continue
+    }
+
+    if (SYMBOL_CHAR.test(char)) {
+      let value = ''
+      while (index < text.length && SYMBOL_CHAR.test(text[index])) {
+        value += text[index]
+        advance()
+      }
+      push('symbol', value)
+      continue
+    }
+
+    advance()
+    push('invalid', `Unexpected character "${char}"`)
+  }
+
+  return tokens
+}
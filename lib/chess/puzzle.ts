@@ -0,0 +1,92 @@
+import { Chess, type Move } from 'chess.js'
+
+/**
+ * A puzzle's starting position and its solution. The solver is to move in
+ * `fen`, so their moves are at the even indexes of `solution` and the
+ * opponent's replies at the odd ones. Moves are SAN or UCI.
+ */
+export interface PuzzleLine {
+  fen: string
+  solution: string[]
+}
+
+export interface SolutionMove {
+  san: string
+  fen: string // position after the move
+}
+
+export type PuzzleMoveResult =
+  | { correct: false }
+  | {
+      correct: true
+      solved: boolean
+      // The opponent's answer, played straight away; null once the puzzle is solved
+      reply: SolutionMove | null
+    }
+
+const UCI_MOVE = /^[a-h][1-8][a-h][1-8][qrbn]?$/
+
+function playSolutionMove(game: Chess, move: string): Move {
+  if (UCI_MOVE.test(move)) {
+    return game.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] })
+  }
+  return game.move(move)
+}
+
+/**
+ * The solution as SAN with the position after each move. Stops at the
+ * first move that isn't legal, so a broken puzzle can't throw.
+ */
+export function solutionLine(puzzle: PuzzleLine): SolutionMove[] {
+  const game = new Chess(puzzle.fen)
+  const line: SolutionMove[] = []
+
+  for (const move of puzzle.solution) {
+    try {
+      const played = playSolutionMove(game, move)
+      line.push({ san: played.san, fen: game.fen() })
+    } catch {
+      break
+    }
+  }
+
+  return line
+}
+
+/**
+ * Check the solver's move at `ply` of the solution (an even index). The
+ * solution's move is correct, and so is any other move that mates.
+ */
+export function checkPuzzleMove(puzzle: PuzzleLine, ply: number, san: string): PuzzleMoveResult {
+  const line = solutionLine(puzzle)
+  if (ply % 2 !== 0 || ply >= line.length) return { correct: false }
+
+  const game = new Chess(ply === 0 ? puzzle.fen : line[ply - 1].fen)
+  let played: Move
+  try {
+    played = game.move(san)
+  } catch {
+    return { correct: false }
+  }
+
+  if (played.san !== line[ply].san) {
+    return game.isCheckmate() ? { correct: true, solved: true, reply: null } : { correct: false }
+  }
+
+  const reply = line[ply + 1] ?? null
+  // A solution that ends on the opponent's move is solved once they play it
+  const solved = game.isCheckmate() || ply + 2 >= line.length
+  return { correct: true, solved, reply: game.isCheckmate() ? null : reply }
+}
+
+/**
+ * Whether the solver's moves, in order, solve the puzzle
+ */
+export function isPuzzleSolved(puzzle: PuzzleLine, moves: string[]): boolean {
+  for (let i = 0; i < moves.length; i++) {
+    const result = checkPuzzleMove(puzzle, i * 2, moves[i])
+    if (!result.correct) return false
+    if (result.solved) return i === moves.length - 1
+  }
+  return false
+}
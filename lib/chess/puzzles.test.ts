@@ -0,0 +1,76 @@
+import { Prisma } from '@prisma/client'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { recordAttempt } from './puzzles'
+
+interface Attempt { userId: string; puzzleId: string; attempts: number }
+
+// Writes only run when awaited or inside $transaction, like Prisma's lazy promises
+const { db, lazy } = vi.hoisted(() => ({
+  db: { attempts: [] as Attempt[], profileWrites: 0 },
+  lazy: <T>(run: () => T) => ({
+    then(resolve: (value: T) => void, reject: (error: unknown) => void) {
+      try {
+        resolve(run())
+      } catch (error) {
+        reject(error)
+      }
+    },
+  }),
+}))
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    puzzle: {
+      findUnique: async () => ({ fen: '6k1/5ppp/8/8/8/8/5PPP/R5K1 w - - 0 1', solution: ['Ra8#'], rating: 1500 }),
+    },
+    puzzleAttempt: {
+      count: async ({ where }: { where: { userId: string; puzzleId: string } }) =>
+        db.attempts.filter(a => a.userId === where.userId && a.puzzleId === where.puzzleId).length,
+      create: ({ data }: { data: Attempt }) => lazy(() => {
+        if (db.attempts.some(a => a.userId === data.userId && a.puzzleId === data.puzzleId && a.attempts === data.attempts)) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+            code: 'P2002',
+            clientVersion: Prisma.prismaVersion.client,
+          })
+        }
+        db.attempts.push(data)
+        return data
+      }),
+    },
+    profile: {
+      findUnique: async () => null,
+      upsert: () => lazy(() => { db.profileWrites++ }),
+    },
+    $transaction: async (writes: PromiseLike<unknown>[]) => {
+      for (const write of writes) await write
+    },
+  },
+}))
+
+describe('recordAttempt', () => {
+  beforeEach(() => {
+    db.attempts = []
+    db.profileWrites = 0
+  })
+
+  it('rates only the first try', async () => {
+    const first = await recordAttempt('user1', 'puzzle1', ['Ra8#'], 5_000)
+    const second = await recordAttempt('user1', 'puzzle1', ['Ra8#'], 3_000)
+
+    expect(first).toMatchObject({ solved: true, attempts: 1, rated: true })
+    expect(first!.ratingChange).toBeGreaterThan(0)
+    expect(second).toMatchObject({ attempts: 2, rated: false, ratingChange: 0 })
+    expect(db.profileWrites).toBe(1)
+  })
+
+  it('rates a first try submitted twice at once only once', async () => {
+    const results = await Promise.all([
+      recordAttempt('user1', 'puzzle1', ['Ra8#'], 5_000),
+      recordAttempt('user1', 'puzzle1', ['Ra8#'], 5_000),
+    ])
+
+    expect(results.filter(result => result?.rated)).toHaveLength(1)
+    expect(results.map(result => result?.attempts).sort()).toEqual([1, 2])
+    expect(db.profileWrites).toBe(1)
+  })
+})
@@ -0,0 +1,145 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { DEFAULT_DEVIATION, DEFAULT_VOLATILITY, updateGlicko } from './glicko'
+import { isPuzzleSolved } from './puzzle'
+
+// Puzzle ratings are fixed, so they count as well established
+const PUZZLE_DEVIATION = 75
+
+// How far from the user's rating a puzzle is looked for, widening until one turns up
+const RATING_WINDOWS = [100, 200, 400, 800]
+
+const DEFAULT_RATING = 1200
+
+export interface NextPuzzle {
+  id: string
+  fen: string
+  solution: string[]
+  theme: string[]
+  difficulty: number
+  rating: number
+}
+
+export interface AttemptResult {
+  solved: boolean
+  attempts: number
+  // Only the first try at a puzzle changes the rating
+  rated: boolean
+  rating: number
+  ratingChange: number
+}
+
+const puzzleSelect = { id: true, fen: true, solution: true, theme: true, difficulty: true, rating: true }
+
+/**
+ * A random puzzle the user hasn't tried, as close to their tactical rating
+ * as possible, with that rating. The puzzle is null once they've tried them all.
+ */
+export async function nextPuzzle(userId: string): Promise<{ rating: number; puzzle: NextPuzzle | null }> {
+  const profile = await prisma.profile.findUnique({ where: { userId }, select: { tacticalRating: true } })
+  const rating = profile?.tacticalRating ?? DEFAULT_RATING
+
+  for (const window of [...RATING_WINDOWS, null]) {
+    const where = {
+      attempts: { none: { userId } },
+      ...(window !== null && { rating: { gte: rating - window, lte: rating + window } }),
+    }
+
+    const count = await prisma.puzzle.count({ where })
+    if (count === 0) continue
+
+    const puzzle = await prisma.puzzle.findFirst({
+      where,
+      select: puzzleSelect,
+      skip: Math.floor(Math.random() * count),
+    })
+    if (puzzle) return { rating, puzzle }
+  }
+
+  return { rating, puzzle: null }
+}
+
+/**
+ * Record a try at a puzzle from the solver's moves, checking them against
+ * the solution. The first try updates the user's Glicko-2 tactical rating
+ * as a game against the puzzle. Returns null when there's no such puzzle.
+ */
+export async function recordAttempt(
+  userId: string,
+  puzzleId: string,
+  moves: string[],
+  timeSpent: number
+): Promise<AttemptResult | null> {
+  const puzzle = await prisma.puzzle.findUnique({
+    where: { id: puzzleId },
+    select: { fen: true, solution: true, rating: true },
+  })
+  if (!puzzle) return null
+
+  const solved = isPuzzleSolved(puzzle, moves)
+
+  // A try recorded by a concurrent request (a double submit or a retry)
+  // takes its number first; this one is then recorded as the next try
+  for (let tries = 0; ; tries++) {
+    try {
+      return await saveAttempt(userId, puzzleId, puzzle.rating, solved, timeSpent)
+    } catch (error) {
+      const taken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+      if (!taken || tries >= 2) throw error
+    }
+  }
+}
+
+async function saveAttempt(
+  userId: string,
+  puzzleId: string,
+  puzzleRating: number,
+  solved: boolean,
+  timeSpent: number
+): Promise<AttemptResult> {
+  const [previous, profile] = await Promise.all([
+    prisma.puzzleAttempt.count({ where: { userId, puzzleId } }),
+    prisma.profile.findUnique({
+      where: { userId },
+      select: { tacticalRating: true, tacticalDeviation: true, tacticalVolatility: true },
+    }),
+  ])
+
+  const current = {
+    rating: profile?.tacticalRating ?? DEFAULT_RATING,
+    deviation: profile?.tacticalDeviation ?? DEFAULT_DEVIATION,
+    volatility: profile?.tacticalVolatility ?? DEFAULT_VOLATILITY,
+  }
+  const attempts = previous + 1
+  const attempt = prisma.puzzleAttempt.create({ data: { userId, puzzleId, solved, timeSpent, attempts } })
+
+  if (previous > 0) {
+    await attempt
+    return { solved, attempts, rated: false, rating: current.rating, ratingChange: 0 }
+  }
+
+  const updated = updateGlicko(current, { rating: puzzleRating, deviation: PUZZLE_DEVIATION }, solved ? 1 : 0)
+  const ratings = {
+    tacticalRating: Math.round(updated.rating),
+    tacticalDeviation: updated.deviation,
+    tacticalVolatility: updated.volatility,
+  }
+
+  // The attempt's unique number fails the whole transaction if another first try won
+  await prisma.$transaction([
+    attempt,
+    prisma.profile.upsert({
+      where: { userId },
+      create: { userId, ...ratings },
+      update: ratings,
+    }),
+  ])
+
+  return {
+    solved,
+    attempts,
+    rated: true,
+    rating: ratings.tacticalRating,
+    ratingChange: ratings.tacticalRating - current.rating,
+  }
+}
@@ -0,0 +1,129 @@
+import { positionKey } from './opening-tree'
+import type { RepertoireColor } from './repertoire'
+import type { ParsedMove } from './types/chess'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface DrillPosition {
+  fen: string
+  playerToMove: boolean
+  moves: Map<string, string> // SAN → FEN after the move
+}
+
+// Position key → the repertoire moves from it
+export type DrillGraph = Map<string, DrillPosition>
+
+export interface CardSchedule {
+  easeFactor: number
+  interval: number // days
+  repetitions: number
+}
+
+// Opponent replies in the user's own games: position key → SAN → games
+export type ReplyFrequencies = Record<string, Record<string, number>>
+
+/**
+ * Every position of a repertoire with the moves that leave it. Positions
+ * reached by transposition are merged.
+ */
+export function drillGraph(moves: ParsedMove[], startFen: string, color: RepertoireColor): DrillGraph {
+  const graph: DrillGraph = new Map()
+  const playerTurn = color === 'white' ? 'w' : 'b'
+
+  const walk = (line: ParsedMove[], fen: string) => {
+    let before = fen
+    for (const move of line) {
+      const key = positionKey(before)
+      let position = graph.get(key)
+      if (!position) {
+        position = { fen: before, playerToMove: before.split(' ')[1] === playerTurn, moves: new Map() }
+        graph.set(key, position)
+      }
+      position.moves.set(move.san, move.fen)
+
+      for (const variation of move.variations || []) walk(variation, before)
+      before = move.fen
+    }
+  }
+
+  walk(moves, startFen)
+  return graph
+}
+
+/**
+ * Positions the user is quizzed on: their turn, with a repertoire move to find
+ */
+export function trainingKeys(graph: DrillGraph): string[] {
+  return [...graph.entries()].filter(([, position]) => position.playerToMove).map(([key]) => key)
+}
+
+/**
+ * SM-2 grade for an answer: 5 for a quick correct move, down to 3 for a slow
+ * one, 1 for a wrong one
+ */
+export function answerQuality(correct: boolean, timeSpent?: number): number {
+  if (!correct) return 1
+  if (timeSpent === undefined || timeSpent < 5000) return 5
+  return timeSpent < 15000 ? 4 : 3
+}
+
+/**
+ * The next review of a card after an answer graded 0-5 (SM-2). A failed
+ * card starts over and comes back the next day.
+ */
+export function scheduleReview(card: CardSchedule, quality: number, now: Date = new Date()): CardSchedule & { dueAt: Date } {
+  const easeFactor = Math.max(1.3, card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+
+  let repetitions = 0
+  let interval = 1
+  if (quality >= 3) {
+    repetitions = card.repetitions + 1
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * easeFactor)
+  }
+
+  return { easeFactor, interval, repetitions, dueAt: new Date(now.getTime() + interval * DAY_MS) }
+}
+
+/**
+ * Whether a training position in `due` can be reached from `key`
+ */
+export function leadsToDue(graph: DrillGraph, key: string, due: Set<string>, seen: Set<string> = new Set()): boolean {
+  if (due.has(key)) return true
+  if (seen.has(key)) return false
+  seen.add(key)
+
+  const position = graph.get(key)
+  if (!position) return false
+  return [...position.moves.values()].some(fen => leadsToDue(graph, positionKey(fen), due, seen))
+}
+
+/**
+ * Pick the opponent's reply, heading for due positions when there are any.
+ * Replies are weighted by how often opponents played them against the
+ * user; moves they never played still come up now and then.
+ */
+export function pickReply(
+  graph: DrillGraph,
+  key: string,
+  due: Set<string>,
+  frequencies: ReplyFrequencies,
+  random: () => number = Math.random
+): string | null {
+  const position = graph.get(key)
+  if (!position || position.moves.size === 0) return null
+
+  const all = [...position.moves.entries()]
+  const towardDue = all.filter(([, fen]) => leadsToDue(graph, positionKey(fen), due))
+  const candidates = towardDue.length > 0 ? towardDue : all
+
+  const counts = frequencies[key] || {}
+  const weights = candidates.map(([san]) => (counts[san] || 0) + 1)
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+
+  let roll = random() * total
+  for (let i = 0; i < candidates.length; i++) {
+    roll -= weights[i]
+    if (roll < 0) return candidates[i][0]
+  }
+  return candidates[candidates.length - 1][0]
+}
@@ -0,0 +1,22 @@
+import { prisma } from '@/lib/db/prisma'
+import { loadOpeningLines } from './opening-explorer'
+import { parsePgn } from './pgn/parser'
+import { repertoireBook, repertoireReport, type RepertoireColor, type RepertoireReport } from './repertoire'
+
+/**
+ * Where the user's synced games with `color` left their repertoire.
+ * Returns null when they have no repertoire for that color.
+ */
+export async function userRepertoireReport(userId: string, color: RepertoireColor): Promise<RepertoireReport | null> {
+  const repertoire = await prisma.repertoire.findUnique({
+    where: { userId_color: { userId, color } },
+    select: { pgn: true },
+  })
+  if (!repertoire) return null
+
+  const parsed = parsePgn(repertoire.pgn)
+  if (parsed.moves.length === 0) return null
+
+  const book = repertoireBook(parsed.moves, parsed.startFen)
+  return repertoireReport(book, color, await loadOpeningLines(userId))
+}
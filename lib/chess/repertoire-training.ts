@@ -0,0 +1,139 @@
+import { prisma } from '@/lib/db/prisma'
+import { loadOpeningLines } from './opening-explorer'
+import { buildOpeningTree, filterOpeningLines, positionKey } from './opening-tree'
+import { parsePgn } from './pgn/parser'
+import type { RepertoireColor } from './repertoire'
+import {
+  answerQuality,
+  drillGraph,
+  scheduleReview,
+  trainingKeys,
+  type CardSchedule,
+  type ReplyFrequencies,
+} from './repertoire-drill'
+
+const NEW_CARD: CardSchedule = { easeFactor: 2.5, interval: 0, repetitions: 0 }
+
+export interface DrillCard {
+  positionKey: string
+  dueAt: Date
+  interval: number
+  repetitions: number
+  reviewedAt: Date | null
+}
+
+export interface Drill {
+  color: RepertoireColor
+  pgn: string
+  cards: DrillCard[]
+  replies: ReplyFrequencies
+}
+
+export interface ReviewResult {
+  correct: boolean
+  expected: string[]
+  card: DrillCard
+}
+
+async function loadGraph(userId: string, color: RepertoireColor) {
+  const repertoire = await prisma.repertoire.findUnique({
+    where: { userId_color: { userId, color } },
+    select: { pgn: true },
+  })
+  if (!repertoire) return null
+
+  const parsed = parsePgn(repertoire.pgn)
+  if (parsed.moves.length === 0) return null
+
+  return { pgn: repertoire.pgn, graph: drillGraph(parsed.moves, parsed.startFen, color) }
+}
+
+/**
+ * Everything the trainer needs for a repertoire: its moves, a card for each
+ * position the user is quizzed on, and how often opponents chose each reply
+ * in the user's games. Returns null when there's nothing to train.
+ */
+export async function loadDrill(userId: string, color: RepertoireColor): Promise<Drill | null> {
+  const loaded = await loadGraph(userId, color)
+  if (!loaded) return null
+  const { pgn, graph } = loaded
+
+  const keys = trainingKeys(graph)
+  if (keys.length === 0) return null
+
+  // Positions added to the repertoire since the last session become new cards, due now
+  await prisma.repertoireCard.createMany({
+    data: keys.map(key => ({ userId, color, positionKey: key })),
+    skipDuplicates: true,
+  })
+
+  // Cards of positions since removed from the repertoire are kept, in case they come back
+  const cards = await prisma.repertoireCard.findMany({
+    where: { userId, color, positionKey: { in: keys } },
+    select: { positionKey: true, dueAt: true, interval: true, repetitions: true, reviewedAt: true },
+    orderBy: { dueAt: 'asc' },
+  })
+
+  const tree = buildOpeningTree(filterOpeningLines(await loadOpeningLines(userId), { color }))
+  const replies: ReplyFrequencies = {}
+  for (const [key, position] of graph) {
+    if (position.playerToMove) continue
+    const node = tree.get(key)
+    if (!node) continue
+    replies[key] = Object.fromEntries([...node.moves].map(([san, stats]) => [san, stats.games]))
+  }
+
+  return { color, pgn, cards, replies }
+}
+
+/**
+ * Grade the user's move in a repertoire position and schedule the position's
+ * next review. Returns null when the position isn't one the user is quizzed on.
+ */
+export async function reviewPosition(
+  userId: string,
+  color: RepertoireColor,
+  fen: string,
+  san: string,
+  timeSpent?: number
+): Promise<ReviewResult | null> {
+  const loaded = await loadGraph(userId, color)
+  if (!loaded) return null
+
+  const key = positionKey(fen)
+  const position = loaded.graph.get(key)
+  if (!position || !position.playerToMove) return null
+
+  const correct = position.moves.has(san)
+  const quality = answerQuality(correct, timeSpent)
+  const where = { userId_color_positionKey: { userId, color, positionKey: key } }
+
+  const existing = await prisma.repertoireCard.findUnique({
+    where,
+    select: { easeFactor: true, interval: true, repetitions: true },
+  })
+  const now = new Date()
+  const schedule = { ...scheduleReview(existing ?? NEW_CARD, quality, now), reviewedAt: now }
+
+  const [card] = await prisma.$transaction([
+    prisma.repertoireCard.upsert({
+      where,
+      create: { userId, color, positionKey: key, ...schedule },
+      update: schedule,
+      select: { positionKey: true, dueAt: true, interval: true, repetitions: true, reviewedAt: true },
+    }),
+    prisma.repertoireReview.create({
+      data: {
+        user: { connect: { id: userId } },
+        card: { connect: where },
+        move: san,
+        correct,
+        quality,
+        timeSpent: timeSpent ?? null,
+        interval: schedule.interval,
+      },
+    }),
+  ])
+
+  return { correct, expected: [...position.moves.keys()], card }
+}
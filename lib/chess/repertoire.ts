@@ -0,0 +1,206 @@
+import { addMove, getMove, updateMove, type MovePath } from './move-tree'
+import { positionKey, type OpeningLine } from './opening-tree'
+import { STANDARD_START_FEN } from './pgn/parser'
+import { serializePgn } from './pgn/serializer'
+import type { ParsedMove } from './types/chess'
+
+export type RepertoireColor = 'white' | 'black'
+
+// Position key → the moves the repertoire plays or prepares for there
+export type RepertoireBook = Map<string, Set<string>>
+
+export interface RepertoireDeviation {
+  ply: number
+  moveNumber: number
+  fen: string // position before the move
+  san: string
+  expected: string[] // repertoire moves in that position
+  by: 'player' | 'opponent'
+}
+
+export interface RepertoireCheck {
+  plies: number // plies the game followed the repertoire for
+  deviation: RepertoireDeviation | null // null when the game ran past the end of the repertoire
+}
+
+export interface DeviationSummary {
+  moveNumber: number
+  fen: string
+  san: string
+  expected: string[]
+  by: 'player' | 'opponent'
+  games: number
+  lastPlayed: string
+  lastGameId: string
+}
+
+export interface RepertoireGameCheck extends RepertoireCheck {
+  gameId: string
+  date: string
+  outcome: string | null
+}
+
+export interface RepertoireReport {
+  color: RepertoireColor
+  games: number
+  followed: number // games that never left the repertoire
+  playerDeviations: number
+  opponentDeviations: number
+  positions: DeviationSummary[] // most common deviations first
+  recent: RepertoireGameCheck[] // newest first
+}
+
+// Games listed individually in a report
+const RECENT_GAMES = 50
+
+// Full FEN for a position key, so it can be shown on a board
+const keyToFen = (key: string) => `${key} 0 1`
+
+export function isRepertoireColor(value: unknown): value is RepertoireColor {
+  return value === 'white' || value === 'black'
+}
+
+/**
+ * The PGN a repertoire is stored and exported as
+ */
+export function serializeRepertoire(color: RepertoireColor, moves: ParsedMove[]): string {
+  const event = `${color === 'white' ? 'White' : 'Black'} repertoire`
+  return serializePgn({ headers: { Event: event }, moves, startFen: STANDARD_START_FEN })
+}
+
+/**
+ * Every move in a tree, by the position it is played from
+ */
+export function repertoireBook(moves: ParsedMove[], startFen: string): RepertoireBook {
+  const book: RepertoireBook = new Map()
+
+  const walk = (line: ParsedMove[], fen: string) => {
+    let before = fen
+    for (const move of line) {
+      const key = positionKey(before)
+      if (!book.has(key)) book.set(key, new Set())
+      book.get(key)!.add(move.san)
+
+      for (const variation of move.variations || []) walk(variation, before)
+      before = move.fen
+    }
+  }
+
+  walk(moves, startFen)
+  return book
+}
+
+/**
+ * Add every line of `source` to `target`. Moves already in the target keep
+ * their place and annotations; new moves become variations or extend lines.
+ * Moves that aren't legal where they land are skipped with the rest of their line.
+ */
+export function mergeMoveTrees(target: ParsedMove[], source: ParsedMove[], startFen: string): ParsedMove[] {
+  let tree = target
+
+  const addLine = (line: ParsedMove[], from: MovePath) => {
+    let path = from
+    for (const move of line) {
+      const before = path
+      const edit = addMove(tree, startFen, before, move.san)
+      if (!edit) return
+      tree = edit.moves
+      path = edit.path
+
+      const added = getMove(tree, path)!
+      if (!added.comment && move.comment) {
+        tree = updateMove(tree, path, existing => ({ ...existing, comment: move.comment, nags: move.nags }))
+      }
+
+      // Alternatives go in after the move, so the source's main line stays first
+      for (const variation of move.variations || []) addLine(variation, before)
+    }
+  }
+
+  addLine(source, [])
+  return tree
+}
+
+/**
+ * Follow a game's opening through the repertoire until a move isn't in it.
+ * A game that reaches a position the repertoire has no moves for has run
+ * past its end, which isn't a deviation.
+ */
+export function checkRepertoire(book: RepertoireBook, line: OpeningLine): RepertoireCheck {
+  const playerTurn = line.playerColor === 'white' ? 'w' : 'b'
+
+  for (let i = 0; i < line.plies.length; i++) {
+    const { key, san } = line.plies[i]
+    const expected = book.get(key)
+    if (!expected) return { plies: i, deviation: null }
+    if (expected.has(san)) continue
+
+    const turn = key.split(' ')[1]
+    return {
+      plies: i,
+      deviation: {
+        ply: i + 1,
+        moveNumber: Math.floor(i / 2) + 1,
+        fen: keyToFen(key),
+        san,
+        expected: [...expected],
+        by: turn === playerTurn ? 'player' : 'opponent',
+      },
+    }
+  }
+
+  return { plies: line.plies.length, deviation: null }
+}
+
+/**
+ * Check the user's games with one color against their repertoire, grouping
+ * deviations by the position and move they happened with
+ */
+export function repertoireReport(book: RepertoireBook, color: RepertoireColor, lines: OpeningLine[]): RepertoireReport {
+  const games = lines
+    .filter(line => line.playerColor === color)
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
+
+  const positions = new Map<string, DeviationSummary>()
+  const checks: RepertoireGameCheck[] = []
+  let playerDeviations = 0
+  let opponentDeviations = 0
+
+  for (const line of games) {
+    const check = checkRepertoire(book, line)
+    checks.push({ ...check, gameId: line.id, date: line.date.toISOString(), outcome: line.outcome })
+
+    const { deviation } = check
+    if (!deviation) continue
+    if (deviation.by === 'player') playerDeviations++
+    else opponentDeviations++
+
+    const id = `${deviation.fen}|${deviation.san}`
+    const summary = positions.get(id)
+    if (summary) {
+      summary.games++
+    } else {
+      // Games are newest first, so the first one seen was played last
+      positions.set(id, {
+        moveNumber: deviation.moveNumber,
+        fen: deviation.fen,
+        san: deviation.san,
+        expected: deviation.expected,
+        by: deviation.by,
+        games: 1,
+        lastPlayed: line.date.toISOString(),
+        lastGameId: line.id,
+      })
+    }
+  }
+
+  return {
+    color,
+    games: games.length,
+    followed: games.length - playerDeviations - opponentDeviations,
+    playerDeviations,
+    opponentDeviations,
+    positions: [...positions.values()].sort((a, b) => b.games - a.games),
+    recent: checks.slice(0, RECENT_GAMES),
+  }
+}
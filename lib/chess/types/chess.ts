@@ -33,7 +33,17 @@ export type GameResult = 'white' | 'black' | 'draw' | '*'
 export interface PgnGame {
   pgn: string
   headers: PgnHeaders
-  moves: ParsedMove[]
+  moves: ParsedMove[] // mainline
+  startFen: string
+  result: string
+  comment?: string // comment before the first move
+  error?: PgnError // set when parsing stopped early; `moves` holds what was read
+}
+
+export interface PgnError {
+  message: string
+  line: number
+  column: number
 }
 
 export interface PgnHeaders {
@@ -50,15 +60,56 @@ export interface PgnHeaders {
   ECO?: string
   Opening?: string
   Termination?: string
+  SetUp?: string
+  FEN?: string
+  [tag: string]: string | undefined
+}
+
+export interface PgnArrow {
+  from: string
+  to: string
+  color: string // PGN color letter: G, R, Y or B
+}
+
+export interface PgnHighlight {
+  square: string
+  color: string
+}
+
+/**
+ * Embedded commands from a move's comment, e.g. [%clk 0:04:59] or [%cal Ge2e4]
+ */
+export interface PgnCommands {
+  clock?: number // seconds
+  eval?: { cp?: number; mate?: number; depth?: number } // cp in pawns
+  arrows?: PgnArrow[]
+  highlights?: PgnHighlight[]
 }
 
 export interface ParsedMove {
   number: number
   turn: 'w' | 'b'
   san: string
-  fen: string
+  fen: string // position after the move
   comment?: string
-  variation?: ParsedMove[]
+  commentBefore?: string // comment opening a variation, before its first move
+  nags?: number[]
+  commands?: PgnCommands
+  clock?: number // seconds left after the move, from a [%clk] comment
+  variations?: ParsedMove[][] // alternatives to this move
+}
+
+export interface MoveEvaluation {
+  ply: number
+  fen: string
+  san: string
+  uci: string
+  cp: number | null
+  mate: number | null
+  bestMove: string
+  pv: string[]
+  depth: number
+  classification: string
 }
 
 export interface MoveValidation {
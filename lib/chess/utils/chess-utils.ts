@@ -1,5 +1,5 @@
 import { Chess, Move, Square } from 'chess.js'
-import type { GameMove, PgnGame, PgnHeaders, ParsedMove, MoveValidation, GameState } from '../types/chess'
+import type { GameMove, MoveValidation, GameState, MoveEvaluation } from '../types/chess'
 
 /**
  * Create a new chess game instance
@@ -109,119 +109,6 @@ export function getTurn(game: Chess): 'w' | 'b' {
   return game.turn() as 'w' | 'b'
 }
 
-/**
- * Parse PGN string into structured data
- */
-export function parsePgn(pgn: string): PgnGame {
-  const lines = pgn.split('\n')
-  const headers: PgnHeaders = {}
-  const moves: ParsedMove[] = []
-  
-  let currentLine = 0
-  
-  // Parse headers
-  while (currentLine < lines.length) {
-    const line = lines[currentLine].trim()
-    if (line.startsWith('[') && line.endsWith(']')) {
-      const match = line.match(/\[(\w+)\s+"([^"]*)"\]/)
-      if (match) {
-        headers[match[1] as keyof PgnHeaders] = match[2]
-      }
-      currentLine++
-    } else {
-      break
-    }
-  }
-  
-  // Parse moves
-  const moveText = lines.slice(currentLine).join(' ').trim()
-  const moveRegex = /(?:\{[^}]*\}|\([^)]*\)|\d+\.+|O-O(?:-O)?|[^0-9\s\{\}\(\)]+(?:\=[^ ]+)?|[\d-]+)/g
-  const tokens = moveText.match(moveRegex) || []
-  
-  let moveNumber = 1
-  let turn: 'w' | 'b' = 'w'
-  let fen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
-  const game = new Chess()
-  
-  for (const token of tokens) {
-    // Skip comments and move numbers
-    if (token.startsWith('{') || token.startsWith('(') || /^\d+\.$/.test(token)) {
-      continue
-    }
-    
-    const cleanToken = token.replace(/\{[^}]*\}/g, '').trim()
-    if (!cleanToken || cleanToken === '1-0' || cleanToken === '0-1' || cleanToken === '1/2-1/2' || cleanToken === '*') {
-      continue
-    }
-    
-    try {
-      game.move(cleanToken)
-      fen = game.fen()
-      
-      moves.push({
-        number: moveNumber,
-        turn,
-        san: cleanToken,
-        fen,
-      })
-      
-      if (turn === 'w') {
-        turn = 'b'
-      } else {
-        turn = 'w'
-        moveNumber++
-      }
-    } catch {
-      // Invalid move, skip
-    }
-  }
-  
-  return { pgn, headers, moves }
-}
-
-/**
- * Generate PGN from game state
- */
-export function generatePgn(
-  headers: PgnHeaders,
-  moves: { san: string; comment?: string }[]
-): string {
-  let pgn = ''
-  
-  // Add headers
-  for (const [key, value] of Object.entries(headers)) {
-    if (value) {
-      pgn += `[${key} "${value}"]\n`
-    }
-  }
-  pgn += '\n'
-  
-  // Add moves
-  let moveNumber = 1
-  for (let i = 0; i < moves.length; i++) {
-    const move = moves[i]
-    
-    if (i % 2 === 0) {
-      // White's move
-      pgn += `${moveNumber}. ${move.san}`
-    } else {
-      // Black's move
-      pgn += ` ${move.san} `
-    }
-    
-    if (move.comment) {
-      pgn += ` {${move.comment}}`
-    }
-    
-    // Add newline every 8 moves for white
-    if (i % 16 === 15) {
-      pgn += '\n'
-    }
-  }
-  
-  return pgn.trim()
-}
-
 /**
  * Convert SAN to FEN-compatible move
  */
@@ -407,3 +294,36 @@ export function getMaterialCount(game: Chess): { white: number; black: number }
   return { white, black }
 }
 
+/**
+ * Convert a stored move evaluation to pawns from white's point of view
+ */
+export function evaluationInPawns(evaluation: Pick<MoveEvaluation, 'cp' | 'mate'>): number {
+  if (evaluation.mate !== null) {
+    return evaluation.mate > 0 ? 100 : -100
+  }
+  return (evaluation.cp ?? 0) / 100
+}
+
+/**
+ * Convert a line of UCI moves (as reported by the engine) to SAN.
+ * Stops at the first move that isn't legal in the position.
+ */
+export function uciLineToSan(fen: string, uciMoves: string[]): string[] {
+  const game = new Chess(fen)
+  const san: string[] = []
+
+  for (const uci of uciMoves) {
+    try {
+      const move = game.move({
+        from: uci.slice(0, 2),
+        to: uci.slice(2, 4),
+        promotion: uci.length > 4 ? uci[4] : undefined,
+      })
+      san.push(move.san)
+    } catch {
+      break
+    }
+  }
+
+  return san
+}
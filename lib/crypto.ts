@@ -0,0 +1,29 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+
+// 32-byte key, base64. Falls back to one derived from the JWT secret for development.
+const ENCRYPTION_KEY = process.env.TOKEN_ENCRYPTION_KEY
+  ? Buffer.from(process.env.TOKEN_ENCRYPTION_KEY, 'base64')
+  : createHash('sha256').update(process.env.JWT_SECRET || 'your-secret-key-change-in-production').digest()
+
+/**
+ * Encrypt a secret for storage with AES-256-GCM, as "iv.tag.ciphertext" in base64url
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.')
+}
+
+/**
+ * Decrypt a value from `encryptSecret`. Throws if it was tampered with or
+ * encrypted with another key.
+ */
+export function decryptSecret(value: string): string {
+  const [iv, tag, ciphertext] = value.split('.').map(part => Buffer.from(part, 'base64url'))
+  if (!iv || !tag || !ciphertext) throw new Error('Malformed encrypted value')
+
+  const decipher = createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+}
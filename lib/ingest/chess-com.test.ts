@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { describe, expect, it, vi } from 'vitest'
+import type { ChessComGame } from '../api/chess-com'
+import { mapChessComGame } from './chess-com'
+
+// The mappers never touch the database
+vi.mock('../db/prisma', () => ({ prisma: {} }))
+
+const { games } = JSON.parse(
+  readFileSync(path.join(__dirname, 'fixtures', 'chess-com-archive.json'), 'utf8')
+) as { games: ChessComGame[] }
+
+describe('mapChessComGame', () => {
+  it('normalizes a win with clocks, opening and accuracy from the user\'s side', () => {
+    const record = mapChessComGame(games[0], 'TestUser')
+
+    expect(record).toMatchObject({
+      source: 'chesscom',
+      chesscomId: '11111111-aaaa-bbbb-cccc-000000000001',
+      result: '1-0',
+      termination: 'checkmate',
+      outcome: 'win',
+      playerColor: 'white',
+      opponent: 'Opponent1',
+      opponentRating: 1480,
+      timeControl: '180+2',
+      timeClass: 'blitz',
+      date: new Date('2024-03-17T12:00:00Z'),
+      accuracy: 91.5,
+    })
+    // The book names the opening even when the ECO header disagrees
+    expect(record).toMatchObject({ opening: 'Bishop\'s Opening', openingEco: 'C23' })
+    expect(record.openingPly).toBeGreaterThan(0)
+    expect(record.clocks).toEqual([181.5, 181, 179.8, 178, 177, 170.2, 175])
+  })
+
+  it('takes the result from the API codes and matches the username in any case', () => {
+    const record = mapChessComGame(games[1], 'TestUser')
+
+    expect(record).toMatchObject({
+      result: '0-1',
+      termination: 'timeout',
+      outcome: 'win',
+      playerColor: 'black',
+      opponent: 'Opponent2',
+      accuracy: null,
+    })
+    // Not every move has a clock, so none are kept
+    expect(record.clocks).toEqual([])
+  })
+
+  it('maps an agreed draw', () => {
+    const record = mapChessComGame(games[2], 'TestUser')
+
+    expect(record).toMatchObject({
+      result: '1/2-1/2',
+      termination: 'agreement',
+      outcome: 'draw',
+      timeClass: 'daily',
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import {
+  fetchChessComArchive,
+  getChessComArchives,
+  recentArchives,
+  type ChessComArchiveMonth,
+  type ChessComGame,
+  type MonthFailure,
+} from '../api/chess-com'
+import { toFetchFailure } from '../api/http'
+import { prisma } from '../db/prisma'
+import { parsePgn } from '../chess/pgn/parser'
+import { chessComResult, outcomeFor } from './results'
+import { clocksFromPgn, mapGames, openingFromPgn, type GameRecord } from './records'
+import { countWrites, existingChessComIds, writeGameRecords } from './store'
+
+// Games still finishing when a month ends (daily games especially) can land a little late
+const ARCHIVE_SETTLE_MS = 24 * 60 * 60 * 1000
+
+export interface ChessComSyncResult {
+  imported: number
+  failed: number
+  totalFound: number // games in the months that were downloaded
+  alreadyExisted: number
+  monthsChecked: number
+  monthsUnchanged: number // closed or not modified since the last sync
+  failures: MonthFailure[]
+}
+
+/**
+ * Normalize a game from the Chess.com archive API for the given account
+ */
+export function mapChessComGame(game: ChessComGame, username: string): GameRecord {
+  const isWhite = game.white.username.toLowerCase() === username.toLowerCase()
+  const playerColor = isWhite ? 'white' : 'black'
+  const opponent = isWhite ? game.black : game.white
+
+  // The API's own fields are authoritative; the PGN only adds opening and clocks
+  const parsed = game.pgn ? parsePgn(game.pgn) : null
+  const { result, termination } = chessComResult(game.white.result, game.black.result)
+
+  return {
+    source: 'chesscom',
+    chesscomId: game.uuid,
+    pgn: game.pgn,
+    result,
+    termination,
+    outcome: outcomeFor(result, playerColor),
+    playerColor,
+    opponent: opponent.username,
+    opponentRating: opponent.rating ?? null,
+    timeControl: game.time_control,
+    timeClass: game.time_class || null,
+    date: new Date(game.end_time * 1000),
+    ...openingFromPgn(parsed),
+    accuracy: game.accuracies ? (isWhite ? game.accuracies.white : game.accuracies.black) : null,
+    clocks: clocksFromPgn(parsed),
+  }
+}
+
+/**
+ * Whether a month was last synced after it was over, so it can't change
+ */
+function isSettled(archive: ChessComArchiveMonth, syncedAt: Date): boolean {
+  const monthEnd = Date.UTC(archive.year, archive.month, 1)
+  return syncedAt.getTime() >= monthEnd + ARCHIVE_SETTLE_MS
+}
+
+/**
+ * Sync a user's Chess.com games month by month from the archives list.
+ * Months synced after they ended are skipped, the rest are revalidated with
+ * the ETag / Last-Modified stored last time and only downloaded if they
+ * changed. A month's state is only saved once all its games are written,
+ * so failed months are retried on the next sync.
+ */
+export async function syncChessComArchives(
+  userId: string,
+  username: string,
+  { monthsBack = 'all' }: { monthsBack?: number | 'all' } = {}
+): Promise<ChessComSyncResult> {
+  const account = username.toLowerCase()
+  const archives = recentArchives(await getChessComArchives(username), monthsBack)
+
+  const stored = await prisma.chessComArchive.findMany({
+    where: { userId, username: account },
+  })
+  const storedByMonth = new Map(stored.map(state => [`${state.year}-${state.month}`, state]))
+
+  const result: ChessComSyncResult = {
+    imported: 0,
+    failed: 0,
+    totalFound: 0,
+    alreadyExisted: 0,
+    monthsChecked: archives.length,
+    monthsUnchanged: 0,
+    failures: [],
+  }
+
+  const syncMonth = async (archive: ChessComArchiveMonth) => {
+    const state = storedByMonth.get(`${archive.year}-${archive.month}`)
+    if (state && isSettled(archive, state.syncedAt)) {
+      result.monthsUnchanged++
+      return
+    }
+
+    const where = { userId_username_year_month: { userId, username: account, year: archive.year, month: archive.month } }
+    const fetched = await fetchChessComArchive(archive, state || {})
+    if (!fetched.changed) {
+      result.monthsUnchanged++
+      await prisma.chessComArchive.update({ where, data: { syncedAt: new Date() } })
+      return
+    }
+
+    const { games } = fetched
+    result.totalFound += games.length
+    const existing = await existingChessComIds(userId, games.map(game => game.uuid))
+    result.alreadyExisted += existing.size
+
+    const newGames = games.filter(game => !existing.has(game.uuid))
+    const { records, failed: unreadable } = mapGames(newGames, game => mapChessComGame(game, username))
+    const written = countWrites(await writeGameRecords(userId, records))
+    result.imported += written.imported
+    result.failed += written.failed + unreadable
+    if (written.failed > 0) return
+
+    const data = {
+      etag: fetched.etag,
+      lastModified: fetched.lastModified,
+      gameCount: games.length,
+      syncedAt: new Date(),
+    }
+    await prisma.chessComArchive.upsert({
+      where,
+      update: data,
+      create: { userId, username: account, year: archive.year, month: archive.month, ...data },
+    })
+  }
+
+  // The client limits how many months are fetched at once
+  const settled = await Promise.allSettled(archives.map(syncMonth))
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'rejected') {
+      const { year, month } = archives[i]
+      console.error(`Failed to sync games for ${year}-${month}:`, outcome.reason)
+      result.failures.push({ year, month, ...toFetchFailure(outcome.reason) })
+    }
+  })
+
+  return result
+}
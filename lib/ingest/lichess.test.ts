@@ -0,0 +1,73 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { describe, expect, it, vi } from 'vitest'
+import type { LichessGame } from '../api/lichess'
+import { mapLichessGame } from './lichess'
+
+// The mappers never touch the database
+vi.mock('../db/prisma', () => ({ prisma: {} }))
+
+const games = readFileSync(path.join(__dirname, 'fixtures', 'lichess-games.ndjson'), 'utf8')
+  .split('\n')
+  .filter(line => line.trim())
+  .map(line => JSON.parse(line) as LichessGame)
+
+const byId = (id: string) => games.find(game => game.id === id)!
+
+describe('mapLichessGame', () => {
+  it('normalizes a mate with clocks and the time control from the clock settings', () => {
+    const record = mapLichessGame(byId('mateWin1'), 'TestUser')
+
+    expect(record).toMatchObject({
+      source: 'lichess',
+      lichessId: 'mateWin1',
+      result: '1-0',
+      termination: 'checkmate',
+      outcome: 'win',
+      playerColor: 'white',
+      opponent: 'Opponent1',
+      opponentRating: 1550,
+      timeControl: '5+3',
+      timeClass: 'blitz',
+      date: new Date(1710676800000),
+      accuracy: null,
+    })
+    expect(record!.clocks).toEqual([300, 300, 298, 295, 291, 280, 290])
+  })
+
+  it('maps running out of time to a timeout', () => {
+    const record = mapLichessGame(byId('flagLoss'), 'TestUser')
+
+    expect(record).toMatchObject({
+      result: '1-0',
+      termination: 'timeout',
+      outcome: 'loss',
+      playerColor: 'black',
+      timeControl: '1+0',
+      timeClass: 'bullet',
+      clocks: [],
+    })
+  })
+
+  it('reads how a plain draw ended from the final position', () => {
+    const record = mapLichessGame(byId('repeatDraw'), 'TestUser')
+
+    expect(record).toMatchObject({
+      result: '1/2-1/2',
+      termination: 'repetition',
+      outcome: 'draw',
+      opponent: 'Anonymous',
+      opponentRating: 1500,
+    })
+  })
+
+  it('leaves an unfinished game without a result', () => {
+    const record = mapLichessGame(byId('ongoing1'), 'TestUser')
+
+    expect(record).toMatchObject({ result: '*', termination: null, outcome: null, timeControl: 'correspondence' })
+  })
+
+  it('skips games exported without a PGN', () => {
+    expect(mapLichessGame(byId('noPgn1'), 'TestUser')).toBeNull()
+  })
+})
@@ -0,0 +1,140 @@
+import { streamLichessGames, type LichessGame } from '../api/lichess'
+import { toFetchFailure, type FetchFailure } from '../api/http'
+import { prisma } from '../db/prisma'
+import { parsePgn } from '../chess/pgn/parser'
+import { lichessResult, outcomeFor } from './results'
+import { clocksFromPgn, mapGames, openingFromPgn, type GameRecord } from './records'
+import { countWrites, existingLichessIds, writeGameRecords } from './store'
+
+// Games held in memory at once while reading a stream
+const STREAM_CHUNK = 200
+
+export interface LichessImportResult {
+  imported: number
+  skipped: number // already imported
+  failed: number
+  error?: FetchFailure // the stream broke off; games read before it are still imported
+  // For a stream oldest first: the newest game such that it and every game
+  // before it are stored. Unset if none are.
+  storedUntil?: Date
+}
+
+/**
+ * Normalize a game from the Lichess export API for the given account.
+ * Games exported without a PGN can't be stored and map to null.
+ */
+export function mapLichessGame(game: LichessGame, username: string): GameRecord | null {
+  if (!game.pgn) return null
+
+  const isWhite = game.players.white.user?.name.toLowerCase() === username.toLowerCase()
+  const playerColor = isWhite ? 'white' : 'black'
+  const opponent = isWhite ? game.players.black : game.players.white
+
+  const parsed = parsePgn(game.pgn)
+  const { result, termination } = lichessResult(game.status, game.winner, parsed.error ? null : parsed)
+
+  return {
+    source: 'lichess',
+    lichessId: game.id,
+    pgn: game.pgn,
+    result,
+    termination,
+    outcome: outcomeFor(result, playerColor),
+    playerColor,
+    opponent: opponent.user?.name || 'Anonymous',
+    opponentRating: opponent.rating ?? null,
+    timeControl: game.clock
+      ? `${Math.floor(game.clock.initial / 60)}+${game.clock.increment}`
+      : game.perf || game.speed,
+    timeClass: game.speed || null,
+    date: new Date(game.createdAt),
+    ...openingFromPgn(parsed),
+    accuracy: null,
+    clocks: clocksFromPgn(parsed),
+  }
+}
+
+/**
+ * Import games as they arrive from a Lichess export stream, a chunk at a
+ * time, skipping the ones the user already has. A failing stream ends the
+ * import with `error` set instead of throwing.
+ */
+export async function importLichessGames(
+  userId: string,
+  username: string,
+  games: AsyncIterable<LichessGame>
+): Promise<LichessImportResult> {
+  const result: LichessImportResult = { imported: 0, skipped: 0, failed: 0 }
+  let blocked = false
+
+  const importChunk = async (chunk: LichessGame[]) => {
+    const existing = await existingLichessIds(userId, chunk.map(game => game.id))
+    const newGames = chunk.filter(game => !existing.has(game.id))
+    result.skipped += chunk.length - newGames.length
+
+    const { records, failed } = mapGames(newGames, game => mapLichessGame(game, username))
+    const written = countWrites(await writeGameRecords(userId, records))
+    result.imported += written.imported
+    result.failed += failed + written.failed
+
+    // Unreadable games never will be, but failed writes are retried next time
+    if (written.failed > 0) blocked = true
+    if (!blocked) {
+      const newest = Math.max(...chunk.map(game => game.createdAt))
+      if (!result.storedUntil || newest > result.storedUntil.getTime()) result.storedUntil = new Date(newest)
+    }
+  }
+
+  let chunk: LichessGame[] = []
+  try {
+    for await (const game of games) {
+      chunk.push(game)
+      if (chunk.length >= STREAM_CHUNK) {
+        await importChunk(chunk)
+        chunk = []
+      }
+    }
+  } catch (error) {
+    console.error('Lichess game stream failed:', error)
+    result.error = toFetchFailure(error)
+  }
+  if (chunk.length > 0) await importChunk(chunk)
+
+  return result
+}
+
+/**
+ * Import the user's Lichess games played since the last sync, oldest first.
+ * The first sync of an account takes its whole history. The cursor only
+ * moves past games that were stored, so failed ones are retried next time.
+ */
+export async function syncLichessGames(
+  userId: string,
+  username: string,
+  token?: string | null
+): Promise<LichessImportResult> {
+  const account = username.toLowerCase()
+  const where = { userId_username: { userId, username: account } }
+  const cursor = await prisma.lichessSync.findUnique({ where, select: { lastGameAt: true } })
+
+  const result = await importLichessGames(
+    userId,
+    username,
+    streamLichessGames(username, {
+      since: cursor ? cursor.lastGameAt.getTime() + 1 : undefined,
+      sort: 'dateAsc',
+      token,
+    })
+  )
+
+  if (result.storedUntil) {
+    const data = { lastGameAt: result.storedUntil, syncedAt: new Date() }
+    await prisma.lichessSync.upsert({
+      where,
+      update: data,
+      create: { userId, username: account, ...data },
+    })
+  }
+
+  return result
+}
@@ -0,0 +1,58 @@
+import { prisma } from '@/lib/db/prisma'
+import { parsePgn } from '../chess/pgn/parser'
+import { openingFromPgn } from './records'
+
+const BACKFILL_BATCH_SIZE = 200
+
+const globalForOpenings = globalThis as unknown as {
+  openingBackfillRunning: boolean | undefined
+}
+
+/**
+ * Classify games stored before the opening book existed, in the background.
+ * Does nothing if a backfill is already running.
+ */
+export function startOpeningBackfill() {
+  if (globalForOpenings.openingBackfillRunning) return
+  globalForOpenings.openingBackfillRunning = true
+
+  backfillOpenings()
+    .then(count => {
+      if (count > 0) console.log(`Classified openings of ${count} games`)
+    })
+    .catch(error => console.error('Opening backfill failed:', error))
+    .finally(() => {
+      globalForOpenings.openingBackfillRunning = false
+    })
+}
+
+/**
+ * Set the opening of every game that hasn't been classified yet. Games whose
+ * PGN can't be read keep their header opening and are marked done with no
+ * book moves, so they aren't read again.
+ */
+export async function backfillOpenings(): Promise<number> {
+  let count = 0
+
+  while (true) {
+    const games = await prisma.game.findMany({
+      where: { openingPly: null },
+      select: { id: true, pgn: true, opening: true, openingEco: true },
+      take: BACKFILL_BATCH_SIZE,
+    })
+    if (games.length === 0) return count
+
+    for (const game of games) {
+      let data = { opening: game.opening, openingEco: game.openingEco, openingPly: 0 }
+      try {
+        const opening = openingFromPgn(parsePgn(game.pgn))
+        if (opening.openingPly) data = { ...opening, openingPly: opening.openingPly }
+      } catch (error) {
+        console.error(`Failed to classify opening of game ${game.id}:`, error)
+      }
+
+      await prisma.game.update({ where: { id: game.id }, data })
+      count++
+    }
+  }
+}
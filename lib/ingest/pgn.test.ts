@@ -0,0 +1,55 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { parsePgnGames } from '../chess/pgn/parser'
+import { mapPgnGame } from './pgn'
+
+const games = parsePgnGames(readFileSync(path.join(__dirname, 'fixtures', 'games.pgn'), 'utf8'))
+
+describe('mapPgnGame', () => {
+  it('fills the record from the headers', () => {
+    const record = mapPgnGame(games[0], { source: 'pgn', playerColor: 'black' })
+
+    expect(record).toMatchObject({
+      source: 'pgn',
+      result: '1-0',
+      termination: 'timeout',
+      outcome: 'loss',
+      playerColor: 'black',
+      opponent: 'Magnus Example',
+      opponentRating: 2100,
+      timeControl: '180+2',
+      timeClass: 'blitz',
+      date: new Date(Date.UTC(2023, 10, 4)),
+    })
+    expect(record.clocks).toEqual([180, 179, 178, 150])
+  })
+
+  it('lets the caller override the headers', () => {
+    const record = mapPgnGame(games[0], {
+      source: 'manual',
+      playerColor: 'white',
+      opponent: 'Test User',
+      opponentRating: null,
+      timeClass: null,
+    })
+
+    expect(record).toMatchObject({ outcome: 'win', opponent: 'Test User', opponentRating: null, timeClass: null })
+  })
+
+  it('takes the result of a game saved without one from its final position', () => {
+    const record = mapPgnGame(games[1], { source: 'pgn', playerColor: 'white' })
+
+    expect(record).toMatchObject({
+      result: '0-1',
+      termination: 'checkmate',
+      outcome: 'loss',
+      opponent: 'Friend',
+      opponentRating: null,
+      timeControl: '-',
+      timeClass: null,
+      date: new Date(Date.UTC(2023, 0, 1)),
+      clocks: [],
+    })
+  })
+})
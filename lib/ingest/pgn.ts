@@ -0,0 +1,53 @@
+import type { PgnGame } from '../chess/types/chess'
+import { parsePgnDate, timeClassFromTimeControl } from '../chess/pgn/import'
+import { isPgnResult, outcomeFor, resultFromPosition, terminationFromPgn, type PgnResult } from './results'
+import { clocksFromPgn, openingFromPgn, type GameRecord } from './records'
+
+export interface PgnGameDetails {
+  source: 'pgn' | 'manual' | 'play'
+  playerColor: 'white' | 'black'
+  // Anything left out comes from the PGN headers
+  pgn?: string
+  result?: PgnResult
+  opponent?: string
+  opponentRating?: number | null
+  timeControl?: string
+  timeClass?: string | null
+  date?: Date
+  contentHash?: string
+}
+
+/**
+ * Normalize a parsed PGN game. Callers decide which side the user played;
+ * everything else defaults to the headers, then to the final position.
+ */
+export function mapPgnGame(game: PgnGame, details: PgnGameDetails): GameRecord {
+  const { playerColor } = details
+  const isWhite = playerColor === 'white'
+
+  let result = details.result ?? (isPgnResult(game.result) ? game.result : '*')
+  if (result === '*') result = resultFromPosition(game)
+
+  const opponentElo = parseInt((isWhite ? game.headers.BlackElo : game.headers.WhiteElo) || '')
+  const timeControl = details.timeControl || game.headers.TimeControl || '-'
+
+  return {
+    source: details.source,
+    contentHash: details.contentHash,
+    pgn: details.pgn ?? game.pgn,
+    result,
+    termination: result === '*' ? null : terminationFromPgn(game, result),
+    outcome: outcomeFor(result, playerColor),
+    playerColor,
+    opponent: details.opponent || (isWhite ? game.headers.Black : game.headers.White) || 'Unknown',
+    opponentRating: details.opponentRating !== undefined
+      ? details.opponentRating
+      : isNaN(opponentElo) ? null : opponentElo,
+    timeControl,
+    timeClass: details.timeClass !== undefined ? details.timeClass : timeClassFromTimeControl(timeControl),
+    date: details.date || parsePgnDate(game.headers.Date) || new Date(),
+    ...openingFromPgn(game),
+    accuracy: null,
+    clocks: clocksFromPgn(game),
+  }
+}
@@ -0,0 +1,83 @@
+import { classifyOpening } from '../chess/eco'
+import type { PgnGame } from '../chess/types/chess'
+import type { Outcome, PgnResult, Termination } from './results'
+
+export type GameSource = 'chesscom' | 'lichess' | 'pgn' | 'manual' | 'play'
+
+/**
+ * A game from any source, normalized before it is written. `result` is
+ * always a PGN result; `outcome` is the same result from the user's side.
+ */
+export interface GameRecord {
+  source: GameSource
+  chesscomId?: string
+  lichessId?: string
+  contentHash?: string
+
+  pgn: string
+  result: PgnResult
+  termination: Termination | null
+  outcome: Outcome | null
+  playerColor: 'white' | 'black'
+  opponent: string
+  opponentRating: number | null
+  timeControl: string
+  timeClass: string | null
+  date: Date
+  opening: string | null
+  openingEco: string | null
+  openingPly: number | null // plies in the opening book; 0 when no book position was reached
+  accuracy: number | null
+  clocks: number[] // seconds left after each ply; empty unless every move has one
+}
+
+export interface GameOpening {
+  opening: string | null
+  openingEco: string | null
+  openingPly: number | null
+}
+
+/**
+ * Name the opening after the deepest book position the game reached, falling
+ * back to the ECO and Opening headers for games that never reach one
+ */
+export function openingFromPgn(game: PgnGame | null): GameOpening {
+  if (!game) return { opening: null, openingEco: null, openingPly: null }
+
+  const book = classifyOpening(game.startFen, game.moves.map(move => move.fen))
+  if (book) return { opening: book.name, openingEco: book.eco, openingPly: book.ply }
+
+  return {
+    opening: game.headers.Opening || null,
+    openingEco: game.headers.ECO || null,
+    openingPly: 0,
+  }
+}
+
+export function clocksFromPgn(game: PgnGame | null): number[] {
+  if (!game || game.moves.length === 0) return []
+  return game.moves.every(move => move.clock !== undefined)
+    ? game.moves.map(move => move.clock!)
+    : []
+}
+
+/**
+ * Map a source's games, counting the ones that can't be read instead of
+ * failing the whole import. Games mapped to null are skipped.
+ */
+export function mapGames<T>(games: T[], map: (game: T) => GameRecord | null): { records: GameRecord[]; failed: number } {
+  const records: GameRecord[] = []
+  let failed = 0
+
+  for (const game of games) {
+    try {
+      const record = map(game)
+      if (record) records.push(record)
+    } catch (error) {
+      console.error('Failed to read game:', error)
+      failed++
+    }
+  }
+
+  return { records, failed }
+}
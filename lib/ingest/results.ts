@@ -0,0 +1,159 @@
+import { Chess } from 'chess.js'
+import type { PgnGame } from '../chess/types/chess'
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*'
+
+export type Outcome = 'win' | 'loss' | 'draw'
+
+export type Termination =
+  | 'checkmate'
+  | 'resignation'
+  | 'timeout'
+  | 'abandonment'
+  | 'repetition'
+  | 'agreement'
+  | 'fifty-move'
+  | 'insufficient'
+  | 'stalemate'
+
+export const TERMINATION_LABELS: Record<Termination, string> = {
+  checkmate: 'Checkmate',
+  resignation: 'Resignation',
+  timeout: 'Timeout',
+  abandonment: 'Abandonment',
+  repetition: 'Repetition',
+  agreement: 'Agreement',
+  'fifty-move': '50-move rule',
+  insufficient: 'Insufficient material',
+  stalemate: 'Stalemate',
+}
+
+export function isPgnResult(value: string | undefined): value is PgnResult {
+  return value === '1-0' || value === '0-1' || value === '1/2-1/2' || value === '*'
+}
+
+/**
+ * The game's result from the player's side; null while it is unfinished
+ */
+export function outcomeFor(result: PgnResult, playerColor: 'white' | 'black'): Outcome | null {
+  if (result === '1/2-1/2') return 'draw'
+  if (result === '1-0') return playerColor === 'white' ? 'win' : 'loss'
+  if (result === '0-1') return playerColor === 'black' ? 'win' : 'loss'
+  return null
+}
+
+// Chess.com reports a code per player; the loser's (or either side's, in a draw) says how it ended
+const CHESS_COM_TERMINATIONS: Record<string, Termination> = {
+  checkmated: 'checkmate',
+  resigned: 'resignation',
+  timeout: 'timeout',
+  abandoned: 'abandonment',
+  agreed: 'agreement',
+  repetition: 'repetition',
+  stalemate: 'stalemate',
+  insufficient: 'insufficient',
+  timevsinsufficient: 'insufficient',
+  '50move': 'fifty-move',
+}
+
+export function chessComResult(whiteCode: string, blackCode: string): { result: PgnResult; termination: Termination | null } {
+  if (whiteCode === 'win') {
+    return { result: '1-0', termination: CHESS_COM_TERMINATIONS[blackCode] ?? null }
+  }
+  if (blackCode === 'win') {
+    return { result: '0-1', termination: CHESS_COM_TERMINATIONS[whiteCode] ?? null }
+  }
+  return { result: '1/2-1/2', termination: CHESS_COM_TERMINATIONS[whiteCode] ?? null }
+}
+
+// Lichess "timeout" means a player left the game; running out of time is "outoftime"
+const LICHESS_TERMINATIONS: Record<string, Termination> = {
+  mate: 'checkmate',
+  resign: 'resignation',
+  outoftime: 'timeout',
+  timeout: 'abandonment',
+  stalemate: 'stalemate',
+}
+
+const LICHESS_FINISHED = ['mate', 'resign', 'outoftime', 'timeout', 'stalemate', 'draw', 'cheat', 'variantEnd']
+
+/**
+ * Result and termination from a Lichess game's status and winner. Plain
+ * "draw" covers several endings, so the final position decides those.
+ */
+export function lichessResult(
+  status: string,
+  winner: 'white' | 'black' | undefined,
+  game: PgnGame | null
+): { result: PgnResult; termination: Termination | null } {
+  if (!LICHESS_FINISHED.includes(status)) {
+    return { result: '*', termination: null }
+  }
+
+  const result: PgnResult = winner === 'white' ? '1-0' : winner === 'black' ? '0-1' : '1/2-1/2'
+  const termination = LICHESS_TERMINATIONS[status] ??
+    (status === 'draw' ? (game && terminationFromPosition(game)) || 'agreement' : null)
+  return { result, termination }
+}
+
+/**
+ * How the game ended if the final position shows it: mate, stalemate, or a
+ * draw by repetition, the 50-move rule or insufficient material
+ */
+export function terminationFromPosition(game: PgnGame): Termination | null {
+  const fens = [game.startFen, ...game.moves.map(move => move.fen)]
+  const chess = new Chess(fens[fens.length - 1])
+
+  if (chess.isCheckmate()) return 'checkmate'
+  if (chess.isStalemate()) return 'stalemate'
+  if (chess.isInsufficientMaterial()) return 'insufficient'
+
+  // Positions repeat when board, side to move, castling and en passant match
+  const key = (fen: string) => fen.split(' ').slice(0, 4).join(' ')
+  const last = key(fens[fens.length - 1])
+  if (fens.filter(fen => key(fen) === last).length >= 3) return 'repetition'
+
+  if (chess.isDrawByFiftyMoves()) return 'fifty-move'
+  return null
+}
+
+/**
+ * Termination of a PGN game from its final position, then its Termination
+ * header ("Time forfeit", "Carlsen won by resignation", ...)
+ */
+export function terminationFromPgn(game: PgnGame, result: PgnResult): Termination | null {
+  // Only trust the position when it agrees with the result, e.g. not a flag in a repeated position
+  const fromPosition = terminationFromPosition(game)
+  if (fromPosition && (fromPosition === 'checkmate') === (result !== '1/2-1/2')) return fromPosition
+
+  const header = (game.headers.Termination || '').toLowerCase()
+  if (/checkmate/.test(header)) return 'checkmate'
+  if (/resign/.test(header)) return 'resignation'
+  if (/abandon/.test(header)) return 'abandonment'
+  if (/time|flag/.test(header)) return 'timeout'
+  if (/repetition/.test(header)) return 'repetition'
+  if (/agree/.test(header)) return 'agreement'
+  if (/50|fifty/.test(header)) return 'fifty-move'
+  if (/insufficient/.test(header)) return 'insufficient'
+  if (/stalemate/.test(header)) return 'stalemate'
+
+  // "Normal" or no header: a decisive game that isn't mate was resigned
+  if ((header === '' || header === 'normal') && (result === '1-0' || result === '0-1')) {
+    return 'resignation'
+  }
+  if (header === 'normal' && result === '1/2-1/2') return 'agreement'
+  return null
+}
+
+/**
+ * Result implied by the final position, for games saved without one
+ */
+export function resultFromPosition(game: PgnGame): PgnResult {
+  const termination = terminationFromPosition(game)
+  if (!termination) return '*'
+  if (termination !== 'checkmate') return '1/2-1/2'
+
+  const fen = game.moves.length > 0 ? game.moves[game.moves.length - 1].fen : game.startFen
+  // The side to move is the one that was mated
+  return fen.split(' ')[1] === 'w' ? '0-1' : '1-0'
+}
@@ -0,0 +1,73 @@
+import { Prisma } from '@prisma/client'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { GameRecord } from './records'
+import { writeGameRecords } from './store'
+
+const { game } = vi.hoisted(() => ({
+  game: {
+    upsert: vi.fn(async () => ({ id: 'game1' })),
+    create: vi.fn(async () => ({ id: 'game1' })),
+  },
+}))
+
+vi.mock('../db/prisma', () => ({
+  prisma: {
+    game,
+    $transaction: (writes: Promise<unknown>[]) => Promise.all(writes),
+  },
+}))
+
+const record: GameRecord = {
+  source: 'chesscom',
+  chesscomId: 'uuid-1',
+  pgn: '[Result "1-0"]\n\n1. e4 e5 1-0',
+  result: '1-0',
+  termination: 'resignation',
+  outcome: 'win',
+  playerColor: 'white',
+  opponent: 'Opponent',
+  opponentRating: 1500,
+  timeControl: '180+2',
+  timeClass: 'blitz',
+  date: new Date('2024-03-17T12:00:00Z'),
+  opening: 'King\'s Pawn Game',
+  openingEco: 'C20',
+  openingPly: 2,
+  accuracy: 90,
+  clocks: [],
+}
+
+describe('writeGameRecords', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('keeps the stored PGN, and the annotations in it, when re-importing a game', async () => {
+    await expect(writeGameRecords('user1', [record], { upsert: true })).resolves.toEqual([{ id: 'game1' }])
+
+    const [args] = game.upsert.mock.calls[0] as unknown as [{ create: { pgn: string }; update: { pgn?: string; accuracy: number } }]
+    expect(args.create.pgn).toBe(record.pgn)
+    expect(args.update.pgn).toBeUndefined()
+    expect(args.update.accuracy).toBe(90)
+  })
+
+  it('does the same for Lichess games', async () => {
+    await writeGameRecords('user1', [{ ...record, source: 'lichess', chesscomId: undefined, lichessId: 'abc123' }], { upsert: true })
+
+    const [args] = game.upsert.mock.calls[0] as unknown as [{ where: unknown; update: { pgn?: string } }]
+    expect(args.where).toEqual({ userId_lichessId: { userId: 'user1', lichessId: 'abc123' } })
+    expect(args.update.pgn).toBeUndefined()
+  })
+
+  it('reports a game another write stored first as a duplicate', async () => {
+    const conflict = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: Prisma.prismaVersion.client,
+    })
+    game.create.mockRejectedValue(conflict)
+
+    const results = await writeGameRecords('user1', [{ ...record, source: 'pgn', chesscomId: undefined, contentHash: 'hash1' }])
+
+    expect(results).toEqual([{ error: 'Already imported', duplicate: true }])
+  })
+})
@@ -0,0 +1,132 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '../db/prisma'
+import type { GameRecord } from './records'
+
+// Keeps each transaction small enough not to hold locks for long
+const BATCH_SIZE = 50
+
+export interface WriteResult {
+  id?: string
+  error?: string
+  duplicate?: boolean // another write stored the same game first
+}
+
+interface WriteOptions {
+  // Update games already imported from Chess.com or Lichess instead of failing on them
+  upsert?: boolean
+}
+
+function toGameData(userId: string, record: GameRecord): Prisma.GameUncheckedCreateInput {
+  return {
+    userId,
+    pgn: record.pgn,
+    result: record.result,
+    pgnResult: record.result,
+    outcome: record.outcome,
+    termination: record.termination,
+    playerColor: record.playerColor,
+    opponent: record.opponent,
+    opponentRating: record.opponentRating,
+    timeControl: record.timeControl,
+    timeClass: record.timeClass,
+    date: record.date,
+    chesscomId: record.chesscomId ?? null,
+    lichessId: record.lichessId ?? null,
+    opening: record.opening,
+    openingEco: record.openingEco,
+    openingPly: record.openingPly,
+    accuracy: record.accuracy,
+    clocks: record.clocks,
+    contentHash: record.contentHash ?? null,
+  }
+}
+
+function writeOne(userId: string, record: GameRecord, { upsert = false }: WriteOptions) {
+  const data = toGameData(userId, record)
+  // Annotations the user saved live in `pgn`, so a re-import leaves it alone
+  const update = { ...data, pgn: undefined }
+  if (upsert && record.chesscomId) {
+    return prisma.game.upsert({
+      where: { chesscomId: record.chesscomId, userId },
+      update,
+      create: data,
+      select: { id: true },
+    })
+  }
+  if (upsert && record.lichessId) {
+    return prisma.game.upsert({
+      where: { userId_lichessId: { userId, lichessId: record.lichessId } },
+      update,
+      create: data,
+      select: { id: true },
+    })
+  }
+  return prisma.game.create({ data, select: { id: true } })
+}
+
+/**
+ * Write normalized games for a user, one transaction per batch. If a batch
+ * fails, its games are retried one by one so a single bad game doesn't take
+ * the others down with it. Results line up with `records`.
+ */
+export async function writeGameRecords(
+  userId: string,
+  records: GameRecord[],
+  options: WriteOptions = {}
+): Promise<WriteResult[]> {
+  const results: WriteResult[] = []
+
+  for (let i = 0; i < records.length; i += BATCH_SIZE) {
+    const batch = records.slice(i, i + BATCH_SIZE)
+
+    try {
+      const games = await prisma.$transaction(batch.map(record => writeOne(userId, record, options)))
+      results.push(...games.map(game => ({ id: game.id })))
+    } catch {
+      for (const record of batch) {
+        try {
+          const game = await writeOne(userId, record, options)
+          results.push({ id: game.id })
+        } catch (error) {
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            results.push({ error: 'Already imported', duplicate: true })
+            continue
+          }
+          console.error(`Failed to save ${record.source} game:`, error)
+          results.push({ error: error instanceof Error ? error.message : 'Failed to save game' })
+        }
+      }
+    }
+  }
+
+  return results
+}
+
+export function countWrites(results: WriteResult[]): { imported: number; failed: number } {
+  const imported = results.filter(result => result.id).length
+  return { imported, failed: results.length - imported }
+}
+
+/**
+ * Chess.com game ids the user already has, for skipping them during a sync
+ */
+export async function existingChessComIds(userId: string, ids: string[]): Promise<Set<string>> {
+  if (ids.length === 0) return new Set()
+  const games = await prisma.game.findMany({
+    where: { userId, chesscomId: { in: ids } },
+    select: { chesscomId: true },
+  })
+  return new Set(games.map(game => game.chesscomId).filter((id): id is string => !!id))
+}
+
+/**
+ * Lichess game ids the user already has
+ */
+export async function existingLichessIds(userId: string, ids: string[]): Promise<Set<string>> {
+  if (ids.length === 0) return new Set()
+  const games = await prisma.game.findMany({
+    where: { userId, lichessId: { in: ids } },
+    select: { lichessId: true },
+  })
+  return new Set(games.map(game => game.lichessId).filter((id): id is string => !!id))
+}
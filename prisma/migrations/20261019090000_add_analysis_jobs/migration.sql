@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "AnalysisJob" (
+    "id" TEXT NOT NULL,
+    "gameId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "depth" INTEGER NOT NULL,
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "totalMoves" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AnalysisJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AnalysisJob_status_createdAt_idx" ON "AnalysisJob"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AnalysisJob_gameId_idx" ON "AnalysisJob"("gameId");
+
+-- AddForeignKey
+ALTER TABLE "AnalysisJob" ADD CONSTRAINT "AnalysisJob_gameId_fkey" FOREIGN KEY ("gameId") REFERENCES "Game"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnalysisJob" ADD CONSTRAINT "AnalysisJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "MoveEvaluation" (
+    "id" TEXT NOT NULL,
+    "gameId" TEXT NOT NULL,
+    "ply" INTEGER NOT NULL,
+    "fen" TEXT NOT NULL,
+    "san" TEXT NOT NULL,
+    "uci" TEXT NOT NULL,
+    "cp" INTEGER,
+    "mate" INTEGER,
+    "bestMove" TEXT NOT NULL,
+    "pv" TEXT[],
+    "depth" INTEGER NOT NULL,
+    "classification" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MoveEvaluation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MoveEvaluation_gameId_ply_key" ON "MoveEvaluation"("gameId", "ply");
+
+-- AddForeignKey
+ALTER TABLE "MoveEvaluation" ADD CONSTRAINT "MoveEvaluation_gameId_fkey" FOREIGN KEY ("gameId") REFERENCES "Game"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "contentHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Game_userId_contentHash_key" ON "Game"("userId", "contentHash");
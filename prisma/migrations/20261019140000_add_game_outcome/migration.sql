@@ -0,0 +1,68 @@
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "outcome" TEXT,
+ADD COLUMN     "pgnResult" TEXT,
+ADD COLUMN     "termination" TEXT;
+
+-- Backfill: PGN results
+UPDATE "Game" SET "pgnResult" = "result"
+WHERE "result" IN ('1-0', '0-1', '1/2-1/2', '*');
+
+UPDATE "Game" SET "outcome" = CASE
+    WHEN "result" = '1/2-1/2' THEN 'draw'
+    WHEN ("result" = '1-0') = ("playerColor" = 'white') THEN 'win'
+    ELSE 'loss'
+  END
+WHERE "result" IN ('1-0', '0-1', '1/2-1/2');
+
+-- Backfill: Chess.com codes, stored from the user's side
+UPDATE "Game" SET "outcome" = CASE
+    WHEN "result" = 'win' THEN 'win'
+    WHEN "result" IN ('agreed', 'repetition', 'stalemate', 'insufficient', 'timevsinsufficient', '50move', 'draw', 'threefold', 'fifty') THEN 'draw'
+    ELSE 'loss'
+  END
+WHERE "pgnResult" IS NULL;
+
+UPDATE "Game" SET "pgnResult" = CASE
+    WHEN "outcome" = 'draw' THEN '1/2-1/2'
+    WHEN ("outcome" = 'win') = ("playerColor" = 'white') THEN '1-0'
+    ELSE '0-1'
+  END
+WHERE "pgnResult" IS NULL;
+
+UPDATE "Game" SET "termination" = CASE "result"
+    WHEN 'checkmated' THEN 'checkmate'
+    WHEN 'resigned' THEN 'resignation'
+    WHEN 'timeout' THEN 'timeout'
+    WHEN 'abandoned' THEN 'abandonment'
+    WHEN 'agreed' THEN 'agreement'
+    WHEN 'repetition' THEN 'repetition'
+    WHEN 'threefold' THEN 'repetition'
+    WHEN 'stalemate' THEN 'stalemate'
+    WHEN 'insufficient' THEN 'insufficient'
+    WHEN 'timevsinsufficient' THEN 'insufficient'
+    WHEN '50move' THEN 'fifty-move'
+    WHEN 'fifty' THEN 'fifty-move'
+  END;
+
+-- Backfill: Termination header for the rest ("Carlsen won by resignation", "Time forfeit", ...)
+UPDATE "Game" SET "termination" = CASE
+    WHEN "pgn" ~* '\[Termination "[^"]*checkmate' THEN 'checkmate'
+    WHEN "pgn" ~* '\[Termination "[^"]*resign' THEN 'resignation'
+    WHEN "pgn" ~* '\[Termination "[^"]*abandon' THEN 'abandonment'
+    WHEN "pgn" ~* '\[Termination "[^"]*insufficient' THEN 'insufficient'
+    WHEN "pgn" ~* '\[Termination "[^"]*(time|flag)' THEN 'timeout'
+    WHEN "pgn" ~* '\[Termination "[^"]*repetition' THEN 'repetition'
+    WHEN "pgn" ~* '\[Termination "[^"]*agree' THEN 'agreement'
+    WHEN "pgn" ~* '\[Termination "[^"]*(50|fifty)' THEN 'fifty-move'
+    WHEN "pgn" ~* '\[Termination "[^"]*stalemate' THEN 'stalemate'
+  END
+WHERE "termination" IS NULL;
+
+-- `result` holds the PGN result from now on
+UPDATE "Game" SET "result" = "pgnResult";
+
+-- CreateIndex
+CREATE INDEX "Game_userId_outcome_idx" ON "Game"("userId", "outcome");
+
+-- CreateIndex
+CREATE INDEX "Game_userId_termination_idx" ON "Game"("userId", "termination");
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "lichessUsername" TEXT,
+ADD COLUMN     "lichessVerified" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Game" ADD COLUMN     "lichessId" TEXT;
+
+-- Backfill: games already imported from Lichess carry their id in the Site header.
+-- Earlier imports weren't deduplicated, so only each user's first copy of a game gets it.
+UPDATE "Game" SET "lichessId" = "first"."lichessId"
+FROM (
+  SELECT DISTINCT ON ("userId", "lichessId") "id", "lichessId"
+  FROM (
+    SELECT "id", "userId", "createdAt", substring("pgn" from '\[Site "https://lichess\.org/([A-Za-z0-9]{8})') AS "lichessId"
+    FROM "Game"
+  ) AS "sites"
+  WHERE "lichessId" IS NOT NULL
+  ORDER BY "userId", "lichessId", "createdAt"
+) AS "first"
+WHERE "Game"."id" = "first"."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_lichessUsername_key" ON "User"("lichessUsername");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Game_userId_lichessId_key" ON "Game"("userId", "lichessId");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "User" ALTER COLUMN "password" DROP NOT NULL,
+ADD COLUMN     "lichessUserId" TEXT,
+ADD COLUMN     "lichessAccessToken" TEXT,
+ADD COLUMN     "lichessTokenExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_lichessUserId_key" ON "User"("lichessUserId");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ChessComArchive" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "month" INTEGER NOT NULL,
+    "etag" TEXT,
+    "lastModified" TEXT,
+    "gameCount" INTEGER NOT NULL DEFAULT 0,
+    "syncedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChessComArchive_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChessComArchive_userId_username_year_month_key" ON "ChessComArchive"("userId", "username", "year", "month");
+
+-- AddForeignKey
+ALTER TABLE "ChessComArchive" ADD CONSTRAINT "ChessComArchive_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
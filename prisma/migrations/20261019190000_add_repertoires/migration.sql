@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "Repertoire" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "pgn" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Repertoire_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Repertoire_userId_color_key" ON "Repertoire"("userId", "color");
+
+-- AddForeignKey
+ALTER TABLE "Repertoire" ADD CONSTRAINT "Repertoire_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "RepertoireCard" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "positionKey" TEXT NOT NULL,
+    "easeFactor" DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+    "interval" INTEGER NOT NULL DEFAULT 0,
+    "repetitions" INTEGER NOT NULL DEFAULT 0,
+    "dueAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RepertoireCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RepertoireReview" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "cardId" TEXT NOT NULL,
+    "move" TEXT NOT NULL,
+    "correct" BOOLEAN NOT NULL,
+    "quality" INTEGER NOT NULL,
+    "timeSpent" INTEGER,
+    "interval" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RepertoireReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RepertoireCard_userId_dueAt_idx" ON "RepertoireCard"("userId", "dueAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RepertoireCard_userId_color_positionKey_key" ON "RepertoireCard"("userId", "color", "positionKey");
+
+-- CreateIndex
+CREATE INDEX "RepertoireReview_userId_createdAt_idx" ON "RepertoireReview"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "RepertoireCard" ADD CONSTRAINT "RepertoireCard_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RepertoireReview" ADD CONSTRAINT "RepertoireReview_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RepertoireReview" ADD CONSTRAINT "RepertoireReview_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "RepertoireCard"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Profile" ADD COLUMN     "tacticalDeviation" DOUBLE PRECISION NOT NULL DEFAULT 350,
+ADD COLUMN     "tacticalVolatility" DOUBLE PRECISION NOT NULL DEFAULT 0.06;
+
+-- CreateIndex
+CREATE INDEX "PuzzleAttempt_userId_puzzleId_idx" ON "PuzzleAttempt"("userId", "puzzleId");
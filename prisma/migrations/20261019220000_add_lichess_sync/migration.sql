@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "LichessSync" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "lastGameAt" TIMESTAMP(3) NOT NULL,
+    "syncedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LichessSync_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LichessSync_userId_username_key" ON "LichessSync"("userId", "username");
+
+-- AddForeignKey
+ALTER TABLE "LichessSync" ADD CONSTRAINT "LichessSync_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AnalysisJob" ADD COLUMN     "heartbeatAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- Links made by username alone were never proven
+UPDATE "User" SET "lichessVerified" = false WHERE "lichessUserId" IS NULL;
+
+-- DropIndex
+DROP INDEX "User_lichessUsername_key";
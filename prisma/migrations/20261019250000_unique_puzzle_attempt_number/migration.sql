@@ -0,0 +1,13 @@
+-- Renumber tries that concurrent requests recorded with the same number
+UPDATE "PuzzleAttempt" AS a SET "attempts" = n."number"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "userId", "puzzleId" ORDER BY "createdAt", "id") AS "number"
+  FROM "PuzzleAttempt"
+) AS n
+WHERE a."id" = n."id" AND a."attempts" <> n."number";
+
+-- DropIndex
+DROP INDEX "PuzzleAttempt_userId_puzzleId_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PuzzleAttempt_userId_puzzleId_attempts_key" ON "PuzzleAttempt"("userId", "puzzleId", "attempts");
@@ -4,6 +4,8 @@ export interface User {
   username: string
   chesscomUsername?: string | null
   chesscomVerified: boolean
+  lichessUsername?: string | null
+  lichessVerified: boolean
   rating: number
   createdAt: Date
   updatedAt: Date
@@ -14,6 +16,7 @@ export interface RegisterData {
   username: string
   password: string
   chesscomUsername?: string
+  lichessUsername?: string
 }
 
 export interface LoginData {